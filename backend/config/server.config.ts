@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { HardwareMode } from '../types/hardware';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
@@ -17,6 +18,55 @@ export const serverConfig = {
   auth: {
     tokenExpiration: 3600, // 1 hour
     adminEmails: (process.env.ADMIN_EMAILS || '').split(',')
+  },
+  hardware: {
+    // 'simulated' runs the backend against a virtual Kitronik board
+    mode: (process.env.KITRONIK_HARDWARE || 'kitronik') as HardwareMode,
+    simulation: {
+      seed: process.env.SIMULATION_SEED ? Number(process.env.SIMULATION_SEED) : undefined,
+      timeScale: Number(process.env.SIMULATION_TIME_SCALE || 1)
+    }
+  },
+  devices: {
+    // Per-device services that go unused this long are disposed
+    idleTimeoutMs: Number(process.env.DEVICE_IDLE_TIMEOUT_MS || 30 * 60 * 1000)
+  },
+  outputs: {
+    // How long a manual override from the dashboard holds before automation takes back over
+    manualOverrideMs: Number(process.env.MANUAL_OVERRIDE_MS || 30 * 60 * 1000)
+  },
+  traces: {
+    // Recorded sensor traces, one subdirectory per device
+    directory: process.env.TRACE_DIR || path.resolve(__dirname, '../../traces')
+  },
+  notifications: {
+    // Linked from notifications so recipients can open the alert centre
+    appUrl: process.env.APP_URL || 'http://localhost:3000',
+    retry: {
+      attempts: Number(process.env.NOTIFY_RETRY_ATTEMPTS || 5),
+      // Doubles after each failed attempt, up to the maximum
+      baseDelayMs: Number(process.env.NOTIFY_RETRY_BASE_MS || 5000),
+      maxDelayMs: Number(process.env.NOTIFY_RETRY_MAX_MS || 10 * 60 * 1000)
+    },
+    // docker-compose runs Mailpit and Mosquitto as local stand-ins
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || 'Gusty Weather <alerts@localhost>'
+    },
+    mqtt: {
+      url: process.env.MQTT_URL,
+      username: process.env.MQTT_USERNAME,
+      password: process.env.MQTT_PASSWORD
+    },
+    webPush: {
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+      subject: process.env.VAPID_SUBJECT || 'mailto:alerts@localhost'
+    }
   }
 };
 
@@ -31,4 +81,8 @@ requiredEnvVars.forEach(envVar => {
   if (!process.env[envVar]) {
     throw new Error(`Missing required environment variable: ${envVar}`);
   }
-});
\ No newline at end of file
+});
+
+if (!['kitronik', 'simulated'].includes(serverConfig.hardware.mode)) {
+  throw new Error(`Invalid KITRONIK_HARDWARE value: ${serverConfig.hardware.mode}`);
+}
\ No newline at end of file
@@ -2,39 +2,33 @@ import { Request, Response } from 'express';
 import Joi from 'joi';
 import { InfluxDBService } from '../services/influxdb.service';
 import { KitronikService } from '../services/kitronik.service';
-import { SensorData } from '../types/sensor';
-import { validate } from '../lib/validation/decorators';
-import { SensorError } from '../lib/err/SensorError';
-import { DataValidation } from '../lib/validation/DataValidation';
-import { AirQualityCalculator } from '../../Kitronik5038Port/lib/AirQualityCalculation';
-import { KitronikOLED } from '../../Kitronik5038Port/lib/KitronikOLED';
-import { KitronikBuzzer } from '../../Kitronik5038Port/lib/KitronikBuzzer';
-import { KitronikZIPLEDs } from '../../Kitronik5038Port/lib/KitronikZIPLEDs';
-import { KitronikRTC } from '../../Kitronik5038Port/lib/KitronikRTC';
+import { SensorData, WeatherAlert } from '../types/sensor';
+import { KitronikError, SensorError } from '../utils/errorHandling';
+import { RealTimeClock } from '../types/hardware';
 import { BaselineService } from '../services/baseline.service';
 import { ValidationService } from '../services/validation.service';
 import { MonitoringService } from '../services/monitoring.service';
+import { DisplayService } from '../services/display.service';
+import { LEDAnimator } from '../services/led-animator.service';
+import { DeviceRequest } from '../middleware/device.middleware';
+
+const ALERT_RED = { r: 255, g: 0, b: 0 };
+const ALERT_ORANGE = { r: 255, g: 165, b: 0 };
 
 export class SensorController {
     private influxDBService: InfluxDBService;
     private kitronikService: KitronikService;
     private sensorDataSchema: Joi.ObjectSchema;
-    private airQualityCalc: AirQualityCalculator;
     private readingInterval: NodeJS.Timeout | null = null;
-    private oled: KitronikOLED;
-    private buzzer: KitronikBuzzer;
-    private rtc: KitronikRTC;
+    private rtc: RealTimeClock;
     private baselineService: BaselineService;
-    private validationService: ValidationService;
     private monitoringService: MonitoringService;
-    private zipLeds: KitronikZIPLEDs;
+    private ledAnimator: LEDAnimator;
+    private displayService: DisplayService;
 
-    constructor() {
+    constructor(kitronikService: KitronikService, monitoringService: MonitoringService, displayService: DisplayService) {
         this.influxDBService = new InfluxDBService();
-        this.kitronikService = new KitronikService({
-            iaqMode: 'static',
-            samplingInterval: 1000
-        });
+        this.kitronikService = kitronikService;
         this.sensorDataSchema = Joi.object({
             timestamp: Joi.date().iso().required(),
             temperature: Joi.number().required(),
@@ -45,54 +39,52 @@ export class SensorController {
             iaqScore: Joi.number().required(),
             eCO2Value: Joi.number().required(),
         });
-        this.airQualityCalc = new AirQualityCalculator();
-        this.oled = new KitronikOLED();
-        this.buzzer = new KitronikBuzzer();
-        this.rtc = new KitronikRTC();
-        this.baselineService = new BaselineService(this.influxDBService);
-        this.validationService = new ValidationService();
-        this.monitoringService = new MonitoringService();
-        this.zipLeds = new KitronikZIPLEDs();
+        // Peripherals come from the service's board so real and simulated hardware behave alike
+        const board = kitronikService.getBoard();
+        this.rtc = board.rtc;
+        this.baselineService = new BaselineService(this.influxDBService, displayService, board);
+        this.monitoringService = monitoringService;
+        this.ledAnimator = kitronikService.getLEDAnimator();
+        this.displayService = displayService;
         this.setupMonitoringEvents();
     }
 
     private setupMonitoringEvents(): void {
-        this.monitoringService.on('reading', async (reading) => {
+        this.monitoringService.on('reading', async (reading, meta?: { replayed?: boolean }) => {
             try {
-                await this.influxDBService.writeSensorReading(reading);
-                
-                // Update OLED display with latest reading
-                this.oled.clear();
-                this.oled.write(`T: ${reading.temperature.toFixed(1)}°C`, { row: 1 });
-                this.oled.write(`H: ${reading.humidity.toFixed(1)}%`, { row: 2 });
-                this.oled.write(`AQI: ${reading.airQualityIndex}`, { row: 3 });
-                this.oled.update();
+                // Replayed traces are already history, so don't store them again
+                if (!meta?.replayed) {
+                    await this.influxDBService.writeSensorReading(reading);
+                }
             } catch (error) {
                 console.error('Error handling sensor reading:', error);
             }
         });
 
-        this.monitoringService.on('alert', ({ type, value }) => {
-            // Visual and audio alert
-            this.buzzer.tone(880);
-            setTimeout(() => this.buzzer.noTone(), 200);
-            
-            this.zipLeds.setPixelColor(1, '#FF0000');
-            this.zipLeds.update();
-            
-            // Reset LED after 5 seconds
-            setTimeout(() => {
-                this.zipLeds.setPixelColor(1, '#00FF00');
-                this.zipLeds.update();
-            }, 5000);
+        this.monitoringService.on('alerts', (alerts: WeatherAlert[]) => {
+            const danger = alerts.some(alert => alert.level === 'danger');
+
+            // Flash the sensor status LED for 5 seconds, then its status colour shows through again
+            this.ledAnimator.play({
+                type: 'blink',
+                pixels: [1],
+                color: danger ? ALERT_RED : ALERT_ORANGE,
+                periodMs: danger ? 250 : 500,
+                durationMs: 5000
+            }, { id: 'alert', layer: 2 });
 
-            console.log(`Alert: ${type} = ${value}`);
+            alerts.forEach(alert => console.log(`Alert: ${alert.type} - ${alert.message}`));
         });
 
         this.monitoringService.on('error', (error) => {
             console.error('Monitoring error:', error);
-            this.zipLeds.setPixelColor(1, '#FFA500');
-            this.zipLeds.update();
+            this.ledAnimator.play({
+                type: 'pulse',
+                pixels: [1],
+                color: ALERT_ORANGE,
+                periodMs: 2000,
+                durationMs: 30000
+            }, { id: 'monitoring-error', layer: 1 });
         });
     }
 
@@ -137,15 +129,22 @@ export class SensorController {
     }
 
     // Add new method for direct sensor reading
-    @validate(DataValidation.validateSensorReading)
     public async readSensorData(req: Request, res: Response): Promise<void> {
         try {
-            const reading = await this.kitronikService.getSensorData();
-            this.validationService.validateEnvironmentalData(reading);
-            res.json(reading);
+            const reading = await this.kitronikService.readMeasurements();
+            // Held to what the loaded driver measures
+            ValidationService.validateMeasurements(reading.values, this.kitronikService.getCapabilities());
+            res.json({
+                ...reading.values,
+                ...reading.derived,
+                sensorModel: reading.sensorModel,
+                timestamp: reading.timestamp
+            });
         } catch (error) {
             if (error instanceof SensorError) {
                 res.status(400).json({ error: error.message });
+            } else if (error instanceof KitronikError) {
+                res.status(503).json({ error: error.message });
             } else {
                 res.status(500).json({ error: 'Internal server error' });
             }
@@ -168,8 +167,6 @@ export class SensorController {
     public async stopContinuousReading(_req: Request, res: Response): Promise<void> {
         try {
             await this.monitoringService.stopMonitoring();
-            this.oled.clear();
-            this.oled.update();
             res.json({ success: true });
         } catch (error) {
             res.status(500).json({ 
@@ -190,13 +187,26 @@ export class SensorController {
         }
     }
 
-    async getEnvironmentalData(_req: Request, res: Response) {
+    async getCapabilities(_req: Request, res: Response) {
+        try {
+            res.json(this.kitronikService.getCapabilities());
+        } catch (error) {
+            console.error('Error getting sensor capabilities:', error);
+            res.status(500).json({ error: 'Error getting sensor capabilities' });
+        }
+    }
+
+    async getEnvironmentalData(req: DeviceRequest, res: Response) {
         try {
-            const envData = await this.kitronikService.readEnvironmentalData();
-            await this.influxDBService.writeSensorData(envData);
+            const reading = await this.kitronikService.readMeasurements();
+            if (req.deviceInfo) {
+                await this.influxDBService.writeMeasurements(req.deviceInfo.id, reading);
+            }
             
             res.json({
-                data: envData,
+                data: { ...reading.values, ...reading.derived, timestamp: reading.timestamp },
+                capabilities: this.kitronikService.getCapabilities(),
+                iaq: this.kitronikService.getIAQ(),
                 status: this.kitronikService.getStatus(),
                 timestamp: new Date().toISOString()
             });
@@ -209,42 +219,10 @@ export class SensorController {
         }
     }
 
-    @validate(DataValidation.validateCalibrationRequest)
-    public async calibrateSensor(req: Request, res: Response): Promise<void> {
-        try {
-            this.validationService.validateCalibrationConfig(req.body);
-            const result = await this.kitronikService.calibrateSensor(req.body);
-            res.json(result);
-        } catch (error) {
-            if (error instanceof SensorError) {
-                res.status(400).json({ error: error.message });
-            } else {
-                res.status(500).json({ error: 'Calibration failed' });
-            }
-        }
-    }
-
-    public async setAlertThresholds(req: Request, res: Response): Promise<void> {
-        try {
-            this.validationService.validateAlertThresholds(req.body);
-            
-            for (const [type, value] of Object.entries(req.body)) {
-                this.monitoringService.setAlertThreshold(type, value as number);
-            }
-            
-            res.json({ success: true, thresholds: req.body });
-        } catch (error) {
-            res.status(400).json({ 
-                error: 'Invalid alert thresholds',
-                details: error instanceof Error ? error.message : String(error)
-            });
-        }
-    }
-
     public async getHardwareStatus(req: Request, res: Response): Promise<void> {
         try {
             const status = await this.kitronikService.getSensorStatus();
-            const timestamp = await this.rtc.getTime();
+            const timestamp = this.rtc.getDateTime();
             const baselines = await this.kitronikService.getBaselines();
             
             res.json({
@@ -263,19 +241,11 @@ export class SensorController {
         const { message, line = 1, duration = 5000 } = req.body;
         
         try {
-            this.oled.clear();
-            this.oled.write(message, { row: line });
-            this.oled.update();
-            
-            // Clear after duration if specified
-            if (duration > 0) {
-                setTimeout(() => {
-                    this.oled.clear();
-                    this.oled.update();
-                }, duration);
-            }
+            // Shown as a manual interrupt; the page rotation resumes once it expires
+            const lines = [...new Array(line).fill(''), message];
+            const interrupt = this.displayService.interrupt({ level: 'manual', lines, durationMs: duration });
             
-            res.json({ success: true });
+            res.json({ success: true, id: interrupt.id });
         } catch (error) {
             res.status(500).json({ error: 'Failed to display message' });
         }
@@ -0,0 +1,136 @@
+import { MeasurementValues } from '../types/driver';
+import { LEDAnimation, LEDColor, GradientAnimation, SequenceAnimation } from '../types/led';
+
+// One entry per ZIP LED; null leaves whatever is underneath showing
+export type Frame = Array<LEDColor | null>;
+
+const BLACK: LEDColor = { r: 0, g: 0, b: 0 };
+
+export function renderAnimation(
+    animation: LEDAnimation,
+    elapsedMs: number,
+    values: MeasurementValues,
+    pixelCount: number
+): Frame {
+    const frame: Frame = new Array(pixelCount).fill(null);
+    const pixels = (animation.pixels ?? Array.from({ length: pixelCount }, (_, i) => i))
+        .filter(pixel => pixel >= 0 && pixel < pixelCount);
+
+    switch (animation.type) {
+        case 'solid':
+            pixels.forEach(pixel => { frame[pixel] = animation.color; });
+            break;
+        case 'blink': {
+            const on = elapsedMs % animation.periodMs < animation.periodMs / 2;
+            const color = on ? animation.color : animation.offColor ?? BLACK;
+            pixels.forEach(pixel => { frame[pixel] = color; });
+            break;
+        }
+        case 'pulse': {
+            // Raised cosine so the pulse starts dark and peaks mid-period
+            const phase = (elapsedMs % animation.periodMs) / animation.periodMs;
+            const color = scale(animation.color, (1 - Math.cos(phase * 2 * Math.PI)) / 2);
+            pixels.forEach(pixel => { frame[pixel] = color; });
+            break;
+        }
+        case 'chase': {
+            const length = animation.length ?? 1;
+            const head = Math.floor(elapsedMs / animation.stepMs) % Math.max(1, pixels.length);
+            pixels.forEach((pixel, i) => {
+                const lit = (i - head + pixels.length) % pixels.length < length;
+                frame[pixel] = lit ? animation.color : animation.background ?? BLACK;
+            });
+            break;
+        }
+        case 'gradient':
+            renderGradient(animation, values, pixels, frame);
+            break;
+        case 'sequence': {
+            const step = currentStep(animation, elapsedMs);
+            if (step) {
+                overlay(frame, renderAnimation(step.animation, step.elapsedMs, values, pixelCount));
+            }
+            break;
+        }
+        case 'group':
+            animation.layers.forEach(layer =>
+                overlay(frame, renderAnimation(layer, elapsedMs, values, pixelCount)));
+            break;
+    }
+
+    return frame;
+}
+
+// Total run time of an animation, or null if it runs until cancelled
+export function animationDuration(animation: LEDAnimation): number | null {
+    if (animation.durationMs !== undefined) return animation.durationMs;
+    if (animation.type === 'sequence' && !animation.repeat) {
+        return animation.steps.reduce((total, step) => total + (step.durationMs ?? 0), 0);
+    }
+    return null;
+}
+
+// Draws the non-transparent pixels of top over frame
+export function overlay(frame: Frame, top: Frame): Frame {
+    top.forEach((color, pixel) => {
+        if (color) frame[pixel] = color;
+    });
+    return frame;
+}
+
+function currentStep(
+    animation: SequenceAnimation,
+    elapsedMs: number
+): { animation: LEDAnimation; elapsedMs: number } | null {
+    const total = animation.steps.reduce((sum, step) => sum + (step.durationMs ?? 0), 0);
+    if (total <= 0) return null;
+    if (!animation.repeat && elapsedMs >= total) return null;
+
+    let offset = elapsedMs % total;
+    for (const step of animation.steps) {
+        const duration = step.durationMs ?? 0;
+        if (offset < duration) {
+            return { animation: step, elapsedMs: offset };
+        }
+        offset -= duration;
+    }
+    return null;
+}
+
+function renderGradient(animation: GradientAnimation, values: MeasurementValues, pixels: number[], frame: Frame): void {
+    const value = animation.value ?? (animation.measurement ? values[animation.measurement] : undefined);
+    if (value === undefined || animation.stops.length === 0) return;
+
+    const span = animation.max - animation.min;
+    const position = span === 0 ? 0 : Math.min(1, Math.max(0, (value - animation.min) / span));
+    const color = interpolate(animation.stops, position);
+
+    if (animation.mode === 'bar') {
+        const lit = Math.round(position * pixels.length);
+        pixels.forEach((pixel, i) => { frame[pixel] = i < lit ? color : BLACK; });
+    } else {
+        pixels.forEach(pixel => { frame[pixel] = color; });
+    }
+}
+
+function interpolate(stops: LEDColor[], position: number): LEDColor {
+    if (stops.length === 1) return stops[0];
+
+    const scaled = position * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(scaled));
+    const t = scaled - index;
+    const [from, to] = [stops[index], stops[index + 1]];
+    return {
+        r: Math.round(from.r + (to.r - from.r) * t),
+        g: Math.round(from.g + (to.g - from.g) * t),
+        b: Math.round(from.b + (to.b - from.b) * t)
+    };
+}
+
+function scale(color: LEDColor, brightness: number): LEDColor {
+    return {
+        r: Math.round(color.r * brightness),
+        g: Math.round(color.g * brightness),
+        b: Math.round(color.b * brightness)
+    };
+}
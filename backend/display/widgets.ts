@@ -0,0 +1,311 @@
+import {
+    OLEDDisplay,
+    OLED_WIDTH,
+    OLED_HEIGHT,
+    OLED_TEXT_LINES,
+    OLED_LINE_CHARS
+} from '../types/hardware';
+import { Measurement, MEASUREMENT_INFO } from '../types/driver';
+import { Widget } from '../types/display';
+
+export const LINE_HEIGHT = Math.floor(OLED_HEIGHT / OLED_TEXT_LINES);
+const CHAR_WIDTH = Math.floor(OLED_WIDTH / OLED_LINE_CHARS);
+const SPARKLINE_WINDOW_MS = 60 * 60 * 1000;
+
+// Change over the trend window that counts as rising or falling when a widget sets no threshold
+const TREND_THRESHOLDS: Record<Measurement, number> = {
+    temperature: 0.5,
+    humidity: 2,
+    pressure: 1,
+    gasResistance: 5000,
+    airQualityIndex: 5,
+    co2Equivalent: 50,
+    co2: 50,
+    windSpeed: 5,
+    windGust: 5,
+    windDirection: 45,
+    rainRate: 1,
+    rainfall: 1
+};
+
+const SHORT_LABELS: Record<Measurement, string> = {
+    temperature: 'Temp',
+    humidity: 'Hum',
+    pressure: 'Pres',
+    gasResistance: 'Gas',
+    airQualityIndex: 'AQI',
+    co2Equivalent: 'eCO2',
+    co2: 'CO2',
+    windSpeed: 'Wind',
+    windGust: 'Gust',
+    windDirection: 'Dir',
+    rainRate: 'Rain/h',
+    rainfall: 'Rain'
+};
+
+// Seven-segment layout: top, upper right, lower right, bottom, lower left, upper left, middle
+const SEGMENTS: Record<string, string> = {
+    '0': 'abcdef',
+    '1': 'bc',
+    '2': 'abdeg',
+    '3': 'abcdg',
+    '4': 'bcfg',
+    '5': 'acdfg',
+    '6': 'acdefg',
+    '7': 'abc',
+    '8': 'abcdefg',
+    '9': 'abcdfg',
+    '-': 'g'
+};
+
+export interface HistoryPoint {
+    timestamp: number;
+    value: number;
+}
+
+export interface ActiveAlert {
+    level: 'info' | 'warning' | 'danger';
+    message: string;
+}
+
+export interface WidgetContext {
+    now: Date;
+    history(measurement: Measurement): HistoryPoint[];
+    alert: ActiveAlert | null;
+    trendWindowMs: number;
+}
+
+export type Trend = 'rising' | 'falling' | 'steady' | 'unknown';
+
+interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export function renderWidget(oled: OLEDDisplay, widget: Widget, context: WidgetContext): void {
+    const lines = widget.lines ?? 1;
+    const region: Region = {
+        x: 0,
+        y: widget.line * LINE_HEIGHT,
+        width: OLED_WIDTH,
+        height: lines * LINE_HEIGHT
+    };
+
+    switch (widget.type) {
+        case 'text':
+            oled.writeTextToLine(widget.text ?? '', widget.line);
+            break;
+        case 'value':
+            oled.writeTextToLine(valueText(widget, context), widget.line);
+            break;
+        case 'bigNumber':
+            renderBigNumber(oled, widget, context, region);
+            break;
+        case 'sparkline':
+            renderSparkline(oled, widget, context, region);
+            break;
+        case 'trend':
+            renderTrend(oled, widget, context, region);
+            break;
+        case 'alertBanner':
+            renderAlertBanner(oled, widget, context, region);
+            break;
+        case 'clock':
+            oled.writeTextToLine(clockText(context.now), widget.line);
+            break;
+    }
+}
+
+// Compares the newest reading with the oldest one inside the trend window
+export function trendOf(points: HistoryPoint[], windowMs: number, threshold: number, now: number): Trend {
+    const recent = points.filter(point => point.timestamp >= now - windowMs);
+    if (recent.length < 2) return 'unknown';
+
+    const change = recent[recent.length - 1].value - recent[0].value;
+    if (change >= threshold) return 'rising';
+    if (change <= -threshold) return 'falling';
+    return 'steady';
+}
+
+// Splits text into display-width lines, breaking on spaces where possible
+export function wrapText(text: string, width = OLED_LINE_CHARS): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (!current) {
+            current = word;
+        } else if (current.length + word.length + 1 <= width) {
+            current += ` ${word}`;
+        } else {
+            lines.push(current);
+            current = word;
+        }
+        while (current.length > width) {
+            lines.push(current.slice(0, width));
+            current = current.slice(width);
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+}
+
+function latest(widget: Widget, context: WidgetContext): number | null {
+    if (!widget.measurement) return null;
+    const points = context.history(widget.measurement);
+    return points.length > 0 ? points[points.length - 1].value : null;
+}
+
+function formatValue(measurement: Measurement, value: number | null): string {
+    if (value === null) return '--';
+    return measurement === 'temperature' || measurement === 'humidity'
+        ? value.toFixed(1)
+        : Math.round(value).toString();
+}
+
+function valueText(widget: Widget, context: WidgetContext): string {
+    if (!widget.measurement) return widget.text ?? '';
+    const label = widget.text ?? SHORT_LABELS[widget.measurement];
+    const value = formatValue(widget.measurement, latest(widget, context));
+    return `${label}: ${value}${MEASUREMENT_INFO[widget.measurement].unit}`;
+}
+
+function clockText(now: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(now.getHours())}:${pad(now.getMinutes())}  ` +
+        `${pad(now.getDate())}/${pad(now.getMonth() + 1)}/${now.getFullYear()}`;
+}
+
+function rightAlign(text: string): string {
+    return text.padStart(OLED_LINE_CHARS);
+}
+
+function renderBigNumber(oled: OLEDDisplay, widget: Widget, context: WidgetContext, region: Region): void {
+    if (!widget.measurement) return;
+
+    const text = formatValue(widget.measurement, latest(widget, context));
+    // Unit sits right-aligned on the top text line, clear of the digits
+    oled.writeTextToLine(rightAlign(MEASUREMENT_INFO[widget.measurement].unit), widget.line);
+
+    const height = region.height - 2;
+    const width = Math.max(3, Math.floor(height / 2));
+    const gap = Math.max(2, Math.floor(width / 3));
+    let x = region.x + 1;
+    const y = region.y + 1;
+
+    for (const char of text) {
+        if (char === '.') {
+            oled.drawRect(x, y + height - 2, 2, 2);
+            x += 2 + gap;
+            continue;
+        }
+        drawDigit(oled, char, x, y, width, height);
+        x += width + gap;
+    }
+}
+
+function drawDigit(oled: OLEDDisplay, char: string, x: number, y: number, width: number, height: number): void {
+    const segments = SEGMENTS[char] ?? '';
+    const right = x + width - 1;
+    const bottom = y + height - 1;
+    const middle = y + Math.floor(height / 2);
+
+    for (const segment of segments) {
+        switch (segment) {
+            case 'a': oled.drawLine(x, y, right, y); break;
+            case 'b': oled.drawLine(right, y, right, middle); break;
+            case 'c': oled.drawLine(right, middle, right, bottom); break;
+            case 'd': oled.drawLine(x, bottom, right, bottom); break;
+            case 'e': oled.drawLine(x, middle, x, bottom); break;
+            case 'f': oled.drawLine(x, y, x, middle); break;
+            case 'g': oled.drawLine(x, middle, right, middle); break;
+        }
+    }
+}
+
+function renderSparkline(oled: OLEDDisplay, widget: Widget, context: WidgetContext, region: Region): void {
+    if (!widget.measurement) return;
+
+    const start = context.now.getTime() - SPARKLINE_WINDOW_MS;
+    const points = context.history(widget.measurement).filter(point => point.timestamp >= start);
+    if (points.length < 2) {
+        oled.writeTextToLine(`${SHORT_LABELS[widget.measurement]}: no data`, widget.line);
+        return;
+    }
+
+    const values = points.map(point => point.value);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // A flat series is drawn through the middle of the region
+    const span = max - min || 1;
+    const bottom = region.y + region.height - 1;
+    const top = region.y + 1;
+
+    const toX = (timestamp: number) =>
+        region.x + Math.round(((timestamp - start) / SPARKLINE_WINDOW_MS) * (region.width - 1));
+    const toY = (value: number) => max === min
+        ? Math.round((top + bottom) / 2)
+        : bottom - Math.round(((value - min) / span) * (bottom - top));
+
+    for (let i = 1; i < points.length; i++) {
+        oled.drawLine(
+            toX(points[i - 1].timestamp), toY(points[i - 1].value),
+            toX(points[i].timestamp), toY(points[i].value)
+        );
+    }
+}
+
+function renderTrend(oled: OLEDDisplay, widget: Widget, context: WidgetContext, region: Region): void {
+    if (!widget.measurement) return;
+
+    const threshold = widget.threshold ?? TREND_THRESHOLDS[widget.measurement];
+    const trend = trendOf(
+        context.history(widget.measurement),
+        context.trendWindowMs,
+        threshold,
+        context.now.getTime()
+    );
+    oled.writeTextToLine(valueText(widget, context), widget.line);
+
+    // Arrow goes in the last two character cells of the line
+    const size = Math.min(LINE_HEIGHT, region.height) - 2;
+    const x = region.x + region.width - CHAR_WIDTH * 2;
+    const y = region.y + 1;
+    const centerX = x + Math.floor(size / 2);
+    const centerY = y + Math.floor(size / 2);
+    const head = Math.max(2, Math.floor(size / 3));
+
+    switch (trend) {
+        case 'rising':
+            oled.drawLine(centerX, y, centerX, y + size - 1);
+            oled.drawLine(centerX, y, centerX - head, y + head);
+            oled.drawLine(centerX, y, centerX + head, y + head);
+            break;
+        case 'falling':
+            oled.drawLine(centerX, y, centerX, y + size - 1);
+            oled.drawLine(centerX, y + size - 1, centerX - head, y + size - 1 - head);
+            oled.drawLine(centerX, y + size - 1, centerX + head, y + size - 1 - head);
+            break;
+        case 'steady':
+            oled.drawLine(x, centerY, x + size - 1, centerY);
+            oled.drawLine(x + size - 1, centerY, x + size - 1 - head, centerY - head);
+            oled.drawLine(x + size - 1, centerY, x + size - 1 - head, centerY + head);
+            break;
+        case 'unknown':
+            break;
+    }
+}
+
+function renderAlertBanner(oled: OLEDDisplay, widget: Widget, context: WidgetContext, region: Region): void {
+    if (!context.alert) {
+        if (widget.text) oled.writeTextToLine(widget.text, widget.line);
+        return;
+    }
+
+    const prefix = context.alert.level === 'danger' ? '!! ' : '! ';
+    const lines = wrapText(prefix + context.alert.message).slice(0, widget.lines ?? 1);
+    lines.forEach((text, i) => oled.writeTextToLine(text, widget.line + i));
+    oled.drawRect(region.x, region.y, region.width, region.height);
+}
@@ -0,0 +1,157 @@
+import { I2CDevice, Measurement, MeasurementValues, SensorDriver } from '../types/driver';
+
+const REG_CHIP_ID = 0xd0;
+const REG_RESET = 0xe0;
+const REG_CTRL_HUM = 0xf2;
+const REG_CTRL_MEAS = 0xf4;
+const REG_DATA = 0xf7;
+const REG_CALIB_TP = 0x88;
+const REG_CALIB_H1 = 0xa1;
+const REG_CALIB_H = 0xe1;
+const CHIP_ID = 0x60;
+// x1 oversampling for temperature and pressure, forced mode
+const CTRL_MEAS_FORCED = 0x25;
+const MEASUREMENT_TIME_MS = 10;
+
+interface BME280Calibration {
+    t: number[];
+    p: number[];
+    h: number[];
+}
+
+function u16(bytes: number[], offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function s16(bytes: number[], offset: number): number {
+    const value = u16(bytes, offset);
+    return value > 32767 ? value - 65536 : value;
+}
+
+function s8(value: number): number {
+    return value > 127 ? value - 256 : value;
+}
+
+function s12(value: number): number {
+    return value > 2047 ? value - 4096 : value;
+}
+
+/**
+ * Bosch BME280 using the floating point compensation formulas from the
+ * datasheet (section 8.1). No gas sensor, so no air quality.
+ */
+export class BME280Driver implements SensorDriver {
+    readonly model = 'bme280' as const;
+    static readonly CAPABILITIES: Measurement[] = ['temperature', 'humidity', 'pressure'];
+    readonly capabilities = BME280Driver.CAPABILITIES;
+    private calibration: BME280Calibration | null = null;
+
+    constructor(private device: I2CDevice) {}
+
+    async initialize(): Promise<{ success: boolean }> {
+        if (!(await this.validateConnection())) {
+            return { success: false };
+        }
+
+        await this.device.writeBytes([REG_RESET, 0xb6]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        this.calibration = await this.readCalibration();
+        // ctrl_hum only takes effect after the next ctrl_meas write
+        await this.device.writeBytes([REG_CTRL_HUM, 0x01]);
+        return { success: true };
+    }
+
+    async read(): Promise<MeasurementValues> {
+        if (!this.calibration) {
+            throw new Error('BME280 not initialized');
+        }
+
+        await this.device.writeBytes([REG_CTRL_MEAS, CTRL_MEAS_FORCED]);
+        await new Promise(resolve => setTimeout(resolve, MEASUREMENT_TIME_MS));
+        const data = await this.readRegisters(REG_DATA, 8);
+
+        const adcP = (data[0] << 12) | (data[1] << 4) | (data[2] >> 4);
+        const adcT = (data[3] << 12) | (data[4] << 4) | (data[5] >> 4);
+        const adcH = (data[6] << 8) | data[7];
+
+        const { temperature, tFine } = this.compensateTemperature(adcT);
+        return {
+            temperature,
+            pressure: this.compensatePressure(adcP, tFine) / 100,
+            humidity: this.compensateHumidity(adcH, tFine)
+        };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            const [chipId] = await this.readRegisters(REG_CHIP_ID, 1);
+            return chipId === CHIP_ID;
+        } catch {
+            return false;
+        }
+    }
+
+    async dispose(): Promise<void> {
+        // Forced mode returns to sleep after each measurement
+    }
+
+    private async readRegisters(register: number, length: number): Promise<number[]> {
+        await this.device.writeBytes([register]);
+        return this.device.readBytes(length);
+    }
+
+    private async readCalibration(): Promise<BME280Calibration> {
+        const tp = await this.readRegisters(REG_CALIB_TP, 24);
+        const [h1] = await this.readRegisters(REG_CALIB_H1, 1);
+        const h = await this.readRegisters(REG_CALIB_H, 7);
+
+        return {
+            t: [u16(tp, 0), s16(tp, 2), s16(tp, 4)],
+            p: [u16(tp, 6), ...[8, 10, 12, 14, 16, 18, 20, 22].map(offset => s16(tp, offset))],
+            h: [
+                h1,
+                s16(h, 0),
+                h[2],
+                s12((h[3] << 4) | (h[4] & 0x0f)),
+                s12((h[5] << 4) | (h[4] >> 4)),
+                s8(h[6])
+            ]
+        };
+    }
+
+    private compensateTemperature(adcT: number): { temperature: number; tFine: number } {
+        const [t1, t2, t3] = this.calibration!.t;
+        const var1 = (adcT / 16384 - t1 / 1024) * t2;
+        const var2 = (adcT / 131072 - t1 / 8192) ** 2 * t3;
+        const tFine = var1 + var2;
+        return { temperature: tFine / 5120, tFine };
+    }
+
+    private compensatePressure(adcP: number, tFine: number): number {
+        const [p1, p2, p3, p4, p5, p6, p7, p8, p9] = this.calibration!.p;
+        let var1 = tFine / 2 - 64000;
+        let var2 = (var1 * var1 * p6) / 32768;
+        var2 = var2 + var1 * p5 * 2;
+        var2 = var2 / 4 + p4 * 65536;
+        var1 = ((p3 * var1 * var1) / 524288 + p2 * var1) / 524288;
+        var1 = (1 + var1 / 32768) * p1;
+        if (var1 === 0) {
+            return 0;
+        }
+
+        let pressure = 1048576 - adcP;
+        pressure = ((pressure - var2 / 4096) * 6250) / var1;
+        var1 = (p9 * pressure * pressure) / 2147483648;
+        var2 = (pressure * p8) / 32768;
+        return pressure + (var1 + var2 + p7) / 16;
+    }
+
+    private compensateHumidity(adcH: number, tFine: number): number {
+        const [h1, h2, h3, h4, h5, h6] = this.calibration!.h;
+        let humidity = tFine - 76800;
+        humidity = (adcH - (h4 * 64 + (h5 / 16384) * humidity))
+            * ((h2 / 65536) * (1 + (h6 / 67108864) * humidity * (1 + (h3 / 67108864) * humidity)));
+        humidity = humidity * (1 - (h1 * humidity) / 524288);
+        return Math.min(100, Math.max(0, humidity));
+    }
+}
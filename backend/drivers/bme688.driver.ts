@@ -0,0 +1,50 @@
+import { BME688FrontEnd, GasHeaterSettings } from '../types/hardware';
+import { Measurement, MeasurementValues, SensorDriver } from '../types/driver';
+
+/**
+ * The on-board BME688, read through the Kitronik SensorInitialization front
+ * end. Air quality and eCO2 are estimates derived from the gas resistance.
+ */
+export class BME688Driver implements SensorDriver {
+    readonly model = 'bme688' as const;
+    static readonly CAPABILITIES: Measurement[] = [
+        'temperature',
+        'humidity',
+        'pressure',
+        'gasResistance',
+        'airQualityIndex',
+        'co2Equivalent'
+    ];
+    readonly capabilities = BME688Driver.CAPABILITIES;
+
+    constructor(private frontEnd: BME688FrontEnd, private gasSettings: GasHeaterSettings) {}
+
+    initialize(): Promise<{ success: boolean }> {
+        return this.frontEnd.initialize({ gasSettings: this.gasSettings });
+    }
+
+    async read(): Promise<MeasurementValues> {
+        const measurement = await this.frontEnd.measureData();
+        return {
+            temperature: measurement.temperature,
+            humidity: measurement.humidity,
+            pressure: measurement.pressure,
+            gasResistance: measurement.gasResistance,
+            airQualityIndex: this.frontEnd.getAirQualityScore(),
+            co2Equivalent: this.frontEnd.readeCO2()
+        };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            await this.frontEnd.measureData();
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async dispose(): Promise<void> {
+        // Heater is managed by SensorInitialization
+    }
+}
@@ -0,0 +1,60 @@
+import { KitronikBoard, GasHeaterSettings } from '../types/hardware';
+import { Measurement, SensorDriver, SensorModel, SensorCapabilities, MEASUREMENT_INFO } from '../types/driver';
+import { SimulatedBoard } from '../hardware';
+import { BME688Driver } from './bme688.driver';
+import { BME280Driver } from './bme280.driver';
+import { SHT31Driver } from './sht31.driver';
+import { SCD40Driver } from './scd40.driver';
+import { SimulatedSensorDriver } from './simulated.driver';
+
+const I2C_ADDRESSES: Record<Exclude<SensorModel, 'bme688'>, number> = {
+    bme280: 0x76,
+    sht31: 0x44,
+    scd40: 0x62
+};
+
+export const DRIVER_CAPABILITIES: Record<SensorModel, Measurement[]> = {
+    bme688: BME688Driver.CAPABILITIES,
+    bme280: BME280Driver.CAPABILITIES,
+    sht31: SHT31Driver.CAPABILITIES,
+    scd40: SCD40Driver.CAPABILITIES
+};
+
+export interface DriverOptions {
+    gasSettings: GasHeaterSettings;
+    i2cAddress?: number;
+}
+
+export function createSensorDriver(
+    model: SensorModel,
+    board: KitronikBoard,
+    options: DriverOptions
+): SensorDriver {
+    if (model === 'bme688') {
+        // Both the real and the simulated board provide a BME688 front end
+        return new BME688Driver(board.sensorInit, options.gasSettings);
+    }
+
+    if (board instanceof SimulatedBoard) {
+        return new SimulatedSensorDriver(model, DRIVER_CAPABILITIES[model], board.environment);
+    }
+
+    const device = board.openI2C(options.i2cAddress ?? I2C_ADDRESSES[model]);
+    switch (model) {
+        case 'bme280':
+            return new BME280Driver(device);
+        case 'sht31':
+            return new SHT31Driver(device);
+        case 'scd40':
+            return new SCD40Driver(device);
+        default:
+            throw new Error(`Unsupported sensor model: ${model}`);
+    }
+}
+
+export function describeCapabilities(driver: SensorDriver): SensorCapabilities {
+    return {
+        sensorModel: driver.model,
+        measurements: driver.capabilities.map(name => ({ name, ...MEASUREMENT_INFO[name] }))
+    };
+}
@@ -0,0 +1,98 @@
+import { I2CDevice, Measurement, MeasurementValues, SensorDriver } from '../types/driver';
+import { decodeWords, delay, sendCommand } from './sensirion';
+
+const START_PERIODIC_MEASUREMENT = 0x21b1;
+const STOP_PERIODIC_MEASUREMENT = 0x3f86;
+const READ_MEASUREMENT = 0xec05;
+const GET_DATA_READY_STATUS = 0xe4b8;
+const GET_SERIAL_NUMBER = 0x3682;
+const COMMAND_DELAY_MS = 1;
+const STOP_DELAY_MS = 500;
+// Periodic mode produces a new sample every five seconds
+const DATA_READY_TIMEOUT_MS = 6000;
+
+/**
+ * Sensirion SCD40 photoacoustic CO2 sensor. Unlike the BME688 eCO2 estimate
+ * this reports measured CO2 in ppm.
+ */
+export class SCD40Driver implements SensorDriver {
+    readonly model = 'scd40' as const;
+    static readonly CAPABILITIES: Measurement[] = ['co2', 'temperature', 'humidity'];
+    readonly capabilities = SCD40Driver.CAPABILITIES;
+    private measuring = false;
+    private last: MeasurementValues | null = null;
+
+    constructor(private device: I2CDevice) {}
+
+    async initialize(): Promise<{ success: boolean }> {
+        // The sensor refuses most commands while measuring, so always stop first
+        await sendCommand(this.device, STOP_PERIODIC_MEASUREMENT);
+        await delay(STOP_DELAY_MS);
+
+        if (!(await this.validateConnection())) {
+            return { success: false };
+        }
+
+        await sendCommand(this.device, START_PERIODIC_MEASUREMENT);
+        this.measuring = true;
+        return { success: true };
+    }
+
+    async read(): Promise<MeasurementValues> {
+        if (!this.measuring) {
+            throw new Error('SCD40 periodic measurement not started');
+        }
+
+        const deadline = Date.now() + DATA_READY_TIMEOUT_MS;
+        while (!(await this.isDataReady())) {
+            // Serve the previous sample rather than blocking callers that poll faster than 0.2 Hz
+            if (this.last) {
+                return { ...this.last };
+            }
+            if (Date.now() > deadline) {
+                throw new Error('SCD40 data not ready');
+            }
+            await delay(100);
+        }
+
+        await sendCommand(this.device, READ_MEASUREMENT);
+        await delay(COMMAND_DELAY_MS);
+        const [co2, rawTemperature, rawHumidity] = decodeWords(await this.device.readBytes(9), 3);
+
+        this.last = {
+            co2,
+            temperature: -45 + (175 * rawTemperature) / 65535,
+            humidity: (100 * rawHumidity) / 65535
+        };
+        return { ...this.last };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        if (this.measuring) {
+            return this.isDataReady().then(() => true, () => false);
+        }
+
+        try {
+            await sendCommand(this.device, GET_SERIAL_NUMBER);
+            await delay(COMMAND_DELAY_MS);
+            decodeWords(await this.device.readBytes(9), 3);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async dispose(): Promise<void> {
+        if (this.measuring) {
+            await sendCommand(this.device, STOP_PERIODIC_MEASUREMENT);
+            this.measuring = false;
+        }
+    }
+
+    private async isDataReady(): Promise<boolean> {
+        await sendCommand(this.device, GET_DATA_READY_STATUS);
+        await delay(COMMAND_DELAY_MS);
+        const [status] = decodeWords(await this.device.readBytes(3), 1);
+        return (status & 0x07ff) !== 0;
+    }
+}
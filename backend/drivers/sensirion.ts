@@ -0,0 +1,34 @@
+import { I2CDevice } from '../types/driver';
+
+// CRC-8 used by Sensirion parts: polynomial 0x31, initial value 0xFF
+export function sensirionCRC(msb: number, lsb: number): number {
+    let crc = 0xff;
+    for (const byte of [msb, lsb]) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x80 ? ((crc << 1) ^ 0x31) & 0xff : (crc << 1) & 0xff;
+        }
+    }
+    return crc;
+}
+
+// Sensirion frames are 16-bit words each followed by a CRC byte
+export function decodeWords(bytes: number[], count: number): number[] {
+    const words: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const [msb, lsb, crc] = bytes.slice(i * 3, i * 3 + 3);
+        if (sensirionCRC(msb, lsb) !== crc) {
+            throw new Error(`CRC mismatch in word ${i}`);
+        }
+        words.push((msb << 8) | lsb);
+    }
+    return words;
+}
+
+export async function sendCommand(device: I2CDevice, command: number): Promise<void> {
+    await device.writeBytes([(command >> 8) & 0xff, command & 0xff]);
+}
+
+export function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
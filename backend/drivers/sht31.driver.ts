@@ -0,0 +1,47 @@
+import { I2CDevice, Measurement, MeasurementValues, SensorDriver } from '../types/driver';
+import { decodeWords, delay, sendCommand } from './sensirion';
+
+const MEASURE_HIGH_REPEATABILITY = 0x2400;
+const SOFT_RESET = 0x30a2;
+const READ_STATUS = 0xf32d;
+const MEASUREMENT_TIME_MS = 16;
+
+export class SHT31Driver implements SensorDriver {
+    readonly model = 'sht31' as const;
+    static readonly CAPABILITIES: Measurement[] = ['temperature', 'humidity'];
+    readonly capabilities = SHT31Driver.CAPABILITIES;
+
+    constructor(private device: I2CDevice) {}
+
+    async initialize(): Promise<{ success: boolean }> {
+        await sendCommand(this.device, SOFT_RESET);
+        await delay(2);
+        return { success: await this.validateConnection() };
+    }
+
+    async read(): Promise<MeasurementValues> {
+        // Single shot, clock stretching disabled
+        await sendCommand(this.device, MEASURE_HIGH_REPEATABILITY);
+        await delay(MEASUREMENT_TIME_MS);
+        const [rawTemperature, rawHumidity] = decodeWords(await this.device.readBytes(6), 2);
+
+        return {
+            temperature: -45 + (175 * rawTemperature) / 65535,
+            humidity: (100 * rawHumidity) / 65535
+        };
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            await sendCommand(this.device, READ_STATUS);
+            decodeWords(await this.device.readBytes(3), 1);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async dispose(): Promise<void> {
+        // Single shot mode leaves the sensor idle between reads
+    }
+}
@@ -0,0 +1,41 @@
+import { Measurement, MeasurementValues, SensorDriver, SensorModel } from '../types/driver';
+import { SimulatedEnvironment } from '../hardware/simulated.environment';
+
+/**
+ * Stands in for an add-on sensor on the simulated board, exposing only the
+ * measurements the real part would provide.
+ */
+export class SimulatedSensorDriver implements SensorDriver {
+    constructor(
+        readonly model: SensorModel,
+        readonly capabilities: Measurement[],
+        private environment: SimulatedEnvironment
+    ) {}
+
+    async initialize(): Promise<{ success: boolean }> {
+        return { success: true };
+    }
+
+    async read(): Promise<MeasurementValues> {
+        const sample = this.environment.sample();
+        const available: MeasurementValues = {
+            temperature: sample.temperature,
+            humidity: sample.humidity,
+            pressure: sample.pressure,
+            co2: sample.co2
+        };
+
+        return this.capabilities.reduce<MeasurementValues>((values, measurement) => {
+            if (available[measurement] !== undefined) {
+                values[measurement] = available[measurement];
+            }
+            return values;
+        }, {});
+    }
+
+    async validateConnection(): Promise<boolean> {
+        return true;
+    }
+
+    async dispose(): Promise<void> {}
+}
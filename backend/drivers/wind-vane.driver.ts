@@ -0,0 +1,64 @@
+import { I2CDevice } from '../types/driver';
+import { WindVaneConfig } from '../types/station';
+import { delay } from './sensirion';
+
+const REG_CONVERSION = 0x00;
+const REG_CONFIG = 0x01;
+// Start a single conversion, ±4.096 V range, 128 samples/s, comparator off
+const CONFIG_SINGLE_SHOT = 0x8000 | (1 << 9) | (1 << 8) | (4 << 5) | 0x03;
+const FULL_SCALE_VOLTS = 4.096;
+const CONVERSION_TIME_MS = 9;
+
+// Resistance of the common reed switch vane at each of its 16 positions
+const VANE_RESISTANCES: Array<[number, number]> = [
+    [0, 33000],
+    [22.5, 6570],
+    [45, 8200],
+    [67.5, 891],
+    [90, 1000],
+    [112.5, 688],
+    [135, 2200],
+    [157.5, 1410],
+    [180, 3900],
+    [202.5, 3140],
+    [225, 16000],
+    [247.5, 14120],
+    [270, 120000],
+    [292.5, 42120],
+    [315, 64900],
+    [337.5, 21880]
+];
+
+/**
+ * Analog wind vane read through an ADS1115 ADC. The vane switches a
+ * different resistor into a divider for each direction, so the reading is
+ * matched to the nearest expected voltage.
+ */
+export class WindVaneDriver {
+    private table: Array<[number, number]>;
+
+    constructor(private device: I2CDevice, private config: WindVaneConfig) {
+        const { supplyVolts, pullupOhms } = config;
+        this.table = VANE_RESISTANCES.map(([degrees, ohms]) =>
+            [degrees, (supplyVolts * ohms) / (ohms + pullupOhms)]);
+    }
+
+    // Direction in degrees the wind comes from
+    async read(): Promise<number> {
+        const volts = await this.readVolts();
+        return this.table.reduce((nearest, entry) =>
+            Math.abs(entry[1] - volts) < Math.abs(nearest[1] - volts) ? entry : nearest)[0];
+    }
+
+    private async readVolts(): Promise<number> {
+        const config = CONFIG_SINGLE_SHOT | ((4 + this.config.channel) << 12);
+        await this.device.writeBytes([REG_CONFIG, (config >> 8) & 0xff, config & 0xff]);
+        await delay(CONVERSION_TIME_MS);
+
+        await this.device.writeBytes([REG_CONVERSION]);
+        const [msb, lsb] = await this.device.readBytes(2);
+        const raw = (msb << 8) | lsb;
+        const signed = raw > 32767 ? raw - 65536 : raw;
+        return (signed * FULL_SCALE_VOLTS) / 32768;
+    }
+}
@@ -0,0 +1,19 @@
+import { HardwareMode, KitronikBoard, SimulationOptions } from '../types/hardware';
+import { SimulatedBoard } from './simulated.board';
+
+export { SimulatedBoard } from './simulated.board';
+
+export function createBoard(mode: HardwareMode, simulation?: SimulationOptions): KitronikBoard {
+    switch (mode) {
+        case 'simulated':
+            return new SimulatedBoard(simulation);
+        case 'kitronik': {
+            // Loaded on demand so simulated hardware runs without the Kitronik library installed
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            const { KitronikHardwareBoard } = require('./kitronik.board') as typeof import('./kitronik.board');
+            return new KitronikHardwareBoard();
+        }
+        default:
+            throw new Error(`Unknown hardware mode: ${mode}`);
+    }
+}
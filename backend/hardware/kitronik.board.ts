@@ -0,0 +1,176 @@
+import { SensorInitialization, measureData } from '../../Kitronik5038Port/lib/SensorInitialization';
+import { I2CCommunication } from '../../Kitronik5038Port/lib/I2CCommunication';
+import { KitronikBME688 } from '../../Kitronik5038Port/lib/KitronikBME688';
+import { KitronikOLED } from '../../Kitronik5038Port/lib/KitronikOLED';
+import { KitronikZIPLEDs } from '../../Kitronik5038Port/lib/KitronikZIPLEDs';
+import { KitronikServo } from '../../Kitronik5038Port/lib/KitronikServo';
+import { KitronikBuzzer } from '../../Kitronik5038Port/lib/KitronikBuzzer';
+import { KitronikRTC } from '../../Kitronik5038Port/lib/KitronikRTC';
+import { KitronikGPIO } from '../../Kitronik5038Port/lib/KitronikGPIO';
+import { KitronikHighPowerOut } from '../../Kitronik5038Port/lib/KitronikHighPowerOut';
+import { BaselineCalculation } from '../../Kitronik5038Port/lib/BaselineCalculation';
+import { BaselineStorage } from '../../Kitronik5038Port/lib/data/BaselineStorage';
+import { SensorError } from '../../Kitronik5038Port/lib/err/SensorError';
+import {
+    KitronikBoard,
+    BME688Device,
+    BME688FrontEnd,
+    GasHeaterSettings,
+    ProgressDisplay,
+    SensorBaselines,
+    SensorMeasurement,
+    StoredBaseline
+} from '../types/hardware';
+import { I2CDevice, MeasurementValues } from '../types/driver';
+import { KitronikError } from '../utils/errorHandling';
+
+const BME688_ADDRESS = 0x77;
+
+// SensorInitialization exposes measureData as a module function, so wrap it
+// to present the same front end as the simulated sensor.
+class KitronikSensorFrontEnd implements BME688FrontEnd {
+    constructor(private init: SensorInitialization) {}
+
+    initialize(options: { gasSettings: GasHeaterSettings }): Promise<{ success: boolean }> {
+        return this.init.initialize(options);
+    }
+
+    measureData(): Promise<SensorMeasurement> {
+        return measureData();
+    }
+
+    getCalibrationData(): Record<string, number> {
+        return this.init.getCalibrationData();
+    }
+
+    getAirQualityScore(): number {
+        return this.init.getAirQualityScore();
+    }
+
+    readeCO2(): number {
+        return this.init.readeCO2();
+    }
+
+    readTemperature(): number {
+        return this.init.readTemperature();
+    }
+
+    readHumidity(): number {
+        return this.init.readHumidity();
+    }
+
+    readPressure(): number {
+        return this.init.readPressure();
+    }
+
+    readGasRes(): number {
+        return this.init.readGasRes();
+    }
+
+    calcBaselines(display: ProgressDisplay, forcedRun: boolean): Promise<void> {
+        return this.init.calcBaselines(display, forcedRun);
+    }
+
+    setupGasSensor(targetTemp: number, duration: number): void {
+        this.init.setupGasSensor(targetTemp, duration);
+    }
+}
+
+class KitronikI2CDevice implements I2CDevice {
+    private comm: I2CCommunication;
+
+    constructor(readonly address: number) {
+        this.comm = new I2CCommunication(address);
+    }
+
+    writeBytes(bytes: number[]): Promise<void> {
+        return this.comm.writeData(bytes);
+    }
+
+    readBytes(length: number): Promise<number[]> {
+        return this.comm.readData(length);
+    }
+}
+
+class KitronikBaselines implements SensorBaselines {
+    private calculation = new BaselineCalculation();
+    private storage = new BaselineStorage();
+
+    calibrate(sensor: BME688Device, forcedRun: boolean, displayProgress: boolean): Promise<void> {
+        return this.calculation.calibrate(sensor, forcedRun, displayProgress);
+    }
+
+    loadBaseline(): Promise<StoredBaseline | null> {
+        return this.storage.loadBaseline();
+    }
+
+    saveBaseline(baseline: StoredBaseline): Promise<void> {
+        return this.storage.save(baseline);
+    }
+
+    compareBaselines(reading: MeasurementValues, baseline: StoredBaseline): number {
+        return this.calculation.compareBaselines(reading, baseline);
+    }
+
+    getToleranceThreshold(): number {
+        return this.calculation.getToleranceThreshold();
+    }
+}
+
+export class KitronikHardwareBoard implements KitronikBoard {
+    // There is one I2C bus and one set of pins, so only one board may drive them at a time
+    private static owner: KitronikHardwareBoard | null = null;
+
+    readonly mode = 'kitronik' as const;
+    readonly sensorInit: BME688FrontEnd;
+    readonly sensor: KitronikBME688;
+    readonly oled: KitronikOLED;
+    readonly zipLeds: KitronikZIPLEDs;
+    readonly servos: KitronikServo[];
+    readonly buzzer: KitronikBuzzer;
+    readonly rtc: KitronikRTC;
+    readonly gpio: KitronikGPIO;
+    readonly powerOut: KitronikHighPowerOut;
+    readonly baselines: SensorBaselines;
+    private i2cComm: I2CCommunication;
+
+    constructor() {
+        if (KitronikHardwareBoard.owner) {
+            throw new KitronikError(
+                'The Kitronik board is already in use by another device; release it or use simulated hardware',
+                'HARDWARE_ERROR'
+            );
+        }
+        KitronikHardwareBoard.owner = this;
+        this.i2cComm = new I2CCommunication(BME688_ADDRESS);
+        this.sensorInit = new KitronikSensorFrontEnd(new SensorInitialization(this.i2cComm));
+        this.sensor = new KitronikBME688();
+        this.oled = new KitronikOLED();
+        this.zipLeds = new KitronikZIPLEDs();
+        this.servos = [new KitronikServo(0), new KitronikServo(1)];
+        this.buzzer = new KitronikBuzzer();
+        this.rtc = new KitronikRTC();
+        this.gpio = new KitronikGPIO();
+        this.powerOut = new KitronikHighPowerOut();
+        this.baselines = new KitronikBaselines();
+    }
+
+    openI2C(address: number): I2CDevice {
+        return new KitronikI2CDevice(address);
+    }
+
+    isSensorError(error: unknown): boolean {
+        return error instanceof SensorError;
+    }
+
+    async dispose(): Promise<void> {
+        try {
+            this.buzzer.noTone();
+            await this.powerOut.setAllOutputs(false);
+        } finally {
+            if (KitronikHardwareBoard.owner === this) {
+                KitronikHardwareBoard.owner = null;
+            }
+        }
+    }
+}
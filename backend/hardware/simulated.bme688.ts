@@ -0,0 +1,170 @@
+import {
+    BME688Device,
+    BME688FrontEnd,
+    DataReading,
+    GasHeaterSettings,
+    ProgressDisplay,
+    SensorBaselines,
+    SensorMeasurement,
+    StoredBaseline
+} from '../types/hardware';
+import { MeasurementValues } from '../types/driver';
+import { SimulatedEnvironment, EnvironmentSample } from './simulated.environment';
+
+const BASELINE_SAMPLES = 10;
+const BASELINE_SAMPLE_DELAY_MS = 100;
+
+/**
+ * Stand-in for the BME688 and its SensorInitialization front end. Readings come
+ * from the shared SimulatedEnvironment; air quality follows the Kitronik
+ * scoring (75% gas resistance against baseline, 25% humidity comfort).
+ */
+export class SimulatedBME688 implements BME688FrontEnd, BME688Device {
+    private ambientTemp = 25;
+    private baselineResistance: number | null = null;
+    private last: EnvironmentSample;
+
+    constructor(private environment: SimulatedEnvironment) {
+        this.last = environment.sample();
+    }
+
+    async initialize(options: { gasSettings: GasHeaterSettings }): Promise<{ success: boolean }> {
+        this.setupGasSensor(options.gasSettings.targetTemp, options.gasSettings.heatDuration);
+        this.ambientTemp = options.gasSettings.ambientTemp;
+        return { success: true };
+    }
+
+    async measureData(): Promise<SensorMeasurement> {
+        this.last = this.environment.sample();
+        return {
+            ...this.last,
+            airQuality: this.getAirQualityScore()
+        };
+    }
+
+    getCalibrationData(): Record<string, number> {
+        return {
+            baselineResistance: this.baselineResistance ?? this.last.gasResistance,
+            ambientTemperature: this.ambientTemp
+        };
+    }
+
+    getAirQualityScore(): number {
+        const baseline = this.baselineResistance ?? this.last.gasResistance;
+        const gasScore = Math.min(this.last.gasResistance / baseline, 1) * 75;
+
+        const humidityOffset = Math.abs(this.last.humidity - 40);
+        const humidityScore = humidityOffset <= 2
+            ? 25
+            : Math.max(0, 25 * (1 - (humidityOffset - 2) / 40));
+
+        return Math.round(gasScore + humidityScore);
+    }
+
+    readeCO2(): number {
+        // Kitronik maps the IAQ score (0 = excellent, 500 = extreme) onto eCO2
+        const iaqScore = (100 - this.getAirQualityScore()) * 5;
+        return Math.round(250 * Math.exp(0.012 * iaqScore));
+    }
+
+    readTemperature(): number {
+        return this.last.temperature;
+    }
+
+    readHumidity(): number {
+        return this.last.humidity;
+    }
+
+    readPressure(): number {
+        return this.last.pressure;
+    }
+
+    readGasRes(): number {
+        return this.last.gasResistance;
+    }
+
+    async calcBaselines(display: ProgressDisplay, forcedRun: boolean): Promise<void> {
+        if (this.baselineResistance !== null && !forcedRun) {
+            return;
+        }
+
+        display.clear();
+        let total = 0;
+        for (let i = 0; i < BASELINE_SAMPLES; i++) {
+            await new Promise(resolve => setTimeout(resolve, BASELINE_SAMPLE_DELAY_MS));
+            const { gasResistance } = await this.measureData();
+            total += gasResistance;
+            display.print(`${Math.round(((i + 1) / BASELINE_SAMPLES) * 100)}%`);
+        }
+        this.baselineResistance = total / BASELINE_SAMPLES;
+    }
+
+    setupGasSensor(targetTemp: number, _duration: number): void {
+        this.environment.setHeaterTemperature(targetTemp);
+    }
+
+    async readSensorData(): Promise<DataReading> {
+        const measurement = await this.measureData();
+        return {
+            ...measurement,
+            airQualityIndex: measurement.airQuality,
+            timestamp: this.environment.now().toISOString()
+        };
+    }
+
+    async validateConnection(): Promise<void> {
+        // The simulated sensor is always reachable
+    }
+}
+
+const BASELINE_TOLERANCE = 0.1;
+const BASELINE_MEASUREMENTS = ['temperature', 'humidity', 'pressure', 'gasResistance'] as const;
+
+const SILENT_PROGRESS: ProgressDisplay = {
+    clear: () => undefined,
+    print: () => undefined
+};
+
+const CONSOLE_PROGRESS: ProgressDisplay = {
+    clear: () => console.log('Starting calibration...'),
+    print: (text: string) => console.log(`Calibration: ${text}`)
+};
+
+// Stand-in for BaselineCalculation and BaselineStorage, keeping the baseline in memory
+export class SimulatedBaselines implements SensorBaselines {
+    private stored: StoredBaseline | null = null;
+
+    constructor(private sensor: SimulatedBME688) {}
+
+    async calibrate(_sensor: BME688Device, forcedRun: boolean, displayProgress: boolean): Promise<void> {
+        if (this.stored && !forcedRun) {
+            return;
+        }
+
+        await this.sensor.calcBaselines(displayProgress ? CONSOLE_PROGRESS : SILENT_PROGRESS, forcedRun);
+        const { temperature, humidity, pressure, gasResistance, timestamp } = await this.sensor.readSensorData();
+        this.stored = { temperature, humidity, pressure, gasResistance, timestamp };
+    }
+
+    async loadBaseline(): Promise<StoredBaseline | null> {
+        return this.stored && { ...this.stored };
+    }
+
+    async saveBaseline(baseline: StoredBaseline): Promise<void> {
+        this.stored = { ...baseline };
+    }
+
+    // Largest relative change of any measurement the reading and baseline share
+    compareBaselines(reading: MeasurementValues, baseline: StoredBaseline): number {
+        const changes = BASELINE_MEASUREMENTS.flatMap(name => {
+            const value = reading[name];
+            const base = baseline[name];
+            return value !== undefined && base ? [Math.abs(value - base) / Math.abs(base)] : [];
+        });
+        return changes.length > 0 ? Math.max(...changes) : 0;
+    }
+
+    getToleranceThreshold(): number {
+        return BASELINE_TOLERANCE;
+    }
+}
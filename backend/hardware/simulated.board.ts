@@ -0,0 +1,85 @@
+import { KitronikBoard, SimulationOptions } from '../types/hardware';
+import { I2CDevice } from '../types/driver';
+import { SensorError } from '../utils/errorHandling';
+import { SimulatedEnvironment } from './simulated.environment';
+import { SimulatedBME688, SimulatedBaselines } from './simulated.bme688';
+import { SimulatedOLED, OLEDSnapshot } from './simulated.oled';
+import {
+    SimulatedZIPLEDs,
+    SimulatedServo,
+    SimulatedBuzzer,
+    SimulatedRTC,
+    SimulatedGPIO,
+    SimulatedHighPowerOut,
+    RGB
+} from './simulated.peripherals';
+
+export interface SimulatedBoardState {
+    time: string;
+    environment: ReturnType<SimulatedEnvironment['sample']>;
+    ventilating: boolean;
+    display: OLEDSnapshot;
+    leds: RGB[];
+    servos: number[];
+    buzzerFrequency: number | null;
+    gpio: ReturnType<SimulatedGPIO['getState']>;
+    highPowerState: boolean[];
+}
+
+export class SimulatedBoard implements KitronikBoard {
+    readonly mode = 'simulated' as const;
+    readonly environment: SimulatedEnvironment;
+    readonly sensorInit: SimulatedBME688;
+    readonly sensor: SimulatedBME688;
+    readonly oled: SimulatedOLED;
+    readonly zipLeds: SimulatedZIPLEDs;
+    readonly servos: SimulatedServo[];
+    readonly buzzer: SimulatedBuzzer;
+    readonly rtc: SimulatedRTC;
+    readonly gpio: SimulatedGPIO;
+    readonly powerOut: SimulatedHighPowerOut;
+    readonly baselines: SimulatedBaselines;
+
+    constructor(options: SimulationOptions = {}) {
+        this.environment = new SimulatedEnvironment(options);
+        // A single chip backs both the SensorInitialization front end and the raw driver
+        this.sensor = new SimulatedBME688(this.environment);
+        this.sensorInit = this.sensor;
+        this.oled = new SimulatedOLED();
+        this.zipLeds = new SimulatedZIPLEDs();
+        this.servos = [new SimulatedServo(), new SimulatedServo()];
+        this.buzzer = new SimulatedBuzzer();
+        this.rtc = new SimulatedRTC(this.environment);
+        this.gpio = new SimulatedGPIO();
+        this.powerOut = new SimulatedHighPowerOut(this.environment);
+        this.baselines = new SimulatedBaselines(this.sensor);
+    }
+
+    getState(): SimulatedBoardState {
+        return {
+            time: this.environment.now().toISOString(),
+            environment: this.environment.sample(),
+            ventilating: this.environment.isVentilating(),
+            display: this.oled.snapshot(),
+            leds: this.zipLeds.getPixels(),
+            servos: this.servos.map(servo => servo.getAngle()),
+            buzzerFrequency: this.buzzer.getFrequency(),
+            gpio: this.gpio.getState(),
+            highPowerState: this.powerOut.getStates()
+        };
+    }
+
+    openI2C(address: number): I2CDevice {
+        // Simulated drivers read the environment model directly instead of a bus
+        throw new Error(`No I2C bus on the simulated board (address 0x${address.toString(16)})`);
+    }
+
+    isSensorError(error: unknown): boolean {
+        return error instanceof SensorError;
+    }
+
+    async dispose(): Promise<void> {
+        this.buzzer.noTone();
+        await this.powerOut.setAllOutputs(false);
+    }
+}
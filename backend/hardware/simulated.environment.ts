@@ -0,0 +1,156 @@
+import { SimulationOptions } from '../types/hardware';
+
+export interface EnvironmentSample {
+    temperature: number;
+    humidity: number;
+    pressure: number;
+    gasResistance: number;
+    co2: number;
+}
+
+const CLEAN_AIR_RESISTANCE = 120000; // Ohms at 40% RH with the heater at 320°C
+const OUTDOOR_CO2 = 420; // ppm
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small deterministic PRNG so simulated runs can be reproduced from a seed
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Shared physical model behind the simulated board. Values drift with a
+ * diurnal cycle plus mean-reverting noise, and occasional VOC events lower
+ * the gas resistance until they decay or the fan clears them.
+ */
+export class SimulatedEnvironment {
+    private random: () => number;
+    private timeScale: number;
+    private baseTemperature: number;
+    private baseHumidity: number;
+    private basePressure: number;
+    private startedAt: number;
+    private lastUpdate: number;
+    private temperatureNoise = 0;
+    private humidityNoise = 0;
+    private pressure: number;
+    private vocLoad = 0;
+    private co2 = 600;
+    private heaterTemp = 320;
+    private ventilating = false;
+
+    constructor(options: SimulationOptions = {}) {
+        this.random = mulberry32(options.seed ?? Date.now());
+        this.timeScale = options.timeScale ?? 1;
+        this.baseTemperature = options.baseTemperature ?? 21;
+        this.baseHumidity = options.baseHumidity ?? 45;
+        this.basePressure = options.basePressure ?? 1013.25;
+        this.pressure = this.basePressure;
+        this.startedAt = Date.now();
+        this.lastUpdate = this.startedAt;
+    }
+
+    setHeaterTemperature(targetTemp: number): void {
+        this.heaterTemp = targetTemp;
+    }
+
+    setVentilation(active: boolean): void {
+        this.ventilating = active;
+    }
+
+    isVentilating(): boolean {
+        return this.ventilating;
+    }
+
+    // Simulated wall-clock time, honouring the configured time scale
+    now(): Date {
+        const elapsed = (Date.now() - this.startedAt) * this.timeScale;
+        return new Date(this.startedAt + elapsed);
+    }
+
+    sample(): EnvironmentSample {
+        this.advance();
+
+        const time = this.now();
+        const hour = time.getHours() + time.getMinutes() / 60;
+        // Warmest mid-afternoon, coolest just before dawn
+        const diurnal = Math.sin((2 * Math.PI * (hour - 9)) / 24);
+
+        const temperature = this.baseTemperature + 3 * diurnal + this.temperatureNoise;
+        const humidity = this.clamp(
+            this.baseHumidity - 2.5 * (temperature - this.baseTemperature) + this.humidityNoise
+                - (this.ventilating ? 5 : 0),
+            5,
+            95
+        );
+
+        // Hotter heater plates and damp air both lower the MOX resistance
+        const heaterFactor = Math.exp(-(this.heaterTemp - 320) / 150);
+        const humidityFactor = Math.exp(-(humidity - 40) / 60);
+        const gasResistance = (CLEAN_AIR_RESISTANCE * heaterFactor * humidityFactor) / (1 + this.vocLoad);
+
+        return {
+            temperature: this.round(temperature, 2),
+            humidity: this.round(humidity, 2),
+            pressure: this.round(this.pressure, 2),
+            gasResistance: Math.round(gasResistance),
+            co2: Math.round(this.co2)
+        };
+    }
+
+    private advance(): void {
+        const now = Date.now();
+        const dtMinutes = ((now - this.lastUpdate) * this.timeScale) / 60000;
+        this.lastUpdate = now;
+        if (dtMinutes <= 0) return;
+
+        const steps = Math.min(Math.ceil(dtMinutes), 24 * 60);
+        const step = dtMinutes / steps;
+
+        for (let i = 0; i < steps; i++) {
+            this.temperatureNoise = this.revert(this.temperatureNoise, 0, 0.05, 0.08, step);
+            this.humidityNoise = this.revert(this.humidityNoise, 0, 0.05, 0.4, step);
+            this.pressure = this.revert(this.pressure, this.basePressure, 0.0005, 0.08, step);
+
+            // Cooking, cleaning products and the like: roughly three events a day
+            if (this.random() < (3 / DAY_MS) * 60000 * step) {
+                this.vocLoad += 0.5 + this.random() * 3;
+            }
+            const decay = this.ventilating ? 0.1 : 0.02;
+            this.vocLoad *= Math.exp(-decay * step);
+
+            // Occupants breathe CO2 in during waking hours; air exchange pulls it back outdoors
+            const hour = this.now().getHours();
+            const occupied = hour >= 7 && hour < 23;
+            const target = OUTDOOR_CO2 + (occupied ? 500 : 250) + 200 * this.vocLoad;
+            this.co2 = this.revert(this.co2, target, this.ventilating ? 0.08 : 0.02, 4, step);
+            this.co2 = Math.max(OUTDOOR_CO2, this.co2);
+        }
+    }
+
+    // Ornstein-Uhlenbeck step towards mean
+    private revert(value: number, mean: number, rate: number, volatility: number, dt: number): number {
+        return value + rate * (mean - value) * dt + volatility * Math.sqrt(dt) * this.gaussian();
+    }
+
+    private gaussian(): number {
+        const u = Math.max(this.random(), Number.EPSILON);
+        const v = this.random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    private clamp(value: number, min: number, max: number): number {
+        return Math.min(max, Math.max(min, value));
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
@@ -0,0 +1,105 @@
+import {
+    OLEDDisplay,
+    OLED_WIDTH,
+    OLED_HEIGHT,
+    OLED_TEXT_LINES,
+    OLED_LINE_CHARS
+} from '../types/hardware';
+
+export interface OLEDSnapshot {
+    initialized: boolean;
+    text: string[];
+    // One string per pixel row, '#' for lit pixels
+    pixels: string[];
+    lastShown: string | null;
+}
+
+/**
+ * Framebuffer-backed OLED. Drawing calls write to a back buffer and only
+ * become visible on show(), mirroring the SSD1306 behaviour of the real board.
+ */
+export class SimulatedOLED implements OLEDDisplay {
+    private initialized = false;
+    private buffer = new Uint8Array(OLED_WIDTH * OLED_HEIGHT);
+    private text: string[] = new Array(OLED_TEXT_LINES).fill('');
+    private visible = new Uint8Array(OLED_WIDTH * OLED_HEIGHT);
+    private visibleText: string[] = new Array(OLED_TEXT_LINES).fill('');
+    private lastShown: string | null = null;
+
+    async initialize(): Promise<void> {
+        this.initialized = true;
+    }
+
+    async clear(): Promise<void> {
+        this.buffer.fill(0);
+        this.text = new Array(OLED_TEXT_LINES).fill('');
+    }
+
+    writeTextToLine(text: string, line: number): void {
+        if (line < 0 || line >= OLED_TEXT_LINES) {
+            throw new Error(`Invalid OLED line: ${line}`);
+        }
+        this.text[line] = text.slice(0, OLED_LINE_CHARS);
+    }
+
+    setPixel(x: number, y: number, on = true): void {
+        if (x < 0 || x >= OLED_WIDTH || y < 0 || y >= OLED_HEIGHT) return;
+        this.buffer[y * OLED_WIDTH + x] = on ? 1 : 0;
+    }
+
+    drawRect(x: number, y: number, width: number, height: number): void {
+        this.drawLine(x, y, x + width - 1, y);
+        this.drawLine(x, y + height - 1, x + width - 1, y + height - 1);
+        this.drawLine(x, y, x, y + height - 1);
+        this.drawLine(x + width - 1, y, x + width - 1, y + height - 1);
+    }
+
+    drawLine(x1: number, y1: number, x2: number, y2: number): void {
+        // Bresenham
+        const dx = Math.abs(x2 - x1);
+        const dy = -Math.abs(y2 - y1);
+        const sx = x1 < x2 ? 1 : -1;
+        const sy = y1 < y2 ? 1 : -1;
+        let err = dx + dy;
+        let x = x1;
+        let y = y1;
+
+        while (true) {
+            this.setPixel(x, y);
+            if (x === x2 && y === y2) break;
+            const e2 = 2 * err;
+            if (e2 >= dy) {
+                err += dy;
+                x += sx;
+            }
+            if (e2 <= dx) {
+                err += dx;
+                y += sy;
+            }
+        }
+    }
+
+    async show(): Promise<void> {
+        this.visible.set(this.buffer);
+        this.visibleText = [...this.text];
+        this.lastShown = new Date().toISOString();
+    }
+
+    snapshot(): OLEDSnapshot {
+        const pixels: string[] = [];
+        for (let y = 0; y < OLED_HEIGHT; y++) {
+            let row = '';
+            for (let x = 0; x < OLED_WIDTH; x++) {
+                row += this.visible[y * OLED_WIDTH + x] ? '#' : ' ';
+            }
+            pixels.push(row);
+        }
+
+        return {
+            initialized: this.initialized,
+            text: [...this.visibleText],
+            pixels,
+            lastShown: this.lastShown
+        };
+    }
+}
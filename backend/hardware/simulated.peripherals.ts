@@ -0,0 +1,193 @@
+import {
+    Buzzer,
+    GPIOPins,
+    HighPowerOutputs,
+    RealTimeClock,
+    ServoMotor,
+    ZIPLEDStrip,
+    ZIP_LED_COUNT
+} from '../types/hardware';
+import { SimulatedEnvironment } from './simulated.environment';
+
+export const GPIO_PIN_COUNT = 4;
+export const HIGH_POWER_OUTPUT_COUNT = 4;
+// High power output driving the ventilation fan, as wired in KitronikService
+const FAN_OUTPUT = 0;
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+    red: [255, 0, 0],
+    orange: [255, 165, 0],
+    yellow: [255, 255, 0],
+    green: [0, 255, 0],
+    blue: [0, 0, 255],
+    purple: [128, 0, 128],
+    white: [255, 255, 255],
+    black: [0, 0, 0]
+};
+
+export type RGB = [number, number, number];
+
+export class SimulatedZIPLEDs implements ZIPLEDStrip {
+    private pending: RGB[] = Array.from({ length: ZIP_LED_COUNT }, () => [0, 0, 0] as RGB);
+    private shown: RGB[] = Array.from({ length: ZIP_LED_COUNT }, () => [0, 0, 0] as RGB);
+
+    async setColor(index: number, color: string): Promise<void> {
+        const rgb = NAMED_COLORS[color.toLowerCase()] ?? this.parseHex(color);
+        await this.setPixel(index, ...rgb);
+    }
+
+    async setPixel(index: number, r: number, g: number, b: number): Promise<void> {
+        if (index < 0 || index >= ZIP_LED_COUNT) {
+            throw new Error(`Invalid ZIP LED index: ${index}`);
+        }
+        this.pending[index] = [r, g, b];
+    }
+
+    async clear(): Promise<void> {
+        this.pending = this.pending.map(() => [0, 0, 0] as RGB);
+    }
+
+    async show(): Promise<void> {
+        this.shown = this.pending.map(pixel => [...pixel] as RGB);
+    }
+
+    getPixels(): RGB[] {
+        return this.shown.map(pixel => [...pixel] as RGB);
+    }
+
+    private parseHex(color: string): RGB {
+        const match = /^#?([0-9a-f]{6})$/i.exec(color);
+        if (!match) {
+            throw new Error(`Unknown LED colour: ${color}`);
+        }
+        const value = parseInt(match[1], 16);
+        return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+    }
+}
+
+export class SimulatedServo implements ServoMotor {
+    private angle = 0;
+
+    async setAngle(angle: number): Promise<void> {
+        if (angle < 0 || angle > 180) {
+            throw new Error(`Invalid servo angle: ${angle}`);
+        }
+        this.angle = angle;
+    }
+
+    getAngle(): number {
+        return this.angle;
+    }
+}
+
+export class SimulatedBuzzer implements Buzzer {
+    private frequency: number | null = null;
+
+    tone(frequency: number): void {
+        this.frequency = frequency;
+    }
+
+    noTone(): void {
+        this.frequency = null;
+    }
+
+    getFrequency(): number | null {
+        return this.frequency;
+    }
+}
+
+export class SimulatedRTC implements RealTimeClock {
+    constructor(private environment: SimulatedEnvironment) {}
+
+    getDateTime(): Date {
+        return this.environment.now();
+    }
+}
+
+export class SimulatedGPIO implements GPIOPins {
+    private modes: Array<'input' | 'output' | null> = new Array(GPIO_PIN_COUNT).fill(null);
+    private levels: boolean[] = new Array(GPIO_PIN_COUNT).fill(false);
+
+    async setupPin(pin: number, mode: 'input' | 'output'): Promise<void> {
+        this.checkPin(pin);
+        this.modes[pin] = mode;
+    }
+
+    async readPin(pin: number): Promise<boolean> {
+        this.checkPin(pin);
+        return this.levels[pin];
+    }
+
+    async writePin(pin: number, value: boolean): Promise<void> {
+        this.checkPin(pin);
+        if (this.modes[pin] !== 'output') {
+            throw new Error(`GPIO pin ${pin} is not configured as an output`);
+        }
+        this.levels[pin] = value;
+    }
+
+    // Drive an input pin from outside, e.g. a test or the simulator API
+    setInput(pin: number, value: boolean): void {
+        this.checkPin(pin);
+        if (this.modes[pin] === 'output') {
+            throw new Error(`GPIO pin ${pin} is configured as an output`);
+        }
+        this.levels[pin] = value;
+    }
+
+    getState(): Array<{ mode: 'input' | 'output' | null; level: boolean }> {
+        return this.modes.map((mode, pin) => ({ mode, level: this.levels[pin] }));
+    }
+
+    private checkPin(pin: number): void {
+        if (!Number.isInteger(pin) || pin < 0 || pin >= GPIO_PIN_COUNT) {
+            throw new Error(`Invalid GPIO pin: ${pin}`);
+        }
+    }
+}
+
+export class SimulatedHighPowerOut implements HighPowerOutputs {
+    private states: boolean[] = new Array(HIGH_POWER_OUTPUT_COUNT).fill(false);
+
+    constructor(private environment: SimulatedEnvironment) {}
+
+    async setupOutput(index: number): Promise<void> {
+        this.checkIndex(index);
+    }
+
+    async setOutput(index: number, state: boolean): Promise<void> {
+        this.checkIndex(index);
+        this.states[index] = state;
+        if (index === FAN_OUTPUT) {
+            this.environment.setVentilation(state);
+        }
+    }
+
+    async setAllOutputs(state: boolean): Promise<void> {
+        for (let i = 0; i < HIGH_POWER_OUTPUT_COUNT; i++) {
+            await this.setOutput(i, state);
+        }
+    }
+
+    async turnOn(index: number): Promise<void> {
+        await this.setOutput(index, true);
+    }
+
+    async turnOff(index?: number): Promise<void> {
+        if (index === undefined) {
+            await this.setAllOutputs(false);
+        } else {
+            await this.setOutput(index, false);
+        }
+    }
+
+    getStates(): boolean[] {
+        return [...this.states];
+    }
+
+    private checkIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= HIGH_POWER_OUTPUT_COUNT) {
+            throw new Error(`Invalid high power output index: ${index}`);
+        }
+    }
+}
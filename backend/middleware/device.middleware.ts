@@ -1,14 +1,42 @@
 import { Request, Response, NextFunction } from 'express';
 import admin from '../utils/firebase';
 import { AuthenticatedRequest } from './auth.middleware';
+import { SensorModel } from '../types/driver';
+import { InterlockConfig } from '../types/interlock';
+import { DisplayConfig } from '../types/display';
+import { SoundConfig } from '../types/sound';
+import { GPIOConfig } from '../types/gpio';
+import { StationConfig } from '../types/station';
+import { HeaterConfig } from '../types/heater';
+import { IAQMode } from '../types/iaq';
+import { AutoCalibrationConfig } from '../types/drift';
+import { CorrectionConfig } from '../types/correction';
+import { ForecastConfig } from '../types/forecast';
+import { AlertLifecycleConfig } from '../types/alert';
+import { ThresholdConfig } from '../../shared/thresholds';
+import { AlertRule } from '../../shared/alert-rules';
 
-interface DeviceInfo {
+export interface DeviceInfo {
   id: string;
   name: string;
   type: string;
   userId: string;
   lastActive: number;
   status: 'active' | 'inactive' | 'disabled';
+  sensorModel?: SensorModel;
+  iaqMode?: IAQMode;
+  interlocks?: Partial<InterlockConfig>;
+  display?: Partial<DisplayConfig>;
+  sound?: Partial<SoundConfig>;
+  gpio?: Partial<GPIOConfig>;
+  station?: Partial<StationConfig>;
+  heater?: Partial<HeaterConfig>;
+  autoCalibration?: Partial<AutoCalibrationConfig>;
+  corrections?: CorrectionConfig;
+  forecast?: Partial<ForecastConfig>;
+  alertRules?: AlertRule[];
+  alertLifecycle?: Partial<AlertLifecycleConfig>;
+  thresholds?: ThresholdConfig;
 }
 
 export interface DeviceRequest extends AuthenticatedRequest {
@@ -36,7 +64,8 @@ export const validateDevice = async (
       return res.status(401).json({ error: 'Invalid device token' });
     }
 
-    const deviceInfo = deviceDoc.data() as DeviceInfo;
+    // Devices registered through the Cloud Function don't store their id, so take it from the document
+    const deviceInfo = { ...deviceDoc.data(), id: deviceDoc.id } as DeviceInfo;
 
     // Verify device belongs to authenticated user
     if (req.user?.uid !== deviceInfo.userId) {
@@ -0,0 +1,106 @@
+import express, { Response } from 'express';
+import { deviceRegistry, DeviceServices } from '../services/device-registry.service';
+import { requireAuth } from '../middleware/auth.middleware';
+import { validateDevice, DeviceRequest } from '../middleware/device.middleware';
+import { ValidationService } from '../services/validation.service';
+import { KitronikError } from '../utils/errorHandling';
+import { ALERT_STATUSES, AlertStatus } from '../types/alert';
+import admin from '../utils/firebase';
+
+const router = express.Router();
+
+// Once nothing is left open there is nothing for the buzzer to keep escalating
+const quietBuzzer = async ({ alerts, buzzer }: DeviceServices): Promise<void> => {
+    const open = await alerts.list(['open']);
+    if (open.length === 0) {
+        buzzer.acknowledge();
+    }
+};
+
+// ?status=open,acknowledged limits the list to those states
+router.get('/', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        const statuses = typeof req.query.status === 'string'
+            ? req.query.status.split(',').map(status => status.trim()) as AlertStatus[]
+            : undefined;
+        const unknown = statuses?.find(status => !ALERT_STATUSES.includes(status));
+        if (unknown) {
+            throw new KitronikError(`Unknown alert status: ${unknown}`, 'VALIDATION_ERROR');
+        }
+
+        const { alerts } = deviceRegistry.get(req.deviceInfo!);
+        res.json({ alerts: await alerts.list(statuses) });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to list alerts'
+        });
+    }
+});
+
+router.get('/config', [requireAuth, validateDevice], (req: DeviceRequest, res: Response) => {
+    res.json(deviceRegistry.get(req.deviceInfo!).alerts.getConfig());
+});
+
+router.put('/config', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        ValidationService.validateAlertLifecycle(req.body);
+        const { deviceId, alerts } = deviceRegistry.get(req.deviceInfo!);
+        const config = alerts.configure({ ...alerts.getConfig(), ...req.body });
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ alertLifecycle: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update alert settings'
+        });
+    }
+});
+
+router.post('/:id/acknowledge', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        const services = deviceRegistry.get(req.deviceInfo!);
+        const alert = await services.alerts.acknowledge(req.params.id, req.user!.uid, req.body.note);
+        await quietBuzzer(services);
+        res.json({ success: true, alert });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to acknowledge alert'
+        });
+    }
+});
+
+router.post('/:id/snooze', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        const services = deviceRegistry.get(req.deviceInfo!);
+        const alert = await services.alerts.snooze(
+            req.params.id,
+            Number(req.body.durationMs),
+            req.user!.uid,
+            req.body.note
+        );
+        await quietBuzzer(services);
+        res.json({ success: true, alert });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to snooze alert'
+        });
+    }
+});
+
+router.post('/:id/resolve', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        const services = deviceRegistry.get(req.deviceInfo!);
+        const alert = await services.alerts.resolve(req.params.id, req.user!.uid, req.body.note);
+        await quietBuzzer(services);
+        res.json({ success: true, alert });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to resolve alert'
+        });
+    }
+});
+
+export default router;
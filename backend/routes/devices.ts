@@ -2,6 +2,9 @@ import express from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
 import admin from '../utils/firebase';
 import { v4 as uuidv4 } from 'uuid';
+import { SENSOR_MODELS } from '../types/driver';
+import { IAQ_MODES } from '../types/iaq';
+import { deviceRegistry } from '../services/device-registry.service';
 
 const router = express.Router();
 
@@ -28,11 +31,19 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res) => {
 // Register a new device
 router.post('/register', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const { name } = req.body;
+    const { name, sensorModel = 'bme688', iaqMode = 'static' } = req.body;
     if (!name) {
       return res.status(400).json({ error: 'Device name is required' });
     }
 
+    if (!SENSOR_MODELS.includes(sensorModel)) {
+      return res.status(400).json({ error: 'Unsupported sensor model' });
+    }
+
+    if (!IAQ_MODES.includes(iaqMode)) {
+      return res.status(400).json({ error: 'iaqMode must be static or dynamic' });
+    }
+
     const deviceToken = uuidv4();
     const deviceData = {
       id: deviceToken,
@@ -40,6 +51,8 @@ router.post('/register', requireAuth, async (req: AuthenticatedRequest, res) =>
       userId: req.user?.uid,
       status: 'active',
       type: 'kitronik',
+      sensorModel,
+      iaqMode,
       created: admin.firestore.FieldValue.serverTimestamp(),
       lastActive: admin.firestore.FieldValue.serverTimestamp()
     };
@@ -86,6 +99,7 @@ router.delete('/:deviceId', requireAuth, async (req: AuthenticatedRequest, res)
           return admin.database().ref('sessions').update(updates);
         })
     ]);
+    await deviceRegistry.dispose(deviceId);
 
     res.json({ success: true });
   } catch (error) {
@@ -122,6 +136,11 @@ router.patch('/:deviceId/status', requireAuth, async (req: AuthenticatedRequest,
       lastUpdated: admin.firestore.FieldValue.serverTimestamp()
     });
 
+    // Inactive and disabled devices should not keep hardware services alive
+    if (status !== 'active') {
+      await deviceRegistry.dispose(deviceId);
+    }
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error updating device status:', error);
@@ -0,0 +1,71 @@
+import express, { Response } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { notificationService } from '../services/notification.service';
+import { ValidationService } from '../services/validation.service';
+import { KitronikError } from '../utils/errorHandling';
+import { serverConfig } from '../config/server.config';
+
+const router = express.Router();
+
+const MAX_DELIVERIES = 200;
+
+// Notification settings belong to the signed-in user rather than a device
+router.get('/preferences', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json(await notificationService.getPreferences(req.user!.uid));
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get notification preferences'
+        });
+    }
+});
+
+router.put('/preferences', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        ValidationService.validateNotificationPreferences(req.body);
+        const preferences = await notificationService.setPreferences(req.user!.uid, {
+            channels: req.body.channels,
+            routes: req.body.routes
+        });
+        res.json({ success: true, preferences });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update notification preferences'
+        });
+    }
+});
+
+router.get('/deliveries', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const limit = Math.min(MAX_DELIVERIES, Number(req.query.limit) || 50);
+        res.json({ deliveries: await notificationService.getDeliveries(req.user!.uid, limit) });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get notification deliveries'
+        });
+    }
+});
+
+// Answers with the first attempt; retries carry on in the background
+router.post('/channels/:id/test', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const delivery = await notificationService.test(req.user!.uid, req.params.id);
+        res.json({ success: delivery.status === 'delivered', delivery });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to send a test notification'
+        });
+    }
+});
+
+// Browsers need the VAPID public key to subscribe to Web Push
+router.get('/push-key', requireAuth, (req: AuthenticatedRequest, res: Response) => {
+    const { publicKey } = serverConfig.notifications.webPush;
+    if (!publicKey) {
+        res.status(404).json({ error: 'Web Push is not configured' });
+        return;
+    }
+    res.json({ publicKey });
+});
+
+export default router;
@@ -1,76 +1,255 @@
 import express, { Request, Response } from 'express';
 import { SensorController } from '../controllers/sensor.controller';
 import { DiagnosticController } from '../controllers/diagnostic.controller';
-import { MonitoringService } from '../services/monitoring.service';
-import { KitronikService } from '../services/kitronik.service';
-import { withRetry } from '../utils/errorHandling';
-import { requireAuth, requireAdmin, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { DiagnosticService } from '../services/diagnostic.service';
+import { deviceRegistry } from '../services/device-registry.service';
+import { SimulatedBoard } from '../hardware';
+import { withRetry, KitronikError } from '../utils/errorHandling';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware';
 import { validateDevice, DeviceRequest } from '../middleware/device.middleware';
 import { validateSession } from '../middleware/session.middleware';
+import { OutputKind, OutputRequest } from '../types/output';
+import { DisplayPattern } from '../types/sensor';
+import { SoundLevel } from '../types/sound';
+import { CalibrationJob } from '../types/calibration';
+import { CorrectionConfig } from '../types/correction';
+import { ThresholdConfig } from '../../shared/thresholds';
+import { serverConfig } from '../config/server.config';
+import { ValidationService } from '../services/validation.service';
+import { BaselineService } from '../services/baseline.service';
+import admin from '../utils/firebase';
+import { AlertRule, parseExpression } from '../../shared/alert-rules';
 
 const router = express.Router();
-const kitronikService = new KitronikService();
-const monitoringService = new MonitoringService(kitronikService);
-const sensorController = new SensorController(kitronikService, monitoringService);
-const diagnosticController = new DiagnosticController(monitoringService);
-
-// Public routes - require only basic authentication
-router.get('/readings/history', requireAuth, (req: AuthenticatedRequest, res) => 
-  sensorController.getSensorData(req, res));
-router.get('/readings/current', requireAuth, (req: AuthenticatedRequest, res) => 
-  sensorController.readSensorData(req, res));
-router.get('/status', requireAuth, (req: AuthenticatedRequest, res) => 
-  sensorController.getSensorStatus(req, res));
-
-// Device-specific routes - require device validation
+
+// How long patterns sent to /outputs/display stay up when they don't set a duration
+const MANUAL_DISPLAY_MS = 60 * 1000;
+
+interface DeviceControllers {
+    sensor: SensorController;
+    diagnostic: DiagnosticController;
+}
+
+// Controllers subscribe to their device's monitoring events, so build them once per device
+const controllers = new Map<string, DeviceControllers>();
+deviceRegistry.on('disposed', (deviceId: string) => controllers.delete(deviceId));
+
+const servicesFor = (req: DeviceRequest) => deviceRegistry.get(req.deviceInfo!);
+
+const controllersFor = (req: DeviceRequest): DeviceControllers => {
+    const { deviceId, kitronik, monitoring, display } = servicesFor(req);
+    let deviceControllers = controllers.get(deviceId);
+    if (!deviceControllers) {
+        deviceControllers = {
+            sensor: new SensorController(kitronik, monitoring, display),
+            diagnostic: new DiagnosticController(new DiagnosticService(kitronik, monitoring))
+        };
+        controllers.set(deviceId, deviceControllers);
+    }
+    return deviceControllers;
+};
+
+// Every route acts on the device selected by the x-device-token header
+router.get('/readings/history', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).sensor.getSensorData(req, res));
+router.get('/readings/current', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).sensor.readSensorData(req, res));
+router.get('/status', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).sensor.getSensorStatus(req, res));
+
 router.get('/environmental', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
-  sensorController.getEnvironmentalData(req, res));
+  controllersFor(req).sensor.getEnvironmentalData(req, res));
+router.get('/capabilities', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).sensor.getCapabilities(req, res));
 
 router.post('/monitoring/start', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
-  sensorController.startMonitoring(req, res));
+  controllersFor(req).sensor.startMonitoring(req, res));
 router.post('/monitoring/stop', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
-  sensorController.stopMonitoring(req, res));
-router.post('/monitoring/thresholds', [requireAuth, validateDevice], (req: DeviceRequest, res) => 
-  sensorController.setMonitoringThresholds(req, res));
+  controllersFor(req).sensor.stopMonitoring(req, res));
+
+// Monitoring thresholds; each version is kept under the device so threshold alerts can be traced back
+const MAX_THRESHOLD_VERSIONS = 50;
+
+// Writes the thresholds and their version together, unless another change was saved since
+// the running version the config was built from
+const saveThresholds = async (deviceId: string, config: ThresholdConfig) => {
+    const db = admin.firestore();
+    const device = db.collection('devices').doc(deviceId);
+    await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+        const stored = await transaction.get(device);
+        const storedVersion: number = stored.data()?.thresholds?.version ?? 0;
+        if (storedVersion !== config.version - 1) {
+            throw new KitronikError(
+                `Thresholds were changed elsewhere (version ${storedVersion}); reload them and try again`,
+                'VALIDATION_ERROR'
+            );
+        }
+        transaction.update(device, { thresholds: config });
+        transaction.set(device.collection('thresholds').doc(String(config.version)), config);
+    });
+};
+
+router.get('/monitoring/thresholds', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    res.json(servicesFor(req).monitoring.getThresholds());
+});
+
+// Sections left out of the body keep their current values; monitoring only switches over once both
+// documents are stored
+router.put('/monitoring/thresholds', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { deviceId, monitoring } = servicesFor(req);
+        const thresholds = { ...monitoring.getThresholds().thresholds, ...req.body.thresholds };
+        ValidationService.validateThresholds(thresholds);
+        const config = monitoring.buildThresholds(thresholds, req.user!.uid);
+
+        await saveThresholds(deviceId, config);
+        res.json({ success: true, config: monitoring.applyThresholds(config) });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update thresholds'
+        });
+    }
+});
+
+// Newest first
+router.get('/monitoring/thresholds/versions', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const limit = Math.min(MAX_THRESHOLD_VERSIONS, Number(req.query.limit) || 20);
+        const snapshot = await admin.firestore()
+            .collection('devices')
+            .doc(servicesFor(req).deviceId)
+            .collection('thresholds')
+            .orderBy('version', 'desc')
+            .limit(limit)
+            .get();
+        res.json({ versions: snapshot.docs.map(doc => doc.data() as ThresholdConfig) });
+    } catch (error) {
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to get threshold versions'
+        });
+    }
+});
 
 // Admin routes - require admin privileges
-router.post('/calibrate', [requireAuth, requireAdmin], (req: AuthenticatedRequest, res) => 
-  sensorController.calibrateSensor(req, res));
-router.post('/diagnostics/run', [requireAuth, requireAdmin], (req: AuthenticatedRequest, res) => 
-  diagnosticController.runDiagnostics(req, res));
-router.post('/diagnostics/self-test', [requireAuth, requireAdmin], (req: AuthenticatedRequest, res) => 
-  diagnosticController.performSelfTest(req, res));
+// Starts a background calibration; follow it on /calibration/:id/events
+router.post('/calibrate', [requireAuth, requireAdmin, validateDevice], (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateCalibrationOptions(req.body);
+        const job = servicesFor(req).calibration.start(req.body, req.user!.uid);
+        res.status(202).json({ success: true, job });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to start calibration'
+        });
+    }
+});
+router.post('/diagnostics/run', [requireAuth, requireAdmin, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).diagnostic.runDiagnostics(req, res));
+router.post('/diagnostics/self-test', [requireAuth, requireAdmin, validateDevice], (req: DeviceRequest, res) => 
+  controllersFor(req).diagnostic.performSelfTest(req, res));
 
 // Output control endpoints - require device validation and active session
-router.post('/outputs/display', [requireAuth, validateDevice, validateSession], async (req: DeviceRequest, res) => {
+router.post('/outputs/display', [requireAuth, validateDevice, validateSession], (req: DeviceRequest, res) => {
     try {
-        await withRetry(() => kitronikService.updateDisplay(req.body.patterns));
-        res.json({ success: true });
+        const patterns: DisplayPattern[] = req.body.patterns;
+        if (!Array.isArray(patterns)) {
+            throw new KitronikError('patterns must be an array', 'VALIDATION_ERROR');
+        }
+        // Raw patterns pre-empt the page rotation like any other manual interrupt
+        const durations = patterns.map(pattern => pattern.duration ?? 0);
+        const interrupt = servicesFor(req).display.interrupt({
+            id: 'outputs:display',
+            level: 'manual',
+            patterns,
+            durationMs: Math.max(MANUAL_DISPLAY_MS, ...durations)
+        });
+        res.json({ success: true, interrupt });
     } catch (error) {
-        res.status(500).json({ 
+        res.status(error instanceof KitronikError ? 400 : 500).json({ 
             error: error instanceof Error ? error.message : 'Failed to update display'
         });
     }
 });
 
+// Either a static `pattern` or an `animation` (optionally with an id and layer)
 router.post('/outputs/leds', [requireAuth, validateDevice, validateSession], async (req: DeviceRequest, res) => {
     try {
-        await withRetry(() => kitronikService.setLEDPattern(req.body.pattern));
+        const { kitronik } = servicesFor(req);
+        if (req.body.animation) {
+            ValidationService.validateLEDAnimation(req.body.animation);
+            const { id, layer } = req.body;
+            const animation = kitronik.getLEDAnimator().play(req.body.animation, { id, layer });
+            res.json({ success: true, animation });
+            return;
+        }
+
+        await withRetry(() => kitronik.setLEDPattern(req.body.pattern));
         res.json({ success: true });
     } catch (error) {
-        res.status(500).json({ 
+        res.status(error instanceof KitronikError ? 400 : 500).json({ 
             error: error instanceof Error ? error.message : 'Failed to set LED pattern'
         });
     }
 });
 
+router.get('/outputs/leds', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    res.json({ animations: servicesFor(req).kitronik.getLEDAnimator().list() });
+});
+
+router.delete('/outputs/leds/:id', [requireAuth, validateDevice, validateSession], (req: DeviceRequest, res) => {
+    const cancelled = servicesFor(req).kitronik.getLEDAnimator().cancel(req.params.id);
+    if (!cancelled) {
+        res.status(404).json({ error: 'Animation not found' });
+        return;
+    }
+    res.json({ success: true });
+});
+
+// Dashboard writes are manual overrides unless the UI's auto mode sends mode: 'automation'
+const outputRequest = (req: DeviceRequest): OutputRequest => {
+    if (req.body.mode === 'automation') {
+        return { priority: 'automation', owner: 'dashboard-auto', reason: 'Dashboard auto mode' };
+    }
+
+    const durationMs = req.body.durationMs !== undefined
+        ? Number(req.body.durationMs)
+        : serverConfig.outputs.manualOverrideMs;
+    // Anything else would be taken as a hold that never expires
+    if (!Number.isFinite(durationMs) || durationMs < 0) {
+        throw new KitronikError('durationMs must be a number of milliseconds, 0 to hold until released', 'VALIDATION_ERROR');
+    }
+    return {
+        priority: 'manual',
+        owner: `user:${req.user?.uid}`,
+        reason: 'Manual override',
+        // 0 holds the override until it is released
+        durationMs: durationMs > 0 ? durationMs : undefined
+    };
+};
+
+const OUTPUT_COUNTS: Record<OutputKind, number> = { power: 4, servo: 2 };
+
+// Checked before the write so a bad request isn't retried as a hardware fault
+const outputIndex = (req: DeviceRequest, kind: OutputKind): number => {
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= OUTPUT_COUNTS[kind]) {
+        throw new KitronikError(`${kind} output index must be 0 to ${OUTPUT_COUNTS[kind] - 1}`, 'VALIDATION_ERROR');
+    }
+    return index;
+};
+
 router.post('/outputs/power/:index', [requireAuth, validateDevice, validateSession], async (req: DeviceRequest, res) => {
     try {
-        const index = parseInt(req.params.index);
-        await withRetry(() => kitronikService.setHighPowerOutput(index, req.body.state));
-        res.json({ success: true });
+        const index = outputIndex(req, 'power');
+        if (typeof req.body.state !== 'boolean') {
+            throw new KitronikError('state must be true or false', 'VALIDATION_ERROR');
+        }
+        const request = outputRequest(req);
+        const { kitronik } = servicesFor(req);
+        const owner = await withRetry(() => kitronik.setHighPowerOutput(index, req.body.state, request));
+        res.json({ success: true, owner });
     } catch (error) {
-        res.status(500).json({ 
+        res.status(error instanceof KitronikError ? 400 : 500).json({ 
             error: error instanceof Error ? error.message : 'Failed to set high power output'
         });
     }
@@ -78,19 +257,580 @@ router.post('/outputs/power/:index', [requireAuth, validateDevice, validateSessi
 
 router.post('/outputs/servo/:index', [requireAuth, validateDevice, validateSession], async (req: DeviceRequest, res) => {
     try {
-        const index = parseInt(req.params.index);
-        await withRetry(() => kitronikService.setServoPosition(index, req.body.angle));
-        res.json({ success: true });
+        const index = outputIndex(req, 'servo');
+        const { angle } = req.body;
+        if (typeof angle !== 'number' || !Number.isFinite(angle) || angle < 0 || angle > 180) {
+            throw new KitronikError('angle must be a number from 0 to 180', 'VALIDATION_ERROR');
+        }
+        const request = outputRequest(req);
+        const { kitronik } = servicesFor(req);
+        const owner = await withRetry(() => kitronik.setServoPosition(index, angle, request));
+        res.json({ success: true, owner });
     } catch (error) {
-        res.status(500).json({ 
+        res.status(error instanceof KitronikError ? 400 : 500).json({ 
             error: error instanceof Error ? error.message : 'Failed to set servo position'
         });
     }
 });
 
+router.delete('/outputs/:kind/:index/override', [requireAuth, validateDevice, validateSession], async (req: DeviceRequest, res) => {
+    const kind = req.params.kind as OutputKind;
+    if (kind !== 'power' && kind !== 'servo') {
+        res.status(404).json({ error: 'Unknown output type' });
+        return;
+    }
+
+    try {
+        const { kitronik } = servicesFor(req);
+        const owner = await kitronik.releaseOverrides(kind, outputIndex(req, kind));
+        res.json({ success: true, owner });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({ 
+            error: error instanceof Error ? error.message : 'Failed to release override'
+        });
+    }
+});
+
+// OLED pages and interrupts
+router.get('/display', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { display } = servicesFor(req);
+    res.json({ config: display.getConfig(), state: display.getState() });
+});
+
+router.put('/display', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateDisplayConfig(req.body);
+        const { deviceId, display } = servicesFor(req);
+        const config = display.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ display: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update display'
+        });
+    }
+});
+
+router.post('/display/pages/:name', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    try {
+        const page = servicesFor(req).display.showPage(req.params.name);
+        res.json({ success: true, page });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to show page'
+        });
+    }
+});
+
+router.post('/display/interrupts', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateDisplayInterrupt(req.body);
+        const { level, title, message, durationMs } = req.body;
+        const interrupt = servicesFor(req).display.interrupt({ level, title, message, durationMs });
+        res.json({ success: true, interrupt });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to show interrupt'
+        });
+    }
+});
+
+router.delete('/display/interrupts/:id', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const cleared = servicesFor(req).display.clearInterrupt(req.params.id);
+    if (!cleared) {
+        res.status(404).json({ error: 'Interrupt not found' });
+        return;
+    }
+    res.json({ success: true });
+});
+
+// Alert sounds
+router.get('/sound', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { buzzer } = servicesFor(req);
+    res.json({ config: buzzer.getConfig(), state: buzzer.getState() });
+});
+
+router.put('/sound', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateSoundConfig(req.body);
+        const { deviceId, buzzer } = servicesFor(req);
+        const config = buzzer.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ sound: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update sound settings'
+        });
+    }
+});
+
+// Plays a level's saved profile, or a `profile` sent in the body, even during quiet hours
+router.post('/sound/test/:level', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateSoundLevel(req.params.level);
+        if (req.body.profile !== undefined) {
+            ValidationService.validateSoundProfile(req.body.profile);
+        }
+        await servicesFor(req).buzzer.test(req.params.level as SoundLevel, req.body.profile);
+        res.json({ success: true });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to test sound'
+        });
+    }
+});
+
+// Silencing the buzzer also acknowledges whatever it was sounding for
+router.post('/sound/acknowledge', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { buzzer, alerts } = servicesFor(req);
+        const acknowledged = buzzer.acknowledge();
+        const records = await alerts.acknowledgeAll(req.user!.uid, 'Buzzer acknowledged');
+        res.json({ success: true, acknowledged, alerts: records });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to acknowledge alerts'
+        });
+    }
+});
+
+router.post('/sound/stop', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    servicesFor(req).buzzer.stop();
+    res.json({ success: true });
+});
+
+// GPIO inputs
+router.get('/gpio', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { gpio } = servicesFor(req);
+    res.json({
+        config: gpio.getConfig(),
+        levels: gpio.getLevels(),
+        counts: gpio.getCounts(),
+        events: gpio.getRecentEvents()
+    });
+});
+
+router.put('/gpio', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateGPIOConfig(req.body);
+        const { deviceId, gpio } = servicesFor(req);
+        const config = await gpio.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ gpio: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update GPIO settings'
+        });
+    }
+});
+
+router.post('/gpio/:pin/reset', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    if (!servicesFor(req).gpio.resetCount(Number(req.params.pin))) {
+        res.status(404).json({ error: 'No pulse counter on that pin' });
+        return;
+    }
+    res.json({ success: true });
+});
+
+// Wind and rain
+router.get('/station', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { station } = servicesFor(req);
+    res.json({ config: station.getConfig(), reading: station.getReading() });
+});
+
+router.get('/station/history', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const hours = Number(req.query.hours ?? 24);
+    if (!Number.isFinite(hours) || hours <= 0) {
+        res.status(400).json({ error: 'hours must be a positive number' });
+        return;
+    }
+    res.json({ readings: servicesFor(req).station.getHistory(Date.now() - hours * 60 * 60 * 1000) });
+});
+
+router.put('/station', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateStationConfig(req.body);
+        const { deviceId, station } = servicesFor(req);
+        const config = station.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ station: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update weather station settings'
+        });
+    }
+});
+
+router.post('/station/rainfall/reset', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    servicesFor(req).station.resetRainfall();
+    res.json({ success: true });
+});
+
+// BME688 heater profiles
+router.get('/heater', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { heater } = servicesFor(req);
+    res.json({
+        config: heater.getConfig(),
+        lastScan: heater.getLastScan(),
+        scanning: heater.isScanning()
+    });
+});
+
+router.put('/heater', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateHeaterConfig(req.body);
+        const { deviceId, heater } = servicesFor(req);
+        const config = await heater.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ heater: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update heater settings'
+        });
+    }
+});
+
+// Scans the `profile` named in the body, or the active one
+router.post('/heater/scan', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const scan = await servicesFor(req).heater.scan(req.body.profile);
+        res.json({ success: true, scan });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Gas scan failed'
+        });
+    }
+});
+
+// Calibration jobs
+router.get('/calibration', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    res.json({ jobs: servicesFor(req).calibration.getJobs() });
+});
+
+router.get('/calibration/:id', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const job = servicesFor(req).calibration.getJob(req.params.id);
+    if (!job) {
+        res.status(404).json({ error: 'Calibration not found' });
+        return;
+    }
+    res.json({ job });
+});
+
+// Server-sent events: 'progress' after every sample, then one 'finished' before the stream ends
+router.get('/calibration/:id/events', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { calibration } = servicesFor(req);
+    const job = calibration.getJob(req.params.id);
+    if (!job) {
+        res.status(404).json({ error: 'Calibration not found' });
+        return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: string, update: CalibrationJob) =>
+        res.write(`event: ${event}\ndata: ${JSON.stringify(update)}\n\n`);
+
+    if (job.finishedAt !== null) {
+        send('finished', job);
+        res.end();
+        return;
+    }
+    send('progress', job);
+
+    const onProgress = (update: CalibrationJob) => {
+        if (update.id === job.id) send('progress', update);
+    };
+    const onFinished = (update: CalibrationJob) => {
+        if (update.id !== job.id) return;
+        send('finished', update);
+        stop();
+        res.end();
+    };
+    const stop = () => {
+        calibration.off('progress', onProgress);
+        calibration.off('finished', onFinished);
+    };
+    calibration.on('progress', onProgress);
+    calibration.on('finished', onFinished);
+    req.on('close', stop);
+});
+
+router.delete('/calibration/:id', [requireAuth, requireAdmin, validateDevice], (req: DeviceRequest, res) => {
+    try {
+        const job = servicesFor(req).calibration.cancel(req.params.id);
+        res.json({ success: true, job });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to cancel calibration'
+        });
+    }
+});
+
+// Baseline drift and automatic recalibration
+router.get('/baseline/drift', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { drift } = servicesFor(req);
+    res.json({
+        config: drift.getConfig(),
+        drift: drift.getDrift(),
+        history: drift.getHistory()
+    });
+});
+
+router.put('/baseline/auto-calibration', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateAutoCalibrationConfig(req.body);
+        const { deviceId, drift } = servicesFor(req);
+        const config = drift.configure({ ...drift.getConfig(), ...req.body });
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ autoCalibration: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update auto-calibration'
+        });
+    }
+});
+
+// Baseline versions
+const parseVersion = (value: unknown): number => {
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new KitronikError('Baseline versions are whole numbers from 1', 'VALIDATION_ERROR');
+    }
+    return version;
+};
+
+router.get('/baseline/versions', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { deviceId, kitronik } = servicesFor(req);
+        const versions = await BaselineService.listVersions(deviceId, req.user!.uid);
+        res.json({ versions, current: kitronik.getBaselineVersion() });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to list baseline versions'
+        });
+    }
+});
+
+router.get('/baseline/versions/compare', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const comparison = await BaselineService.compareVersions(
+            servicesFor(req).deviceId,
+            req.user!.uid,
+            parseVersion(req.query.from),
+            parseVersion(req.query.to)
+        );
+        res.json(comparison);
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to compare baseline versions'
+        });
+    }
+});
+
+router.get('/baseline/versions/:version', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const version = await BaselineService.getVersion(
+            servicesFor(req).deviceId,
+            req.user!.uid,
+            parseVersion(req.params.version)
+        );
+        res.json({ version });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to get baseline version'
+        });
+    }
+});
+
+// Restores `version`; readings tagged with the `superseded` versions can then be reprocessed
+router.post('/baseline/rollback', [requireAuth, requireAdmin, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { deviceId, drift } = servicesFor(req);
+        const { baseline, superseded } = await BaselineService.rollback(
+            deviceId,
+            req.user!.uid,
+            parseVersion(req.body.version)
+        );
+        drift.useBaseline(baseline, true);
+        res.json({ success: true, baseline, superseded });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to roll back the baseline'
+        });
+    }
+});
+
+// Sensor corrections; each version is kept under the device so corrected readings can be traced back.
+// Like the thresholds, both documents are written together unless another change was saved first
+const saveCorrections = async (deviceId: string, config: CorrectionConfig) => {
+    const db = admin.firestore();
+    const device = db.collection('devices').doc(deviceId);
+    await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+        const stored = await transaction.get(device);
+        const storedVersion: number = stored.data()?.corrections?.version ?? 0;
+        if (storedVersion !== config.version - 1) {
+            throw new KitronikError(
+                `Corrections were changed elsewhere (version ${storedVersion}); reload them and try again`,
+                'VALIDATION_ERROR'
+            );
+        }
+        transaction.update(device, { corrections: config });
+        transaction.set(device.collection('corrections').doc(String(config.version)), config);
+    });
+};
+
+router.get('/corrections', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    res.json(servicesFor(req).corrections.getConfig());
+});
+
+router.put('/corrections', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateCorrections(req.body.corrections);
+        const { deviceId, corrections } = servicesFor(req);
+        const config = corrections.buildCorrections(req.body.corrections, req.user!.uid);
+
+        // Readings only switch to the new corrections once they are stored
+        await saveCorrections(deviceId, config);
+        res.json({ success: true, config: corrections.applyCorrections(config) });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update corrections'
+        });
+    }
+});
+
+// Reference instruments export CSV; ?apply=true stores the fits as a new version
+const referenceCsv = express.text({ type: 'text/csv', limit: '1mb' });
+
+router.post('/corrections/reference', [requireAuth, validateDevice, referenceCsv], async (req: DeviceRequest, res) => {
+    try {
+        if (typeof req.body !== 'string' || req.body.length === 0) {
+            throw new KitronikError('Send the reference readings as text/csv', 'VALIDATION_ERROR');
+        }
+        const maxGapMs = req.query.maxGapMs !== undefined ? Number(req.query.maxGapMs) : undefined;
+        if (maxGapMs !== undefined && (!Number.isFinite(maxGapMs) || maxGapMs <= 0)) {
+            throw new KitronikError('maxGapMs must be a positive number', 'VALIDATION_ERROR');
+        }
+
+        const { deviceId, corrections } = servicesFor(req);
+        const fits = await corrections.fitReference(req.body, maxGapMs);
+        if (req.query.apply !== 'true') {
+            return res.json({ fits });
+        }
+
+        const fitted = Object.fromEntries(fits.map(({ measurement, correction }) => [measurement, correction]));
+        const config = corrections.buildCorrections({ ...corrections.getConfig().corrections, ...fitted }, req.user!.uid);
+        await saveCorrections(deviceId, config);
+        res.json({ success: true, fits, config: corrections.applyCorrections(config) });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to fit reference readings'
+        });
+    }
+});
+
+// Safety interlocks
+router.get('/interlocks', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { interlocks } = servicesFor(req);
+    res.json({
+        config: interlocks.getConfig(),
+        trips: interlocks.getTrips(),
+        safeState: interlocks.isSafeState()
+    });
+});
+
+router.put('/interlocks', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        ValidationService.validateInterlockConfig(req.body);
+        const { deviceId, interlocks } = servicesFor(req);
+        const config = interlocks.configure(req.body);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ interlocks: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update interlocks'
+        });
+    }
+});
+
+// Alert rules; conditions may be sent as text such as "aqi < 30 OR eco2 > 1500"
+const parseRuleText = (rules: unknown): unknown => {
+    if (!Array.isArray(rules)) return rules;
+    const parse = (expression: unknown) => {
+        if (typeof expression !== 'string') return expression;
+        try {
+            return parseExpression(expression);
+        } catch (error) {
+            throw new KitronikError(error instanceof Error ? error.message : String(error), 'VALIDATION_ERROR');
+        }
+    };
+    return rules.map(rule => rule && typeof rule === 'object'
+        ? { ...rule, when: parse(rule.when), ...(rule.clear !== undefined && { clear: parse(rule.clear) }) }
+        : rule);
+};
+
+router.get('/rules', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const { monitoring } = servicesFor(req);
+    res.json({
+        rules: monitoring.getRules(),
+        states: monitoring.getRuleStates()
+    });
+});
+
+router.put('/rules', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const parsed = parseRuleText(req.body.rules);
+        ValidationService.validateAlertRules(parsed);
+        const { deviceId, monitoring } = servicesFor(req);
+        const rules = monitoring.setRules(parsed as AlertRule[]);
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ alertRules: rules });
+        res.json({ success: true, rules });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update alert rules'
+        });
+    }
+});
+
 router.get('/outputs/status', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
     try {
-        const status = await withRetry(() => Promise.resolve(kitronikService.getOutputStatus()));
+        const { kitronik } = servicesFor(req);
+        const status = await withRetry(() => Promise.resolve(kitronik.getOutputStatus()));
         res.json(status);
     } catch (error) {
         res.status(500).json({ 
@@ -99,6 +839,104 @@ router.get('/outputs/status', [requireAuth, validateDevice], async (req: DeviceR
     }
 });
 
+// Trace recording and replay
+const traceError = (res: Response, error: unknown, fallback: string) => {
+    res.status(error instanceof KitronikError ? 400 : 500).json({
+        error: error instanceof Error ? error.message : fallback
+    });
+};
+
+router.get('/traces', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { traces } = servicesFor(req);
+        res.json({ traces: await traces.listTraces(), status: traces.getStatus() });
+    } catch (error) {
+        traceError(res, error, 'Failed to list traces');
+    }
+});
+
+router.post('/traces/record/start', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const name = await servicesFor(req).traces.startRecording(req.body.name);
+        res.json({ success: true, name });
+    } catch (error) {
+        traceError(res, error, 'Failed to start recording');
+    }
+});
+
+router.post('/traces/record/stop', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const summary = await servicesFor(req).traces.stopRecording();
+        res.json({ success: true, trace: summary });
+    } catch (error) {
+        traceError(res, error, 'Failed to stop recording');
+    }
+});
+
+router.post('/traces/replay/stop', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    try {
+        servicesFor(req).traces.stopReplay();
+        res.json({ success: true });
+    } catch (error) {
+        traceError(res, error, 'Failed to stop replay');
+    }
+});
+
+router.post('/traces/:name/replay', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        const { traces } = servicesFor(req);
+        const speed = req.body.speed !== undefined ? Number(req.body.speed) : undefined;
+        const { done } = await traces.startReplay(req.params.name, { speed });
+
+        if (req.body.wait) {
+            res.json(await done);
+            return;
+        }
+
+        // Long replays run in the background; GET /traces reports what is replaying
+        done.catch(error => console.error(`Replay of ${req.params.name} failed:`, error));
+        res.status(202).json({ success: true, status: traces.getStatus() });
+    } catch (error) {
+        traceError(res, error, 'Failed to replay trace');
+    }
+});
+
+router.delete('/traces/:name', [requireAuth, validateDevice], async (req: DeviceRequest, res) => {
+    try {
+        await servicesFor(req).traces.deleteTrace(req.params.name);
+        res.json({ success: true });
+    } catch (error) {
+        traceError(res, error, 'Failed to delete trace');
+    }
+});
+
+// Simulator endpoints - only available when running against the virtual board
+router.get('/simulator/state', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const board = servicesFor(req).kitronik.getBoard();
+    if (!(board instanceof SimulatedBoard)) {
+        res.status(404).json({ error: 'Simulator not active' });
+        return;
+    }
+    res.json(board.getState());
+});
+
+router.post('/simulator/gpio/:pin', [requireAuth, validateDevice], (req: DeviceRequest, res) => {
+    const board = servicesFor(req).kitronik.getBoard();
+    if (!(board instanceof SimulatedBoard)) {
+        res.status(404).json({ error: 'Simulator not active' });
+        return;
+    }
+
+    try {
+        board.gpio.setInput(parseInt(req.params.pin), Boolean(req.body.value));
+        res.json({ success: true });
+    } catch (error) {
+        res.status(400).json({ 
+            error: error instanceof Error ? error.message : 'Failed to set simulated input'
+        });
+    }
+});
+
 // Error handling for uncaught errors
 router.use((error: Error, req: Request, res: Response, next: Function) => {
     console.error('Unhandled error in sensor routes:', error);
@@ -1,16 +1,21 @@
 import express, { Request, Response, Router } from 'express';
 import axios from 'axios';
-import { KitronikService } from '../services/kitronik.service';
+import { deviceRegistry } from '../services/device-registry.service';
+import { requireAuth } from '../middleware/auth.middleware';
+import { validateDevice, DeviceRequest } from '../middleware/device.middleware';
+import { ValidationService } from '../services/validation.service';
+import { KitronikError } from '../utils/errorHandling';
+import admin from '../utils/firebase';
 
 const router = express.Router();
-const kitronikService = new KitronikService();
 
-router.get('/weather', async (req: Request, res: Response) => {
+router.get('/weather', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
     try {
         const { q } = req.query;
         
-        // First get local sensor data
-        const localConditions = await kitronikService.getEnvironmentalData();
+        // First get local sensor data from the caller's device
+        const { kitronik } = deviceRegistry.get(req.deviceInfo!);
+        const localConditions = await kitronik.getEnvironmentalData();
         
         if (!q) {
             // If no location specified, return local data only
@@ -51,4 +56,35 @@ router.get('/weather', async (req: Request, res: Response) => {
     }
 });
 
+// Local barometric forecast from the device's pressure history
+router.get('/forecast', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        const { forecast } = deviceRegistry.get(req.deviceInfo!);
+        const current = req.query.refresh === 'true' ? await forecast.refresh() : await forecast.getForecast();
+        res.json({ forecast: current, config: forecast.getConfig() });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to get the forecast'
+        });
+    }
+});
+
+router.put('/forecast', [requireAuth, validateDevice], async (req: DeviceRequest, res: Response) => {
+    try {
+        ValidationService.validateForecastConfig(req.body);
+        const { deviceId, forecast } = deviceRegistry.get(req.deviceInfo!);
+        const config = forecast.configure({ ...forecast.getConfig(), ...req.body });
+
+        await admin.firestore()
+            .collection('devices')
+            .doc(deviceId)
+            .update({ forecast: config });
+        res.json({ success: true, config });
+    } catch (error) {
+        res.status(error instanceof KitronikError ? 400 : 500).json({
+            error: error instanceof Error ? error.message : 'Failed to update forecast settings'
+        });
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -5,7 +5,11 @@ import rateLimit from 'express-rate-limit';
 import sensorRoutes from './routes/sensors';
 import deviceRoutes from './routes/devices';
 import weatherRoutes from './routes/weather';
+import alertRoutes from './routes/alerts';
+import notificationRoutes from './routes/notifications';
 import { serverConfig } from './config/server.config';
+import { deviceRegistry } from './services/device-registry.service';
+import { notificationService } from './services/notification.service';
 import admin from './utils/firebase';
 import dotenv from 'dotenv';
 
@@ -61,6 +65,8 @@ setInterval(async () => {
 app.use('/api/sensors', sensorRoutes);
 app.use('/api/devices', deviceRoutes);
 app.use('/api/weather', weatherRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -73,7 +79,17 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 // Start server
 const port = serverConfig.server.port;
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Server running on port ${port}`);
   console.log(`Environment: ${serverConfig.server.env}`);
-});
\ No newline at end of file
+});
+
+// Release every device's hardware before exiting
+const shutdown = async () => {
+  server.close();
+  await deviceRegistry.disposeAll();
+  await notificationService.dispose();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
\ No newline at end of file
@@ -0,0 +1,71 @@
+jest.mock('../../utils/firebase', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/server.config', () => ({
+    serverConfig: { hardware: { mode: 'simulated', simulation: {} } }
+}));
+
+import { KitronikService } from '../kitronik.service';
+import { SimulatedBoard } from '../../hardware';
+import { SensorModel } from '../../types/driver';
+import { KitronikError } from '../../utils/errorHandling';
+
+describe('KitronikService on the simulated board', () => {
+    let services: KitronikService[] = [];
+
+    const create = (sensorModel: SensorModel, board = new SimulatedBoard({ seed: 1 })) => {
+        const service = new KitronikService({ iaqMode: 'static', sensorModel }, board);
+        services.push(service);
+        return service;
+    };
+
+    afterEach(async () => {
+        await Promise.all(services.map(service => service.dispose()));
+        services = [];
+        jest.restoreAllMocks();
+    });
+
+    it('monitors only what the loaded driver measures', async () => {
+        const kitronik = create('sht31');
+        await kitronik.ready();
+
+        const reading = await kitronik.getEnvironmentalData();
+        expect(reading).toMatchObject({
+            sensorModel: 'sht31',
+            temperature: expect.any(Number),
+            humidity: expect.any(Number)
+        });
+        expect(reading).not.toHaveProperty('pressure');
+        expect(reading).not.toHaveProperty('gasResistance');
+        expect(reading).not.toHaveProperty('airQualityIndex');
+    });
+
+    it('reports a sensor that fails to start', async () => {
+        const board = new SimulatedBoard({ seed: 1 });
+        jest.spyOn(board.sensor, 'initialize').mockRejectedValue(new Error('no ACK'));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const kitronik = create('bme688', board);
+        await expect(kitronik.ready()).rejects.toThrow('Failed to initialize BME688: no ACK');
+        expect(kitronik.getStatus()).toMatchObject({
+            isInitialized: false,
+            error: 'Failed to initialize BME688: no ACK'
+        });
+        await expect(kitronik.readMeasurements()).rejects.toBeInstanceOf(KitronikError);
+    });
+
+    it('calibrates against the simulated board instead of the Kitronik library', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        const board = new SimulatedBoard({ seed: 1 });
+        const kitronik = create('bme688', board);
+        await kitronik.ready();
+
+        await expect(kitronik.getSensorStatus()).resolves.toMatchObject({ isCalibrated: false });
+        await kitronik.calibrateSensor({ forcedRun: true, displayProgress: false });
+        await expect(kitronik.getSensorStatus()).resolves.toMatchObject({ isCalibrated: true, errors: [] });
+
+        const baseline = await board.baselines.loadBaseline();
+        expect(baseline).not.toBeNull();
+        expect(board.baselines.compareBaselines({ gasResistance: baseline!.gasResistance! * 1.5 }, baseline!))
+            .toBeGreaterThan(board.baselines.getToleranceThreshold());
+        expect(board.isSensorError(new KitronikError('bus', 'SENSOR_ERROR'))).toBe(false);
+    });
+});
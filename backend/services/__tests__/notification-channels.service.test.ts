@@ -0,0 +1,174 @@
+jest.mock('../../utils/firebase', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/server.config', () => ({
+    serverConfig: {
+        notifications: {
+            appUrl: 'http://app.test',
+            retry: { attempts: 3, baseDelayMs: 1000, maxDelayMs: 4000 },
+            smtp: { port: 587, secure: false, from: 'alerts@test' },
+            mqtt: { url: 'mqtt://broker.test' },
+            webPush: { subject: 'mailto:alerts@test' }
+        }
+    }
+}));
+// Lets the webhook test reach its local receiver by IP; the checks themselves are tested in utils.
+// Host names fail the agent's lookup as they would on a name re-pointed at a private address
+jest.mock('../../utils/network', () => {
+    const { Agent } = jest.requireActual('http');
+    const { KitronikError } = jest.requireActual('../../utils/errorHandling');
+    return {
+        assertPublicUrl: jest.fn(async () => undefined),
+        publicHttpAgent: new Agent({
+            lookup: (hostname: string, _options: unknown, callback: (error: Error) => void) =>
+                callback(new KitronikError(`${hostname} resolves to a private address: 127.0.0.1`, 'VALIDATION_ERROR'))
+        }),
+        publicHttpsAgent: undefined
+    };
+});
+jest.mock('mqtt', () => ({ __esModule: true, default: { connect: jest.fn() } }));
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import mqtt from 'mqtt';
+import { EmailSender, MqttSender, WebhookSender, signWebhook } from '../notification-channels.service';
+import { assertPublicUrl } from '../../utils/network';
+import { CommunicationError, KitronikError } from '../../utils/errorHandling';
+import { Notification, WebhookChannel } from '../../types/notification';
+
+const notification: Notification = {
+    id: 'n1',
+    userId: 'user-1',
+    deviceId: 'device-1',
+    deviceName: 'Greenhouse',
+    alertId: 'a1',
+    action: 'opened',
+    type: 'temperature',
+    level: 'danger',
+    title: 'Alert: Greenhouse',
+    message: 'High temperature: 35.0°C',
+    timestamp: '2026-01-01T00:00:00.000Z'
+};
+
+describe('WebhookSender', () => {
+    let server: http.Server;
+    let status = 200;
+    let received: { headers: http.IncomingHttpHeaders; body: string } | null = null;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                received = { headers: req.headers, body };
+                res.statusCode = status;
+                res.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => {
+        status = 200;
+        received = null;
+    });
+
+    const channel = (): WebhookChannel => ({
+        id: 'hook',
+        name: 'Hook',
+        type: 'webhook',
+        enabled: true,
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`,
+        secret: 'a-very-long-shared-secret'
+    });
+
+    it('posts the notification signed over the timestamp and body', async () => {
+        await new WebhookSender().send(channel(), notification);
+
+        expect(received).not.toBeNull();
+        const timestamp = received!.headers['x-gusty-timestamp'] as string;
+        expect(received!.headers['x-gusty-signature'])
+            .toBe(`sha256=${signWebhook('a-very-long-shared-secret', timestamp, received!.body)}`);
+        expect(JSON.parse(received!.body)).toMatchObject({ id: 'n1', url: 'http://app.test/alerts' });
+    });
+
+    it('does not retry a 4xx', async () => {
+        status = 404;
+        const error = await new WebhookSender().send(channel(), notification).catch(caught => caught);
+        expect(error).toBeInstanceOf(KitronikError);
+        expect(error).not.toBeInstanceOf(CommunicationError);
+    });
+
+    it('retries a 5xx or rate limiting', async () => {
+        status = 503;
+        await expect(new WebhookSender().send(channel(), notification)).rejects.toBeInstanceOf(CommunicationError);
+        status = 429;
+        await expect(new WebhookSender().send(channel(), notification)).rejects.toBeInstanceOf(CommunicationError);
+    });
+
+    it('checks the host before sending', async () => {
+        jest.mocked(assertPublicUrl).mockRejectedValueOnce(new KitronikError('private', 'VALIDATION_ERROR'));
+        await expect(new WebhookSender().send(channel(), notification)).rejects.toThrow('private');
+        expect(received).toBeNull();
+    });
+
+    it('does not retry a host refused when connecting', async () => {
+        const error = await new WebhookSender()
+            .send({ ...channel(), url: 'http://hooks.example.com/alerts' }, notification)
+            .catch(caught => caught);
+        expect(error).toBeInstanceOf(KitronikError);
+        expect(error).not.toBeInstanceOf(CommunicationError);
+        expect(error).toMatchObject({ type: 'VALIDATION_ERROR' });
+        expect(error.message).toContain('hooks.example.com resolves to a private address');
+    });
+});
+
+describe('MqttSender', () => {
+    const client = {
+        on: jest.fn(),
+        publishAsync: jest.fn(),
+        endAsync: jest.fn(async () => undefined)
+    };
+
+    beforeEach(() => {
+        jest.mocked(mqtt.connect).mockReturnValue(client as never);
+        client.publishAsync.mockReset();
+        client.endAsync.mockClear();
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('publishes to the topic with the device and level filled in', async () => {
+        client.publishAsync.mockResolvedValue(undefined);
+        await new MqttSender().send(
+            { id: 'm', name: 'MQTT', type: 'mqtt', enabled: true, topic: 'gusty/{deviceId}/{level}' },
+            notification
+        );
+
+        expect(client.publishAsync).toHaveBeenCalledWith('gusty/device-1/danger', JSON.stringify(notification), { qos: 1 });
+        expect(client.endAsync).toHaveBeenCalled();
+    });
+
+    it('gives up on an unreachable broker with a retryable error', async () => {
+        jest.useFakeTimers();
+        client.publishAsync.mockReturnValue(new Promise(() => undefined));
+
+        const sent = new MqttSender()
+            .send({ id: 'm', name: 'MQTT', type: 'mqtt', enabled: true, topic: 'gusty' }, notification)
+            .catch(error => error);
+        await jest.advanceTimersByTimeAsync(10 * 1000);
+
+        expect(await sent).toBeInstanceOf(CommunicationError);
+        expect(client.endAsync).toHaveBeenCalledWith(true);
+    });
+});
+
+describe('EmailSender', () => {
+    it('refuses to send without an SMTP host', async () => {
+        const error = await new EmailSender()
+            .send({ id: 'e', name: 'Email', type: 'email', enabled: true, to: ['a@test'] }, notification)
+            .catch(caught => caught);
+        expect(error).toBeInstanceOf(KitronikError);
+        expect(error.type).toBe('VALIDATION_ERROR');
+    });
+});
@@ -0,0 +1,156 @@
+jest.mock('../../config/server.config', () => ({
+    serverConfig: {
+        notifications: {
+            appUrl: 'http://app.test',
+            retry: { attempts: 3, baseDelayMs: 1000, maxDelayMs: 1500 },
+            smtp: {},
+            mqtt: {},
+            webPush: {}
+        }
+    }
+}));
+// An in-memory Firestore holding documents by path
+jest.mock('../../utils/firebase', () => {
+    const store = new Map<string, Record<string, unknown>>();
+    const doc = (path: string) => ({
+        get: async () => ({ exists: store.has(path), data: () => store.get(path) }),
+        set: async (data: Record<string, unknown>, options?: { merge?: boolean }) => {
+            store.set(path, options?.merge ? { ...store.get(path), ...data } : { ...data });
+        },
+        collection: (name: string) => collection(`${path}/${name}`)
+    });
+    const collection = (path: string) => ({ doc: (id: string) => doc(`${path}/${id}`) });
+    return { __esModule: true, store, default: { firestore: () => ({ collection }) } };
+});
+jest.mock('../device-registry.service', () => ({ deviceRegistry: new (jest.requireActual('events').EventEmitter)() }));
+
+import { EventEmitter } from 'events';
+import { NotificationService } from '../notification.service';
+import { ChannelSender } from '../notification-channels.service';
+import { DeviceRegistry, DeviceServices } from '../device-registry.service';
+import { AlertRecord } from '../../types/alert';
+import { ChannelType, DeliveryRecord, NotificationPreferences } from '../../types/notification';
+import { CommunicationError, KitronikError } from '../../utils/errorHandling';
+
+const store: Map<string, Record<string, unknown>> = jest.requireMock('../../utils/firebase').store;
+
+const preferences: NotificationPreferences = {
+    channels: [
+        { id: 'hook', name: 'Hook', type: 'webhook', enabled: true, url: 'https://hooks.example.com', secret: 'a-very-long-shared-secret' },
+        { id: 'mail', name: 'Mail', type: 'email', enabled: true, to: ['owner@example.com'] }
+    ],
+    routes: [
+        { channelId: 'hook', minLevel: 'info', deviceIds: [] },
+        { channelId: 'mail', minLevel: 'danger', deviceIds: ['device-1'] }
+    ]
+};
+
+const alert = (level: AlertRecord['level']): AlertRecord => ({
+    id: 'record-1',
+    deviceId: 'device-1',
+    key: 'temperature',
+    type: 'temperature',
+    level,
+    message: 'High temperature: 35.0°C'
+} as AlertRecord);
+
+const fakeSender = (): jest.Mocked<ChannelSender> => ({
+    send: jest.fn<Promise<void>, Parameters<ChannelSender['send']>>().mockResolvedValue(undefined),
+    close: jest.fn(async () => undefined)
+});
+
+const deliveries = (): DeliveryRecord[] => [...store.entries()]
+    .filter(([path]) => path.startsWith('users/user-1/deliveries/'))
+    .map(([, delivery]) => delivery as unknown as DeliveryRecord);
+
+describe('NotificationService', () => {
+    let registry: EventEmitter;
+    let senders: Record<ChannelType, jest.Mocked<ChannelSender>>;
+    let service: NotificationService;
+
+    beforeEach(() => {
+        store.clear();
+        store.set('devices/device-1', { userId: 'user-1', name: 'Greenhouse' });
+        store.set('users/user-1', { notificationPreferences: preferences });
+        registry = new EventEmitter();
+        senders = { webhook: fakeSender(), email: fakeSender(), mqtt: fakeSender(), webpush: fakeSender() };
+        service = new NotificationService(registry as unknown as DeviceRegistry, senders);
+    });
+
+    afterEach(async () => {
+        await service.dispose();
+        jest.useRealTimers();
+    });
+
+    it('sends each alert change to the channels routed for its level and device', async () => {
+        await service.notify('device-1', alert('warning'), 'opened');
+        expect(senders.webhook.send).toHaveBeenCalledTimes(1);
+        expect(senders.email.send).not.toHaveBeenCalled();
+
+        await service.notify('device-1', alert('danger'), 'escalated');
+        expect(senders.webhook.send).toHaveBeenCalledTimes(2);
+        expect(senders.email.send).toHaveBeenCalledTimes(1);
+        expect(senders.email.send.mock.calls[0][1]).toMatchObject({
+            title: 'Alert escalated: Greenhouse',
+            deviceName: 'Greenhouse',
+            level: 'danger'
+        });
+    });
+
+    it('skips actions that are not notified', async () => {
+        expect(await service.notify('device-1', alert('danger'), 'acknowledged')).toEqual([]);
+        expect(senders.webhook.send).not.toHaveBeenCalled();
+    });
+
+    it('follows the alerts of devices the registry creates', async () => {
+        const alerts = new EventEmitter();
+        registry.emit('created', { deviceId: 'device-1', alerts } as unknown as DeviceServices);
+        alerts.emit('alert', alert('info'), 'opened');
+
+        await new Promise(resolve => setImmediate(resolve));
+        expect(senders.webhook.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries failed sends with exponential backoff and logs every attempt', async () => {
+        jest.useFakeTimers();
+        senders.webhook.send
+            .mockRejectedValueOnce(new CommunicationError('down'))
+            .mockRejectedValueOnce(new CommunicationError('still down'))
+            .mockResolvedValueOnce(undefined);
+
+        const [first] = await service.notify('device-1', alert('info'), 'opened');
+        expect(first).toMatchObject({ status: 'retrying', attempts: 1, lastError: 'down' });
+
+        await jest.advanceTimersByTimeAsync(999);
+        expect(senders.webhook.send).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(senders.webhook.send).toHaveBeenCalledTimes(2);
+        expect(deliveries()[0]).toMatchObject({ status: 'retrying', attempts: 2, lastError: 'still down' });
+
+        // The second wait doubles but is capped at maxDelayMs
+        await jest.advanceTimersByTimeAsync(1500);
+        expect(senders.webhook.send).toHaveBeenCalledTimes(3);
+        expect(deliveries()).toHaveLength(1);
+        expect(deliveries()[0]).toMatchObject({ status: 'delivered', attempts: 3, lastError: null, nextAttemptAt: null });
+    });
+
+    it('gives up after the last attempt', async () => {
+        jest.useFakeTimers();
+        senders.webhook.send.mockRejectedValue(new CommunicationError('down'));
+
+        await service.notify('device-1', alert('info'), 'opened');
+        await jest.advanceTimersByTimeAsync(10 * 1000);
+
+        expect(senders.webhook.send).toHaveBeenCalledTimes(3);
+        expect(deliveries()[0]).toMatchObject({ status: 'failed', attempts: 3 });
+    });
+
+    it('does not retry permanent failures', async () => {
+        senders.webhook.send.mockRejectedValue(new KitronikError('Webhook rejected the notification with 404', 'VALIDATION_ERROR'));
+
+        const [delivery] = await service.notify('device-1', alert('info'), 'opened');
+
+        expect(delivery).toMatchObject({ status: 'failed', attempts: 1 });
+        expect(deliveries()[0].lastError).toMatch(/404/);
+    });
+});
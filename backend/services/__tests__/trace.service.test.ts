@@ -0,0 +1,110 @@
+jest.mock('../../utils/firebase', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/server.config', () => ({ serverConfig: { traces: { directory: 'traces' } } }));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TraceService } from '../trace.service';
+import { KitronikService } from '../kitronik.service';
+import { MonitoringService } from '../monitoring.service';
+import { GPIOService } from '../gpio.service';
+import { KitronikError } from '../../utils/errorHandling';
+import { TRACE_FORMAT_VERSION } from '../../types/trace';
+
+const header = JSON.stringify({
+    type: 'header',
+    version: TRACE_FORMAT_VERSION,
+    deviceId: 'device-1',
+    sensorModel: 'bme688',
+    startedAt: '2026-01-01T00:00:00.000Z'
+});
+const reading = (offset: number) => JSON.stringify({
+    type: 'reading',
+    offset,
+    data: { timestamp: new Date(Date.UTC(2026, 0, 1) + offset).toISOString(), temperature: 20, humidity: 45 }
+});
+
+describe('TraceService', () => {
+    let directory: string;
+    let service: TraceService;
+    let monitoring: { setReplaying: jest.Mock; processReading: jest.Mock };
+    let gpio: { inject: jest.Mock };
+
+    const write = (name: string, content: string) =>
+        fs.promises.writeFile(path.join(directory, 'device-1', `${name}.jsonl`), content);
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'traces-'));
+        await fs.promises.mkdir(path.join(directory, 'device-1'));
+        monitoring = { setReplaying: jest.fn(), processReading: jest.fn().mockResolvedValue([]) };
+        gpio = { inject: jest.fn().mockResolvedValue(undefined) };
+        service = new TraceService(
+            'device-1',
+            {} as KitronikService,
+            monitoring as unknown as MonitoringService,
+            gpio as unknown as GPIOService,
+            directory
+        );
+    });
+
+    afterEach(() => fs.promises.rm(directory, { recursive: true, force: true }));
+
+    it('drops a partial last line left by an interrupted recording', async () => {
+        await write('cut', `${header}\n${reading(0)}\n${reading(1000)}\n{"type":"readi`);
+
+        const trace = await service.loadTrace('cut');
+        expect(trace.events).toEqual([
+            expect.objectContaining({ type: 'reading', offset: 0, data: expect.objectContaining({ temperature: 20 }) }),
+            expect.objectContaining({ type: 'reading', offset: 1000 })
+        ]);
+    });
+
+    it('names the trace, not its path, when a line in the middle is malformed', async () => {
+        await write('broken', `${header}\nnot json\n${reading(0)}\n`);
+
+        const error = await service.loadTrace('broken').catch(caught => caught);
+        expect(error).toBeInstanceOf(KitronikError);
+        expect(error.message).toBe('Trace broken has a malformed line 2');
+        expect(error.message).not.toContain(directory);
+    });
+
+    it.each([
+        ['a reading without data', { type: 'reading', offset: 0, reading: { temperature: 20 } }],
+        ['a reading with a non-numeric measurement', {
+            type: 'reading',
+            offset: 0,
+            data: { timestamp: '2026-01-01T00:00:00.000Z', temperature: 'warm' }
+        }],
+        ['a negative offset', { type: 'gpio', offset: -5, pin: 1, value: true }],
+        ['a GPIO event without a level', { type: 'gpio', offset: 0, pin: 1 }],
+        ['an unknown event type', { type: 'note', offset: 0 }]
+    ])('refuses %s', async (_, event) => {
+        await write('invalid', `${header}\n${reading(0)}\n${JSON.stringify(event)}\n`);
+
+        await expect(service.loadTrace('invalid')).rejects.toThrow('Trace invalid has an invalid event on line 3');
+    });
+
+    it('replays the recorded readings and GPIO levels', async () => {
+        const level = JSON.stringify({ type: 'gpio', offset: 500, pin: 2, value: true });
+        await write('replay', `${header}\n${reading(0)}\n${level}\n${reading(1000)}\n`);
+
+        const result = await service.replayTrace('replay', { speed: 0 });
+        expect(result).toMatchObject({ readings: 2, gpioEvents: 1, completed: true });
+        expect(monitoring.processReading).toHaveBeenNthCalledWith(
+            1,
+            { timestamp: '2026-01-01T00:00:00.000Z', temperature: 20, humidity: 45 },
+            true
+        );
+        expect(gpio.inject).toHaveBeenCalledWith(2, true);
+        expect(monitoring.setReplaying).toHaveBeenLastCalledWith(false);
+    });
+
+    it('lists the readable traces when another is broken', async () => {
+        await write('good', `${header}\n${reading(0)}\n${reading(500)}\n`);
+        await write('broken', `${header}\nnot json\n${reading(0)}\n`);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const traces = await service.listTraces();
+        expect(traces).toEqual([expect.objectContaining({ name: 'good', readings: 2, durationMs: 500 })]);
+    });
+});
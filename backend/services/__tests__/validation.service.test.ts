@@ -0,0 +1,40 @@
+jest.mock('../../utils/firebase', () => ({ __esModule: true, default: {} }));
+
+import { ValidationService } from '../validation.service';
+import { KitronikError } from '../../utils/errorHandling';
+import { MEASUREMENT_INFO, Measurement, SensorCapabilities, SensorModel } from '../../types/driver';
+
+const capabilities = (sensorModel: SensorModel, names: Measurement[]): SensorCapabilities => ({
+    sensorModel,
+    measurements: names.map(name => ({ name, ...MEASUREMENT_INFO[name] }))
+});
+
+describe('ValidationService.validateMeasurements', () => {
+    const bme280 = capabilities('bme280', ['temperature', 'humidity', 'pressure']);
+    const bme688 = capabilities('bme688', ['temperature', 'humidity', 'pressure', 'gasResistance', 'airQualityIndex']);
+    const scd40 = capabilities('scd40', ['co2', 'temperature', 'humidity']);
+
+    it('accepts a reading with only what the driver measures', () => {
+        expect(() => ValidationService.validateMeasurements(
+            { temperature: 21.5, humidity: 45, pressure: 1012 },
+            bme280
+        )).not.toThrow();
+        expect(() => ValidationService.validateMeasurements({ co2: 850, temperature: 22, humidity: 40 }, scd40))
+            .not.toThrow();
+    });
+
+    it('lets estimates be missing while the sensor settles', () => {
+        expect(() => ValidationService.validateMeasurements(
+            { temperature: 21.5, humidity: 45, pressure: 1012, gasResistance: 50000 },
+            bme688
+        )).not.toThrow();
+    });
+
+    it.each([
+        ['a missing measurement', { temperature: 21.5, humidity: 45 }],
+        ['an out of range value', { temperature: 21.5, humidity: 45, pressure: 120 }],
+        ['a value the driver does not measure', { temperature: 21.5, humidity: 45, pressure: 1012, co2: 400 }]
+    ])('refuses %s', (_, values) => {
+        expect(() => ValidationService.validateMeasurements(values, bme280)).toThrow(KitronikError);
+    });
+});
@@ -0,0 +1,349 @@
+import { EventEmitter } from 'events';
+import { MonitoringService } from './monitoring.service';
+import { InfluxDBService } from './influxdb.service';
+import { SensorReading, WeatherAlert } from '../types/sensor';
+import { ALERT_LEVELS, AlertDocument } from '../../shared/thresholds';
+import {
+    AlertAction,
+    AlertLifecycleConfig,
+    AlertRecord,
+    AlertStatus,
+    DEFAULT_ALERT_LIFECYCLE
+} from '../types/alert';
+import { KitronikError } from '../utils/errorHandling';
+import admin from '../utils/firebase';
+
+// Unresolved records are always kept; resolved ones until there are this many in all
+const MAX_RECORDS = 100;
+
+/**
+ * Turns the alerts each live reading raises into records that stay open
+ * until someone acknowledges, snoozes or resolves them, or their condition
+ * has been clear for a while. Repeated firings update the same record, and
+ * every change is stored with the device's alerts in Firestore.
+ */
+export class AlertService extends EventEmitter {
+    private config: AlertLifecycleConfig;
+    private records = new Map<string, AlertRecord>();
+    private recordCount = 0;
+    private loading: Promise<void>;
+    private influxService: InfluxDBService;
+    private onReading = (data: SensorReading, meta: { replayed: boolean }) => {
+        // Replayed readings are history already
+        if (meta.replayed) return;
+        this.handleReading().catch(error => console.error(`Alert tracking failed for device ${this.deviceId}:`, error));
+    };
+
+    constructor(
+        private deviceId: string,
+        private monitoringService: MonitoringService,
+        config: Partial<AlertLifecycleConfig> = {}
+    ) {
+        super();
+        this.config = { ...DEFAULT_ALERT_LIFECYCLE, ...config };
+        this.influxService = new InfluxDBService();
+        this.loading = this.load();
+        this.monitoringService.on('reading', this.onReading);
+    }
+
+    configure(config: Partial<AlertLifecycleConfig>): AlertLifecycleConfig {
+        this.config = { ...DEFAULT_ALERT_LIFECYCLE, ...config };
+        return this.getConfig();
+    }
+
+    getConfig(): AlertLifecycleConfig {
+        return { ...this.config };
+    }
+
+    // Newest activity first, optionally only records in the given states
+    async list(statuses?: AlertStatus[]): Promise<AlertRecord[]> {
+        await this.loading;
+        await this.save(this.sweep(Date.now()));
+        return [...this.records.values()]
+            .filter(record => !statuses || statuses.includes(record.status))
+            .sort((a, b) => Date.parse(b.lastSeen) - Date.parse(a.lastSeen))
+            .map(record => this.snapshot(record));
+    }
+
+    async acknowledge(id: string, by: string, note?: string): Promise<AlertRecord> {
+        const record = await this.unresolved(id);
+        const now = new Date().toISOString();
+        record.status = 'acknowledged';
+        record.acknowledgedBy = by;
+        record.acknowledgedAt = now;
+        record.snoozedUntil = null;
+        return this.change(record, 'acknowledged', by, note);
+    }
+
+    // Acknowledges every open alert, e.g. when the buzzer is silenced
+    async acknowledgeAll(by: string, note?: string): Promise<AlertRecord[]> {
+        await this.loading;
+        const open = [...this.records.values()].filter(record => record.status === 'open');
+        return Promise.all(open.map(record => this.acknowledge(record.id, by, note)));
+    }
+
+    async snooze(id: string, durationMs: number, by: string, note?: string): Promise<AlertRecord> {
+        if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > this.config.maxSnoozeMs) {
+            throw new KitronikError(`Snooze must be between 1 and ${this.config.maxSnoozeMs} ms`, 'VALIDATION_ERROR');
+        }
+
+        const record = await this.unresolved(id);
+        record.status = 'snoozed';
+        record.snoozedUntil = new Date(Date.now() + durationMs).toISOString();
+        return this.change(record, 'snoozed', by, note);
+    }
+
+    async resolve(id: string, by: string, note?: string): Promise<AlertRecord> {
+        const record = await this.unresolved(id);
+        this.close(record, new Date().toISOString(), by);
+        return this.change(record, 'resolved', by, note);
+    }
+
+    async dispose(): Promise<void> {
+        this.monitoringService.off('reading', this.onReading);
+        await this.loading;
+        await this.influxService.cleanup();
+    }
+
+    private async load(): Promise<void> {
+        try {
+            // Only records have a firstSeen; alerts stored without a lifecycle are left out
+            const snapshot = await this.alerts()
+                .orderBy('firstSeen', 'desc')
+                .limit(MAX_RECORDS)
+                .get();
+            snapshot.docs.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
+                const record = doc.data() as AlertRecord & Partial<AlertDocument>;
+                delete record.timestamp;
+                this.records.set(record.id, record);
+            });
+        } catch (error) {
+            console.error(`Failed to load alerts for device ${this.deviceId}:`, error);
+        }
+    }
+
+    private async handleReading(): Promise<void> {
+        await this.loading;
+        const now = Date.now();
+        const seen = new Date(now).toISOString();
+        const changed = new Set<AlertRecord>();
+        const current = new Set<string>();
+
+        this.monitoringService.getAlerts().forEach(alert => {
+            const key = alert.ruleId ? `rule:${alert.ruleId}` : alert.type;
+            // Monitoring can raise one alert per key, but keep the first just in case
+            if (current.has(key)) return;
+            current.add(key);
+
+            const record = this.latest(key);
+            if (record && record.status !== 'resolved') {
+                if (this.fire(record, alert, seen)) changed.add(record);
+            } else if (record && record.active) {
+                // Resolved by hand while the condition held; it fires again once it has cleared
+                record.lastSeen = seen;
+            } else if (record && now - Date.parse(record.resolvedAt!) <= this.config.dedupeWindowMs) {
+                this.reopen(record, alert, seen);
+                changed.add(record);
+            } else {
+                changed.add(this.open(key, alert, seen));
+            }
+        });
+
+        this.records.forEach(record => {
+            if (record.active && !current.has(record.key)) {
+                record.active = false;
+                record.clearedAt = seen;
+                changed.add(record);
+            }
+        });
+
+        this.sweep(now).forEach(record => changed.add(record));
+        this.prune();
+        await this.save([...changed]);
+    }
+
+    // Updates an unresolved record from the latest alert; true when something worth storing changed
+    private fire(record: AlertRecord, alert: WeatherAlert, seen: string): boolean {
+        let changed = false;
+        if (!record.active) {
+            record.active = true;
+            record.clearedAt = null;
+            record.occurrences++;
+            changed = true;
+        }
+        const escalated = ALERT_LEVELS.indexOf(alert.level) > ALERT_LEVELS.indexOf(record.level);
+
+        record.level = alert.level;
+        record.message = alert.message;
+        record.value = alert.value;
+        record.lastSeen = seen;
+
+        if (escalated) {
+            // Something worse than what was acknowledged or snoozed needs attention again
+            record.status = 'open';
+            record.snoozedUntil = null;
+            record.history.push({ action: 'escalated', by: 'system', at: seen });
+            this.emit('alert', this.snapshot(record), 'escalated');
+        }
+        return changed || escalated;
+    }
+
+    private open(key: string, alert: WeatherAlert, seen: string): AlertRecord {
+        const record: AlertRecord = {
+            id: `${Date.now()}-${++this.recordCount}`,
+            deviceId: this.deviceId,
+            key,
+            type: alert.type,
+            level: alert.level,
+            message: alert.message,
+            ...(alert.value !== undefined && { value: alert.value }),
+            ...(alert.ruleId !== undefined && { ruleId: alert.ruleId }),
+            ...(alert.type !== 'rule' && { thresholdVersion: this.thresholdVersion() }),
+            status: 'open',
+            active: true,
+            occurrences: 1,
+            firstSeen: seen,
+            lastSeen: seen,
+            clearedAt: null,
+            acknowledgedBy: null,
+            acknowledgedAt: null,
+            snoozedUntil: null,
+            resolvedBy: null,
+            resolvedAt: null,
+            history: [{ action: 'opened', by: 'system', at: seen }]
+        };
+        this.records.set(record.id, record);
+        this.announce(record, 'opened');
+        return record;
+    }
+
+    private reopen(record: AlertRecord, alert: WeatherAlert, seen: string): void {
+        Object.assign(record, {
+            level: alert.level,
+            message: alert.message,
+            value: alert.value,
+            ...(alert.type !== 'rule' && { thresholdVersion: this.thresholdVersion() }),
+            status: 'open',
+            active: true,
+            occurrences: record.occurrences + 1,
+            lastSeen: seen,
+            clearedAt: null,
+            acknowledgedBy: null,
+            acknowledgedAt: null,
+            snoozedUntil: null,
+            resolvedBy: null,
+            resolvedAt: null
+        });
+        record.history.push({ action: 'reopened', by: 'system', at: seen });
+        this.announce(record, 'reopened');
+    }
+
+    // Wakes expired snoozes and resolves alerts that have been clear long enough; returns what changed
+    private sweep(now: number): AlertRecord[] {
+        const changed: AlertRecord[] = [];
+        const at = new Date(now).toISOString();
+
+        this.records.forEach(record => {
+            if (record.status === 'snoozed' && Date.parse(record.snoozedUntil!) <= now) {
+                record.status = record.acknowledgedBy ? 'acknowledged' : 'open';
+                record.snoozedUntil = null;
+                record.history.push({ action: 'woke', by: 'system', at });
+                this.emit('alert', this.snapshot(record), 'woke');
+                changed.push(record);
+            }
+
+            if (record.status !== 'resolved' && !record.active && this.config.autoResolveMs > 0 &&
+                now - Date.parse(record.clearedAt!) >= this.config.autoResolveMs) {
+                this.close(record, at, 'system');
+                record.history.push({ action: 'resolved', by: 'system', at, note: 'Condition cleared' });
+                this.emit('alert', this.snapshot(record), 'resolved');
+                changed.push(record);
+            }
+        });
+        return changed;
+    }
+
+    private close(record: AlertRecord, at: string, by: string): void {
+        record.status = 'resolved';
+        record.resolvedBy = by;
+        record.resolvedAt = at;
+        record.snoozedUntil = null;
+    }
+
+    private async unresolved(id: string): Promise<AlertRecord> {
+        await this.loading;
+        const record = this.records.get(id);
+        if (!record) {
+            throw new KitronikError(`Alert not found: ${id}`, 'VALIDATION_ERROR');
+        }
+        if (record.status === 'resolved') {
+            throw new KitronikError(`Alert ${id} is already resolved`, 'VALIDATION_ERROR');
+        }
+        return record;
+    }
+
+    private async change(record: AlertRecord, action: AlertAction, by: string, note?: string): Promise<AlertRecord> {
+        record.history.push({ action, by, at: new Date().toISOString(), ...(note && { note }) });
+        await this.save([record]);
+        this.emit('alert', this.snapshot(record), action);
+        return this.snapshot(record);
+    }
+
+    // New firings also go to the time series, like the alerts monitoring records itself
+    private announce(record: AlertRecord, action: AlertAction): void {
+        this.emit('alert', this.snapshot(record), action);
+        this.influxService.writeAlert(this.deviceId, record.type, record.level, record.message, record.value)
+            .catch(error => console.error(`Failed to write alert for device ${this.deviceId}:`, error));
+    }
+
+    // Record with the key that was first seen most recently
+    private latest(key: string): AlertRecord | undefined {
+        let latest: AlertRecord | undefined;
+        this.records.forEach(record => {
+            if (record.key === key && (!latest || record.firstSeen > latest.firstSeen)) {
+                latest = record;
+            }
+        });
+        return latest;
+    }
+
+    private prune(): void {
+        const resolved = [...this.records.values()]
+            .filter(record => record.status === 'resolved' && !record.active)
+            .sort((a, b) => Date.parse(a.resolvedAt!) - Date.parse(b.resolvedAt!));
+        while (this.records.size > MAX_RECORDS && resolved.length > 0) {
+            this.records.delete(resolved.shift()!.id);
+        }
+    }
+
+    private async save(records: AlertRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        try {
+            const batch = admin.firestore().batch();
+            records.forEach(record => batch.set(this.alerts().doc(record.id), this.toDocument(record)));
+            await batch.commit();
+        } catch (error) {
+            console.error(`Failed to store alerts for device ${this.deviceId}:`, error);
+        }
+    }
+
+    private alerts() {
+        return admin.firestore()
+            .collection('devices')
+            .doc(this.deviceId)
+            .collection('alerts');
+    }
+
+    private toDocument(record: AlertRecord): AlertRecord & AlertDocument {
+        return { ...this.snapshot(record), timestamp: admin.firestore.Timestamp.fromMillis(Date.parse(record.lastSeen)) };
+    }
+
+    // Lets a threshold alert be traced back to the thresholds that raised it
+    private thresholdVersion(): number {
+        return this.monitoringService.getThresholds().version;
+    }
+
+    private snapshot(record: AlertRecord): AlertRecord {
+        return JSON.parse(JSON.stringify(record));
+    }
+}
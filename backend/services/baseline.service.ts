@@ -1,65 +1,46 @@
-import { BaselineStorage } from '../../Kitronik5038Port/lib/data/BaselineStorage';
 import { SensorReading } from '../types/sensor';
 import { InfluxDBService } from './influxdb.service';
-import { BaselineCalculation } from '../../Kitronik5038Port/lib/BaselineCalculation';
-import { SensorError } from '../../Kitronik5038Port/lib/err/SensorError';
-import { KitronikOLED } from '../../Kitronik5038Port/lib/KitronikOLED';
+import { DisplayService } from './display.service';
+import { CalibrationReport } from '../types/calibration';
+import {
+  BaselineChange,
+  BaselineComparison,
+  BaselineData,
+  BaselineRollback,
+  BaselineSource,
+  BaselineValues,
+  BaselineVersion
+} from '../types/baseline';
 import admin from '../utils/firebase';
-import { KitronikError } from '../utils/errorHandling';
+import { KitronikError, SensorError } from '../utils/errorHandling';
+import { KitronikBoard } from '../types/hardware';
 
-export interface BaselineData {
-  temperature: number;
-  humidity: number;
-  pressure: number;
-  resistance: number;
-  timestamp: number;
-}
+const BASELINE_FIELDS: Array<keyof BaselineValues> = ['temperature', 'humidity', 'pressure', 'resistance'];
 
 export class BaselineService {
-    private storage: BaselineStorage;
-    private baselineCalc: BaselineCalculation;
-    private oled: KitronikOLED;
     private static readonly BASELINE_COLLECTION = 'baselines';
+    private static readonly VERSION_COLLECTION = 'versions';
     private static readonly DEVICE_COLLECTION = 'devices';
     
-    constructor(private influxDB: InfluxDBService) {
-        this.storage = new BaselineStorage();
-        this.baselineCalc = new BaselineCalculation();
-        this.oled = new KitronikOLED();
-    }
+    // Baselines are calculated and stored by the board, so simulated hardware keeps its own
+    constructor(private influxDB: InfluxDBService, private display: DisplayService, private board: KitronikBoard) {}
 
     public async calibrateBaselines(displayProgress = true): Promise<void> {
         if (displayProgress) {
-            this.oled.clear();
-            this.oled.write('Calibrating...', { row: 1 });
-            this.oled.update();
+            this.display.interrupt({ id: 'calibration', level: 'info', title: 'CALIBRATING', durationMs: 0 });
         }
 
         try {
-            const reading = await this.baselineCalc.calibrate();
-            await this.storage.save(reading);
+            await this.board.baselines.calibrate(this.board.sensor, true, false);
+            const reading = await this.board.sensor.readSensorData();
             await this.influxDB.writeSensorReading(reading);
 
             if (displayProgress) {
-                this.oled.clear();
-                this.oled.write('Calibration', { row: 1 });
-                this.oled.write('Complete!', { row: 2 });
-                this.oled.update();
-                setTimeout(() => {
-                    this.oled.clear();
-                    this.oled.update();
-                }, 2000);
+                this.display.interrupt({ id: 'calibration', level: 'info', title: 'CALIBRATION', message: 'Complete', durationMs: 2000 });
             }
         } catch (error) {
             if (displayProgress) {
-                this.oled.clear();
-                this.oled.write('Calibration', { row: 1 });
-                this.oled.write('Failed!', { row: 2 });
-                this.oled.update();
-                setTimeout(() => {
-                    this.oled.clear();
-                    this.oled.update();
-                }, 2000);
+                this.display.interrupt({ id: 'calibration', level: 'warning', title: 'CALIBRATION', message: 'Failed', durationMs: 2000 });
             }
             throw new SensorError('Baseline calibration failed');
         }
@@ -75,17 +56,17 @@ export class BaselineService {
     }
 
     public async validateBaseline(reading: SensorReading): Promise<boolean> {
-        const storedBaseline = await this.storage.load();
+        const storedBaseline = await this.board.baselines.loadBaseline();
         if (!storedBaseline) return false;
 
-        const diff = this.baselineCalc.compareBaselines(reading, storedBaseline);
-        return diff <= this.baselineCalc.getToleranceThreshold();
+        const diff = this.board.baselines.compareBaselines(reading, storedBaseline);
+        return diff <= this.board.baselines.getToleranceThreshold();
     }
 
     public async updateBaseline(reading: SensorReading): Promise<void> {
-        await this.storage.save({
-            timestamp: new Date(),
-            ...reading
+        await this.board.baselines.saveBaseline({
+            ...reading,
+            timestamp: new Date().toISOString()
         });
         await this.influxDB.writeSensorReading(reading);
     }
@@ -137,8 +118,8 @@ export class BaselineService {
     static async setBaseline(
         deviceId: string,
         userId: string,
-        baselineData: Omit<BaselineData, 'timestamp'>
-    ): Promise<void> {
+        baselineData: BaselineValues
+    ): Promise<BaselineData> {
         try {
             // Verify device ownership
             const isOwner = await this.verifyDeviceOwnership(userId, deviceId);
@@ -146,22 +127,167 @@ export class BaselineService {
                 throw new KitronikError('Not authorized for this device', 'AUTH_ERROR');
             }
 
+            return await this.createVersion(deviceId, baselineData, 'manual', userId);
+        } catch (error) {
+            throw new KitronikError(
+                'Failed to set baseline data',
+                'BASELINE_ERROR',
+                error
+            );
+        }
+    }
+
+    // The device's current baseline without an ownership check, for services already bound to the device
+    static async loadBaseline(deviceId: string): Promise<BaselineData | null> {
+        try {
+            const baselineDoc = await admin.firestore()
+                .collection(this.BASELINE_COLLECTION)
+                .doc(deviceId)
+                .get();
+            if (!baselineDoc.exists) return null;
+
+            // Server timestamps read back as Firestore Timestamps
+            const data = baselineDoc.data()!;
+            const timestamp = typeof data.timestamp?.toMillis === 'function' ? data.timestamp.toMillis() : data.timestamp;
+            return { ...data, timestamp } as BaselineData;
+        } catch (error) {
+            throw new KitronikError(
+                'Failed to load baseline data',
+                'DATABASE_ERROR',
+                error
+            );
+        }
+    }
+
+    // Every report is kept under the device's baseline; completed runs also add a baseline
+    // version and make it current. Resolves with that version, or null if there was none.
+    static async saveCalibration(deviceId: string, report: CalibrationReport): Promise<number | null> {
+        try {
             await admin.firestore()
                 .collection(this.BASELINE_COLLECTION)
                 .doc(deviceId)
-                .set({
-                    ...baselineData,
-                    timestamp: admin.firestore.FieldValue.serverTimestamp()
-                });
+                .collection('calibrations')
+                .doc(report.jobId)
+                .set(report);
+
+            if (!report.baseline) return null;
+            const baseline = await this.createVersion(deviceId, {
+                temperature: report.baseline.temperature,
+                humidity: report.baseline.humidity,
+                pressure: report.baseline.pressure,
+                resistance: report.baseline.gasResistance
+            }, 'calibration', report.requestedBy, report);
+            return baseline.version ?? null;
         } catch (error) {
             throw new KitronikError(
-                'Failed to set baseline data',
-                'BASELINE_ERROR',
+                'Failed to save calibration report',
+                'CALIBRATION_ERROR',
+                error
+            );
+        }
+    }
+
+    // Newest first
+    static async listVersions(deviceId: string, userId: string, limit = 50): Promise<BaselineVersion[]> {
+        try {
+            const isOwner = await this.verifyDeviceOwnership(userId, deviceId);
+            if (!isOwner) {
+                throw new KitronikError('Not authorized for this device', 'AUTH_ERROR');
+            }
+
+            const snapshot = await this.versions(deviceId)
+                .orderBy('version', 'desc')
+                .limit(limit)
+                .get();
+            return snapshot.docs.map((doc: admin.firestore.QueryDocumentSnapshot) => doc.data() as BaselineVersion);
+        } catch (error) {
+            throw new KitronikError(
+                'Failed to list baseline versions',
+                'DATABASE_ERROR',
                 error
             );
         }
     }
 
+    static async getVersion(deviceId: string, userId: string, version: number): Promise<BaselineVersion> {
+        const isOwner = await this.verifyDeviceOwnership(userId, deviceId);
+        if (!isOwner) {
+            throw new KitronikError('Not authorized for this device', 'AUTH_ERROR');
+        }
+
+        const versionDoc = await this.versions(deviceId).doc(String(version)).get();
+        if (!versionDoc.exists) {
+            throw new KitronikError(`Unknown baseline version: ${version}`, 'VALIDATION_ERROR');
+        }
+        return versionDoc.data() as BaselineVersion;
+    }
+
+    static async compareVersions(
+        deviceId: string,
+        userId: string,
+        from: number,
+        to: number
+    ): Promise<BaselineComparison> {
+        const [older, newer] = await Promise.all([
+            this.getVersion(deviceId, userId, from),
+            this.getVersion(deviceId, userId, to)
+        ]);
+
+        const changes = {} as Record<keyof BaselineValues, BaselineChange>;
+        BASELINE_FIELDS.forEach(field => {
+            const delta = newer[field] - older[field];
+            changes[field] = {
+                from: older[field],
+                to: newer[field],
+                delta: Math.round(delta * 100) / 100,
+                change: older[field] !== 0 ? Math.round((delta / older[field]) * 10000) / 10000 : 0
+            };
+        });
+        return { from: older, to: newer, changes };
+    }
+
+    // Makes an earlier version current again; the versions themselves are left as they are
+    static async rollback(deviceId: string, userId: string, version: number): Promise<BaselineRollback> {
+        const isOwner = await this.verifyDeviceOwnership(userId, deviceId);
+        if (!isOwner) {
+            throw new KitronikError('Not authorized for this device', 'AUTH_ERROR');
+        }
+
+        const db = admin.firestore();
+        const baselineRef = db.collection(this.BASELINE_COLLECTION).doc(deviceId);
+        return await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+            const [head, versionDoc] = await Promise.all([
+                transaction.get(baselineRef),
+                transaction.get(this.versions(deviceId).doc(String(version)))
+            ]);
+            if (!versionDoc.exists) {
+                throw new KitronikError(`Unknown baseline version: ${version}`, 'VALIDATION_ERROR');
+            }
+
+            const target = versionDoc.data() as BaselineVersion;
+            const current = head.data() as BaselineData | undefined;
+            const latestVersion = current?.latestVersion ?? target.version;
+            const baseline: BaselineData = {
+                ...this.values(target),
+                timestamp: target.createdAt,
+                version: target.version,
+                latestVersion,
+                rolledBackBy: userId,
+                rolledBackAt: Date.now()
+            };
+            if (target.calibration) {
+                baseline.calibration = target.calibration;
+            }
+            transaction.set(baselineRef, baseline);
+
+            const superseded: number[] = [];
+            for (let newer = target.version + 1; newer <= latestVersion; newer++) {
+                superseded.push(newer);
+            }
+            return { baseline, superseded };
+        });
+    }
+
     static async deleteBaseline(deviceId: string, userId: string): Promise<void> {
         try {
             // Verify device ownership
@@ -241,4 +367,49 @@ export class BaselineService {
             );
         }
     }
+
+    private static async createVersion(
+        deviceId: string,
+        values: BaselineValues,
+        source: BaselineSource,
+        createdBy: string,
+        calibration?: CalibrationReport
+    ): Promise<BaselineData> {
+        const db = admin.firestore();
+        const baselineRef = db.collection(this.BASELINE_COLLECTION).doc(deviceId);
+
+        return await db.runTransaction(async (transaction: admin.firestore.Transaction) => {
+            const head = await transaction.get(baselineRef);
+            // Baselines saved before versioning count as version 0
+            const version = ((head.data() as BaselineData | undefined)?.latestVersion ?? 0) + 1;
+            const createdAt = Date.now();
+
+            const entry: BaselineVersion = { ...this.values(values), version, source, createdBy, createdAt };
+            const baseline: BaselineData = { ...this.values(values), timestamp: createdAt, version, latestVersion: version };
+            if (calibration) {
+                entry.calibration = calibration;
+                baseline.calibration = calibration;
+            }
+
+            transaction.create(this.versions(deviceId).doc(String(version)), entry);
+            transaction.set(baselineRef, baseline);
+            return baseline;
+        });
+    }
+
+    private static versions(deviceId: string) {
+        return admin.firestore()
+            .collection(this.BASELINE_COLLECTION)
+            .doc(deviceId)
+            .collection(this.VERSION_COLLECTION);
+    }
+
+    private static values(source: BaselineValues): BaselineValues {
+        return {
+            temperature: source.temperature,
+            humidity: source.humidity,
+            pressure: source.pressure,
+            resistance: source.resistance
+        };
+    }
 }
\ No newline at end of file
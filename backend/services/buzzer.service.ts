@@ -0,0 +1,265 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { SafetyInterlocks } from './interlock.service';
+import { Buzzer, RealTimeClock } from '../types/hardware';
+import { WeatherAlert } from '../types/sensor';
+import { InterlockTrip } from '../types/interlock';
+import {
+    SoundConfig,
+    SoundLevel,
+    SoundProfile,
+    SoundState,
+    SOUND_LEVELS,
+    DEFAULT_SOUND
+} from '../types/sound';
+
+interface Playback {
+    level: SoundLevel;
+    cancelled: boolean;
+}
+
+interface PendingAlert {
+    level: SoundLevel;
+    since: number;
+    escalations: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Plays the device's alert sounds. Each alert level has its own melody,
+ * quiet hours and mutes decide what may sound, and alerts whose profile
+ * escalates keep sounding until they are acknowledged or clear.
+ */
+export class BuzzerService extends EventEmitter {
+    private config: SoundConfig;
+    private buzzer: Buzzer;
+    private rtc: RealTimeClock;
+    private playback: Playback | null = null;
+    private pending: PendingAlert | null = null;
+    // Alerts raised by the previous and current reading, so only new ones sound
+    private previousAlerts = new Set<string>();
+    private currentAlerts = new Set<string>();
+    private onReading = () => this.handleReading();
+    private onAlerts = (alerts: WeatherAlert[]) => this.handleAlerts(alerts);
+    private onTrip = (trip: InterlockTrip) => this.handleTrip(trip);
+
+    constructor(
+        private deviceId: string,
+        kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        private interlocks: SafetyInterlocks,
+        config: Partial<SoundConfig> = {}
+    ) {
+        super();
+        this.config = this.merge(config);
+        const board = kitronikService.getBoard();
+        this.buzzer = board.buzzer;
+        this.rtc = board.rtc;
+
+        this.monitoringService.on('reading', this.onReading);
+        this.monitoringService.on('alerts', this.onAlerts);
+        this.interlocks.on('trip', this.onTrip);
+    }
+
+    configure(config: Partial<SoundConfig>): SoundConfig {
+        this.config = this.merge(config);
+        return this.getConfig();
+    }
+
+    getConfig(): SoundConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getState(): SoundState {
+        return {
+            playing: this.playback?.level ?? null,
+            pending: this.pending && {
+                level: this.pending.level,
+                since: new Date(this.pending.since).toISOString(),
+                escalations: this.pending.escalations
+            },
+            quiet: this.inQuietHours(),
+            muted: this.isMuted()
+        };
+    }
+
+    // Sounds a level's profile unless a mute or quiet hours suppress it; resolves true if it played
+    async alert(level: SoundLevel): Promise<boolean> {
+        if (!this.allowed(level)) return false;
+        if (this.playback && !this.playback.cancelled &&
+            SOUND_LEVELS.indexOf(this.playback.level) > SOUND_LEVELS.indexOf(level)) {
+            // Something more urgent is already sounding
+            return false;
+        }
+
+        await this.perform(level, this.config.profiles[level]);
+        return true;
+    }
+
+    // Plays a profile straight away, ignoring mutes and quiet hours
+    async test(level: SoundLevel, profile?: SoundProfile): Promise<void> {
+        await this.perform(level, profile ?? this.config.profiles[level]);
+    }
+
+    acknowledge(): boolean {
+        const acknowledged = this.pending !== null;
+        this.clearPending();
+        this.stop();
+        return acknowledged;
+    }
+
+    stop(): void {
+        if (this.playback) {
+            this.playback.cancelled = true;
+            this.playback = null;
+            this.buzzer.noTone();
+        }
+    }
+
+    dispose(): void {
+        this.clearPending();
+        this.stop();
+        this.monitoringService.off('reading', this.onReading);
+        this.monitoringService.off('alerts', this.onAlerts);
+        this.interlocks.off('trip', this.onTrip);
+    }
+
+    private handleReading(): void {
+        // Monitoring only emits 'alerts' for readings that raise some, so start each reading empty
+        this.previousAlerts = this.currentAlerts;
+        this.currentAlerts = new Set();
+    }
+
+    private handleAlerts(alerts: WeatherAlert[]): void {
+        alerts.forEach(alert => this.currentAlerts.add(`${alert.type}:${alert.level}`));
+
+        const raised = alerts.filter(alert => !this.previousAlerts.has(`${alert.type}:${alert.level}`));
+        const level = this.worst(raised.map(alert => alert.level));
+        if (level) {
+            this.raise(level);
+        }
+    }
+
+    private handleTrip(trip: InterlockTrip): void {
+        this.raise(trip.type === 'sensor-silent' || trip.type === 'exclusive' ? 'danger' : 'warning');
+    }
+
+    private raise(level: SoundLevel): void {
+        this.alert(level).catch(error => console.error(`Buzzer error on device ${this.deviceId}:`, error));
+
+        const escalation = this.config.profiles[level].escalation;
+        if (!escalation) return;
+        if (this.pending && SOUND_LEVELS.indexOf(this.pending.level) >= SOUND_LEVELS.indexOf(level)) return;
+
+        this.clearPending();
+        this.pending = {
+            level,
+            since: Date.now(),
+            escalations: 0,
+            timer: setTimeout(() => this.escalate(), escalation.afterMs)
+        };
+    }
+
+    private escalate(): void {
+        const pending = this.pending;
+        if (!pending) return;
+
+        const escalation = this.config.profiles[pending.level].escalation;
+        // Stop once the alert has cleared or the escalation has run its course
+        if (!escalation || this.currentAlerts.size === 0 || pending.escalations >= escalation.maxTimes) {
+            this.clearPending();
+            return;
+        }
+
+        pending.escalations++;
+        this.emit('escalated', { level: pending.level, escalations: pending.escalations });
+        this.alert(escalation.level ?? pending.level)
+            .catch(error => console.error(`Buzzer error on device ${this.deviceId}:`, error));
+        pending.timer = setTimeout(() => this.escalate(), escalation.afterMs);
+    }
+
+    private clearPending(): void {
+        if (this.pending) {
+            clearTimeout(this.pending.timer);
+            this.pending = null;
+        }
+    }
+
+    private async perform(level: SoundLevel, profile: SoundProfile): Promise<void> {
+        this.stop();
+        const playback: Playback = { level, cancelled: false };
+        this.playback = playback;
+
+        try {
+            for (let round = 0; round < profile.repeat && !playback.cancelled; round++) {
+                if (round > 0 && profile.gapMs > 0) {
+                    this.buzzer.noTone();
+                    await this.wait(profile.gapMs);
+                }
+                for (const note of profile.notes) {
+                    if (playback.cancelled) break;
+                    if (note.frequency > 0) {
+                        this.buzzer.tone(note.frequency);
+                    } else {
+                        this.buzzer.noTone();
+                    }
+                    await this.wait(note.durationMs);
+                }
+            }
+        } finally {
+            // A newer sound may own the buzzer by now, so only silence our own
+            if (!playback.cancelled) {
+                this.buzzer.noTone();
+                this.playback = null;
+            }
+        }
+    }
+
+    private allowed(level: SoundLevel): boolean {
+        if (this.isMuted()) return false;
+        return !this.inQuietHours() || this.config.quietHours.allowLevels.includes(level);
+    }
+
+    private isMuted(): boolean {
+        if (this.config.muted) return true;
+        return this.config.mutedUntil !== null && Date.now() < new Date(this.config.mutedUntil).getTime();
+    }
+
+    private inQuietHours(): boolean {
+        const { enabled, start, end } = this.config.quietHours;
+        if (!enabled) return false;
+
+        // The board clock keeps device-local time
+        const now = this.rtc.getDateTime();
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        const from = this.toMinutes(start);
+        const to = this.toMinutes(end);
+        return from <= to
+            ? minutes >= from && minutes < to
+            : minutes >= from || minutes < to;
+    }
+
+    private toMinutes(time: string): number {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    }
+
+    private worst(levels: SoundLevel[]): SoundLevel | null {
+        return levels.reduce<SoundLevel | null>((worst, level) =>
+            !worst || SOUND_LEVELS.indexOf(level) > SOUND_LEVELS.indexOf(worst) ? level : worst, null);
+    }
+
+    private merge(config: Partial<SoundConfig>): SoundConfig {
+        return {
+            ...DEFAULT_SOUND,
+            ...config,
+            profiles: { ...DEFAULT_SOUND.profiles, ...config.profiles },
+            quietHours: { ...DEFAULT_SOUND.quietHours, ...config.quietHours }
+        };
+    }
+
+    private wait(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
@@ -0,0 +1,301 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { DisplayService } from './display.service';
+import { BaselineService } from './baseline.service';
+import { Measurement } from '../types/driver';
+import {
+    CalibrationBaseline,
+    CalibrationJob,
+    CalibrationOptions,
+    CalibrationReport,
+    CalibrationStability,
+    CalibrationStatus,
+    DEFAULT_CALIBRATION
+} from '../types/calibration';
+import { KitronikError } from '../utils/errorHandling';
+
+// Finished jobs kept for GET /calibration after their streams have closed
+const MAX_JOBS = 20;
+const INTERRUPT_ID = 'calibration';
+const RESULT_DISPLAY_MS = 5000;
+const REQUIRED: Measurement[] = ['temperature', 'humidity', 'pressure', 'gasResistance'];
+
+/**
+ * Runs sensor calibrations as background jobs. Each job samples the sensor
+ * on an interval, tracks how steady the gas resistance is over a trailing
+ * window and emits 'progress' after every sample and 'finished' once. A
+ * completed run seeds the IAQ baselines and its report is stored with the
+ * device's baseline.
+ */
+export class CalibrationService extends EventEmitter {
+    private jobs = new Map<string, CalibrationJob>();
+    private active: CalibrationJob | null = null;
+    private jobCount = 0;
+    private sleeping: { timer: NodeJS.Timeout; wake: () => void } | null = null;
+    private disposed = false;
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private displayService: DisplayService
+    ) {
+        super();
+    }
+
+    start(options: Partial<CalibrationOptions> = {}, requestedBy = 'system'): CalibrationJob {
+        if (this.active) {
+            throw new KitronikError(`Calibration ${this.active.id} is already running`, 'VALIDATION_ERROR');
+        }
+        if (!REQUIRED.every(measurement => this.kitronikService.hasCapability(measurement))) {
+            throw new KitronikError('Calibration needs a sensor that measures gas resistance', 'VALIDATION_ERROR');
+        }
+
+        const merged = { ...DEFAULT_CALIBRATION, ...options };
+        if (merged.warmUpSamples + merged.window > merged.samples) {
+            throw new KitronikError('samples must cover the warm-up and one stability window', 'VALIDATION_ERROR');
+        }
+
+        const job: CalibrationJob = {
+            id: `${Date.now()}-${++this.jobCount}`,
+            deviceId: this.deviceId,
+            requestedBy,
+            status: 'running',
+            options: merged,
+            progress: 0,
+            samples: 0,
+            stability: null,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            report: null
+        };
+        this.jobs.set(job.id, job);
+        this.prune();
+        this.active = job;
+        this.show(job);
+
+        this.run(job).catch(error => console.error(`Calibration ${job.id} error:`, error));
+        return this.snapshot(job);
+    }
+
+    cancel(id: string): CalibrationJob {
+        const job = this.jobs.get(id);
+        if (!job) {
+            throw new KitronikError(`Unknown calibration: ${id}`, 'VALIDATION_ERROR');
+        }
+        if (job.status !== 'running') {
+            throw new KitronikError(`Calibration ${id} has already ${job.status}`, 'VALIDATION_ERROR');
+        }
+
+        // The sampling loop notices the status change when it wakes
+        job.status = 'cancelled';
+        if (this.sleeping) {
+            clearTimeout(this.sleeping.timer);
+            this.sleeping.wake();
+            this.sleeping = null;
+        }
+        return this.snapshot(job);
+    }
+
+    getJob(id: string): CalibrationJob | null {
+        const job = this.jobs.get(id);
+        return job ? this.snapshot(job) : null;
+    }
+
+    // Newest first
+    getJobs(): CalibrationJob[] {
+        return [...this.jobs.values()].reverse().map(job => this.snapshot(job));
+    }
+
+    getActive(): CalibrationJob | null {
+        return this.active ? this.snapshot(this.active) : null;
+    }
+
+    // A running job is cancelled; it still reports 'finished' so open streams close
+    dispose(): void {
+        this.disposed = true;
+        if (this.active) {
+            this.cancel(this.active.id);
+        }
+    }
+
+    private async run(job: CalibrationJob): Promise<void> {
+        const { options } = job;
+        const readings: CalibrationBaseline[] = [];
+
+        try {
+            for (let i = 0; i < options.samples; i++) {
+                if (i > 0) {
+                    await this.sleep(options.intervalMs);
+                }
+                if (job.status !== 'running') break;
+
+                const { values } = await this.kitronikService.readMeasurements();
+                readings.push({
+                    temperature: values.temperature as number,
+                    humidity: values.humidity as number,
+                    pressure: values.pressure as number,
+                    gasResistance: values.gasResistance as number
+                });
+                if (job.status !== 'running') break;
+
+                job.samples = readings.length;
+                job.progress = Math.round((readings.length / options.samples) * 100);
+                job.stability = this.measure(readings.slice(options.warmUpSamples), options);
+
+                if (options.abortOnUnstable && job.stability && !job.stability.stable &&
+                    job.stability.samples >= options.window) {
+                    const variation = Math.round(job.stability.gasVariation * 1000) / 10;
+                    await this.finish(job, 'aborted', readings,
+                        `Gas resistance varied by ${variation}% over the last ${options.window} samples`);
+                    return;
+                }
+
+                this.show(job);
+                this.emit('progress', this.snapshot(job));
+            }
+        } catch (error) {
+            await this.finish(job, 'failed', readings, error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        if (job.status === 'cancelled') {
+            await this.finish(job, 'cancelled', readings, 'Cancelled');
+        } else if (job.stability?.stable) {
+            await this.finish(job, 'completed', readings);
+        } else {
+            await this.finish(job, 'failed', readings, 'Gas resistance did not settle');
+        }
+    }
+
+    private async finish(
+        job: CalibrationJob,
+        status: CalibrationStatus,
+        readings: CalibrationBaseline[],
+        reason?: string
+    ): Promise<void> {
+        job.status = status;
+        job.finishedAt = new Date().toISOString();
+        if (status === 'completed') {
+            job.progress = 100;
+        }
+
+        // The baseline is the mean of the final stable window
+        const window = readings.slice(-job.options.window);
+        const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+        const report: CalibrationReport = {
+            jobId: job.id,
+            deviceId: this.deviceId,
+            requestedBy: job.requestedBy,
+            status,
+            options: job.options,
+            samples: readings.length,
+            stability: job.stability,
+            baseline: status === 'completed' ? {
+                temperature: this.round(mean(window.map(reading => reading.temperature)), 2),
+                humidity: this.round(mean(window.map(reading => reading.humidity)), 2),
+                pressure: this.round(mean(window.map(reading => reading.pressure)), 2),
+                gasResistance: Math.round(mean(window.map(reading => reading.gasResistance)))
+            } : null,
+            startedAt: job.startedAt,
+            finishedAt: job.finishedAt
+        };
+        if (reason) {
+            report.reason = reason;
+        }
+        job.report = report;
+        this.active = null;
+        this.show(job);
+
+        let version: number | null = null;
+        try {
+            version = await BaselineService.saveCalibration(this.deviceId, report);
+        } catch (error) {
+            console.error(`Failed to store calibration ${job.id}:`, error);
+        }
+        if (version !== null) {
+            report.baselineVersion = version;
+        }
+
+        // Applied even if storing failed; readings then carry no baseline version
+        if (report.baseline) {
+            this.kitronikService.applyCalibration(report.baseline.gasResistance, report.baseline.humidity, version);
+        }
+        this.emit('finished', this.snapshot(job));
+    }
+
+    private measure(readings: CalibrationBaseline[], options: CalibrationOptions): CalibrationStability | null {
+        const window = readings.slice(-options.window);
+        if (window.length < 2) return null;
+
+        const gas = window.map(reading => reading.gasResistance);
+        const gasMean = gas.reduce((sum, value) => sum + value, 0) / gas.length;
+        const variance = gas.reduce((sum, value) => sum + (value - gasMean) ** 2, 0) / (gas.length - 1);
+        const gasStdDev = Math.sqrt(variance);
+        const gasVariation = gasMean > 0 ? gasStdDev / gasMean : 1;
+        const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+        return {
+            samples: window.length,
+            gasMean: Math.round(gasMean),
+            gasStdDev: Math.round(gasStdDev),
+            gasVariation: this.round(gasVariation, 4),
+            gasDrift: gas[0] > 0 ? this.round(Math.abs(gas[gas.length - 1] - gas[0]) / gas[0], 4) : 0,
+            temperatureRange: this.round(range(window.map(reading => reading.temperature)), 2),
+            humidityRange: this.round(range(window.map(reading => reading.humidity)), 2),
+            stable: window.length >= options.window && gasVariation <= options.maxVariation
+        };
+    }
+
+    private show(job: CalibrationJob): void {
+        if (this.disposed || !job.options.displayProgress) return;
+
+        if (job.status === 'running') {
+            this.displayService.interrupt({
+                id: INTERRUPT_ID,
+                level: 'info',
+                title: 'CALIBRATING',
+                lines: [`${job.progress}%`, job.stability ? `Gas var ${Math.round(job.stability.gasVariation * 1000) / 10}%` : 'Warming up'],
+                durationMs: 0
+            });
+        } else {
+            this.displayService.interrupt({
+                id: INTERRUPT_ID,
+                level: job.status === 'completed' ? 'info' : 'warning',
+                title: 'CALIBRATION',
+                message: job.status === 'completed' ? 'Complete' : job.status.charAt(0).toUpperCase() + job.status.slice(1),
+                durationMs: RESULT_DISPLAY_MS
+            });
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => resolve();
+            this.sleeping = {
+                timer: setTimeout(() => {
+                    this.sleeping = null;
+                    wake();
+                }, ms),
+                wake
+            };
+        });
+    }
+
+    private snapshot(job: CalibrationJob): CalibrationJob {
+        return JSON.parse(JSON.stringify(job));
+    }
+
+    private prune(): void {
+        for (const [id, job] of this.jobs) {
+            if (this.jobs.size <= MAX_JOBS) break;
+            if (job.status !== 'running') {
+                this.jobs.delete(id);
+            }
+        }
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
@@ -0,0 +1,41 @@
+import { Measurement, MeasurementValues } from '../types/driver';
+import { CorrectionConfig, CorrectionStamp, DEFAULT_CORRECTIONS } from '../types/correction';
+
+/**
+ * Applies a device's correction models, e.g. the BME688's self-heating
+ * offset, to readings once the Kitronik compensation has run. Corrected
+ * readings keep their raw values and the version of the corrections used.
+ */
+export class CorrectionEngine {
+    private config: CorrectionConfig;
+
+    constructor(config: Partial<CorrectionConfig> = {}) {
+        this.config = { ...DEFAULT_CORRECTIONS, ...config };
+    }
+
+    configure(config: CorrectionConfig): void {
+        this.config = config;
+    }
+
+    getConfig(): CorrectionConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    // Corrects the measurement fields of any reading; readings without corrected fields come back as they were
+    apply<T extends object>(reading: T): T & CorrectionStamp {
+        const fields = reading as Record<string, unknown>;
+        const raw: MeasurementValues = {};
+        const corrected: Record<string, number> = {};
+
+        Object.entries(this.config.corrections).forEach(([field, correction]) => {
+            const value = fields[field];
+            if (!correction || typeof value !== 'number' || !Number.isFinite(value)) return;
+
+            raw[field as Measurement] = value;
+            corrected[field] = Math.round((correction.gain * value + correction.offset) * 100) / 100;
+        });
+
+        if (Object.keys(corrected).length === 0) return reading;
+        return { ...reading, ...corrected, raw, correctionVersion: this.config.version };
+    }
+}
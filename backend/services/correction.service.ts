@@ -0,0 +1,209 @@
+import { KitronikService } from './kitronik.service';
+import { InfluxDBService } from './influxdb.service';
+import { Measurement, MeasurementValues, MEASUREMENT_INFO } from '../types/driver';
+import { Correction, CorrectionConfig, ReferenceFitResult } from '../types/correction';
+import { KitronikError } from '../utils/errorHandling';
+
+// A fit needs this many readings matched with reference rows
+const MIN_PAIRS = 10;
+// Below this raw variance the readings can't pin down a gain, so only the offset is fitted
+const MIN_VARIANCE = 1e-6;
+const DEFAULT_MAX_GAP_MS = 2 * 60 * 1000;
+
+interface ReferenceRow {
+    timestamp: number;
+    values: MeasurementValues;
+}
+
+interface ReadingPair {
+    timestamp: number;
+    raw: number;
+    reference: number;
+}
+
+/**
+ * Manages a device's sensor correction models. Every change is a new
+ * version, which KitronikService stamps on the readings it corrects, and
+ * reference fits match the device's stored raw readings with rows from a
+ * co-located reference instrument's CSV export.
+ */
+export class CorrectionService {
+    private influxService: InfluxDBService;
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService
+    ) {
+        this.influxService = new InfluxDBService();
+    }
+
+    getConfig(): CorrectionConfig {
+        return this.kitronikService.getCorrections();
+    }
+
+    // The next version of the device's corrections; nothing changes until it is applied
+    buildCorrections(corrections: Partial<Record<Measurement, Correction>>, updatedBy: string): CorrectionConfig {
+        const normalised: Partial<Record<Measurement, Correction>> = {};
+        Object.entries(corrections).forEach(([measurement, correction]) => {
+            if (!correction) return;
+            normalised[measurement as Measurement] = correction.kind === 'offset'
+                ? { kind: 'offset', gain: 1, offset: correction.offset }
+                : correction;
+        });
+
+        return {
+            version: this.getConfig().version + 1,
+            corrections: normalised,
+            updatedAt: new Date().toISOString(),
+            updatedBy
+        };
+    }
+
+    applyCorrections(config: CorrectionConfig): CorrectionConfig {
+        this.kitronikService.setCorrections(config);
+        return this.getConfig();
+    }
+
+    // Fits a linear correction for every measurement column in the CSV that the sensor measures
+    async fitReference(csv: string, maxGapMs: number = DEFAULT_MAX_GAP_MS): Promise<ReferenceFitResult[]> {
+        const rows = this.parseReference(csv);
+        const start = new Date(rows[0].timestamp - maxGapMs);
+        const end = new Date(rows[rows.length - 1].timestamp + maxGapMs);
+        const measurements = [...new Set(rows.flatMap(row => Object.keys(row.values) as Measurement[]))]
+            .filter(measurement => this.kitronikService.hasCapability(measurement));
+        if (measurements.length === 0) {
+            throw new KitronikError('The reference CSV has no columns this sensor measures', 'VALIDATION_ERROR');
+        }
+
+        const results: ReferenceFitResult[] = [];
+        for (const measurement of measurements) {
+            const readings = await this.influxService.getRawReadings(this.deviceId, measurement, start, end);
+            const pairs: ReadingPair[] = [];
+            rows.forEach(row => {
+                const reference = row.values[measurement];
+                const reading = reference !== undefined ? this.nearest(readings, row.timestamp, maxGapMs) : null;
+                if (reference !== undefined && reading) {
+                    pairs.push({ timestamp: row.timestamp, raw: reading.value, reference });
+                }
+            });
+
+            if (pairs.length >= MIN_PAIRS) {
+                results.push({ measurement, correction: this.fit(pairs), matched: pairs.length });
+            }
+        }
+
+        if (results.length === 0) {
+            throw new KitronikError(
+                `Fewer than ${MIN_PAIRS} reference rows matched a stored reading within ${maxGapMs} ms`,
+                'VALIDATION_ERROR'
+            );
+        }
+        return results;
+    }
+
+    async dispose(): Promise<void> {
+        await this.influxService.cleanup();
+    }
+
+    // Header row with a timestamp (ISO 8601 or epoch seconds/ms) column and measurement columns, e.g. temperature
+    private parseReference(csv: string): ReferenceRow[] {
+        const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length < 2) {
+            throw new KitronikError('The reference CSV needs a header and at least one row', 'VALIDATION_ERROR');
+        }
+
+        const header = lines[0].split(',').map(cell => cell.trim());
+        const timeColumn = header.findIndex(name => ['timestamp', 'time'].includes(name.toLowerCase()));
+        if (timeColumn < 0) {
+            throw new KitronikError('The reference CSV needs a timestamp column', 'VALIDATION_ERROR');
+        }
+        const columns = header
+            .map((name, index) => ({ name: name as Measurement, index }))
+            .filter(({ name, index }) => index !== timeColumn && name in MEASUREMENT_INFO);
+
+        const rows = lines.slice(1).map((line, row) => {
+            const cells = line.split(',').map(cell => cell.trim());
+            const time = cells[timeColumn] ?? '';
+            const epoch = /^\d+(\.\d+)?$/.test(time) ? Number(time) : NaN;
+            const timestamp = Number.isFinite(epoch) ? (epoch < 1e12 ? epoch * 1000 : epoch) : Date.parse(time);
+            if (!Number.isFinite(timestamp)) {
+                throw new KitronikError(`Row ${row + 2} has an invalid timestamp: ${time}`, 'VALIDATION_ERROR');
+            }
+
+            const values: MeasurementValues = {};
+            columns.forEach(({ name, index }) => {
+                const value = Number(cells[index]);
+                if (cells[index] && Number.isFinite(value)) {
+                    values[name] = value;
+                }
+            });
+            return { timestamp, values };
+        });
+
+        return rows.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // Closest stored reading to a reference row, if one is close enough; readings are sorted by time
+    private nearest(
+        readings: Array<{ timestamp: number; value: number }>,
+        timestamp: number,
+        maxGapMs: number
+    ): { timestamp: number; value: number } | null {
+        let low = 0;
+        let high = readings.length - 1;
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            if (readings[mid].timestamp < timestamp) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        const candidates = [readings[low - 1], readings[low]].filter(reading => reading !== undefined);
+        const closest = candidates.reduce<{ timestamp: number; value: number } | null>((best, reading) =>
+            !best || Math.abs(reading.timestamp - timestamp) < Math.abs(best.timestamp - timestamp) ? reading : best, null);
+        return closest && Math.abs(closest.timestamp - timestamp) <= maxGapMs ? closest : null;
+    }
+
+    // Least squares line from raw readings to the reference
+    private fit(pairs: ReadingPair[]): Correction {
+        const n = pairs.length;
+        const meanRaw = pairs.reduce((sum, pair) => sum + pair.raw, 0) / n;
+        const meanReference = pairs.reduce((sum, pair) => sum + pair.reference, 0) / n;
+        let sxx = 0;
+        let sxy = 0;
+        pairs.forEach(({ raw, reference }) => {
+            sxx += (raw - meanRaw) ** 2;
+            sxy += (raw - meanRaw) * (reference - meanReference);
+        });
+
+        const gain = sxx / n < MIN_VARIANCE ? 1 : sxy / sxx;
+        const offset = meanReference - gain * meanRaw;
+        let sse = 0;
+        let sst = 0;
+        pairs.forEach(({ raw, reference }) => {
+            sse += (reference - (gain * raw + offset)) ** 2;
+            sst += (reference - meanReference) ** 2;
+        });
+
+        const timestamps = pairs.map(pair => pair.timestamp);
+        return {
+            kind: 'reference',
+            gain: this.round(gain, 4),
+            offset: this.round(offset, 4),
+            fit: {
+                samples: n,
+                r2: sst > 0 ? this.round(1 - sse / sst, 4) : 1,
+                rmse: this.round(Math.sqrt(sse / n), 3),
+                from: new Date(Math.min(...timestamps)).toISOString(),
+                to: new Date(Math.max(...timestamps)).toISOString()
+            }
+        };
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { TraceService } from './trace.service';
+import { SafetyInterlocks } from './interlock.service';
+import { DisplayService } from './display.service';
+import { BuzzerService } from './buzzer.service';
+import { GPIOService } from './gpio.service';
+import { WeatherStationService } from './station.service';
+import { HeaterService } from './heater.service';
+import { CalibrationService } from './calibration.service';
+import { BaselineDriftService } from './drift.service';
+import { CorrectionService } from './correction.service';
+import { ForecastService } from './forecast.service';
+import { AlertService } from './alert.service';
+import { DeviceInfo } from '../middleware/device.middleware';
+import { serverConfig } from '../config/server.config';
+
+export interface DeviceServices {
+    deviceId: string;
+    kitronik: KitronikService;
+    monitoring: MonitoringService;
+    traces: TraceService;
+    interlocks: SafetyInterlocks;
+    display: DisplayService;
+    buzzer: BuzzerService;
+    gpio: GPIOService;
+    station: WeatherStationService;
+    heater: HeaterService;
+    calibration: CalibrationService;
+    drift: BaselineDriftService;
+    corrections: CorrectionService;
+    forecast: ForecastService;
+    alerts: AlertService;
+    lastUsed: number;
+}
+
+/**
+ * Lazily creates one KitronikService/MonitoringService pair (plus the
+ * services built on them) per registered device and disposes pairs that have
+ * sat idle, so routes act on whichever device validateDevice resolved instead
+ * of a process-wide singleton.
+ */
+export class DeviceRegistry extends EventEmitter {
+    private devices = new Map<string, DeviceServices>();
+    private sweepInterval: NodeJS.Timeout | null = null;
+
+    constructor(private idleTimeoutMs: number = serverConfig.devices.idleTimeoutMs) {
+        super();
+    }
+
+    get(device: DeviceInfo): DeviceServices {
+        let services = this.devices.get(device.id);
+
+        if (!services) {
+            const reading = device.heater?.reading;
+            const kitronik = new KitronikService({
+                iaqMode: device.iaqMode ?? 'static',
+                sensorModel: device.sensorModel,
+                corrections: device.corrections,
+                gasSettings: reading && {
+                    targetTemp: reading.temperature,
+                    heatDuration: reading.durationMs,
+                    ambientTemp: 25
+                }
+            });
+            const monitoring = new MonitoringService(kitronik, device.id, device.alertRules, device.thresholds);
+            const interlocks = new SafetyInterlocks(device.id, kitronik, monitoring, device.interlocks);
+            const gpio = new GPIOService(device.id, kitronik, monitoring, device.gpio);
+            const display = new DisplayService(device.id, kitronik, monitoring, interlocks, device.display);
+            const calibration = new CalibrationService(device.id, kitronik, display);
+            const station = new WeatherStationService(device.id, kitronik, monitoring, gpio, device.station);
+            services = {
+                deviceId: device.id,
+                kitronik,
+                monitoring,
+                traces: new TraceService(device.id, kitronik, monitoring, gpio),
+                interlocks,
+                display,
+                buzzer: new BuzzerService(device.id, kitronik, monitoring, interlocks, device.sound),
+                gpio,
+                station,
+                heater: new HeaterService(device.id, kitronik, device.heater),
+                calibration,
+                drift: new BaselineDriftService(device.id, kitronik, monitoring, gpio, calibration, device.autoCalibration),
+                corrections: new CorrectionService(device.id, kitronik),
+                forecast: new ForecastService(device.id, kitronik, station, display, device.forecast),
+                alerts: new AlertService(device.id, monitoring, device.alertLifecycle),
+                lastUsed: Date.now()
+            };
+            this.devices.set(device.id, services);
+            this.emit('created', services);
+            this.startSweep();
+            // A device whose sensor won't start is dropped, so its routes report the failure
+            // and the next request tries again
+            kitronik.ready().catch(error => {
+                console.error(`Device ${device.id} failed to start:`, error instanceof Error ? error.message : String(error));
+                if (this.devices.get(device.id) === services) {
+                    this.dispose(device.id);
+                }
+            });
+        }
+
+        services.lastUsed = Date.now();
+        return services;
+    }
+
+    has(deviceId: string): boolean {
+        return this.devices.has(deviceId);
+    }
+
+    list(): string[] {
+        return [...this.devices.keys()];
+    }
+
+    async dispose(deviceId: string): Promise<void> {
+        const services = this.devices.get(deviceId);
+        if (!services) return;
+
+        this.devices.delete(deviceId);
+        if (this.devices.size === 0) {
+            this.stopSweep();
+        }
+
+        // Each service is released on its own so one failing doesn't leave the rest running
+        const releases: [string, () => void | Promise<void>][] = [
+            ['alerts', () => services.alerts.dispose()],
+            ['forecast', () => services.forecast.dispose()],
+            ['drift', () => services.drift.dispose()],
+            ['corrections', () => services.corrections.dispose()],
+            ['calibration', () => services.calibration.dispose()],
+            ['traces', () => services.traces.dispose()],
+            ['display', () => services.display.dispose()],
+            ['buzzer', () => services.buzzer.dispose()],
+            ['heater', () => services.heater.dispose()],
+            ['station', () => services.station.dispose()],
+            ['gpio', () => services.gpio.dispose()],
+            ['interlocks', () => services.interlocks.dispose()],
+            ['monitoring', () => services.monitoring.cleanup()]
+        ];
+        try {
+            for (const [name, release] of releases) {
+                try {
+                    await release();
+                } catch (error) {
+                    console.error(`Error disposing ${name} for device ${deviceId}:`, error);
+                }
+            }
+        } finally {
+            // The hardware goes last, once nothing is left driving it
+            try {
+                await services.kitronik.dispose();
+            } catch (error) {
+                console.error(`Error releasing the hardware for device ${deviceId}:`, error);
+            }
+        }
+        this.emit('disposed', deviceId);
+    }
+
+    async disposeAll(): Promise<void> {
+        await Promise.all(this.list().map(deviceId => this.dispose(deviceId)));
+    }
+
+    private startSweep(): void {
+        if (this.sweepInterval) return;
+
+        this.sweepInterval = setInterval(() => {
+            const cutoff = Date.now() - this.idleTimeoutMs;
+            this.devices.forEach((services, deviceId) => {
+                // Devices that are monitoring, recording, replaying, calibrating or waiting to
+                // recalibrate themselves are never idle
+                const { recording, replaying } = services.traces.getStatus();
+                const busy = services.monitoring.isMonitoring() || recording || replaying ||
+                    services.calibration.getActive() !== null || services.drift.getConfig().enabled;
+                if (services.lastUsed < cutoff && !busy) {
+                    this.dispose(deviceId);
+                }
+            });
+        }, Math.min(this.idleTimeoutMs, 60 * 1000));
+        this.sweepInterval.unref();
+    }
+
+    private stopSweep(): void {
+        if (this.sweepInterval) {
+            clearInterval(this.sweepInterval);
+            this.sweepInterval = null;
+        }
+    }
+}
+
+export const deviceRegistry = new DeviceRegistry();
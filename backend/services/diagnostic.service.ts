@@ -3,7 +3,8 @@ import { KitronikError } from '../utils/errorHandling';
 import { BaselineService } from './baseline.service';
 import { MonitoringService } from './monitoring.service';
 import { KitronikService } from './kitronik.service';
-import { SensorData } from '../types/sensor';
+import { ValidationService } from './validation.service';
+import { MeasurementReading, MeasurementValues } from '../types/driver';
 
 interface DiagnosticResult {
   passed: boolean;
@@ -57,8 +58,8 @@ export class DiagnosticService {
       });
 
       // Test reading capabilities
-      const readings = await this.kitronikService.readSensorData();
-      const readingsValid = this.validateReadings(deviceId, readings);
+      const readings = await this.kitronikService.readMeasurements();
+      const readingsValid = await this.validateReadings(deviceId, readings);
       results.push({
         passed: readingsValid.passed,
         message: readingsValid.message,
@@ -102,10 +103,10 @@ export class DiagnosticService {
       await this.kitronikService.getSensorStatus();
       
       // Test reading acquisition
-      const readings = await this.kitronikService.readSensorData();
+      const readings = await this.kitronikService.readMeasurements();
       
       // Verify reading values are within expected ranges
-      const isValid = this.validateReadingRanges(readings);
+      const isValid = this.validateReadingRanges(readings.values);
 
       return {
         passed: isValid,
@@ -123,25 +124,17 @@ export class DiagnosticService {
     }
   }
 
-  async validateReadings(deviceId: string, readings: SensorData): Promise<DiagnosticResult> {
-    const validRanges = {
-      temperature: { min: -50, max: 100 },
-      humidity: { min: 0, max: 100 },
-      pressure: { min: 800, max: 1200 },
-      airQuality: { min: 0, max: 100 }
-    };
-
+  // Held to what the loaded driver measures, so a sensor isn't failed for lacking the BME688's readings
+  async validateReadings(deviceId: string, readings: MeasurementReading): Promise<DiagnosticResult> {
     const issues: string[] = [];
-    let passed = true;
-
-    Object.entries(validRanges).forEach(([key, range]) => {
-      const value = readings[key as keyof SensorData];
-      if (typeof value !== 'number' || value < range.min || value > range.max) {
-        issues.push(`${key} reading out of range: ${value}`);
-        passed = false;
-      }
-    });
 
+    try {
+      ValidationService.validateMeasurements(readings.values, this.kitronikService.getCapabilities());
+    } catch (error) {
+      issues.push(error instanceof Error ? error.message : String(error));
+    }
+
+    const passed = issues.length === 0;
     return {
       passed,
       message: passed ? 'All readings valid' : 'Invalid readings detected',
@@ -271,13 +264,13 @@ export class DiagnosticService {
     return results;
   }
 
-  private validateReadingRanges(readings: SensorData): boolean {
-    return (
-      readings.temperature >= -50 && readings.temperature <= 100 &&
-      readings.humidity >= 0 && readings.humidity <= 100 &&
-      readings.pressure >= 800 && readings.pressure <= 1200 &&
-      readings.airQuality >= 0 && readings.airQuality <= 100
-    );
+  private validateReadingRanges(values: MeasurementValues): boolean {
+    try {
+      ValidationService.validateMeasurements(values, this.kitronikService.getCapabilities());
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   private async saveDiagnosticResults(deviceId: string, results: DiagnosticResult[]): Promise<void> {
@@ -0,0 +1,296 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { SafetyInterlocks } from './interlock.service';
+import { KitronikError } from '../utils/errorHandling';
+import { OLEDDisplay, RealTimeClock, OLED_WIDTH, OLED_TEXT_LINES } from '../types/hardware';
+import { Measurement, MEASUREMENT_INFO } from '../types/driver';
+import { WeatherAlert } from '../types/sensor';
+import { InterlockTrip } from '../types/interlock';
+import {
+    DisplayConfig,
+    DisplayInterrupt,
+    DisplayPage,
+    DisplayState,
+    InterruptRequest,
+    INTERRUPT_PRIORITY,
+    DEFAULT_DISPLAY
+} from '../types/display';
+import { renderWidget, wrapText, HistoryPoint, ActiveAlert, LINE_HEIGHT } from '../display/widgets';
+
+const HISTORY_MS = 60 * 60 * 1000;
+// Keeps the clock and trend arrows current on pages that sit still
+const REFRESH_MS = 30 * 1000;
+
+const ALERT_TITLES: Record<WeatherAlert['level'], string> = {
+    info: 'NOTICE',
+    warning: 'WARNING',
+    danger: '!! DANGER !!'
+};
+
+/**
+ * Sole writer of a device's OLED. Cycles through the configured pages and
+ * pre-empts them with interrupts (alerts, interlock trips, manual messages),
+ * highest priority first, so monitoring and the controllers no longer draw
+ * over each other.
+ */
+export class DisplayService extends EventEmitter {
+    private config: DisplayConfig;
+    private oled: OLEDDisplay;
+    private rtc: RealTimeClock;
+    private history = new Map<Measurement, HistoryPoint[]>();
+    private interrupts = new Map<string, DisplayInterrupt>();
+    private activeAlert: ActiveAlert | null = null;
+    private pageIndex = 0;
+    private interruptCount = 0;
+    private initialized = false;
+    private rotationTimer: NodeJS.Timeout | null = null;
+    private expiryTimer: NodeJS.Timeout | null = null;
+    private refreshInterval: NodeJS.Timeout;
+    // Draws are serialised so a slow frame can't interleave with the next one
+    private pending: Promise<void> = Promise.resolve();
+    private onReading = (data: Record<string, unknown>) => this.handleReading(data);
+    private onAlerts = (alerts: WeatherAlert[]) => this.handleAlerts(alerts);
+    private onTrip = (trip: InterlockTrip) => this.handleTrip(trip);
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        private interlocks: SafetyInterlocks,
+        config: Partial<DisplayConfig> = {}
+    ) {
+        super();
+        this.config = { ...DEFAULT_DISPLAY, ...config };
+        const board = kitronikService.getBoard();
+        this.oled = board.oled;
+        this.rtc = board.rtc;
+
+        this.monitoringService.on('reading', this.onReading);
+        this.monitoringService.on('alerts', this.onAlerts);
+        this.interlocks.on('trip', this.onTrip);
+        this.refreshInterval = setInterval(() => this.render(), REFRESH_MS);
+        this.scheduleRotation();
+        this.render();
+    }
+
+    configure(config: Partial<DisplayConfig>): DisplayConfig {
+        this.config = { ...DEFAULT_DISPLAY, ...config };
+        this.pageIndex = 0;
+        this.scheduleRotation();
+        this.render();
+        return this.getConfig();
+    }
+
+    getConfig(): DisplayConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getState(): DisplayState {
+        const interrupt = this.activeInterrupt();
+        return {
+            page: this.currentPage()?.name ?? null,
+            interrupt,
+            queued: Math.max(0, this.interrupts.size - (interrupt ? 1 : 0)),
+            rotate: this.config.rotate
+        };
+    }
+
+    showPage(name: string): DisplayPage {
+        const index = this.config.pages.findIndex(page => page.name === name);
+        if (index === -1) {
+            throw new KitronikError(`Unknown display page: ${name}`, 'VALIDATION_ERROR');
+        }
+        this.pageIndex = index;
+        this.scheduleRotation();
+        this.render();
+        return this.config.pages[index];
+    }
+
+    interrupt(request: InterruptRequest): DisplayInterrupt {
+        const now = Date.now();
+        const durationMs = request.durationMs ?? this.config.alertDurationMs;
+        const interrupt: DisplayInterrupt = {
+            id: request.id ?? `${now}-${++this.interruptCount}`,
+            level: request.level,
+            title: request.title ?? '',
+            lines: request.lines ?? (request.message ? wrapText(request.message) : []),
+            patterns: request.patterns,
+            createdAt: now,
+            expiresAt: durationMs > 0 ? now + durationMs : null
+        };
+
+        // Re-inserting keeps Map order equal to arrival order, which breaks priority ties
+        this.interrupts.delete(interrupt.id);
+        this.interrupts.set(interrupt.id, interrupt);
+        this.scheduleExpiry();
+        this.render();
+        this.emit('interrupt', interrupt);
+        return interrupt;
+    }
+
+    clearInterrupt(id: string): boolean {
+        const removed = this.interrupts.delete(id);
+        if (removed) {
+            this.scheduleExpiry();
+            this.render();
+        }
+        return removed;
+    }
+
+    dispose(): void {
+        clearInterval(this.refreshInterval);
+        if (this.rotationTimer) clearTimeout(this.rotationTimer);
+        if (this.expiryTimer) clearTimeout(this.expiryTimer);
+        this.monitoringService.off('reading', this.onReading);
+        this.monitoringService.off('alerts', this.onAlerts);
+        this.interlocks.off('trip', this.onTrip);
+    }
+
+    private handleReading(data: Record<string, unknown>): void {
+        const now = Date.now();
+        (Object.keys(MEASUREMENT_INFO) as Measurement[]).forEach(measurement => {
+            const value = data[measurement];
+            if (typeof value !== 'number' || !Number.isFinite(value)) return;
+
+            const points = this.history.get(measurement) ?? [];
+            points.push({ timestamp: now, value });
+            while (points.length > 0 && points[0].timestamp < now - HISTORY_MS) {
+                points.shift();
+            }
+            this.history.set(measurement, points);
+        });
+
+        // Monitoring emits 'alerts' straight after 'reading' only when something is out of range
+        this.activeAlert = null;
+        this.render();
+    }
+
+    private handleAlerts(alerts: WeatherAlert[]): void {
+        const worst = [...alerts].sort((a, b) => INTERRUPT_PRIORITY[b.level] - INTERRUPT_PRIORITY[a.level])[0];
+        this.activeAlert = worst ? { level: worst.level, message: worst.message } : null;
+
+        alerts
+            .filter(alert => alert.level !== 'info')
+            .forEach(alert => this.interrupt({
+                id: `alert:${alert.type}`,
+                level: alert.level,
+                title: ALERT_TITLES[alert.level],
+                message: alert.message
+            }));
+    }
+
+    private handleTrip(trip: InterlockTrip): void {
+        const level = trip.type === 'sensor-silent' || trip.type === 'exclusive' ? 'danger' : 'warning';
+        this.interrupt({
+            id: `interlock:${trip.type}:${trip.kind}:${trip.index}`,
+            level,
+            title: 'INTERLOCK',
+            message: trip.message
+        });
+    }
+
+    private currentPage(): DisplayPage | undefined {
+        return this.config.pages[this.pageIndex % Math.max(1, this.config.pages.length)];
+    }
+
+    private activeInterrupt(): DisplayInterrupt | null {
+        let winner: DisplayInterrupt | null = null;
+        this.interrupts.forEach(interrupt => {
+            if (!winner || INTERRUPT_PRIORITY[interrupt.level] >= INTERRUPT_PRIORITY[winner.level]) {
+                winner = interrupt;
+            }
+        });
+        return winner;
+    }
+
+    private scheduleRotation(): void {
+        if (this.rotationTimer) {
+            clearTimeout(this.rotationTimer);
+            this.rotationTimer = null;
+        }
+        const page = this.currentPage();
+        if (!this.config.rotate || !page || this.config.pages.length < 2) return;
+
+        this.rotationTimer = setTimeout(() => {
+            this.pageIndex = (this.pageIndex + 1) % this.config.pages.length;
+            this.scheduleRotation();
+            // Pages keep rotating underneath an interrupt so the schedule doesn't drift
+            if (!this.activeInterrupt()) {
+                this.render();
+            }
+        }, page.durationMs ?? this.config.rotationMs);
+    }
+
+    private scheduleExpiry(): void {
+        if (this.expiryTimer) {
+            clearTimeout(this.expiryTimer);
+            this.expiryTimer = null;
+        }
+
+        const now = Date.now();
+        let next: number | null = null;
+        this.interrupts.forEach((interrupt, id) => {
+            if (interrupt.expiresAt === null) return;
+            if (interrupt.expiresAt <= now) {
+                this.interrupts.delete(id);
+            } else if (next === null || interrupt.expiresAt < next) {
+                next = interrupt.expiresAt;
+            }
+        });
+
+        if (next !== null) {
+            this.expiryTimer = setTimeout(() => {
+                this.scheduleExpiry();
+                this.render();
+            }, next - now);
+        }
+    }
+
+    private render(): Promise<void> {
+        const next = this.pending.then(() => this.draw());
+        this.pending = next.catch(error =>
+            console.error(`Display error on device ${this.deviceId}:`, error instanceof Error ? error.message : String(error)));
+        return this.pending;
+    }
+
+    private async draw(): Promise<void> {
+        const interrupt = this.activeInterrupt();
+        if (interrupt?.patterns) {
+            await this.kitronikService.updateDisplay(interrupt.patterns);
+            return;
+        }
+
+        if (!this.initialized) {
+            await this.oled.initialize();
+            this.initialized = true;
+        }
+        await this.oled.clear();
+
+        if (interrupt) {
+            this.drawInterrupt(interrupt);
+        } else {
+            const page = this.currentPage();
+            const context = {
+                now: this.rtc.getDateTime(),
+                history: (measurement: Measurement) => this.history.get(measurement) ?? [],
+                alert: this.activeAlert,
+                trendWindowMs: this.config.trendWindowMs
+            };
+            page?.widgets.forEach(widget => renderWidget(this.oled, widget, context));
+        }
+
+        await this.oled.show();
+    }
+
+    private drawInterrupt(interrupt: DisplayInterrupt): void {
+        let line = 0;
+        if (interrupt.title) {
+            this.oled.writeTextToLine(interrupt.title, line++);
+            this.oled.drawLine(0, LINE_HEIGHT - 1, OLED_WIDTH - 1, LINE_HEIGHT - 1);
+        }
+        interrupt.lines
+            .slice(0, OLED_TEXT_LINES - line)
+            .forEach(text => this.oled.writeTextToLine(text, line++));
+    }
+}
@@ -0,0 +1,250 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { GPIOService } from './gpio.service';
+import { CalibrationService } from './calibration.service';
+import { BaselineService } from './baseline.service';
+import { compensateGas } from './iaq-engine.service';
+import { RealTimeClock } from '../types/hardware';
+import { GPIOEvent } from '../types/gpio';
+import { CalibrationBaseline, CalibrationJob } from '../types/calibration';
+import { BaselineData } from '../types/baseline';
+import { AutoCalibrationConfig, BaselineDrift, DriftPoint, RecalibrationHold, DEFAULT_AUTO_CALIBRATION } from '../types/drift';
+
+const HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface DriftSample {
+    timestamp: number;
+    drift: number;
+}
+
+/**
+ * Tracks how far live gas readings have drifted from the device's stored
+ * baseline and how old that baseline is. When the policy says the baseline
+ * is stale and auto-calibration is enabled, a calibration job is started
+ * at the next quiet time with nobody in the room.
+ */
+export class BaselineDriftService extends EventEmitter {
+    private config: AutoCalibrationConfig;
+    private rtc: RealTimeClock;
+    private baseline: CalibrationBaseline | null = null;
+    private baselineAt: number | null = null;
+    private samples: DriftSample[] = [];
+    private history: DriftPoint[] = [];
+    private lastMotionAt: number | null = null;
+    private lastAutoAt: number | null = null;
+    private checkTimer: NodeJS.Timeout | null = null;
+    private onReading = (_reading: unknown, meta?: { replayed?: boolean }) => {
+        if (!meta?.replayed) this.sample();
+    };
+    private onEvent = (event: GPIOEvent) => {
+        if (event.role === 'pir' && !event.replayed) this.lastMotionAt = Date.now();
+    };
+    private onCalibrated = (job: CalibrationJob) => this.handleCalibrated(job);
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        private gpioService: GPIOService,
+        private calibrationService: CalibrationService,
+        config: Partial<AutoCalibrationConfig> = {}
+    ) {
+        super();
+        this.rtc = kitronikService.getBoard().rtc;
+        this.config = this.merge(config);
+
+        this.monitoringService.on('reading', this.onReading);
+        this.gpioService.on('event', this.onEvent);
+        this.calibrationService.on('finished', this.onCalibrated);
+        this.load().catch(error => console.error(`Failed to load the baseline for device ${deviceId}:`, error));
+        this.schedule();
+    }
+
+    configure(config: Partial<AutoCalibrationConfig>): AutoCalibrationConfig {
+        this.config = this.merge(config);
+        this.schedule();
+        return this.getConfig();
+    }
+
+    getConfig(): AutoCalibrationConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getDrift(): BaselineDrift {
+        const now = Date.now();
+        const { maxDrift, maxAgeMs, driftWindowMs } = this.config;
+        const recent = this.samples.filter(sample => sample.timestamp >= now - driftWindowMs);
+        const drift = recent.length > 0
+            ? this.round(recent.reduce((sum, sample) => sum + sample.drift, 0) / recent.length, 4)
+            : null;
+        const ageMs = this.baselineAt !== null ? now - this.baselineAt : null;
+
+        // Without a baseline there is nothing to trust, so it counts as fully stale
+        const staleness = this.baseline === null ? 1 : this.round(Math.max(
+            drift !== null ? Math.abs(drift) / maxDrift : 0,
+            ageMs !== null ? ageMs / maxAgeMs : 0
+        ), 2);
+        const due = staleness >= 1;
+
+        return {
+            baseline: this.baseline,
+            baselineAt: this.baselineAt !== null ? new Date(this.baselineAt).toISOString() : null,
+            ageMs,
+            drift,
+            samples: recent.length,
+            staleness,
+            due,
+            heldBy: due ? this.holdReason(now) : null,
+            lastAutoCalibration: this.lastAutoAt !== null ? new Date(this.lastAutoAt).toISOString() : null
+        };
+    }
+
+    // Follows a baseline made current outside a calibration job, e.g. by a rollback; seeding
+    // also hands it to the IAQ engine as clean air
+    useBaseline(stored: BaselineData, seed = false): void {
+        this.baseline = {
+            temperature: stored.temperature,
+            humidity: stored.humidity,
+            pressure: stored.pressure,
+            gasResistance: stored.resistance
+        };
+        this.baselineAt = stored.calibration ? Date.parse(stored.calibration.finishedAt) : stored.timestamp;
+        this.samples = [];
+
+        const version = stored.version ?? null;
+        if (seed) {
+            this.kitronikService.applyCalibration(stored.resistance, stored.humidity, version);
+        } else {
+            this.kitronikService.setBaselineVersion(version);
+        }
+    }
+
+    // Drift at every check over the last week, oldest first
+    getHistory(): DriftPoint[] {
+        return [...this.history];
+    }
+
+    dispose(): void {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+            this.checkTimer = null;
+        }
+        this.monitoringService.off('reading', this.onReading);
+        this.gpioService.off('event', this.onEvent);
+        this.calibrationService.off('finished', this.onCalibrated);
+    }
+
+    private async load(): Promise<void> {
+        const stored = await BaselineService.loadBaseline(this.deviceId);
+        // A calibration may have finished while the document was loading
+        if (!stored || this.baseline !== null) return;
+        this.useBaseline(stored);
+    }
+
+    private handleCalibrated(job: CalibrationJob): void {
+        const baseline = job.report?.baseline;
+        if (job.status !== 'completed' || !baseline) return;
+
+        this.baseline = baseline;
+        this.baselineAt = Date.parse(job.finishedAt ?? new Date().toISOString());
+        this.samples = [];
+    }
+
+    // The IAQ engine has just been fed the reading, so its compensated gas is current
+    private sample(): void {
+        const iaq = this.kitronikService.getIAQ();
+        if (!this.baseline || !iaq || !(iaq.compensatedGas > 0)) return;
+
+        const reference = compensateGas(this.baseline.gasResistance, this.baseline.humidity);
+        const now = Date.now();
+        this.samples.push({ timestamp: now, drift: (iaq.compensatedGas - reference) / reference });
+        while (this.samples.length > 0 && this.samples[0].timestamp < now - this.config.driftWindowMs) {
+            this.samples.shift();
+        }
+    }
+
+    private schedule(): void {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+        }
+        this.checkTimer = setInterval(() => {
+            this.check().catch(error => console.error(`Baseline drift check failed on device ${this.deviceId}:`, error));
+        }, this.config.checkIntervalMs);
+    }
+
+    private async check(): Promise<void> {
+        // Without monitoring there are no readings to follow, so take one
+        if (!this.monitoringService.isMonitoring() && this.kitronikService.hasCapability('gasResistance')) {
+            await this.kitronikService.readMeasurements();
+            this.sample();
+        }
+
+        const status = this.getDrift();
+        if (status.drift !== null) {
+            this.history.push({ timestamp: new Date().toISOString(), drift: status.drift });
+            const cutoff = Date.now() - HISTORY_MS;
+            while (this.history.length > 0 && Date.parse(this.history[0].timestamp) < cutoff) {
+                this.history.shift();
+            }
+        }
+        this.emit('drift', status);
+
+        if (status.due && status.heldBy === null) {
+            // Counted before starting so a run that fails to start isn't retried every check
+            this.lastAutoAt = Date.now();
+            const job = this.calibrationService.start(this.config.calibration, 'auto-calibration');
+            this.emit('recalibration', job);
+        }
+    }
+
+    private holdReason(now: number): RecalibrationHold | null {
+        if (!this.config.enabled) return 'disabled';
+        if (this.calibrationService.getActive()) return 'calibrating';
+        if (this.lastAutoAt !== null && now - this.lastAutoAt < this.config.minIntervalMs) return 'interval';
+        if (!this.inQuietHours()) return 'quiet hours';
+        if (!this.isVacant(now)) return 'occupied';
+        return null;
+    }
+
+    private inQuietHours(): boolean {
+        // The board clock keeps device-local time
+        const now = this.rtc.getDateTime();
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        const from = this.toMinutes(this.config.quietStart);
+        const to = this.toMinutes(this.config.quietEnd);
+        return from <= to
+            ? minutes >= from && minutes < to
+            : minutes >= from || minutes < to;
+    }
+
+    private isVacant(now: number): boolean {
+        const pirs = this.gpioService.getConfig().pins.filter(pin => pin.role === 'pir');
+        if (pirs.length === 0) return true;
+
+        const levels = this.gpioService.getLevels();
+        const motion = pirs.some(pin => {
+            const level = levels[pin.pin];
+            return level !== undefined && (pin.activeLow ? !level : level);
+        });
+        return !motion && (this.lastMotionAt === null || now - this.lastMotionAt >= this.config.vacantMs);
+    }
+
+    private toMinutes(time: string): number {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    }
+
+    private merge(config: Partial<AutoCalibrationConfig>): AutoCalibrationConfig {
+        return {
+            ...DEFAULT_AUTO_CALIBRATION,
+            ...config,
+            calibration: { ...DEFAULT_AUTO_CALIBRATION.calibration, ...config.calibration }
+        };
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
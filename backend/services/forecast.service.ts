@@ -0,0 +1,290 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { WeatherStationService } from './station.service';
+import { DisplayService } from './display.service';
+import { InfluxDBService } from './influxdb.service';
+import { seaLevelPressure } from './meteorology.service';
+import { RealTimeClock } from '../types/hardware';
+import {
+    Forecast,
+    ForecastConfig,
+    ForecastConfidence,
+    PressurePoint,
+    PressureTendency,
+    DEFAULT_FORECAST
+} from '../types/forecast';
+
+const HOUR_MS = 60 * 60 * 1000;
+const OUTLOOK_MS = 12 * HOUR_MS;
+// Fewer points than this, or less than an hour of them, can't give a tendency
+const MIN_SAMPLES = 6;
+const MIN_SPAN_MS = HOUR_MS;
+// Change over three hours below which the pressure counts as steady
+const STEADY_HPA = 1.6;
+// Below this the vane direction is noise
+const CALM_KMH = 2;
+// Standard atmosphere temperature for reducing points stored without a sea level value
+const STANDARD_TEMPERATURE = 15;
+
+// Zambretti letters for each tendency, best weather first
+const FALLING_LETTERS = 'ABDHORUXZ';
+const STEADY_LETTERS = 'ABEKNPSWXZ';
+const RISING_LETTERS = 'ABCFGIJLMQTYZ';
+
+const SUMMARIES: Record<string, string> = {
+    A: 'Settled fine',
+    B: 'Fine weather',
+    C: 'Becoming fine',
+    D: 'Fine, becoming less settled',
+    E: 'Fine, possible showers',
+    F: 'Fairly fine, improving',
+    G: 'Fairly fine, possible showers early',
+    H: 'Fairly fine, showery later',
+    I: 'Showery early, improving',
+    J: 'Changeable, mending',
+    K: 'Fairly fine, showers likely',
+    L: 'Rather unsettled, clearing later',
+    M: 'Unsettled, probably improving',
+    N: 'Showery, bright intervals',
+    O: 'Showery, becoming less settled',
+    P: 'Changeable, some rain',
+    Q: 'Unsettled, short fine intervals',
+    R: 'Unsettled, rain later',
+    S: 'Unsettled, rain at times',
+    T: 'Very unsettled, finer at times',
+    U: 'Rain at times, worse later',
+    W: 'Rain at frequent intervals',
+    X: 'Rain, very unsettled',
+    Y: 'Stormy, may improve',
+    Z: 'Stormy, much rain'
+};
+
+// hPa added to the sea level pressure for the wind's compass point (N, NNE ... NNW) in the
+// northern hemisphere; southerlies bring the wet weather there, northerlies south of the equator
+const WIND_ADJUSTMENTS = [6, 5, 5, 2, -0.5, -2, -5, -8.5, -12, -10, -6, -4.5, -3, -0.5, 1.5, 3];
+
+/**
+ * Forecasts the next twelve hours or so from the pressure tendency in the
+ * device's InfluxDB history, using the Zambretti rules adjusted for the
+ * weather station's wind direction and the season. Each new forecast can
+ * also go to the OLED.
+ */
+export class ForecastService extends EventEmitter {
+    private config: ForecastConfig;
+    private rtc: RealTimeClock;
+    private influxService: InfluxDBService;
+    private forecast: Forecast | null = null;
+    private refreshing: Promise<Forecast | null> | null = null;
+    private refreshTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private deviceId: string,
+        kitronikService: KitronikService,
+        private stationService: WeatherStationService,
+        private displayService: DisplayService,
+        config: Partial<ForecastConfig> = {}
+    ) {
+        super();
+        this.rtc = kitronikService.getBoard().rtc;
+        this.influxService = new InfluxDBService();
+        this.config = { ...DEFAULT_FORECAST, ...config };
+        this.schedule();
+    }
+
+    configure(config: Partial<ForecastConfig>): ForecastConfig {
+        this.config = { ...DEFAULT_FORECAST, ...config };
+        this.forecast = null;
+        this.schedule();
+        return this.getConfig();
+    }
+
+    getConfig(): ForecastConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    // Latest forecast, refreshed first when it has gone stale; null until there is enough pressure history
+    async getForecast(): Promise<Forecast | null> {
+        const issuedAt = this.forecast ? Date.parse(this.forecast.issuedAt) : 0;
+        if (Date.now() - issuedAt >= this.config.refreshMs) {
+            await this.refresh();
+        }
+        return this.forecast;
+    }
+
+    refresh(): Promise<Forecast | null> {
+        // Timer and API refreshes share one query
+        if (!this.refreshing) {
+            this.refreshing = this.update().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    async dispose(): Promise<void> {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        await this.influxService.cleanup();
+    }
+
+    private schedule(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+        }
+        this.refreshTimer = setInterval(() => {
+            this.refresh().catch(error =>
+                console.error(`Forecast refresh failed for device ${this.deviceId}:`, error));
+        }, this.config.refreshMs);
+    }
+
+    private async update(): Promise<Forecast | null> {
+        const now = Date.now();
+        const history = await this.influxService.getPressureHistory(
+            this.deviceId,
+            new Date(now - this.config.windowMs),
+            new Date(now)
+        );
+        const span = history.length > 0 ? history[history.length - 1].timestamp - history[0].timestamp : 0;
+        if (history.length < MIN_SAMPLES || span < MIN_SPAN_MS) {
+            this.forecast = null;
+            return null;
+        }
+
+        const previous = this.forecast;
+        this.forecast = this.build(history, span, now);
+        this.emit('forecast', this.forecast);
+
+        if (this.config.showOnDisplay && this.forecast.letter !== previous?.letter) {
+            this.displayService.interrupt({
+                id: 'forecast',
+                level: 'info',
+                title: 'FORECAST',
+                message: `${this.forecast.summary}. Pressure ${this.forecast.tendencyText}`,
+                durationMs: this.config.displayDurationMs
+            });
+        }
+        return this.forecast;
+    }
+
+    private build(history: PressurePoint[], span: number, now: number): Forecast {
+        const { slope, r2 } = this.fitTrend(history);
+        const pressureChange = this.round(slope * 3 * HOUR_MS, 1);
+        const tendency: PressureTendency = Math.abs(pressureChange) < STEADY_HPA
+            ? 'steady'
+            : pressureChange > 0 ? 'rising' : 'falling';
+
+        const latest = history[history.length - 1];
+        const seaLevel = latest.seaLevelPressure ?? seaLevelPressure(
+            latest.pressure,
+            STANDARD_TEMPERATURE,
+            this.stationService.getConfig().elevation
+        );
+
+        const month = this.rtc.getDateTime().getMonth();
+        const northernSummer = month >= 3 && month <= 8;
+        const season = (this.config.hemisphere === 'north') === northernSummer ? 'summer' : 'winter';
+        const windDirection = this.windDirection();
+
+        const letter = this.zambretti(seaLevel, tendency, season, windDirection);
+        const coverage = Math.min(1, span / this.config.windowMs) * Math.min(1, history.length / (MIN_SAMPLES * 2));
+        // A steady pressure has no trend to fit, so its scatter says nothing about the forecast
+        const fit = tendency === 'steady' ? 1 : r2;
+        const confidence = this.round(Math.min(0.95,
+            0.35 + 0.3 * coverage + 0.2 * fit + (windDirection !== null ? 0.1 : 0)), 2);
+
+        return {
+            letter,
+            summary: SUMMARIES[letter],
+            tendency,
+            tendencyText: this.describeTendency(pressureChange),
+            pressureChange,
+            seaLevelPressure: this.round(seaLevel, 1),
+            windDirection,
+            season,
+            confidence,
+            confidenceLevel: this.confidenceLevel(confidence),
+            samples: history.length,
+            issuedAt: new Date(now).toISOString(),
+            validUntil: new Date(now + OUTLOOK_MS).toISOString()
+        };
+    }
+
+    // Least squares slope in hPa per ms, and how closely the points follow it
+    private fitTrend(history: PressurePoint[]): { slope: number; r2: number } {
+        const n = history.length;
+        const t0 = history[0].timestamp;
+        const meanT = history.reduce((sum, point) => sum + (point.timestamp - t0), 0) / n;
+        const meanP = history.reduce((sum, point) => sum + point.pressure, 0) / n;
+        let stt = 0;
+        let stp = 0;
+        let spp = 0;
+        history.forEach(point => {
+            const dt = point.timestamp - t0 - meanT;
+            const dp = point.pressure - meanP;
+            stt += dt * dt;
+            stp += dt * dp;
+            spp += dp * dp;
+        });
+
+        const slope = stt > 0 ? stp / stt : 0;
+        const r2 = stt > 0 && spp > 0 ? (stp * stp) / (stt * spp) : 0;
+        return { slope, r2 };
+    }
+
+    private zambretti(
+        pressure: number,
+        tendency: PressureTendency,
+        season: 'summer' | 'winter',
+        windDirection: number | null
+    ): string {
+        let adjusted = pressure;
+        if (windDirection !== null) {
+            const bearing = this.config.hemisphere === 'north' ? windDirection : (windDirection + 180) % 360;
+            adjusted += WIND_ADJUSTMENTS[Math.round(bearing / 22.5) % 16];
+        }
+
+        // Rising pressure clears faster in summer and falling pressure brings worse weather in winter
+        if (season === 'summer' && tendency === 'rising') adjusted += 7;
+        if (season === 'winter' && tendency === 'falling') adjusted -= 7;
+
+        const [letters, z] = tendency === 'falling'
+            ? [FALLING_LETTERS, 127 - 0.12 * adjusted]
+            : tendency === 'steady'
+                ? [STEADY_LETTERS, 144 - 0.13 * adjusted - 9]
+                : [RISING_LETTERS, 185 - 0.16 * adjusted - 19];
+        const index = Math.min(letters.length - 1, Math.max(0, Math.round(z) - 1));
+        return letters[index];
+    }
+
+    private windDirection(): number | null {
+        const { values } = this.stationService.getReading();
+        if (values.windDirection === undefined) return null;
+        // Without an anemometer the vane can't tell calm from wind
+        if (values.windSpeed !== undefined && values.windSpeed < CALM_KMH) return null;
+        return values.windDirection;
+    }
+
+    // Met Office terms for the change over three hours
+    private describeTendency(change: number): string {
+        const size = Math.abs(change);
+        if (size < 0.1) return 'steady';
+        const direction = change > 0 ? 'rising' : 'falling';
+        if (size < STEADY_HPA) return `${direction} slowly`;
+        if (size <= 3.5) return direction;
+        if (size <= 6) return `${direction} quickly`;
+        return `${direction} very rapidly`;
+    }
+
+    private confidenceLevel(confidence: number): ForecastConfidence {
+        if (confidence >= 0.75) return 'high';
+        if (confidence >= 0.5) return 'medium';
+        return 'low';
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
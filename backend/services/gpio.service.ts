@@ -0,0 +1,263 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { SimulatedBoard } from '../hardware';
+import { GPIOPins } from '../types/hardware';
+import {
+    GPIOConfig,
+    GPIOEvent,
+    GPIOPulse,
+    PinConfig,
+    ROLE_EVENTS,
+    DEFAULT_GPIO,
+    DEFAULT_DEBOUNCE_MS,
+    DEFAULT_PULSE_REPORT_MS
+} from '../types/gpio';
+
+const RECENT_EVENTS = 50;
+// High power output the 'ventilate' action drives
+const FAN_OUTPUT = 0;
+
+interface PinState {
+    config: PinConfig;
+    // Debounced level and the raw level waiting to be accepted
+    level: boolean;
+    candidate: boolean;
+    candidateSince: number;
+    pulses: number;
+    total: number;
+    reportTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Turns the device's GPIO inputs into debounced edge events. Pins are polled
+ * fast and each accepted edge is published through MonitoringService (which
+ * stores it with the readings) according to the pin's role; pulse counters
+ * report counts periodically and emit 'pulse' locally for every edge.
+ * Raw level changes are emitted as 'level' for trace recording.
+ */
+export class GPIOService extends EventEmitter {
+    private config: GPIOConfig;
+    private gpio: GPIOPins;
+    private pins = new Map<number, PinState>();
+    private recent: GPIOEvent[] = [];
+    private pollTimer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private ready: Promise<void>;
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        config: Partial<GPIOConfig> = {}
+    ) {
+        super();
+        this.gpio = kitronikService.getBoard().gpio;
+        this.config = { ...DEFAULT_GPIO, ...config };
+        this.ready = this.start();
+    }
+
+    async configure(config: Partial<GPIOConfig>): Promise<GPIOConfig> {
+        await this.ready;
+        this.stop();
+        this.config = { ...DEFAULT_GPIO, ...config };
+        this.ready = this.start();
+        await this.ready;
+        return this.getConfig();
+    }
+
+    getConfig(): GPIOConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    // Debounced level of every configured input
+    getLevels(): Record<number, boolean> {
+        const levels: Record<number, boolean> = {};
+        this.pins.forEach((state, pin) => { levels[pin] = state.level; });
+        return levels;
+    }
+
+    getCounts(): Record<number, number> {
+        const counts: Record<number, number> = {};
+        this.pins.forEach((state, pin) => {
+            if (state.config.role === 'pulse') counts[pin] = state.total;
+        });
+        return counts;
+    }
+
+    getRecentEvents(): GPIOEvent[] {
+        return [...this.recent];
+    }
+
+    resetCount(pin: number): boolean {
+        const state = this.pins.get(pin);
+        if (!state || state.config.role !== 'pulse') return false;
+        state.total = 0;
+        state.pulses = 0;
+        return true;
+    }
+
+    // Applies a recorded level change straight away, bypassing the debounce
+    async inject(pin: number, value: boolean, replayed = true): Promise<void> {
+        const state = this.pins.get(pin);
+        const board = this.kitronikService.getBoard();
+        if (board instanceof SimulatedBoard) {
+            board.gpio.setInput(pin, value);
+        }
+        if (!state || state.level === value) return;
+
+        state.candidate = value;
+        state.level = value;
+        await this.edge(state, Date.now(), replayed);
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    private async start(): Promise<void> {
+        const now = Date.now();
+        for (const config of this.config.pins) {
+            try {
+                await this.gpio.setupPin(config.pin, 'input');
+                const level = await this.gpio.readPin(config.pin);
+                const state: PinState = {
+                    config,
+                    level,
+                    candidate: level,
+                    candidateSince: now,
+                    pulses: 0,
+                    total: 0,
+                    reportTimer: null
+                };
+                if (config.role === 'pulse') {
+                    state.reportTimer = setInterval(
+                        () => this.reportPulses(state),
+                        config.reportMs ?? DEFAULT_PULSE_REPORT_MS
+                    );
+                }
+                this.pins.set(config.pin, state);
+            } catch (error) {
+                console.error(`Failed to set up GPIO pin ${config.pin} on device ${this.deviceId}:`, error);
+            }
+        }
+
+        this.pollTimer = setInterval(() => {
+            if (this.polling) return;
+            this.polling = true;
+            this.poll()
+                .catch(error => console.error('GPIO poll error:', error))
+                .finally(() => { this.polling = false; });
+        }, this.config.pollMs);
+    }
+
+    private stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this.pins.forEach(state => {
+            if (state.reportTimer) clearInterval(state.reportTimer);
+        });
+        this.pins.clear();
+    }
+
+    private async poll(): Promise<void> {
+        const now = Date.now();
+        for (const state of this.pins.values()) {
+            const raw = await this.gpio.readPin(state.config.pin);
+            if (raw === state.level) {
+                state.candidate = raw;
+                continue;
+            }
+            if (raw !== state.candidate) {
+                state.candidate = raw;
+                state.candidateSince = now;
+            }
+            if (now - state.candidateSince >= (state.config.debounceMs ?? DEFAULT_DEBOUNCE_MS)) {
+                state.level = raw;
+                await this.edge(state, now, false);
+            }
+        }
+    }
+
+    private async edge(state: PinState, now: number, replayed: boolean): Promise<void> {
+        const { config } = state;
+        const active = config.activeLow ? !state.level : state.level;
+        this.emit('level', { pin: config.pin, value: state.level, replayed });
+
+        if (config.role === 'pulse') {
+            if (active) {
+                state.pulses++;
+                state.total++;
+                const pulse: GPIOPulse = { pin: config.pin, name: config.name, total: state.total, timestamp: now };
+                this.emit('pulse', pulse);
+            }
+            return;
+        }
+
+        const [onEvent, offEvent] = ROLE_EVENTS[config.role];
+        await this.publish({
+            pin: config.pin,
+            role: config.role,
+            name: config.name,
+            type: active ? onEvent : offEvent,
+            active,
+            timestamp: new Date(now).toISOString(),
+            replayed
+        });
+        // Replayed inputs already had their effect when they were recorded
+        if (!replayed) {
+            this.runAction(config, active);
+        }
+    }
+
+    private reportPulses(state: PinState): void {
+        const count = state.pulses;
+        state.pulses = 0;
+        this.publish({
+            pin: state.config.pin,
+            role: 'pulse',
+            name: state.config.name,
+            type: 'pulses',
+            active: state.config.activeLow ? !state.level : state.level,
+            timestamp: new Date().toISOString(),
+            count,
+            total: state.total
+        }).catch(error => console.error('GPIO pulse report error:', error));
+    }
+
+    private async publish(event: GPIOEvent): Promise<void> {
+        this.recent.push(event);
+        if (this.recent.length > RECENT_EVENTS) {
+            this.recent.shift();
+        }
+        this.emit('event', event);
+        await this.monitoringService.processInput(event);
+    }
+
+    private async runAction(config: PinConfig, active: boolean): Promise<void> {
+        try {
+            switch (config.action) {
+                case 'ventilate':
+                    if (active) {
+                        await this.kitronikService.setHighPowerOutput(FAN_OUTPUT, true, {
+                            priority: 'automation',
+                            owner: `gpio:${config.name}`,
+                            reason: `${config.name} active`
+                        });
+                    } else {
+                        await this.kitronikService.releaseOutput('power', FAN_OUTPUT, `gpio:${config.name}`);
+                    }
+                    break;
+                case 'calibrate':
+                    if (active) {
+                        await this.kitronikService.calibrateSensor({ forcedRun: true, displayProgress: true });
+                    }
+                    break;
+            }
+        } catch (error) {
+            console.error(`GPIO action ${config.action} on pin ${config.pin} failed:`, error);
+        }
+    }
+}
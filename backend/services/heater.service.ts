@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { InfluxDBService } from './influxdb.service';
+import { HeaterConfig, GasScan, DEFAULT_HEATER } from '../types/heater';
+import { KitronikError } from '../utils/errorHandling';
+
+/**
+ * Runs the device's named BME688 heater profiles. The active profile is
+ * scanned on a timer and every scan's per-step gas resistances are stored
+ * as a fingerprint, so gases can be told apart by how the resistance
+ * responds across temperatures rather than by one reading.
+ */
+export class HeaterService extends EventEmitter {
+    private config: HeaterConfig;
+    private influxService: InfluxDBService;
+    private lastScan: GasScan | null = null;
+    private scanTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        config: Partial<HeaterConfig> = {}
+    ) {
+        super();
+        this.config = this.merge(config);
+        this.influxService = new InfluxDBService();
+        this.schedule();
+    }
+
+    async configure(config: Partial<HeaterConfig>): Promise<HeaterConfig> {
+        const next = this.merge(config);
+        if (next.active !== null && !next.profiles[next.active]) {
+            throw new KitronikError(`Unknown heater profile: ${next.active}`, 'VALIDATION_ERROR');
+        }
+
+        this.config = next;
+        await this.kitronikService.configureHeater(next.reading.temperature, next.reading.durationMs);
+        this.schedule();
+        return this.getConfig();
+    }
+
+    getConfig(): HeaterConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getLastScan(): GasScan | null {
+        return this.lastScan;
+    }
+
+    isScanning(): boolean {
+        return this.kitronikService.isScanning();
+    }
+
+    // Scans a profile now, the active one unless named
+    async scan(name: string | null = this.config.active): Promise<GasScan> {
+        const profile = name !== null ? this.config.profiles[name] : undefined;
+        if (name === null || !profile) {
+            throw new KitronikError(`Unknown heater profile: ${name}`, 'VALIDATION_ERROR');
+        }
+
+        const steps = await this.kitronikService.scanGas(profile.steps);
+        const { temperature, humidity } = await this.kitronikService.readSensorData();
+        if (temperature === undefined || humidity === undefined) {
+            throw new KitronikError('Gas scans need a sensor that measures temperature and humidity', 'SENSOR_ERROR');
+        }
+        const scan: GasScan = {
+            profile: name,
+            steps,
+            temperature,
+            humidity,
+            timestamp: new Date().toISOString()
+        };
+        this.lastScan = scan;
+        this.emit('scan', scan);
+
+        await this.influxService.writeGasScan(this.deviceId, scan);
+        return scan;
+    }
+
+    dispose(): void {
+        if (this.scanTimer) {
+            clearInterval(this.scanTimer);
+            this.scanTimer = null;
+        }
+        this.influxService.cleanup();
+    }
+
+    private schedule(): void {
+        if (this.scanTimer) {
+            clearInterval(this.scanTimer);
+            this.scanTimer = null;
+        }
+        if (this.config.active === null) return;
+
+        this.scanTimer = setInterval(() => {
+            // Skip a tick rather than queue behind a scan that is still running
+            if (this.kitronikService.isScanning()) return;
+            this.scan().catch(error => console.error(`Gas scan failed on device ${this.deviceId}:`, error));
+        }, this.config.scanIntervalMs);
+    }
+
+    private merge(config: Partial<HeaterConfig>): HeaterConfig {
+        return {
+            ...DEFAULT_HEATER,
+            ...config,
+            profiles: { ...DEFAULT_HEATER.profiles, ...config.profiles }
+        };
+    }
+}
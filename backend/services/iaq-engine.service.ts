@@ -0,0 +1,150 @@
+import { IAQAccuracy, IAQMode, IAQResult } from '../types/iaq';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// The heater plate needs a few minutes before resistances are worth learning from
+const WARM_UP_MS = 5 * MINUTE_MS;
+// MOX resistance falls roughly exp(-ΔRH / 60) as humidity rises above 40%
+const HUMIDITY_REFERENCE = 40;
+const HUMIDITY_COEFFICIENT = 1 / 60;
+// Baselines rise quickly towards cleaner air and sink slowly, so pollution isn't learned as normal
+const RISE_TAU_MS = 5 * MINUTE_MS;
+const DYNAMIC_DECAY_TAU_MS = 12 * HOUR_MS;
+const STATIC_DECAY_TAU_MS = 4 * 24 * HOUR_MS;
+const CALIBRATING_AFTER_MS = 30 * MINUTE_MS;
+const CALIBRATED_AFTER_MS = 4 * HOUR_MS;
+// The baseline counts as stable once it moved less than this over the last hour
+const STABLE_DRIFT = 0.05;
+const DRIFT_SAMPLE_MS = 5 * MINUTE_MS;
+const CLEAN_AIR_IAQ = 25;
+const MAX_IAQ = 500;
+
+// Gas resistance normalised to 40% humidity, so readings taken at different humidities compare
+export function compensateGas(gasResistance: number, humidity: number): number {
+    return gasResistance * Math.exp(HUMIDITY_COEFFICIENT * (humidity - HUMIDITY_REFERENCE));
+}
+
+/**
+ * Indoor air quality from the BME688 gas resistance. Readings are humidity
+ * compensated and compared with rolling clean-air baselines; accuracy climbs
+ * from 0 to 3 as the baselines settle. eCO2 and breath VOC are estimated
+ * from the static index.
+ */
+export class IAQEngine {
+    private startedAt: number | null = null;
+    private lastUpdate: number | null = null;
+    private baselineSince: number | null = null;
+    private dynamicBaseline: number | null = null;
+    private staticBaseline: number | null = null;
+    private drift: Array<{ timestamp: number; baseline: number }> = [];
+    private latest: IAQResult | null = null;
+
+    constructor(private mode: IAQMode = 'static') {}
+
+    update(gasResistance: number, humidity: number, timestamp: number = Date.now()): IAQResult {
+        // A failed gas measurement reads 0 Ω; keep the last result rather than learn from it
+        if (!(gasResistance > 0) || !Number.isFinite(humidity)) {
+            return this.latest ?? this.result(NaN, timestamp);
+        }
+
+        if (this.startedAt === null) {
+            this.startedAt = timestamp;
+        }
+        const dt = this.lastUpdate === null ? 0 : Math.max(0, timestamp - this.lastUpdate);
+        this.lastUpdate = timestamp;
+
+        const compensated = compensateGas(gasResistance, humidity);
+        if (timestamp - this.startedAt >= WARM_UP_MS) {
+            this.dynamicBaseline = this.track(this.dynamicBaseline, compensated, dt, DYNAMIC_DECAY_TAU_MS);
+            this.staticBaseline = this.track(this.staticBaseline, compensated, dt, STATIC_DECAY_TAU_MS);
+            if (this.baselineSince === null) {
+                this.baselineSince = timestamp;
+            }
+            this.recordDrift(timestamp);
+        }
+
+        this.latest = this.result(compensated, timestamp);
+        return this.latest;
+    }
+
+    // Starts both baselines from a known clean-air reading, e.g. a forced calibration
+    seed(gasResistance: number, humidity: number, timestamp: number = Date.now()): void {
+        if (!(gasResistance > 0)) return;
+
+        const compensated = compensateGas(gasResistance, humidity);
+        this.dynamicBaseline = compensated;
+        this.staticBaseline = compensated;
+        this.startedAt = Math.min(this.startedAt ?? timestamp, timestamp - WARM_UP_MS);
+        this.baselineSince = timestamp - CALIBRATING_AFTER_MS;
+        this.drift = [{ timestamp, baseline: compensated }];
+    }
+
+    // Forgets the baselines, e.g. after the heater set-point changed the resistance scale
+    reset(): void {
+        this.startedAt = null;
+        this.lastUpdate = null;
+        this.baselineSince = null;
+        this.dynamicBaseline = null;
+        this.staticBaseline = null;
+        this.drift = [];
+        this.latest = null;
+    }
+
+    getLatest(): IAQResult | null {
+        return this.latest;
+    }
+
+    private track(baseline: number | null, value: number, dt: number, decayTau: number): number {
+        if (baseline === null) return value;
+        const tau = value > baseline ? RISE_TAU_MS : decayTau;
+        return baseline + (value - baseline) * (1 - Math.exp(-dt / tau));
+    }
+
+    private recordDrift(timestamp: number): void {
+        const last = this.drift[this.drift.length - 1];
+        if (this.dynamicBaseline !== null && (!last || timestamp - last.timestamp >= DRIFT_SAMPLE_MS)) {
+            this.drift.push({ timestamp, baseline: this.dynamicBaseline });
+        }
+        while (this.drift.length > 1 && this.drift[1].timestamp <= timestamp - HOUR_MS) {
+            this.drift.shift();
+        }
+    }
+
+    private accuracy(timestamp: number): IAQAccuracy {
+        if (this.baselineSince === null || this.dynamicBaseline === null) return 0;
+
+        const age = timestamp - this.baselineSince;
+        if (age < CALIBRATING_AFTER_MS) return 1;
+        if (age < CALIBRATED_AFTER_MS) return 2;
+
+        const oldest = this.drift[0];
+        const drift = oldest ? Math.abs(this.dynamicBaseline - oldest.baseline) / oldest.baseline : 1;
+        return drift < STABLE_DRIFT ? 3 : 2;
+    }
+
+    // Clean air scores 25; every tenfold drop in resistance below the baseline adds 250
+    private toIaq(compensated: number, baseline: number | null): number {
+        if (baseline === null || !Number.isFinite(compensated)) return CLEAN_AIR_IAQ;
+        const ratio = Math.min(1, compensated / baseline);
+        return Math.round(Math.min(MAX_IAQ, CLEAN_AIR_IAQ - 250 * Math.log10(ratio)));
+    }
+
+    private result(compensated: number, timestamp: number): IAQResult {
+        const staticIaq = this.toIaq(compensated, this.staticBaseline);
+        const dynamicIaq = this.toIaq(compensated, this.dynamicBaseline);
+        const excess = Math.max(0, staticIaq - CLEAN_AIR_IAQ);
+
+        return {
+            iaq: this.mode === 'dynamic' ? dynamicIaq : staticIaq,
+            staticIaq,
+            dynamicIaq,
+            accuracy: this.accuracy(timestamp),
+            co2Equivalent: Math.round(400 + excess * 8),
+            breathVocEquivalent: Math.round(50 * Math.exp(excess / 75)) / 100,
+            compensatedGas: Number.isFinite(compensated) ? Math.round(compensated) : 0,
+            gasBaseline: this.dynamicBaseline !== null ? Math.round(this.dynamicBaseline) : null,
+            timestamp: new Date(timestamp).toISOString()
+        };
+    }
+}
@@ -1,7 +1,15 @@
 import { InfluxDB, Point, WriteApi, QueryApi } from '@influxdata/influxdb-client';
 import { KitronikError } from '../utils/errorHandling';
 import { SensorData } from '../types/sensor';
-import { DataReading } from '../../Kitronik5038Port/lib/DataReading';
+import { Measurement, MeasurementReading } from '../types/driver';
+import { CorrectionStamp } from '../types/correction';
+import { GPIOEvent } from '../types/gpio';
+import { StationReading } from '../types/station';
+import { GasScan } from '../types/heater';
+import { DERIVED_QUANTITIES } from '../types/meteorology';
+import { PressurePoint } from '../types/forecast';
+
+const STATION_FIELDS = ['windSpeed', 'windGust', 'windDirection', 'rainRate', 'rainfall'] as const;
 
 export class InfluxDBService {
   private writeApi: WriteApi;
@@ -34,6 +42,19 @@ export class InfluxDBService {
         .intField('airQuality', data.airQuality)
         .timestamp(new Date(data.timestamp));
 
+      // Tagged so readings taken against a rolled back baseline can be selected and reprocessed
+      if (data.baselineVersion !== undefined) {
+        point.tag('baselineVersion', String(data.baselineVersion));
+      }
+      this.addCorrection(point, data);
+
+      ([...STATION_FIELDS, ...DERIVED_QUANTITIES]).forEach(field => {
+        const value = data[field];
+        if (value !== undefined) {
+          point.floatField(field, value);
+        }
+      });
+
       await this.writeApi.writePoint(point);
       await this.writeApi.flush();
     } catch (error) {
@@ -45,6 +66,36 @@ export class InfluxDBService {
     }
   }
 
+  async writeMeasurements(deviceId: string, reading: MeasurementReading): Promise<void> {
+    try {
+      const point = new Point('environmental_readings')
+        .tag('deviceId', deviceId)
+        .tag('sensorModel', reading.sensorModel)
+        .timestamp(new Date(reading.timestamp));
+
+      if (reading.baselineVersion !== undefined) {
+        point.tag('baselineVersion', String(reading.baselineVersion));
+      }
+      this.addCorrection(point, reading);
+
+      // Only the fields the driver provides, so missing measurements stay absent rather than zero
+      Object.entries({ ...reading.values, ...reading.derived }).forEach(([field, value]) => {
+        if (value !== undefined) {
+          point.floatField(field, value);
+        }
+      });
+
+      await this.writeApi.writePoint(point);
+      await this.writeApi.flush();
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to write measurements to InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
   async getDeviceReadings(
     deviceId: string,
     start: Date,
@@ -62,11 +113,14 @@ export class InfluxDBService {
       const results: SensorData[] = [];
       for await (const {values, tableMeta} of this.queryApi.iterateRows(query)) {
         const row = tableMeta.toObject(values);
+        // Readings from before the derived values were stored, or from sensors without humidity, lack them
+        const derived = DERIVED_QUANTITIES.filter(field => typeof row[field] === 'number');
         results.push({
           temperature: row.temperature,
           humidity: row.humidity,
           pressure: row.pressure,
           airQuality: row.airQuality,
+          ...Object.fromEntries(derived.map(field => [field, row[field]])),
           timestamp: row._time
         });
       }
@@ -80,6 +134,79 @@ export class InfluxDBService {
     }
   }
 
+  // Uncorrected values of one measurement, for fitting corrections against a reference
+  async getRawReadings(
+    deviceId: string,
+    measurement: Measurement,
+    start: Date,
+    end: Date = new Date()
+  ): Promise<Array<{ timestamp: number; value: number }>> {
+    const query = `
+      from(bucket: "${this.bucket}")
+        |> range(start: ${start.toISOString()}, stop: ${end.toISOString()})
+        |> filter(fn: (r) => r["_measurement"] == "environmental_readings")
+        |> filter(fn: (r) => r["deviceId"] == "${deviceId}")
+        |> filter(fn: (r) => r["_field"] == "${measurement}" or r["_field"] == "${measurement}Raw")
+        |> pivot(rowKey:["_time"], columnKey: ["_field"], valueColumn: "_value")
+    `;
+
+    try {
+      const results: Array<{ timestamp: number; value: number }> = [];
+      for await (const {values, tableMeta} of this.queryApi.iterateRows(query)) {
+        const row = tableMeta.toObject(values);
+        // Corrected points keep the sensor's own value in the Raw field
+        const value = row[`${measurement}Raw`] ?? row[measurement];
+        if (typeof value === 'number') {
+          results.push({ timestamp: new Date(row._time).getTime(), value });
+        }
+      }
+      return results.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to query raw readings from InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
+  // Station and sea level pressure, for the pressure tendency; older points may lack the sea level value
+  async getPressureHistory(
+    deviceId: string,
+    start: Date,
+    end: Date = new Date()
+  ): Promise<PressurePoint[]> {
+    const query = `
+      from(bucket: "${this.bucket}")
+        |> range(start: ${start.toISOString()}, stop: ${end.toISOString()})
+        |> filter(fn: (r) => r["_measurement"] == "environmental_readings")
+        |> filter(fn: (r) => r["deviceId"] == "${deviceId}")
+        |> filter(fn: (r) => r["_field"] == "pressure" or r["_field"] == "seaLevelPressure")
+        |> pivot(rowKey:["_time"], columnKey: ["_field"], valueColumn: "_value")
+    `;
+
+    try {
+      const results: PressurePoint[] = [];
+      for await (const {values, tableMeta} of this.queryApi.iterateRows(query)) {
+        const row = tableMeta.toObject(values);
+        if (typeof row.pressure === 'number') {
+          results.push({
+            timestamp: new Date(row._time).getTime(),
+            pressure: row.pressure,
+            ...(typeof row.seaLevelPressure === 'number' && { seaLevelPressure: row.seaLevelPressure })
+          });
+        }
+      }
+      return results.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to query pressure history from InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
   async getAggregatedStats(
     deviceId: string,
     interval: string,
@@ -169,6 +296,85 @@ export class InfluxDBService {
     }
   }
 
+  async writeInputEvent(deviceId: string, event: GPIOEvent): Promise<void> {
+    try {
+      const point = new Point('gpio_events')
+        .tag('deviceId', deviceId)
+        .tag('pin', event.pin.toString())
+        .tag('role', event.role)
+        .tag('name', event.name)
+        .stringField('event', event.type)
+        .booleanField('active', event.active)
+        .timestamp(new Date(event.timestamp));
+
+      if (event.count !== undefined) {
+        point.intField('count', event.count);
+      }
+      if (event.total !== undefined) {
+        point.intField('total', event.total);
+      }
+
+      await this.writeApi.writePoint(point);
+      await this.writeApi.flush();
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to write GPIO event to InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
+  async writeStationData(deviceId: string, reading: StationReading): Promise<void> {
+    try {
+      const point = new Point('weather_station')
+        .tag('deviceId', deviceId)
+        .timestamp(new Date(reading.timestamp));
+
+      // Sensors that aren't fitted leave their fields out
+      Object.entries(reading.values).forEach(([field, value]) => {
+        if (value !== undefined) {
+          point.floatField(field, value);
+        }
+      });
+
+      await this.writeApi.writePoint(point);
+      await this.writeApi.flush();
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to write weather station data to InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
+  async writeGasScan(deviceId: string, scan: GasScan): Promise<void> {
+    try {
+      // One point per heater step sharing the scan's timestamp, so a fingerprint pivots on step
+      const timestamp = new Date(scan.timestamp);
+      const points = scan.steps.map((step, index) => new Point('gas_fingerprint')
+        .tag('deviceId', deviceId)
+        .tag('profile', scan.profile)
+        .tag('step', index.toString())
+        .intField('heaterTemp', step.temperature)
+        .intField('durationMs', step.durationMs)
+        .floatField('gasResistance', step.gasResistance)
+        .floatField('temperature', scan.temperature)
+        .floatField('humidity', scan.humidity)
+        .timestamp(timestamp));
+
+      this.writeApi.writePoints(points);
+      await this.writeApi.flush();
+    } catch (error) {
+      throw new KitronikError(
+        'Failed to write gas fingerprint to InfluxDB',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+  }
+
   async writeDeviceStatus(
     deviceId: string,
     status: 'active' | 'inactive' | 'error',
@@ -226,4 +432,18 @@ export class InfluxDBService {
       console.error('Error closing InfluxDB connection:', error);
     }
   }
+
+  // Raw values go alongside the corrected ones as <field>Raw, tagged with the corrections' version
+  private addCorrection(point: Point, stamp: CorrectionStamp): void {
+    if (!stamp.raw) return;
+
+    Object.entries(stamp.raw).forEach(([field, value]) => {
+      if (value !== undefined) {
+        point.floatField(`${field}Raw`, value);
+      }
+    });
+    if (stamp.correctionVersion !== undefined) {
+      point.tag('correctionVersion', String(stamp.correctionVersion));
+    }
+  }
 }
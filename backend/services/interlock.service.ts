@@ -0,0 +1,327 @@
+import { EventEmitter } from 'events';
+import admin from '../utils/firebase';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { OutputArbiter } from './output-arbiter.service';
+import { InfluxDBService } from './influxdb.service';
+import { Alert } from '../types/sensor';
+import { OutputKind, OutputOwner, OutputRequest, OutputValue } from '../types/output';
+import {
+    InterlockConfig,
+    InterlockTrip,
+    InterlockTripType,
+    DEFAULT_INTERLOCKS
+} from '../types/interlock';
+
+const CHECK_INTERVAL_MS = 1000;
+// How long an output stays forced off after a max on-time trip when no minOffMs is set
+const DEFAULT_TRIP_HOLD_MS = 5 * 60 * 1000;
+const TRIP_HISTORY = 100;
+const POWER_OUTPUTS = 4;
+const SERVOS = 2;
+
+const OWNER = {
+    maxOn: 'interlock:max-on-time',
+    minOff: 'interlock:min-off-time',
+    duty: 'interlock:duty-cycle',
+    exclusive: 'interlock:exclusive',
+    sensor: 'interlock:sensor-silent'
+};
+
+interface OnInterval {
+    start: number;
+    end: number | null;
+}
+
+/**
+ * Safety layer on top of the output arbiter. Interlocks act by holding
+ * safety-priority claims, so a tripped output shows who holds it and why,
+ * and whatever automation or manual setting was waiting resumes once the
+ * hold is released.
+ */
+export class SafetyInterlocks extends EventEmitter {
+    private config: InterlockConfig;
+    private arbiter: OutputArbiter;
+    private influxService: InfluxDBService;
+    private history: OnInterval[][] = Array.from({ length: POWER_OUTPUTS }, () => []);
+    private trips: InterlockTrip[] = [];
+    // Holds whose blocked requests have already been reported, so repeated requests don't flood alerts
+    private reportedHolds = new Set<string>();
+    private lastReading: number | null = null;
+    private safeState = false;
+    private checking = false;
+    private checkInterval: NodeJS.Timeout;
+    private onChange = (event: { kind: OutputKind; index: number; owner: OutputOwner }) => this.handleChange(event);
+    private onOverridden = (event: { kind: OutputKind; index: number; owner: OutputOwner }) => this.handleOverridden(event);
+    private onReading = () => this.handleReading();
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        config: Partial<InterlockConfig> = {}
+    ) {
+        super();
+        this.config = { ...DEFAULT_INTERLOCKS, ...config };
+        this.arbiter = kitronikService.getOutputArbiter();
+        this.influxService = new InfluxDBService();
+        this.applyServoLimits();
+
+        this.arbiter.on('change', this.onChange);
+        this.arbiter.on('overridden', this.onOverridden);
+        this.monitoringService.on('reading', this.onReading);
+        this.checkInterval = setInterval(() => {
+            if (this.checking) return;
+            this.checking = true;
+            this.check()
+                .catch(error => console.error('Interlock check error:', error))
+                .finally(() => { this.checking = false; });
+        }, CHECK_INTERVAL_MS);
+    }
+
+    configure(config: Partial<InterlockConfig>): InterlockConfig {
+        this.config = { ...DEFAULT_INTERLOCKS, ...config };
+        this.applyServoLimits();
+        return this.getConfig();
+    }
+
+    getConfig(): InterlockConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getTrips(): InterlockTrip[] {
+        return [...this.trips];
+    }
+
+    isSafeState(): boolean {
+        return this.safeState;
+    }
+
+    dispose(): void {
+        clearInterval(this.checkInterval);
+        this.arbiter.off('change', this.onChange);
+        this.arbiter.off('overridden', this.onOverridden);
+        this.monitoringService.off('reading', this.onReading);
+    }
+
+    private applyServoLimits(): void {
+        for (let index = 0; index < SERVOS; index++) {
+            this.kitronikService.setServoSlewLimit(index, this.config.servos[index]?.maxSlewDegPerSec ?? null);
+        }
+    }
+
+    private async handleChange({ kind, index, owner }: { kind: OutputKind; index: number; owner: OutputOwner }): Promise<void> {
+        if (kind !== 'power') return;
+
+        try {
+            const now = Date.now();
+            const intervals = this.history[index];
+            const current = intervals[intervals.length - 1];
+
+            if (owner.value) {
+                if (!current || current.end !== null) {
+                    intervals.push({ start: now, end: null });
+                }
+
+                // Force exclusive partners off for as long as this output is on
+                for (const partner of this.partners(index)) {
+                    if (this.kitronikService.getOutputStatus().highPowerState[partner]) {
+                        await this.trip('exclusive', 'power', partner,
+                            `Output ${partner} forced off: output ${index} is exclusive with it`);
+                    }
+                    await this.hold('power', partner, false, {
+                        owner: `${OWNER.exclusive}:${index}`,
+                        reason: `Exclusive with output ${index}`
+                    });
+                }
+            } else {
+                if (current && current.end === null) {
+                    current.end = now;
+                }
+
+                for (const partner of this.partners(index)) {
+                    await this.arbiter.release('power', partner, `${OWNER.exclusive}:${index}`);
+                }
+
+                const minOffMs = this.config.power[index]?.minOffMs;
+                if (minOffMs) {
+                    await this.hold('power', index, false, {
+                        owner: OWNER.minOff,
+                        reason: 'Minimum off-time',
+                        durationMs: minOffMs
+                    });
+                }
+            }
+        } catch (error) {
+            console.error(`Interlock error on output ${index}:`, error);
+        }
+    }
+
+    private async handleOverridden({ kind, index, owner }: { kind: OutputKind; index: number; owner: OutputOwner }): Promise<void> {
+        if (owner.priority !== 'safety' || !owner.owner.startsWith('interlock:')) return;
+
+        const holdKey = `${kind}:${index}:${owner.owner}:${owner.since}`;
+        if (this.reportedHolds.has(holdKey)) return;
+        this.reportedHolds.add(holdKey);
+        if (this.reportedHolds.size > TRIP_HISTORY) {
+            this.reportedHolds.delete(this.reportedHolds.values().next().value as string);
+        }
+
+        const type = this.holdType(owner.owner);
+        if (type) {
+            await this.trip(type, kind, index, `${this.outputName(kind, index)} request blocked: ${owner.reason}`);
+        }
+    }
+
+    private handleReading(): void {
+        this.lastReading = Date.now();
+        if (this.safeState) {
+            this.safeState = false;
+            this.arbiter.releaseOwner(OWNER.sensor)
+                .catch(error => console.error('Failed to leave safe state:', error));
+        }
+    }
+
+    private async check(): Promise<void> {
+        const now = Date.now();
+        const status = this.kitronikService.getOutputStatus();
+
+        for (let index = 0; index < POWER_OUTPUTS; index++) {
+            const limits = this.config.power[index];
+            this.prune(index, now);
+            if (!limits || !status.highPowerState[index]) continue;
+
+            const current = this.history[index][this.history[index].length - 1];
+            if (limits.maxOnMs && current && now - current.start > limits.maxOnMs) {
+                await this.trip('max-on-time', 'power', index,
+                    `Output ${index} forced off after ${Math.round(limits.maxOnMs / 1000)}s on`);
+                await this.hold('power', index, false, {
+                    owner: OWNER.maxOn,
+                    reason: 'Maximum on-time exceeded',
+                    durationMs: limits.minOffMs || DEFAULT_TRIP_HOLD_MS
+                });
+                continue;
+            }
+
+            if (limits.maxDutyCycle !== undefined && limits.dutyWindowMs) {
+                const duty = this.onTime(index, now, limits.dutyWindowMs) / limits.dutyWindowMs;
+                if (duty > limits.maxDutyCycle) {
+                    await this.trip('duty-cycle', 'power', index,
+                        `Output ${index} forced off at ${Math.round(duty * 100)}% duty cycle`);
+                    await this.hold('power', index, false, {
+                        owner: OWNER.duty,
+                        reason: 'Duty cycle limit',
+                        durationMs: limits.dutyWindowMs * (1 - limits.maxDutyCycle)
+                    });
+                }
+            }
+        }
+
+        await this.checkSensor(now);
+    }
+
+    private async checkSensor(now: number): Promise<void> {
+        if (!this.monitoringService.isMonitoring() || !this.config.sensorTimeoutMs) {
+            // Only live monitoring promises regular readings
+            this.lastReading = null;
+            return;
+        }
+        if (this.lastReading === null) {
+            this.lastReading = now;
+            return;
+        }
+        if (this.safeState || now - this.lastReading < this.config.sensorTimeoutMs) return;
+
+        this.safeState = true;
+        await this.trip('sensor-silent', 'power', 0,
+            `No sensor reading for ${Math.round((now - this.lastReading) / 1000)}s, outputs moved to safe state`);
+
+        const request = { owner: OWNER.sensor, reason: 'Sensor stopped reporting' };
+        for (let index = 0; index < POWER_OUTPUTS; index++) {
+            await this.hold('power', index, false, request);
+        }
+        for (let index = 0; index < SERVOS; index++) {
+            const safeAngle = this.config.servos[index]?.safeAngle;
+            if (safeAngle !== undefined) {
+                await this.hold('servo', index, safeAngle, request);
+            }
+        }
+    }
+
+    private hold(
+        kind: OutputKind,
+        index: number,
+        value: OutputValue,
+        request: Omit<OutputRequest, 'priority'>
+    ): Promise<OutputOwner> {
+        return this.arbiter.request(kind, index, value, { ...request, priority: 'safety' });
+    }
+
+    private async trip(type: InterlockTripType, kind: OutputKind, index: number, message: string): Promise<void> {
+        const trip: InterlockTrip = { type, kind, index, message, timestamp: Date.now() };
+        this.trips.push(trip);
+        if (this.trips.length > TRIP_HISTORY) {
+            this.trips.shift();
+        }
+        this.emit('trip', trip);
+        console.warn(`Interlock trip on device ${this.deviceId}: ${message}`);
+
+        const alert: Alert = {
+            type: 'interlock',
+            level: type === 'sensor-silent' || type === 'exclusive' ? 'danger' : 'warning',
+            message,
+            timestamp: admin.firestore.Timestamp.fromMillis(trip.timestamp),
+            value: index,
+            deviceId: this.deviceId
+        };
+
+        try {
+            await Promise.all([
+                admin.firestore()
+                    .collection('devices')
+                    .doc(this.deviceId)
+                    .collection('alerts')
+                    .add({ ...alert, interlock: type, output: `${kind}:${index}` }),
+                this.influxService.writeAlert(this.deviceId, alert.type, alert.level, message, index)
+            ]);
+        } catch (error) {
+            console.error('Failed to record interlock trip:', error);
+        }
+    }
+
+    private partners(index: number): number[] {
+        return this.config.exclusivePairs
+            .filter(pair => pair.includes(index))
+            .map(([a, b]) => (a === index ? b : a));
+    }
+
+    private onTime(index: number, now: number, windowMs: number): number {
+        const windowStart = now - windowMs;
+        return this.history[index].reduce((total, interval) => {
+            const start = Math.max(interval.start, windowStart);
+            const end = interval.end ?? now;
+            return total + Math.max(0, end - start);
+        }, 0);
+    }
+
+    private prune(index: number, now: number): void {
+        const windowMs = this.config.power[index]?.dutyWindowMs ?? 0;
+        const intervals = this.history[index];
+        while (intervals.length > 1 && intervals[0].end !== null && intervals[0].end < now - windowMs) {
+            intervals.shift();
+        }
+    }
+
+    private holdType(owner: string): InterlockTripType | null {
+        if (owner === OWNER.minOff) return 'min-off-time';
+        if (owner === OWNER.maxOn) return 'max-on-time';
+        if (owner === OWNER.duty) return 'duty-cycle';
+        if (owner === OWNER.sensor) return 'sensor-silent';
+        if (owner.startsWith(OWNER.exclusive)) return 'exclusive';
+        return null;
+    }
+
+    private outputName(kind: OutputKind, index: number): string {
+        return kind === 'power' ? `Output ${index}` : `Servo ${index}`;
+    }
+}
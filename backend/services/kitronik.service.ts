@@ -1,24 +1,31 @@
-import { SensorInitialization, measureData } from '../../Kitronik5038Port/lib/SensorInitialization';
-import { I2CCommunication } from '../../Kitronik5038Port/lib/I2CCommunication';
-import { SensorData, KitronikConfig, KitronikStatus, EnvironmentalData, CalibrationResult } from '../types/sensor';
-import { BaselineCalculation } from '../../Kitronik5038Port/lib/BaselineCalculation';
-import { CompensationCalculations } from '../../Kitronik5038Port/lib/CompensationCalculations';
-import { KitronikBME688 } from '../../Kitronik5038Port/lib/KitronikBME688';
-import { DataReading } from '../../Kitronik5038Port/lib/DataReading';
-import { SensorError } from '../../Kitronik5038Port/lib/err/SensorError';
-import { BaselineStorage } from '../../Kitronik5038Port/lib/data/BaselineStorage';
-import { KitronikZIPLEDs } from '../../Kitronik5038Port/lib/KitronikZIPLEDs';
-import { KitronikRTC } from '../../Kitronik5038Port/lib/KitronikRTC';
-import { KitronikGPIO } from '../../Kitronik5038Port/lib/KitronikGPIO';
-import { KitronikHighPowerOut } from '../../Kitronik5038Port/lib/KitronikHighPowerOut';
-
-interface OutputStatus {
-    displayActive: boolean;
-    ledsActive: boolean;
-    highPowerState: boolean[];
-    servoPositions: number[];
-    lastUpdate: string;
-}
+import { SensorData, SensorReading, KitronikConfig, OutputStatus, KitronikStatus, EnvironmentalData, CalibrationResult, LEDPattern } from '../types/sensor';
+import {
+    KitronikBoard,
+    BME688FrontEnd,
+    BME688Device,
+    OLEDDisplay,
+    ZIPLEDStrip,
+    ServoMotor,
+    RealTimeClock,
+    GPIOPins,
+    HighPowerOutputs,
+    GasHeaterSettings
+} from '../types/hardware';
+import { createBoard } from '../hardware';
+import { SensorDriver, Measurement, MeasurementReading, SensorCapabilities } from '../types/driver';
+import { createSensorDriver, describeCapabilities } from '../drivers';
+import { serverConfig } from '../config/server.config';
+import { OutputArbiter } from './output-arbiter.service';
+import { OutputKind, OutputOwner, OutputRequest } from '../types/output';
+import { LEDAnimator } from './led-animator.service';
+import { LEDColor } from '../types/led';
+import { HeaterStep, GasScanStep } from '../types/heater';
+import { IAQEngine } from './iaq-engine.service';
+import { CorrectionEngine } from './correction-engine.service';
+import { CorrectionConfig } from '../types/correction';
+import { deriveMeteorology } from './meteorology.service';
+import { IAQResult } from '../types/iaq';
+import { KitronikError } from '../utils/errorHandling';
 
 interface DisplayPattern {
     text: string[];
@@ -29,38 +36,75 @@ interface DisplayPattern {
     };
 }
 
+// Callers that don't say otherwise are treated as a user at the controls
+const MANUAL_REQUEST: OutputRequest = { priority: 'manual', owner: 'manual' };
+
+const STATUS_COLORS: Record<string, LEDColor> = {
+    red: { r: 255, g: 0, b: 0 },
+    orange: { r: 255, g: 165, b: 0 },
+    yellow: { r: 255, g: 255, b: 0 },
+    green: { r: 0, g: 255, b: 0 },
+    blue: { r: 0, g: 0, b: 255 }
+};
+
+const DEFAULT_GAS_SETTINGS: GasHeaterSettings = {
+    targetTemp: 350,
+    heatDuration: 150,
+    ambientTemp: 25
+};
+
 export class KitronikService {
-    private sensorInit: SensorInitialization;
-    private i2cComm: I2CCommunication;
+    private board: KitronikBoard;
+    private driver: SensorDriver;
+    private sensorInit: BME688FrontEnd;
     private status: KitronikStatus;
     private readingInterval: NodeJS.Timeout | null = null;
-    private sensor: KitronikBME688;
-    private baselineCalc: BaselineCalculation;
-    private compensationCalc: CompensationCalculations;
-    private baselineStorage: BaselineStorage;
-    private zipLeds: KitronikZIPLEDs;
-    private rtc: KitronikRTC;
-    private gpio: KitronikGPIO;
-    private powerOut: KitronikHighPowerOut;
+    private sensor: BME688Device;
+    private oled: OLEDDisplay;
+    private zipLeds: ZIPLEDStrip;
+    private servos: ServoMotor[];
+    private rtc: RealTimeClock;
+    private gpio: GPIOPins;
+    private powerOut: HighPowerOutputs;
     private outputStatus: OutputStatus;
-
-    constructor(config?: KitronikConfig) {
-        this.i2cComm = new I2CCommunication(0x77);
-        this.sensorInit = new SensorInitialization(this.i2cComm);
+    private arbiter: OutputArbiter;
+    private ledAnimator: LEDAnimator;
+    private iaq: IAQEngine;
+    private corrections: CorrectionEngine;
+    private servoSlewLimits: (number | null)[] = [null, null];
+    private gasSettings: GasHeaterSettings;
+    // Readings wait for a running gas scan so they aren't taken mid-profile
+    private scanning: Promise<GasScanStep[]> | null = null;
+    private baselineVersion: number | null = null;
+    // Station elevation in metres, for the sea level pressure
+    private elevation = 0;
+    private initialization: Promise<void>;
+    private initError: KitronikError | null = null;
+
+    constructor(config?: KitronikConfig, board?: KitronikBoard) {
+        // Real hardware unless the config (or KITRONIK_HARDWARE) selects the simulated board
+        this.board = board ?? createBoard(
+            config?.hardware ?? serverConfig.hardware.mode,
+            config?.simulation ?? serverConfig.hardware.simulation
+        );
+        this.sensorInit = this.board.sensorInit;
+        this.gasSettings = { ...DEFAULT_GAS_SETTINGS, ...config?.gasSettings };
+        this.driver = createSensorDriver(config?.sensorModel ?? 'bme688', this.board, {
+            gasSettings: this.gasSettings
+        });
         this.status = {
             isInitialized: false,
             lastReadingTime: new Date().toISOString(),
             sensorMode: config?.iaqMode || 'static',
             calibrationStatus: false
         };
-        this.sensor = new KitronikBME688();
-        this.baselineCalc = new BaselineCalculation();
-        this.compensationCalc = new CompensationCalculations();
-        this.baselineStorage = new BaselineStorage();
-        this.zipLeds = new KitronikZIPLEDs();
-        this.rtc = new KitronikRTC();
-        this.gpio = new KitronikGPIO();
-        this.powerOut = new KitronikHighPowerOut();
+        this.sensor = this.board.sensor;
+        this.oled = this.board.oled;
+        this.zipLeds = this.board.zipLeds;
+        this.servos = this.board.servos;
+        this.rtc = this.board.rtc;
+        this.gpio = this.board.gpio;
+        this.powerOut = this.board.powerOut;
         this.outputStatus = {
             displayActive: false,
             ledsActive: false,
@@ -68,20 +112,25 @@ export class KitronikService {
             servoPositions: [0, 0],
             lastUpdate: new Date().toISOString()
         };
-        this.initialize(config);
+        this.arbiter = new OutputArbiter(
+            (kind, index, value) => kind === 'power'
+                ? this.writeHighPowerOutput(index, value as boolean)
+                : this.writeServoPosition(index, value as number),
+            { power: [false, false, false, false], servo: [0, 0] }
+        );
+        this.iaq = new IAQEngine(config?.iaqMode ?? 'static');
+        this.corrections = new CorrectionEngine(config?.corrections);
+        this.ledAnimator = new LEDAnimator(this.zipLeds);
+        this.ledAnimator.on('error', error =>
+            console.error('LED animation error:', error instanceof Error ? error.message : String(error)));
+        this.initialization = this.initialize(config);
         this.initializeStatusLEDs();
         this.initializeGPIO();
     }
 
     private async initialize(config?: KitronikConfig) {
         try {
-            const initResult = await this.sensorInit.initialize({
-                gasSettings: {
-                    targetTemp: 350,
-                    heatDuration: 150,
-                    ambientTemp: 25
-                }
-            });
+            const initResult = await this.driver.initialize();
 
             this.status.isInitialized = initResult.success;
             this.status.calibrationStatus = initResult.success;
@@ -90,24 +139,38 @@ export class KitronikService {
                 this.startContinuousReading(config.samplingInterval);
             }
         } catch (error) {
-            console.error('Failed to initialize BME688:', error);
-            throw error;
+            console.error(`Failed to initialize ${this.driver.model.toUpperCase()}:`, error);
+            // Nothing awaits the constructor, so the failure is kept for ready() and the status to report
+            this.initError = new KitronikError(
+                `Failed to initialize ${this.driver.model.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+                'HARDWARE_ERROR',
+                error
+            );
+            this.status.isInitialized = false;
+            this.status.error = this.initError.message;
+        }
+    }
+
+    // Resolves once the sensor driver has started, or rejects with why it couldn't
+    async ready(): Promise<void> {
+        await this.initialization;
+        if (this.initError) {
+            throw this.initError;
         }
     }
 
     private async initializeStatusLEDs(): Promise<void> {
         // Set up status indicators
-        await this.zipLeds.setColor(0, 'blue');    // Power indicator
-        await this.zipLeds.setColor(1, 'yellow');  // Sensor status
-        await this.zipLeds.setColor(2, 'green');   // Data logging status
-        await this.zipLeds.show();
+        this.ledAnimator.setBase([
+            { index: 0, ...STATUS_COLORS.blue },    // Power indicator
+            { index: 1, ...STATUS_COLORS.yellow },  // Sensor status
+            { index: 2, ...STATUS_COLORS.green }    // Data logging status
+        ]);
     }
 
     private async initializeGPIO(): Promise<void> {
-        // Set up GPIO pins for external sensors and controls
-        await this.gpio.setupPin(0, 'input');  // External trigger
+        // Input pins are set up by GPIOService from the device's pin roles
         await this.gpio.setupPin(1, 'output'); // Status LED
-        await this.gpio.setupPin(2, 'input');  // Door sensor
         await this.powerOut.setupOutput(0);    // External fan control
     }
 
@@ -134,34 +197,69 @@ export class KitronikService {
     }
 
     async readSensorData(): Promise<SensorData> {
+        const reading = await this.getEnvironmentalData();
+        return {
+            ...reading,
+            ...(reading.airQualityIndex !== undefined && { airQuality: reading.airQualityIndex })
+        };
+    }
+
+    // Driver-agnostic reading containing only what the loaded sensor measures
+    async readMeasurements(): Promise<MeasurementReading> {
+        await this.ready();
         if (!this.status.isInitialized) {
             throw new Error('Sensor not initialized');
         }
 
-        const reading = await measureData();
+        await this.scanFinished();
+        const { raw, correctionVersion, ...values } = this.corrections.apply(await this.driver.read());
         const now = new Date();
         this.status.lastReadingTime = now.toISOString();
+        if (values.gasResistance !== undefined && values.humidity !== undefined) {
+            this.iaq.update(values.gasResistance, values.humidity, now.getTime());
+        }
 
         return {
+            sensorModel: this.driver.model,
             timestamp: now.toISOString(),
-            ...reading,
-            ...this.sensorInit.getCalibrationData()
+            values,
+            derived: deriveMeteorology(values, this.elevation),
+            ...(raw && { raw, correctionVersion }),
+            ...this.versionStamp()
         };
     }
 
+    getCapabilities(): SensorCapabilities {
+        return describeCapabilities(this.driver);
+    }
+
+    hasCapability(measurement: Measurement): boolean {
+        return this.driver.capabilities.includes(measurement);
+    }
+
     async readEnvironmentalData(): Promise<EnvironmentalData> {
-        const baseData = await this.readSensorData();
-        
+        const data = await this.readSensorData();
+        // Only a gas resistance feeds the IAQ engine, so other sensors have no IAQ fields
+        const iaq = data.gasResistance !== undefined ? this.iaq.getLatest() : null;
+
         return {
-            ...baseData,
-            airQualityIndex: this.sensorInit.getAirQualityScore(),
-            airQualityAccuracy: this.status.calibrationStatus ? 3 : 1,
-            co2Equivalent: this.sensorInit.readeCO2(),
-            vocEquivalent: this.calculateVOC(),
-            ambientTemperature: this.sensorInit.readTemperature()
+            ...data,
+            ...(iaq && {
+                airQualityAccuracy: iaq.accuracy,
+                iaq: iaq.iaq,
+                staticIaq: iaq.staticIaq,
+                dynamicIaq: iaq.dynamicIaq,
+                co2Equivalent: iaq.co2Equivalent,
+                vocEquivalent: iaq.breathVocEquivalent
+            })
         };
     }
 
+    // Latest IAQ engine output, null until the sensor has reported a gas resistance
+    getIAQ(): IAQResult | null {
+        return this.iaq.getLatest();
+    }
+
     async calibrateSensor(): Promise<CalibrationResult> {
         try {
             let calibrationSuccess = false;
@@ -173,6 +271,8 @@ export class KitronikService {
 
             this.status.calibrationStatus = true;
             calibrationSuccess = true;
+            // The calibration run was clean air, so the IAQ baselines can start from it
+            this.iaq.seed(this.sensorInit.readGasRes(), this.sensorInit.readHumidity());
 
             return {
                 success: calibrationSuccess,
@@ -187,16 +287,43 @@ export class KitronikService {
         }
     }
 
-    private calculateVOC(): number {
-        const gasResistance = this.sensorInit.readGasRes();
-        const humidity = this.sensorInit.readHumidity();
-        // VOC calculation based on gas resistance and humidity
-        return Math.floor((1000000 / gasResistance) * (humidity / 50));
+    // Accepts a baseline measured elsewhere, e.g. by a calibration job, as clean air
+    applyCalibration(gasResistance: number, humidity: number, version: number | null = null): void {
+        this.iaq.seed(gasResistance, humidity);
+        this.status.calibrationStatus = true;
+        this.baselineVersion = version;
+    }
+
+    setCorrections(config: CorrectionConfig): void {
+        this.corrections.configure(config);
+    }
+
+    getCorrections(): CorrectionConfig {
+        return this.corrections.getConfig();
+    }
+
+    // Stored baseline version that readings are stamped with
+    setBaselineVersion(version: number | null): void {
+        this.baselineVersion = version;
+    }
+
+    getBaselineVersion(): number | null {
+        return this.baselineVersion;
+    }
+
+    setElevation(elevation: number): void {
+        this.elevation = elevation;
     }
 
     async configureHeater(targetTemp: number = 320, duration: number = 150): Promise<void> {
         try {
+            await this.scanFinished();
             this.sensorInit.setupGasSensor(targetTemp, duration);
+            if (targetTemp !== this.gasSettings.targetTemp || duration !== this.gasSettings.heatDuration) {
+                // Resistances at another set-point aren't comparable with the learned baselines
+                this.iaq.reset();
+            }
+            this.gasSettings = { ...this.gasSettings, targetTemp, heatDuration: duration };
             await new Promise(resolve => setTimeout(resolve, 100));
         } catch (error) {
             console.error('Heater configuration failed:', error);
@@ -204,24 +331,75 @@ export class KitronikService {
         }
     }
 
+    // Steps the BME688 heater through a profile, measuring the gas resistance at each set-point
+    async scanGas(steps: HeaterStep[]): Promise<GasScanStep[]> {
+        if (this.driver.model !== 'bme688') {
+            throw new Error(`Gas scanning needs a BME688, not a ${this.driver.model.toUpperCase()}`);
+        }
+        if (this.scanning) {
+            throw new Error('A gas scan is already running');
+        }
+
+        const scan = async (): Promise<GasScanStep[]> => {
+            const results: GasScanStep[] = [];
+            try {
+                for (const step of steps) {
+                    this.sensorInit.setupGasSensor(step.temperature, step.durationMs);
+                    await new Promise(resolve => setTimeout(resolve, step.durationMs));
+                    const { gasResistance } = await this.sensorInit.measureData();
+                    results.push({ ...step, gasResistance });
+                }
+            } finally {
+                // Back to the reading set-point so baselines and air quality stay comparable
+                this.sensorInit.setupGasSensor(this.gasSettings.targetTemp, this.gasSettings.heatDuration);
+            }
+            return results;
+        };
+
+        this.scanning = scan();
+        try {
+            return await this.scanning;
+        } finally {
+            this.scanning = null;
+        }
+    }
+
+    public isScanning(): boolean {
+        return this.scanning !== null;
+    }
+
+    // Spread into readings, leaving the field out until a versioned baseline is known
+    private versionStamp(): { baselineVersion?: number } {
+        return this.baselineVersion !== null ? { baselineVersion: this.baselineVersion } : {};
+    }
+
+    private async scanFinished(): Promise<void> {
+        if (this.scanning) {
+            await this.scanning.catch(() => undefined);
+        }
+    }
+
     getStatus(): KitronikStatus {
         return { ...this.status };
     }
 
-    public async getEnvironmentalData(): Promise<DataReading> {
-        const rawReading = await this.sensor.readSensorData();
-        const compensated = this.compensationCalc.applyCompensation(rawReading);
-        const baselined = this.baselineCalc.applyBaseline(compensated);
-        return baselined;
+    public getBoard(): KitronikBoard {
+        return this.board;
+    }
+
+    // Monitoring's reading: the loaded driver's corrected measurements flattened with the derived values
+    public async getEnvironmentalData(): Promise<SensorReading> {
+        const { values, derived, ...reading } = await this.readMeasurements();
+        return { ...values, ...derived, ...reading };
     }
 
     public async calibrateSensor(options: { forcedRun: boolean; displayProgress: boolean }): Promise<void> {
-        await this.baselineCalc.calibrate(this.sensor, options.forcedRun, options.displayProgress);
+        await this.board.baselines.calibrate(this.sensor, options.forcedRun, options.displayProgress);
     }
 
     public async getSensorStatus(): Promise<SensorStatus> {
         try {
-            const baseline = await this.baselineStorage.loadBaseline();
+            const baseline = await this.board.baselines.loadBaseline();
             const reading = await this.sensor.readSensorData();
             
             return {
@@ -231,7 +409,7 @@ export class KitronikService {
                 errors: []
             };
         } catch (error) {
-            if (error instanceof SensorError) {
+            if (this.board.isSensorError(error)) {
                 return {
                     isCalibrated: false,
                     lastCalibration: null,
@@ -244,11 +422,15 @@ export class KitronikService {
     }
 
     public async validateSensorConnection(): Promise<boolean> {
+        if (this.driver.model !== 'bme688') {
+            return this.driver.validateConnection();
+        }
+
         try {
             await this.sensor.validateConnection();
             return true;
         } catch (error) {
-            if (error instanceof SensorError) {
+            if (this.board.isSensorError(error)) {
                 return false;
             }
             throw error;
@@ -257,47 +439,29 @@ export class KitronikService {
 
     public async updateStatusLEDs(status: SensorStatus): Promise<void> {
         // Update LED colors based on status
-        if (!status.isCalibrated) {
-            await this.zipLeds.setColor(1, 'red');
-        } else if (status.errors.length > 0) {
-            await this.zipLeds.setColor(1, 'orange');
-        } else {
-            await this.zipLeds.setColor(1, 'green');
-        }
-
-        if (status.isReading) {
-            await this.zipLeds.setColor(2, 'blue');
-        } else {
-            await this.zipLeds.setColor(2, 'yellow');
-        }
-
-        await this.zipLeds.show();
+        const sensorColor = !status.isCalibrated
+            ? STATUS_COLORS.red
+            : status.errors.length > 0 ? STATUS_COLORS.orange : STATUS_COLORS.green;
+        const loggingColor = status.isReading ? STATUS_COLORS.blue : STATUS_COLORS.yellow;
+
+        this.ledAnimator.setBase([
+            { index: 1, ...sensorColor },
+            { index: 2, ...loggingColor }
+        ]);
     }
 
     public getTimestamp(): Date {
         return this.rtc.getDateTime();
     }
 
-    public async monitorExternalTriggers(): Promise<void> {
-        // Monitor door sensor
-        if (await this.gpio.readPin(2)) {
-            await this.powerOut.setOutput(0, true); // Turn on ventilation
-            await this.startContinuousReading();
-        } else {
-            await this.powerOut.setOutput(0, false);
-            await this.stopContinuousReading();
-        }
-
-        // Check external trigger
-        if (await this.gpio.readPin(0)) {
-            await this.calibrateSensor({ forcedRun: true, displayProgress: true });
-        }
-    }
-
     public async setPowerState(active: boolean): Promise<void> {
         await this.gpio.writePin(1, active);
         if (!active) {
             await this.powerOut.setAllOutputs(false);
+        } else {
+            // Put back whatever the current output owners asked for
+            await this.arbiter.resync();
+            this.ledAnimator.resync();
         }
     }
 
@@ -389,20 +553,23 @@ export class KitronikService {
                 if (!this.isValidLEDPattern(led)) {
                     throw new Error(`Invalid LED pattern: ${JSON.stringify(led)}`);
                 }
-                await this.zipLeds.setPixel(led.index, led.r, led.g, led.b);
             }
-            await this.zipLeds.show();
-            this.outputStatus.ledsActive = true;
+            // Static colours sit underneath any running animation; entries with a duration expire on their own
+            this.ledAnimator.setBase(pattern);
+            this.outputStatus.ledsActive = pattern.length > 0;
             this.outputStatus.lastUpdate = new Date().toISOString();
         } catch (error) {
             console.error('LED pattern error:', error instanceof Error ? error.message : String(error));
             this.outputStatus.ledsActive = false;
-            await this.zipLeds.clear();
-            await this.zipLeds.show();
+            await this.ledAnimator.clear();
             throw new Error('Failed to set LED pattern');
         }
     }
 
+    public getLEDAnimator(): LEDAnimator {
+        return this.ledAnimator;
+    }
+
     private isValidLEDPattern(pattern: LEDPattern): boolean {
         return (
             typeof pattern.index === 'number' &&
@@ -414,12 +581,43 @@ export class KitronikService {
         );
     }
 
-    public async setHighPowerOutput(index: number, state: boolean): Promise<void> {
+    public async setHighPowerOutput(
+        index: number,
+        state: boolean,
+        request: OutputRequest = MANUAL_REQUEST
+    ): Promise<OutputOwner> {
+        if (!Number.isInteger(index) || index < 0 || index >= 4) {
+            throw new KitronikError(`Invalid high power output index: ${index}`, 'VALIDATION_ERROR');
+        }
+        return this.arbiter.request('power', index, state, request);
+    }
+
+    public async setServoPosition(
+        index: number,
+        angle: number,
+        request: OutputRequest = MANUAL_REQUEST
+    ): Promise<OutputOwner> {
+        if (!Number.isInteger(index) || index < 0 || index >= 2) {
+            throw new KitronikError(`Invalid servo index: ${index}`, 'VALIDATION_ERROR');
+        }
+        if (!Number.isFinite(angle) || angle < 0 || angle > 180) {
+            throw new KitronikError(`Invalid servo angle: ${angle}`, 'VALIDATION_ERROR');
+        }
+        return this.arbiter.request('servo', index, angle, request);
+    }
+
+    public releaseOutput(kind: OutputKind, index: number, owner: string): Promise<OutputOwner> {
+        return this.arbiter.release(kind, index, owner);
+    }
+
+    // Ends every manual override on the output so automation or the default takes over again
+    public async releaseOverrides(kind: OutputKind, index: number): Promise<OutputOwner> {
+        await this.arbiter.releasePriority('manual', kind, index);
+        return this.arbiter.owner(kind, index);
+    }
+
+    private async writeHighPowerOutput(index: number, state: boolean): Promise<void> {
         try {
-            if (index < 0 || index >= 4) {
-                throw new Error(`Invalid high power output index: ${index}`);
-            }
-            
             if (state) {
                 await this.powerOut.turnOn(index);
             } else {
@@ -434,16 +632,29 @@ export class KitronikService {
         }
     }
 
-    public async setServoPosition(index: number, angle: number): Promise<void> {
+    // Degrees per second the servo may turn, null for no limit
+    public setServoSlewLimit(index: number, degPerSec: number | null): void {
+        this.servoSlewLimits[index] = degPerSec;
+    }
+
+    private async writeServoPosition(index: number, angle: number): Promise<void> {
         try {
-            if (index < 0 || index >= 2) {
-                throw new Error(`Invalid servo index: ${index}`);
-            }
-            if (angle < 0 || angle > 180) {
-                throw new Error(`Invalid servo angle: ${angle}`);
+            const limit = this.servoSlewLimits[index];
+            const start = this.outputStatus.servoPositions[index];
+            if (limit) {
+                // Walk towards the target in small steps no faster than the slew limit
+                const stepMs = 50;
+                const maxStep = (limit * stepMs) / 1000;
+                let position = start;
+                while (Math.abs(angle - position) > maxStep) {
+                    position += Math.sign(angle - position) * maxStep;
+                    await this.servos[index].setAngle(Math.round(position));
+                    this.outputStatus.servoPositions[index] = Math.round(position);
+                    await new Promise(resolve => setTimeout(resolve, stepMs));
+                }
             }
-            
-            await this.servo.setAngle(angle);
+
+            await this.servos[index].setAngle(angle);
             this.outputStatus.servoPositions[index] = angle;
             this.outputStatus.lastUpdate = new Date().toISOString();
         } catch (error) {
@@ -453,7 +664,34 @@ export class KitronikService {
     }
 
     public getOutputStatus(): OutputStatus {
-        return { ...this.outputStatus };
+        return {
+            ...this.outputStatus,
+            ledsActive: this.outputStatus.ledsActive || this.ledAnimator.list().length > 0,
+            highPowerState: [...this.outputStatus.highPowerState],
+            servoPositions: [...this.outputStatus.servoPositions],
+            owners: {
+                highPower: this.arbiter.owners('power'),
+                servos: this.arbiter.owners('servo')
+            }
+        };
+    }
+
+    public getOutputArbiter(): OutputArbiter {
+        return this.arbiter;
+    }
+
+    // Releases the sensor driver and board once the device's services are discarded
+    public async dispose(): Promise<void> {
+        this.stopContinuousReading();
+        try {
+            await this.cleanup();
+            this.arbiter.dispose();
+            this.ledAnimator.dispose();
+            await this.driver.dispose();
+        } finally {
+            // Frees the board for another device even if the outputs couldn't be reset
+            await this.board.dispose();
+        }
     }
 
     public async cleanup(): Promise<void> {
@@ -461,18 +699,15 @@ export class KitronikService {
             // Stop all outputs
             await this.oled.clear();
             await this.oled.show();
-            await this.zipLeds.clear();
-            await this.zipLeds.show();
-            this.powerOut.turnOff();
+            await this.ledAnimator.clear();
+
+            // Automation stops with monitoring; manual overrides and safety holds stay in force
+            await this.arbiter.releasePriority('automation');
             
             // Update status
-            this.outputStatus = {
-                displayActive: false,
-                ledsActive: false,
-                highPowerState: [false, false, false, false],
-                servoPositions: [0, 0],
-                lastUpdate: new Date().toISOString()
-            };
+            this.outputStatus.displayActive = false;
+            this.outputStatus.ledsActive = false;
+            this.outputStatus.lastUpdate = new Date().toISOString();
         } catch (error) {
             console.error('Cleanup error:', error instanceof Error ? error.message : String(error));
             throw new Error('Failed to cleanup outputs');
@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+import { ZIPLEDStrip, ZIP_LED_COUNT } from '../types/hardware';
+import { MeasurementValues } from '../types/driver';
+import { LEDPattern } from '../types/sensor';
+import { AnimationInfo, LEDAnimation, LEDColor, PlayOptions } from '../types/led';
+import { renderAnimation, animationDuration, overlay, Frame } from '../display/animations';
+
+// 20 frames a second is smooth on the strip without flooding the bus
+const FRAME_MS = 50;
+
+interface RunningAnimation {
+    id: string;
+    layer: number;
+    animation: LEDAnimation;
+    startedAt: number;
+    expiresAt: number | null;
+}
+
+/**
+ * Drives the ZIP LEDs. Static colours form a base layer and running
+ * animations are composed over it by layer each frame; the strip is only
+ * written when the composed frame changes.
+ */
+export class LEDAnimator extends EventEmitter {
+    private base: Frame = new Array(ZIP_LED_COUNT).fill(null);
+    private animations = new Map<string, RunningAnimation>();
+    private values: MeasurementValues = {};
+    private frameTimer: NodeJS.Timeout | null = null;
+    private lastFrame: string | null = null;
+    private animationCount = 0;
+    private writing: Promise<void> | null = null;
+    // Set when a frame was skipped because the strip was still busy
+    private dirty = false;
+
+    constructor(private leds: ZIPLEDStrip) {
+        super();
+    }
+
+    play(animation: LEDAnimation, options: PlayOptions = {}): AnimationInfo {
+        const now = Date.now();
+        const duration = animationDuration(animation);
+        const running: RunningAnimation = {
+            id: options.id ?? `animation-${++this.animationCount}`,
+            layer: options.layer ?? 0,
+            animation,
+            startedAt: now,
+            expiresAt: duration !== null ? now + duration : null
+        };
+
+        // Re-inserting keeps Map order equal to start order, which breaks layer ties
+        this.animations.delete(running.id);
+        this.animations.set(running.id, running);
+        this.startFrames();
+        return this.describe(running);
+    }
+
+    cancel(id: string): boolean {
+        const removed = this.animations.delete(id);
+        if (removed) {
+            this.emit('finished', id);
+            this.tick();
+        }
+        return removed;
+    }
+
+    cancelAll(): void {
+        [...this.animations.keys()].forEach(id => this.cancel(id));
+    }
+
+    list(): AnimationInfo[] {
+        return [...this.animations.values()].map(running => this.describe(running));
+    }
+
+    isActive(): boolean {
+        return this.animations.size > 0 || this.base.some(color => color !== null);
+    }
+
+    // Static colours shown wherever no animation is drawing; a duration turns the entry into a timed animation
+    setBase(pattern: LEDPattern[]): void {
+        pattern.forEach(led => {
+            const color: LEDColor = { r: led.r, g: led.g, b: led.b };
+            if (led.duration) {
+                this.play({ type: 'solid', color, pixels: [led.index], durationMs: led.duration });
+            } else {
+                this.base[led.index] = color;
+            }
+        });
+        this.tick();
+    }
+
+    clearBase(): void {
+        this.base.fill(null);
+        this.tick();
+    }
+
+    // Latest readings for gradients bound to a measurement
+    updateValues(values: MeasurementValues): void {
+        this.values = { ...this.values, ...values };
+    }
+
+    // Makes the next frame rewrite every pixel, e.g. after the strip lost power
+    resync(): void {
+        this.lastFrame = null;
+        this.tick();
+    }
+
+    // Stops everything and blanks the strip
+    async clear(): Promise<void> {
+        this.cancelAll();
+        this.base.fill(null);
+        this.stopFrames();
+        await this.writing;
+
+        const blank: Frame = new Array(ZIP_LED_COUNT).fill(null);
+        await this.write(blank);
+        this.lastFrame = JSON.stringify(blank);
+    }
+
+    dispose(): void {
+        this.stopFrames();
+        this.animations.clear();
+    }
+
+    private startFrames(): void {
+        if (!this.frameTimer) {
+            this.frameTimer = setInterval(() => this.tick(), FRAME_MS);
+        }
+        this.tick();
+    }
+
+    private stopFrames(): void {
+        if (this.frameTimer) {
+            clearInterval(this.frameTimer);
+            this.frameTimer = null;
+        }
+    }
+
+    private tick(): void {
+        const now = Date.now();
+        this.animations.forEach((running, id) => {
+            if (running.expiresAt !== null && running.expiresAt <= now) {
+                this.animations.delete(id);
+                this.emit('finished', id);
+            }
+        });
+        if (this.animations.size === 0) {
+            this.stopFrames();
+        }
+
+        // A slow strip drops frames rather than queueing them, but always catches up with the latest one
+        if (this.writing) {
+            this.dirty = true;
+            return;
+        }
+        const frame = this.compose(now);
+        const key = JSON.stringify(frame);
+        if (key === this.lastFrame) return;
+
+        this.writing = this.write(frame)
+            .then(() => { this.lastFrame = key; })
+            .catch(error => { this.emit('error', error); })
+            .finally(() => {
+                this.writing = null;
+                if (this.dirty) {
+                    this.dirty = false;
+                    this.tick();
+                }
+            });
+    }
+
+    private compose(now: number): Frame {
+        const frame: Frame = [...this.base];
+        [...this.animations.values()]
+            .sort((a, b) => a.layer - b.layer)
+            .forEach(running => overlay(
+                frame,
+                renderAnimation(running.animation, now - running.startedAt, this.values, ZIP_LED_COUNT)
+            ));
+        return frame;
+    }
+
+    private async write(frame: Frame): Promise<void> {
+        for (let index = 0; index < frame.length; index++) {
+            const color = frame[index] ?? { r: 0, g: 0, b: 0 };
+            await this.leds.setPixel(index, color.r, color.g, color.b);
+        }
+        await this.leds.show();
+    }
+
+    private describe(running: RunningAnimation): AnimationInfo {
+        return {
+            id: running.id,
+            layer: running.layer,
+            animation: running.animation,
+            startedAt: new Date(running.startedAt).toISOString(),
+            expiresAt: running.expiresAt !== null ? new Date(running.expiresAt).toISOString() : null
+        };
+    }
+}
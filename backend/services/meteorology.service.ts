@@ -0,0 +1,98 @@
+import { DerivedValues } from '../types/meteorology';
+
+// Magnus coefficients over water, good to about 0.1% between -45 and 60°C
+const MAGNUS_A = 6.1094;
+const MAGNUS_B = 17.625;
+const MAGNUS_C = 243.04;
+// Standard atmosphere lapse rate in K/m and the exponent g·M/(R·L)
+const LAPSE_RATE = 0.0065;
+const PRESSURE_EXPONENT = 5.257;
+
+interface MeteorologyInput {
+    temperature?: number;
+    humidity?: number;
+    pressure?: number;
+}
+
+const round = (value: number, digits = 2): number => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+};
+
+// Saturation vapour pressure in hPa
+export function saturationVapourPressure(temperature: number): number {
+    return MAGNUS_A * Math.exp((MAGNUS_B * temperature) / (temperature + MAGNUS_C));
+}
+
+export function dewPoint(temperature: number, humidity: number): number {
+    const gamma = Math.log(humidity / 100) + (MAGNUS_B * temperature) / (MAGNUS_C + temperature);
+    return (MAGNUS_C * gamma) / (MAGNUS_B - gamma);
+}
+
+// NWS heat index: Steadman's simple formula, or the Rothfusz regression with its adjustments once it's warm
+export function heatIndex(temperature: number, humidity: number): number {
+    const t = temperature * 9 / 5 + 32;
+    let hi = 0.5 * (t + 61 + (t - 68) * 1.2 + humidity * 0.094);
+
+    if ((hi + t) / 2 >= 80) {
+        hi = -42.379 + 2.04901523 * t + 10.14333127 * humidity
+            - 0.22475541 * t * humidity - 0.00683783 * t * t
+            - 0.05481717 * humidity * humidity + 0.00122874 * t * t * humidity
+            + 0.00085282 * t * humidity * humidity - 0.00000199 * t * t * humidity * humidity;
+
+        if (humidity < 13 && t >= 80 && t <= 112) {
+            hi -= ((13 - humidity) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+        } else if (humidity > 85 && t >= 80 && t <= 87) {
+            hi += ((humidity - 85) / 10) * ((87 - t) / 5);
+        }
+    }
+
+    return (hi - 32) * 5 / 9;
+}
+
+// Environment Canada humidex, from the dew point
+export function humidex(temperature: number, humidity: number): number {
+    const dewPointK = dewPoint(temperature, humidity) + 273.15;
+    const vapourPressure = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / dewPointK));
+    return temperature + 0.5555 * (vapourPressure - 10);
+}
+
+// Water vapour density in g/m³
+export function absoluteHumidity(temperature: number, humidity: number): number {
+    const vapourPressure = saturationVapourPressure(temperature) * humidity / 100;
+    return 216.7 * vapourPressure / (temperature + 273.15);
+}
+
+// How far the air is from saturation, in kPa
+export function vapourPressureDeficit(temperature: number, humidity: number): number {
+    return saturationVapourPressure(temperature) * (1 - humidity / 100) / 10;
+}
+
+// Station pressure reduced to sea level with the hypsometric equation; elevation in metres
+export function seaLevelPressure(pressure: number, temperature: number, elevation: number): number {
+    const lapse = LAPSE_RATE * elevation;
+    return pressure * Math.pow(1 - lapse / (temperature + lapse + 273.15), -PRESSURE_EXPONENT);
+}
+
+// Everything the reading's measurements allow; humidity of 0% has no dew point, so it's left out
+export function deriveMeteorology(reading: MeteorologyInput, elevation = 0): DerivedValues {
+    const { temperature, humidity, pressure } = reading;
+    const derived: DerivedValues = {};
+    if (!isFiniteNumber(temperature)) return derived;
+
+    if (isFiniteNumber(humidity) && humidity > 0 && humidity <= 100) {
+        derived.dewPoint = round(dewPoint(temperature, humidity));
+        derived.heatIndex = round(heatIndex(temperature, humidity));
+        derived.humidex = round(humidex(temperature, humidity));
+        derived.absoluteHumidity = round(absoluteHumidity(temperature, humidity));
+        derived.vapourPressureDeficit = round(vapourPressureDeficit(temperature, humidity), 3);
+    }
+    if (isFiniteNumber(pressure) && pressure > 0) {
+        derived.seaLevelPressure = round(seaLevelPressure(pressure, temperature, elevation));
+    }
+    return derived;
+}
+
+function isFiniteNumber(value: number | undefined): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
@@ -1,15 +1,42 @@
 import { KitronikService } from './kitronik.service';
-import { SensorReading, WeatherAlert, MonitoringThresholds } from '../types/sensor';
+import { SensorReading, WeatherAlert, StationValues } from '../types/sensor';
 import { EventEmitter } from 'events';
 import { Registry, Counter, Gauge, Histogram } from 'prom-client';
 import { InfluxDBService } from './influxdb.service';
 import { KitronikError } from '../utils/errorHandling';
+import { OutputRequest } from '../types/output';
+import { GPIOEvent } from '../types/gpio';
+import { StationReading } from '../types/station';
+import { AlertRule, RuleEvent, RuleStates, evaluateRules } from '../../shared/alert-rules';
+import {
+    DEFAULT_THRESHOLD_CONFIG,
+    MonitoringThresholds,
+    RateSample,
+    evaluateRates,
+    evaluateThresholds,
+    rateWindowMs,
+    ThresholdConfig,
+    withDefaults
+} from '../../shared/thresholds';
+
+const MONITORING_REQUEST: OutputRequest = { priority: 'automation', owner: 'monitoring' };
 
 export class MonitoringService extends EventEmitter {
     private monitoringInterval: NodeJS.Timeout | null = null;
-    private thresholds: MonitoringThresholds;
+    private replaying = false;
+    private thresholdConfig: ThresholdConfig;
     private alerts: WeatherAlert[] = [];
+    // Latest wind and rain, merged into each sensor reading
+    private station: StationValues = {};
+    // Recent pressure and temperature for the storm and frost warnings
+    private trend: RateSample[] = [];
+    // The device's alert rules, with the timers carried between readings
+    private rules: AlertRule[];
+    private ruleStates: RuleStates = {};
+    // Rules that fired or cleared on the latest reading
+    private ruleEvents: RuleEvent[] = [];
     private kitronikService: KitronikService;
+    private deviceId: string;
     private influxService: InfluxDBService;
     private registry: Registry;
 
@@ -24,85 +51,130 @@ export class MonitoringService extends EventEmitter {
     private deviceErrors: Counter;
     private activeDevices: Gauge;
     private alertsTriggered: Counter;
-
-    constructor(kitronikService: KitronikService) {
+    private inputEvents: Counter;
+    private windSpeed: Gauge;
+    private windGust: Gauge;
+    private rainRate: Gauge;
+
+    constructor(
+        kitronikService: KitronikService,
+        deviceId = 'default_device',
+        rules: AlertRule[] = [],
+        thresholds?: ThresholdConfig
+    ) {
         super();
         this.kitronikService = kitronikService;
+        this.deviceId = deviceId;
+        this.rules = rules;
+        this.thresholdConfig = {
+            ...DEFAULT_THRESHOLD_CONFIG,
+            ...thresholds,
+            thresholds: withDefaults(thresholds?.thresholds)
+        };
         this.influxService = new InfluxDBService();
         this.registry = new Registry();
-        this.thresholds = {
-            temperature: { min: 15, max: 30 },
-            humidity: { min: 30, max: 70 },
-            pressure: { min: 980, max: 1020 },
-            airQuality: {
-                poor: 60,
-                hazardous: 30
-            }
-        };
-
         // Initialize metrics
         this.initializeMetrics();
     }
 
     private initializeMetrics(): void {
+        // Each device has its own MonitoringService, so keep metrics off prom-client's global registry
         this.readingsTotal = new Counter({
             name: 'kitronik_readings_total',
             help: 'Total number of sensor readings',
-            labelNames: ['device_id']
+            labelNames: ['device_id'],
+            registers: []
         });
 
         this.readingErrors = new Counter({
             name: 'kitronik_reading_errors_total',
             help: 'Total number of sensor reading errors',
-            labelNames: ['device_id', 'error_type']
+            labelNames: ['device_id', 'error_type'],
+            registers: []
         });
 
         this.temperature = new Gauge({
             name: 'kitronik_temperature_celsius',
             help: 'Current temperature reading in Celsius',
-            labelNames: ['device_id']
+            labelNames: ['device_id'],
+            registers: []
         });
 
         this.humidity = new Gauge({
             name: 'kitronik_humidity_percent',
             help: 'Current humidity reading in percent',
-            labelNames: ['device_id']
+            labelNames: ['device_id'],
+            registers: []
         });
 
         this.pressure = new Gauge({
             name: 'kitronik_pressure_hpa',
             help: 'Current pressure reading in hPa',
-            labelNames: ['device_id']
+            labelNames: ['device_id'],
+            registers: []
         });
 
         this.airQuality = new Gauge({
             name: 'kitronik_air_quality_index',
             help: 'Current air quality index',
-            labelNames: ['device_id']
+            labelNames: ['device_id'],
+            registers: []
         });
 
         this.readingDuration = new Histogram({
             name: 'kitronik_reading_duration_seconds',
             help: 'Duration of sensor readings in seconds',
             labelNames: ['device_id'],
-            buckets: [0.1, 0.5, 1, 2, 5]
+            buckets: [0.1, 0.5, 1, 2, 5],
+            registers: []
         });
 
         this.deviceErrors = new Counter({
             name: 'kitronik_device_errors_total',
             help: 'Total number of device errors',
-            labelNames: ['device_id', 'error_type']
+            labelNames: ['device_id', 'error_type'],
+            registers: []
         });
 
         this.activeDevices = new Gauge({
             name: 'kitronik_active_devices',
             help: 'Number of currently active devices',
+            registers: []
         });
 
         this.alertsTriggered = new Counter({
             name: 'kitronik_alerts_triggered_total',
             help: 'Total number of alerts triggered',
-            labelNames: ['device_id', 'alert_type', 'severity']
+            labelNames: ['device_id', 'alert_type', 'severity'],
+            registers: []
+        });
+
+        this.inputEvents = new Counter({
+            name: 'kitronik_gpio_events_total',
+            help: 'Total number of GPIO input events',
+            labelNames: ['device_id', 'role', 'event'],
+            registers: []
+        });
+
+        this.windSpeed = new Gauge({
+            name: 'kitronik_wind_speed_kmh',
+            help: 'Current mean wind speed in km/h',
+            labelNames: ['device_id'],
+            registers: []
+        });
+
+        this.windGust = new Gauge({
+            name: 'kitronik_wind_gust_kmh',
+            help: 'Current wind gust in km/h',
+            labelNames: ['device_id'],
+            registers: []
+        });
+
+        this.rainRate = new Gauge({
+            name: 'kitronik_rain_rate_mm_per_hour',
+            help: 'Current rain rate in mm per hour',
+            labelNames: ['device_id'],
+            registers: []
         });
 
         // Register all metrics
@@ -121,38 +193,103 @@ export class MonitoringService extends EventEmitter {
         this.registry.registerMetric(this.deviceErrors);
         this.registry.registerMetric(this.activeDevices);
         this.registry.registerMetric(this.alertsTriggered);
+        this.registry.registerMetric(this.inputEvents);
+        this.registry.registerMetric(this.windSpeed);
+        this.registry.registerMetric(this.windGust);
+        this.registry.registerMetric(this.rainRate);
     }
 
     public async startMonitoring(intervalMs = 60000): Promise<void> {
         if (this.monitoringInterval) {
             throw new Error('Monitoring already active');
         }
+        if (this.replaying) {
+            throw new Error('Cannot start monitoring while a trace is replaying');
+        }
 
         await this.kitronikService.validateSensorConnection();
         
         this.monitoringInterval = setInterval(async () => {
             try {
                 const data = await this.kitronikService.getEnvironmentalData();
-                const alerts = await this.checkConditions(data);
-                this.alerts = alerts;
-                
-                // Emit events for external listeners
-                this.emit('reading', data);
-                if (alerts.length > 0) {
-                    this.emit('alerts', alerts);
-                }
-                
-                // Update outputs based on conditions
-                await this.updateOutputs(alerts, data);
-
-                // Update Prometheus metrics
-                this.updateMetrics(data);
+                const baselineVersion = this.kitronikService.getBaselineVersion();
+                await this.processReading({
+                    ...data,
+                    ...this.station,
+                    ...(baselineVersion !== null && { baselineVersion })
+                });
             } catch (error) {
                 this.emit('error', error instanceof Error ? error : new Error(String(error)));
             }
         }, intervalMs);
     }
 
+    // Runs one reading through alerting, outputs and metrics; live and replayed readings share this path
+    public async processReading(data: SensorReading, replayed = false): Promise<WeatherAlert[]> {
+        const alerts = await this.checkConditions(data);
+        this.alerts = alerts;
+
+        // Emit events for external listeners; AlertService stores what live readings raise
+        this.ruleEvents.forEach(event => this.emit('rule', event, { replayed }));
+        this.emit('reading', data, { replayed });
+        if (alerts.length > 0) {
+            this.emit('alerts', alerts);
+        }
+        
+        // Update outputs based on conditions
+        await this.updateOutputs(alerts, data);
+
+        // Update Prometheus metrics
+        this.updateMetrics(data);
+        return alerts;
+    }
+
+    // Publishes a GPIO input event alongside the readings and stores it in the time series
+    public async processInput(event: GPIOEvent): Promise<void> {
+        this.emit('gpio', event);
+        this.inputEvents.inc({ device_id: this.deviceId, role: event.role, event: event.type });
+
+        // Replayed inputs are already history, like replayed readings
+        if (event.replayed) return;
+        try {
+            await this.influxService.writeInputEvent(this.deviceId, event);
+        } catch (error) {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    // Keeps the latest wind and rain for the next readings and stores them in the time series
+    public async processStation(reading: StationReading): Promise<void> {
+        this.station = reading.values;
+        this.emit('station', reading);
+
+        const { windSpeed, windGust, rainRate } = reading.values;
+        const labels = { device_id: this.deviceId };
+        if (windSpeed !== undefined) this.windSpeed.set(labels, windSpeed);
+        if (windGust !== undefined) this.windGust.set(labels, windGust);
+        if (rainRate !== undefined) this.rainRate.set(labels, rainRate);
+
+        try {
+            await this.influxService.writeStationData(this.deviceId, reading);
+        } catch (error) {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    public setReplaying(active: boolean): void {
+        if (active && this.monitoringInterval) {
+            throw new Error('Stop monitoring before replaying a trace');
+        }
+        this.replaying = active;
+        // Replayed and live readings don't share a timeline
+        this.trend = [];
+        this.ruleStates = {};
+    }
+
+    public isMonitoring(): boolean {
+        return this.monitoringInterval !== null;
+    }
+
     public async stopMonitoring(): Promise<void> {
         if (this.monitoringInterval) {
             clearInterval(this.monitoringInterval);
@@ -164,65 +301,53 @@ export class MonitoringService extends EventEmitter {
     private async checkConditions(data: SensorReading): Promise<WeatherAlert[]> {
         const alerts: WeatherAlert[] = [];
 
-        // Check temperature
-        if (data.temperature < this.thresholds.temperature.min) {
-            alerts.push({
-                type: 'temperature',
-                level: 'warning',
-                message: `Low temperature: ${data.temperature.toFixed(1)}°C`
-            });
-        } else if (data.temperature > this.thresholds.temperature.max) {
-            alerts.push({
-                type: 'temperature',
-                level: 'danger',
-                message: `High temperature: ${data.temperature.toFixed(1)}°C`
-            });
-        }
+        // Check the thresholds the Cloud Functions check too
+        alerts.push(...evaluateThresholds(this.thresholdConfig.thresholds, { ...data }));
 
-        // Check humidity
-        if (data.humidity < this.thresholds.humidity.min ||
-            data.humidity > this.thresholds.humidity.max) {
-            alerts.push({
-                type: 'humidity',
-                level: 'warning',
-                message: `Humidity outside range: ${data.humidity.toFixed(1)}%`
-            });
-        }
+        // Check how fast pressure and temperature are falling, for approaching fronts and frost
+        alerts.push(...this.checkRates(data));
 
-        // Check air quality
-        if (data.airQualityIndex < this.thresholds.airQuality.hazardous) {
-            alerts.push({
-                type: 'airQuality',
-                level: 'danger',
-                message: `Hazardous air quality: ${data.airQualityIndex}`
-            });
-        } else if (data.airQualityIndex < this.thresholds.airQuality.poor) {
-            alerts.push({
-                type: 'airQuality',
-                level: 'warning',
-                message: `Poor air quality: ${data.airQualityIndex}`
-            });
-        }
+        // Check the device's own rules
+        alerts.push(...this.checkRules(data));
 
         return alerts;
     }
 
+    private checkRules(data: SensorReading): WeatherAlert[] {
+        const { states, events, active } = evaluateRules(
+            this.rules,
+            { ...data },
+            this.ruleStates,
+            this.readingTime(data)
+        );
+        this.ruleStates = states;
+        this.ruleEvents = events;
+
+        return active.map(rule => ({
+            type: 'rule',
+            level: rule.severity,
+            message: rule.message,
+            ruleId: rule.ruleId
+        }));
+    }
+
+    private checkRates(data: SensorReading): WeatherAlert[] {
+        const now = this.readingTime(data);
+        const { thresholds } = this.thresholdConfig;
+        this.trend.push({ time: now, pressure: data.pressure, temperature: data.temperature });
+        this.trend = this.trend.filter(sample => sample.time >= now - rateWindowMs(thresholds));
+        return evaluateRates(thresholds, this.trend);
+    }
+
+    // Replayed readings carry their original time; live ones may not carry one
+    private readingTime(data: SensorReading): number {
+        const time = new Date(data.timestamp).getTime();
+        return Number.isFinite(time) ? time : Date.now();
+    }
+
     private async updateOutputs(alerts: WeatherAlert[], data: SensorReading): Promise<void> {
         try {
-            // Update display with alerts and current readings
-            const displayPatterns = [{
-                text: alerts.length > 0 ? [
-                    'Weather Alerts:',
-                    ...alerts.map(alert => alert.message)
-                ] : [
-                    'Current Conditions:',
-                    `Temperature: ${data.temperature.toFixed(1)}°C`,
-                    `Humidity: ${data.humidity.toFixed(1)}%`,
-                    `Air Quality: ${data.airQualityIndex}`
-                ]
-            }];
-
-            await this.kitronikService.updateDisplay(displayPatterns);
+            // The OLED belongs to the device's DisplayService, which follows 'reading' and 'alerts'
 
             // Set LED patterns based on alert levels
             const ledPatterns = alerts.map((alert, index) => ({
@@ -233,41 +358,90 @@ export class MonitoringService extends EventEmitter {
             }));
 
             await this.kitronikService.setLEDPattern(ledPatterns);
+            // Gradient animations bound to a measurement follow the latest reading
+            this.kitronikService.getLEDAnimator().updateValues({
+                temperature: data.temperature,
+                humidity: data.humidity,
+                pressure: data.pressure,
+                airQualityIndex: data.airQualityIndex,
+                windSpeed: data.windSpeed,
+                windGust: data.windGust,
+                windDirection: data.windDirection,
+                rainRate: data.rainRate,
+                rainfall: data.rainfall
+            });
 
             // Control ventilation based on air quality
             if (alerts.some(a => a.type === 'airQuality')) {
-                await this.kitronikService.setHighPowerOutput(0, true);
+                await this.kitronikService.setHighPowerOutput(0, true, {
+                    ...MONITORING_REQUEST,
+                    reason: 'Poor air quality'
+                });
+            } else {
+                await this.kitronikService.releaseOutput('power', 0, MONITORING_REQUEST.owner);
             }
 
             // Update servo position based on conditions
-            const humidityAngle = Math.round((data.humidity / 100) * 180);
-            await this.kitronikService.setServoPosition(0, humidityAngle);
+            if (data.humidity !== undefined) {
+                const humidityAngle = Math.round((data.humidity / 100) * 180);
+                await this.kitronikService.setServoPosition(0, humidityAngle, {
+                    ...MONITORING_REQUEST,
+                    reason: 'Tracking humidity'
+                });
+            }
         } catch (error) {
             this.emit('error', error instanceof Error ? error : new Error(String(error)));
         }
     }
 
     private updateMetrics(data: SensorReading): void {
-        const deviceId = 'default_device'; // Replace with actual device ID if available
+        const deviceId = this.deviceId;
 
         this.readingsTotal.inc({ device_id: deviceId });
-        this.temperature.set({ device_id: deviceId }, data.temperature);
-        this.humidity.set({ device_id: deviceId }, data.humidity);
-        this.pressure.set({ device_id: deviceId }, data.pressure);
-        this.airQuality.set({ device_id: deviceId }, data.airQualityIndex);
+        // Gauges for measurements the sensor doesn't provide are left unset
+        if (data.temperature !== undefined) this.temperature.set({ device_id: deviceId }, data.temperature);
+        if (data.humidity !== undefined) this.humidity.set({ device_id: deviceId }, data.humidity);
+        if (data.pressure !== undefined) this.pressure.set({ device_id: deviceId }, data.pressure);
+        if (data.airQualityIndex !== undefined) this.airQuality.set({ device_id: deviceId }, data.airQualityIndex);
     }
 
     public getAlerts(): WeatherAlert[] {
         return [...this.alerts];
     }
 
-    public updateThresholds(newThresholds: Partial<MonitoringThresholds>): void {
-        this.thresholds = {
-            ...this.thresholds,
-            ...newThresholds
+    public getThresholds(): ThresholdConfig {
+        return JSON.parse(JSON.stringify(this.thresholdConfig));
+    }
+
+    // The next version of the device's thresholds; nothing changes until it is applied
+    public buildThresholds(thresholds: MonitoringThresholds, updatedBy: string): ThresholdConfig {
+        return {
+            version: this.thresholdConfig.version + 1,
+            thresholds,
+            updatedAt: new Date().toISOString(),
+            updatedBy
         };
     }
 
+    public applyThresholds(config: ThresholdConfig): ThresholdConfig {
+        this.thresholdConfig = { ...config, thresholds: withDefaults(config.thresholds) };
+        return this.getThresholds();
+    }
+
+    public getRules(): AlertRule[] {
+        return JSON.parse(JSON.stringify(this.rules));
+    }
+
+    // Rules that keep their id keep their timers
+    public setRules(rules: AlertRule[]): AlertRule[] {
+        this.rules = rules;
+        return this.getRules();
+    }
+
+    public getRuleStates(): RuleStates {
+        return JSON.parse(JSON.stringify(this.ruleStates));
+    }
+
     public async cleanup(): Promise<void> {
         await this.stopMonitoring();
         await this.influxService.cleanup();
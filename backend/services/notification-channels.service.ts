@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import nodemailer, { Transporter } from 'nodemailer';
+import mqtt from 'mqtt';
+import webpush from 'web-push';
+import { serverConfig } from '../config/server.config';
+import { KitronikError, CommunicationError } from '../utils/errorHandling';
+import { assertPublicUrl, publicHttpAgent, publicHttpsAgent } from '../utils/network';
+import {
+    ChannelType,
+    EmailChannel,
+    MqttChannel,
+    Notification,
+    NotificationChannel,
+    WebhookChannel,
+    WebPushChannel
+} from '../types/notification';
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+
+// Failures another attempt can't fix are VALIDATION_ERRORs; everything else is a CommunicationError and retried
+export interface ChannelSender<T extends NotificationChannel = NotificationChannel> {
+    send(channel: T, notification: Notification): Promise<void>;
+    close(): Promise<void>;
+}
+
+// Signature over the timestamp and body, so receivers can reject replays as well as forgeries
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class WebhookSender implements ChannelSender<WebhookChannel> {
+    async send(channel: WebhookChannel, notification: Notification): Promise<void> {
+        // The host is checked again here, as its name may have been re-pointed since it was saved
+        await assertPublicUrl(channel.url);
+        const body = JSON.stringify({ ...notification, url: alertUrl() });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        try {
+            await axios.post(channel.url, body, {
+                timeout: SEND_TIMEOUT_MS,
+                // Redirects could lead anywhere, and the agents refuse private addresses when connecting
+                maxRedirects: 0,
+                httpAgent: publicHttpAgent,
+                httpsAgent: publicHttpsAgent,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Gusty-Timestamp': timestamp,
+                    'X-Gusty-Signature': `sha256=${signWebhook(channel.secret, timestamp, body)}`
+                }
+            });
+        } catch (error) {
+            // The agents' lookup refuses a host re-pointed at a private address after the check above
+            if (axios.isAxiosError(error) && error.cause instanceof KitronikError) {
+                throw new KitronikError(`Webhook refused: ${error.cause.message}`, 'VALIDATION_ERROR', error);
+            }
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            // A 4xx won't change on retry, except rate limiting
+            if (status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+                throw new KitronikError(`Webhook rejected the notification with ${status}`, 'VALIDATION_ERROR', error);
+            }
+            throw new CommunicationError(`Webhook failed: ${describe(error)}`, error);
+        }
+    }
+
+    async close(): Promise<void> {}
+}
+
+export class EmailSender implements ChannelSender<EmailChannel> {
+    private transport: Transporter | null = null;
+
+    async send(channel: EmailChannel, notification: Notification): Promise<void> {
+        const { smtp } = serverConfig.notifications;
+        if (!smtp.host) {
+            throw new KitronikError('Email notifications need SMTP_HOST', 'VALIDATION_ERROR');
+        }
+
+        try {
+            await this.connect().sendMail({
+                from: smtp.from,
+                to: channel.to.join(', '),
+                subject: notification.title,
+                text: `${notification.message}\n\n${notification.deviceName} at ${notification.timestamp}\n${alertUrl()}`
+            });
+        } catch (error) {
+            throw new CommunicationError(`Email failed: ${describe(error)}`, error);
+        }
+    }
+
+    async close(): Promise<void> {
+        this.transport?.close();
+        this.transport = null;
+    }
+
+    private connect(): Transporter {
+        if (!this.transport) {
+            const { smtp } = serverConfig.notifications;
+            this.transport = nodemailer.createTransport({
+                host: smtp.host,
+                port: smtp.port,
+                secure: smtp.secure,
+                auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+                connectionTimeout: SEND_TIMEOUT_MS
+            });
+        }
+        return this.transport;
+    }
+}
+
+export class MqttSender implements ChannelSender<MqttChannel> {
+    async send(channel: MqttChannel, notification: Notification): Promise<void> {
+        const { mqtt: broker } = serverConfig.notifications;
+        if (!broker.url) {
+            throw new KitronikError('MQTT notifications need MQTT_URL', 'VALIDATION_ERROR');
+        }
+
+        const topic = channel.topic
+            .replace('{deviceId}', notification.deviceId)
+            .replace('{level}', notification.level);
+        // A client per send: a publish to an unreachable broker would otherwise wait forever
+        const client = mqtt.connect(broker.url, {
+            username: broker.username,
+            password: broker.password,
+            connectTimeout: SEND_TIMEOUT_MS,
+            reconnectPeriod: 0
+        });
+        client.on('error', (error: Error) => console.error('MQTT notification client error:', error));
+
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                client.publishAsync(topic, JSON.stringify(notification), { qos: 1 }),
+                new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => reject(new Error(`no acknowledgement within ${SEND_TIMEOUT_MS} ms`)), SEND_TIMEOUT_MS);
+                })
+            ]);
+        } catch (error) {
+            throw new CommunicationError(`MQTT publish failed: ${describe(error)}`, error);
+        } finally {
+            clearTimeout(timer);
+            await client.endAsync(true).catch(() => undefined);
+        }
+    }
+
+    async close(): Promise<void> {}
+}
+
+export class WebPushSender implements ChannelSender<WebPushChannel> {
+    async send(channel: WebPushChannel, notification: Notification): Promise<void> {
+        const { webPush } = serverConfig.notifications;
+        if (!webPush.publicKey || !webPush.privateKey) {
+            throw new KitronikError('Web Push notifications need VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY', 'VALIDATION_ERROR');
+        }
+
+        try {
+            await webpush.sendNotification(
+                channel.subscription,
+                JSON.stringify({
+                    title: notification.title,
+                    body: notification.message,
+                    tag: notification.alertId,
+                    level: notification.level,
+                    url: alertUrl()
+                }),
+                {
+                    vapidDetails: {
+                        subject: webPush.subject,
+                        publicKey: webPush.publicKey,
+                        privateKey: webPush.privateKey
+                    },
+                    TTL: 60 * 60,
+                    timeout: SEND_TIMEOUT_MS
+                }
+            );
+        } catch (error) {
+            const status = (error as { statusCode?: number }).statusCode;
+            // The browser dropped the subscription
+            if (status === 404 || status === 410) {
+                throw new KitronikError('Push subscription has expired', 'VALIDATION_ERROR', error);
+            }
+            throw new CommunicationError(`Web Push failed: ${describe(error)}`, error);
+        }
+    }
+
+    async close(): Promise<void> {}
+}
+
+export const createSenders = (): Record<ChannelType, ChannelSender> => ({
+    webhook: new WebhookSender(),
+    email: new EmailSender(),
+    mqtt: new MqttSender(),
+    webpush: new WebPushSender()
+} as Record<ChannelType, ChannelSender>);
+
+function alertUrl(): string {
+    return `${serverConfig.notifications.appUrl}/alerts`;
+}
+
+function describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
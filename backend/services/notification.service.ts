@@ -0,0 +1,221 @@
+import { EventEmitter } from 'events';
+import { DeviceRegistry, DeviceServices, deviceRegistry } from './device-registry.service';
+import { ChannelSender, createSenders } from './notification-channels.service';
+import { AlertAction, AlertRecord } from '../types/alert';
+import { ALERT_LEVELS } from '../../shared/thresholds';
+import {
+    ChannelType,
+    DeliveryRecord,
+    Notification,
+    NotificationChannel,
+    NotificationPreferences,
+    NOTIFIED_ACTIONS,
+    WebhookChannel,
+    DEFAULT_NOTIFICATION_PREFERENCES
+} from '../types/notification';
+import { serverConfig } from '../config/server.config';
+import { KitronikError, isRetryableError } from '../utils/errorHandling';
+import { assertPublicUrl } from '../utils/network';
+import admin from '../utils/firebase';
+
+const TITLES: Partial<Record<AlertAction, string>> = {
+    opened: 'Alert',
+    reopened: 'Alert again',
+    escalated: 'Alert escalated',
+    resolved: 'Resolved'
+};
+
+type AlertListener = (alert: AlertRecord, action: AlertAction) => void;
+
+/**
+ * Passes each device's alert changes on to its owner through the channels
+ * they have set up, routed by severity and device. Failed sends are retried
+ * with exponential backoff, and every attempt is logged under the user's
+ * deliveries in Firestore.
+ */
+export class NotificationService extends EventEmitter {
+    private alertListeners = new Map<string, AlertListener>();
+    private retries = new Set<NodeJS.Timeout>();
+    private deliveryCount = 0;
+    private onCreated = (services: DeviceServices) => {
+        const listener: AlertListener = (alert, action) => {
+            this.notify(services.deviceId, alert, action).catch(error =>
+                console.error(`Notification failed for device ${services.deviceId}:`, error));
+        };
+        services.alerts.on('alert', listener);
+        this.alertListeners.set(services.deviceId, listener);
+    };
+    // The device's AlertService is disposed with it
+    private onDisposed = (deviceId: string) => this.alertListeners.delete(deviceId);
+
+    constructor(
+        private registry: DeviceRegistry,
+        private senders: Record<ChannelType, ChannelSender> = createSenders()
+    ) {
+        super();
+        this.registry.on('created', this.onCreated);
+        this.registry.on('disposed', this.onDisposed);
+    }
+
+    async getPreferences(userId: string): Promise<NotificationPreferences> {
+        const userDoc = await admin.firestore().collection('users').doc(userId).get();
+        return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...userDoc.data()?.notificationPreferences };
+    }
+
+    async setPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+        // Webhook hosts are resolved too, so names pointing at private addresses are refused
+        await Promise.all(preferences.channels
+            .filter((channel): channel is WebhookChannel => channel.type === 'webhook')
+            .map(channel => assertPublicUrl(channel.url)));
+        await admin.firestore()
+            .collection('users')
+            .doc(userId)
+            .set({ notificationPreferences: preferences }, { merge: true });
+        return preferences;
+    }
+
+    async getDeliveries(userId: string, limit = 50): Promise<DeliveryRecord[]> {
+        const snapshot = await this.deliveries(userId)
+            .orderBy('createdAt', 'desc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map((doc: { data(): unknown }) => doc.data() as DeliveryRecord);
+    }
+
+    // Sends every matching channel the alert change; resolves with each channel's first attempt
+    async notify(deviceId: string, alert: AlertRecord, action: AlertAction): Promise<DeliveryRecord[]> {
+        if (!NOTIFIED_ACTIONS.includes(action)) return [];
+
+        const deviceDoc = await admin.firestore().collection('devices').doc(deviceId).get();
+        const device = deviceDoc.data();
+        if (!device) return [];
+
+        const notification: Notification = {
+            id: `${Date.now()}-${++this.deliveryCount}`,
+            userId: device.userId,
+            deviceId,
+            deviceName: device.name ?? deviceId,
+            alertId: alert.id,
+            action,
+            type: alert.type,
+            level: alert.level,
+            title: `${TITLES[action]}: ${device.name ?? deviceId}`,
+            message: alert.message,
+            timestamp: new Date().toISOString()
+        };
+
+        const preferences = await this.getPreferences(device.userId);
+        return Promise.all(this.route(preferences, notification).map(channel => this.deliver(channel, notification)));
+    }
+
+    // Sends a made-up alert to one channel so users can check their settings
+    async test(userId: string, channelId: string): Promise<DeliveryRecord> {
+        const preferences = await this.getPreferences(userId);
+        const channel = preferences.channels.find(candidate => candidate.id === channelId);
+        if (!channel) {
+            throw new KitronikError(`Unknown channel: ${channelId}`, 'VALIDATION_ERROR');
+        }
+
+        return this.deliver(channel, {
+            id: `${Date.now()}-${++this.deliveryCount}`,
+            userId,
+            deviceId: 'test',
+            deviceName: 'Test device',
+            alertId: 'test',
+            action: 'opened',
+            type: 'temperature',
+            level: 'info',
+            title: 'Test notification',
+            message: `This is a test of the ${channel.name} channel`,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    async dispose(): Promise<void> {
+        this.registry.off('created', this.onCreated);
+        this.registry.off('disposed', this.onDisposed);
+        this.retries.forEach(timer => clearTimeout(timer));
+        this.retries.clear();
+        await Promise.all(Object.values(this.senders).map(sender => sender.close()));
+    }
+
+    // Enabled channels with a route that takes the notification's level, device and action
+    private route(preferences: NotificationPreferences, notification: Notification): NotificationChannel[] {
+        const channelIds = new Set(preferences.routes
+            .filter(route => ALERT_LEVELS.indexOf(notification.level) >= ALERT_LEVELS.indexOf(route.minLevel))
+            .filter(route => route.deviceIds.length === 0 || route.deviceIds.includes(notification.deviceId))
+            .filter(route => (route.actions ?? NOTIFIED_ACTIONS).includes(notification.action))
+            .map(route => route.channelId));
+        return preferences.channels.filter(channel => channel.enabled && channelIds.has(channel.id));
+    }
+
+    private async deliver(channel: NotificationChannel, notification: Notification): Promise<DeliveryRecord> {
+        const now = new Date().toISOString();
+        const delivery: DeliveryRecord = {
+            id: `${notification.id}-${channel.id}`,
+            notificationId: notification.id,
+            channelId: channel.id,
+            channelType: channel.type,
+            deviceId: notification.deviceId,
+            alertId: notification.alertId,
+            level: notification.level,
+            title: notification.title,
+            status: 'pending',
+            attempts: 0,
+            lastError: null,
+            createdAt: now,
+            updatedAt: now,
+            deliveredAt: null,
+            nextAttemptAt: null
+        };
+        await this.attempt(channel, notification, delivery);
+        return { ...delivery };
+    }
+
+    private async attempt(channel: NotificationChannel, notification: Notification, delivery: DeliveryRecord): Promise<void> {
+        const { retry } = serverConfig.notifications;
+        delivery.attempts++;
+
+        try {
+            await this.senders[channel.type].send(channel, notification);
+            delivery.status = 'delivered';
+            delivery.deliveredAt = new Date().toISOString();
+            delivery.lastError = null;
+            delivery.nextAttemptAt = null;
+        } catch (error) {
+            delivery.lastError = error instanceof Error ? error.message : String(error);
+            if (isRetryableError(error) && delivery.attempts < retry.attempts) {
+                const delayMs = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (delivery.attempts - 1));
+                delivery.status = 'retrying';
+                delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+
+                const timer = setTimeout(() => {
+                    this.retries.delete(timer);
+                    this.attempt(channel, notification, delivery).catch(retryError =>
+                        console.error(`Notification retry failed for ${delivery.id}:`, retryError));
+                }, delayMs);
+                this.retries.add(timer);
+            } else {
+                delivery.status = 'failed';
+                delivery.nextAttemptAt = null;
+            }
+        }
+
+        delivery.updatedAt = new Date().toISOString();
+        this.emit('delivery', { ...delivery });
+        try {
+            await this.deliveries(notification.userId).doc(delivery.id).set(delivery);
+        } catch (error) {
+            console.error(`Failed to log notification delivery ${delivery.id}:`, error);
+        }
+    }
+
+    private deliveries(userId: string) {
+        return admin.firestore()
+            .collection('users')
+            .doc(userId)
+            .collection('deliveries');
+    }
+}
+
+export const notificationService = new NotificationService(deviceRegistry);
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import { KitronikError } from '../utils/errorHandling';
+import {
+    OutputKind,
+    OutputOwner,
+    OutputPriority,
+    OutputRequest,
+    OutputValue,
+    OUTPUT_PRIORITIES
+} from '../types/output';
+
+interface Claim extends OutputOwner {
+    timer: NodeJS.Timeout | null;
+}
+
+interface OutputChannel {
+    claims: Map<string, Claim>;
+    defaultValue: OutputValue;
+    applied: OutputValue | null;
+    // Hardware writes for one output are serialised so they land in request order
+    pending: Promise<void>;
+}
+
+type OutputWriter = (kind: OutputKind, index: number, value: OutputValue) => Promise<void>;
+
+/**
+ * Decides which of the competing writers drives each high-power output and
+ * servo. Every writer places a claim at its priority; the highest-priority
+ * claim wins (the most recent one on a tie) and lower claims take over again
+ * when it is released or expires.
+ */
+export class OutputArbiter extends EventEmitter {
+    private channels = new Map<string, OutputChannel>();
+
+    constructor(private write: OutputWriter, defaults: Record<OutputKind, OutputValue[]>) {
+        super();
+        (Object.keys(defaults) as OutputKind[]).forEach(kind => {
+            defaults[kind].forEach((value, index) => {
+                this.channels.set(this.key(kind, index), {
+                    claims: new Map(),
+                    defaultValue: value,
+                    applied: null,
+                    pending: Promise.resolve()
+                });
+            });
+        });
+    }
+
+    // Places or replaces the caller's claim and returns whoever owns the output afterwards
+    async request(kind: OutputKind, index: number, value: OutputValue, request: OutputRequest): Promise<OutputOwner> {
+        const channel = this.channel(kind, index);
+        const existing = channel.claims.get(request.owner);
+        if (existing?.timer) {
+            clearTimeout(existing.timer);
+        }
+
+        const now = Date.now();
+        const claim: Claim = {
+            priority: request.priority,
+            owner: request.owner,
+            reason: request.reason,
+            value,
+            since: new Date(now).toISOString(),
+            expiresAt: request.durationMs ? new Date(now + request.durationMs).toISOString() : null,
+            timer: null
+        };
+        if (request.durationMs) {
+            claim.timer = setTimeout(() => {
+                if (channel.claims.get(request.owner) === claim) {
+                    channel.claims.delete(request.owner);
+                    this.emit('expired', { kind, index, owner: this.describe(claim) });
+                    this.settle(kind, index).catch(error => this.emit('error', error));
+                }
+            }, request.durationMs);
+        }
+
+        // Re-inserting keeps Map order equal to request order, which breaks priority ties
+        channel.claims.delete(request.owner);
+        channel.claims.set(request.owner, claim);
+        await this.settle(kind, index);
+
+        const owner = this.owner(kind, index);
+        if (owner.owner !== request.owner && owner.value !== value) {
+            // Someone with higher priority holds the output, so this request is waiting
+            this.emit('overridden', { kind, index, request, value, owner });
+        }
+        return owner;
+    }
+
+    async release(kind: OutputKind, index: number, owner: string): Promise<OutputOwner> {
+        const channel = this.channel(kind, index);
+        const claim = channel.claims.get(owner);
+        if (claim) {
+            if (claim.timer) clearTimeout(claim.timer);
+            channel.claims.delete(owner);
+            await this.settle(kind, index);
+        }
+        return this.owner(kind, index);
+    }
+
+    // Drops every claim held at one priority, on one output or on all of them
+    async releasePriority(priority: OutputPriority, kind?: OutputKind, index?: number): Promise<void> {
+        for (const [key, channel] of this.channels) {
+            const [channelKind, channelIndex] = this.parseKey(key);
+            if (kind !== undefined && (channelKind !== kind || channelIndex !== index)) continue;
+
+            const owners = [...channel.claims.values()]
+                .filter(claim => claim.priority === priority)
+                .map(claim => claim.owner);
+            for (const owner of owners) {
+                await this.release(channelKind, channelIndex, owner);
+            }
+        }
+    }
+
+    // Releases the owner's claims on every output
+    async releaseOwner(owner: string): Promise<void> {
+        for (const key of this.channels.keys()) {
+            const [kind, index] = this.parseKey(key);
+            await this.release(kind, index, owner);
+        }
+    }
+
+    owner(kind: OutputKind, index: number): OutputOwner {
+        const channel = this.channel(kind, index);
+        const winner = this.winner(channel);
+        if (winner) {
+            return this.describe(winner);
+        }
+
+        return {
+            priority: 'default',
+            owner: 'default',
+            value: channel.defaultValue,
+            since: new Date(0).toISOString(),
+            expiresAt: null
+        };
+    }
+
+    owners(kind: OutputKind): OutputOwner[] {
+        return [...this.channels.keys()]
+            .map(key => this.parseKey(key))
+            .filter(([channelKind]) => channelKind === kind)
+            .map(([, index]) => this.owner(kind, index));
+    }
+
+    // Forgets what was last written so the next settle re-drives the hardware, e.g. after a power cycle
+    async resync(): Promise<void> {
+        for (const [key, channel] of this.channels) {
+            channel.applied = null;
+            const [kind, index] = this.parseKey(key);
+            await this.settle(kind, index);
+        }
+    }
+
+    dispose(): void {
+        this.channels.forEach(channel => {
+            channel.claims.forEach(claim => {
+                if (claim.timer) clearTimeout(claim.timer);
+            });
+            channel.claims.clear();
+        });
+    }
+
+    private settle(kind: OutputKind, index: number): Promise<void> {
+        const channel = this.channel(kind, index);
+        const next = channel.pending.then(async () => {
+            const owner = this.owner(kind, index);
+            if (owner.value === channel.applied) return;
+
+            await this.write(kind, index, owner.value);
+            channel.applied = owner.value;
+            this.emit('change', { kind, index, owner });
+        });
+        // A failed write must not wedge later writes to the same output
+        channel.pending = next.catch(() => undefined);
+        return next;
+    }
+
+    private winner(channel: OutputChannel): Claim | undefined {
+        let winner: Claim | undefined;
+        channel.claims.forEach(claim => {
+            if (!winner || this.rank(claim.priority) <= this.rank(winner.priority)) {
+                winner = claim;
+            }
+        });
+        return winner;
+    }
+
+    private rank(priority: OutputPriority): number {
+        return OUTPUT_PRIORITIES.indexOf(priority);
+    }
+
+    private describe(claim: Claim): OutputOwner {
+        const { timer, ...owner } = claim;
+        return owner;
+    }
+
+    private channel(kind: OutputKind, index: number): OutputChannel {
+        const channel = this.channels.get(this.key(kind, index));
+        if (!channel) {
+            throw new KitronikError(`Invalid ${kind} output index: ${index}`, 'VALIDATION_ERROR');
+        }
+        return channel;
+    }
+
+    private key(kind: OutputKind, index: number): string {
+        return `${kind}:${index}`;
+    }
+
+    private parseKey(key: string): [OutputKind, number] {
+        const [kind, index] = key.split(':');
+        return [kind as OutputKind, Number(index)];
+    }
+}
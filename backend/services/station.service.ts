@@ -0,0 +1,272 @@
+import { EventEmitter } from 'events';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { GPIOService } from './gpio.service';
+import { SimulatedBoard } from '../hardware';
+import { WindVaneDriver } from '../drivers/wind-vane.driver';
+import { RealTimeClock } from '../types/hardware';
+import { StationValues } from '../types/sensor';
+import { GPIOPulse } from '../types/gpio';
+import { StationConfig, StationReading, WindVaneConfig, DEFAULT_STATION } from '../types/station';
+import { KitronikError } from '../utils/errorHandling';
+
+const HISTORY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface WindSample {
+    timestamp: number;
+    speed: number;
+    direction: number | null;
+}
+
+/**
+ * Turns the anemometer and rain gauge pulses counted by GPIOService, plus
+ * the analog wind vane, into wind speed, gust, direction and rainfall.
+ * Readings are reported to MonitoringService, which checks them against
+ * the thresholds, adds them to the sensor readings and stores them.
+ */
+export class WeatherStationService extends EventEmitter {
+    private config: StationConfig;
+    private rtc: RealTimeClock;
+    private vane: WindVaneDriver | null = null;
+    private windPulses = 0;
+    private lastSampleAt = Date.now();
+    private samples: WindSample[] = [];
+    private rainTips: number[] = [];
+    private rainfall = 0;
+    private rainfallSince: Date;
+    private history: StationReading[] = [];
+    private sampleTimer: NodeJS.Timeout | null = null;
+    private reportTimer: NodeJS.Timeout | null = null;
+    private onPulse = (pulse: GPIOPulse) => this.handlePulse(pulse);
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        private gpioService: GPIOService,
+        config: Partial<StationConfig> = {}
+    ) {
+        super();
+        this.rtc = kitronikService.getBoard().rtc;
+        this.rainfallSince = this.rtc.getDateTime();
+        this.config = { ...DEFAULT_STATION, ...config };
+        this.kitronikService.setElevation(this.config.elevation);
+
+        // A saved config may predate a GPIO change, so only warn here
+        const problem = this.checkPins(this.config);
+        if (problem) {
+            console.warn(`Weather station on device ${deviceId}: ${problem}`);
+        }
+
+        this.gpioService.on('pulse', this.onPulse);
+        this.start();
+    }
+
+    configure(config: Partial<StationConfig>): StationConfig {
+        const next = { ...DEFAULT_STATION, ...config };
+        const problem = this.checkPins(next);
+        if (problem) {
+            throw new KitronikError(problem, 'VALIDATION_ERROR');
+        }
+
+        this.stop();
+        this.config = next;
+        this.kitronikService.setElevation(next.elevation);
+        this.start();
+        return this.getConfig();
+    }
+
+    getConfig(): StationConfig {
+        return JSON.parse(JSON.stringify(this.config));
+    }
+
+    getReading(): StationReading {
+        const now = Date.now();
+        const { anemometer, rainGauge, windVane, averageMs, gustMs, rainRateMs } = this.config;
+        const values: StationValues = {};
+
+        const recent = this.samples.filter(sample => sample.timestamp >= now - averageMs);
+        if (anemometer) {
+            const gusts = this.samples.filter(sample => sample.timestamp >= now - gustMs);
+            if (recent.length > 0) {
+                values.windSpeed = this.round(recent.reduce((sum, sample) => sum + sample.speed, 0) / recent.length, 1);
+            }
+            if (gusts.length > 0) {
+                values.windGust = this.round(Math.max(...gusts.map(sample => sample.speed)), 1);
+            }
+        }
+
+        if (windVane) {
+            const direction = this.meanDirection(recent);
+            if (direction !== null) {
+                values.windDirection = direction;
+            }
+        }
+
+        if (rainGauge) {
+            this.rainTips = this.rainTips.filter(timestamp => timestamp >= now - rainRateMs);
+            values.rainRate = this.round(this.rainTips.length * rainGauge.mmPerTip * (HOUR_MS / rainRateMs), 2);
+            values.rainfall = this.round(this.rainfall, 2);
+        }
+
+        return {
+            values,
+            rainfallSince: this.rainfallSince.toISOString(),
+            timestamp: new Date(now).toISOString()
+        };
+    }
+
+    // Reported readings from the last day, oldest first
+    getHistory(since: number = Date.now() - HISTORY_MS): StationReading[] {
+        return this.history.filter(reading => new Date(reading.timestamp).getTime() >= since);
+    }
+
+    resetRainfall(): void {
+        this.rainfall = 0;
+        this.rainTips = [];
+        this.rainfallSince = this.rtc.getDateTime();
+    }
+
+    dispose(): void {
+        this.stop();
+        this.gpioService.off('pulse', this.onPulse);
+    }
+
+    private start(): void {
+        const { anemometer, rainGauge, windVane, sampleMs, reportMs } = this.config;
+        if (!anemometer && !rainGauge && !windVane) return;
+
+        this.vane = windVane ? this.openVane(windVane) : null;
+        this.windPulses = 0;
+        this.lastSampleAt = Date.now();
+        this.sampleTimer = setInterval(() => {
+            this.sample().catch(error => console.error('Weather station sample error:', error));
+        }, sampleMs);
+        this.reportTimer = setInterval(() => this.report(), reportMs);
+    }
+
+    private stop(): void {
+        if (this.sampleTimer) {
+            clearInterval(this.sampleTimer);
+            this.sampleTimer = null;
+        }
+        if (this.reportTimer) {
+            clearInterval(this.reportTimer);
+            this.reportTimer = null;
+        }
+        this.samples = [];
+    }
+
+    private openVane(config: WindVaneConfig): WindVaneDriver | null {
+        const board = this.kitronikService.getBoard();
+        if (board instanceof SimulatedBoard) {
+            console.warn(`No wind vane on the simulated board for device ${this.deviceId}`);
+            return null;
+        }
+        try {
+            return new WindVaneDriver(board.openI2C(config.address), config);
+        } catch (error) {
+            console.error(`Failed to open the wind vane on device ${this.deviceId}:`, error);
+            return null;
+        }
+    }
+
+    private handlePulse(pulse: GPIOPulse): void {
+        const { anemometer, rainGauge } = this.config;
+        if (anemometer?.pin === pulse.pin) {
+            this.windPulses++;
+        } else if (rainGauge?.pin === pulse.pin) {
+            this.rainTips.push(pulse.timestamp);
+            this.rainfall += rainGauge.mmPerTip;
+        }
+    }
+
+    private async sample(): Promise<void> {
+        const now = Date.now();
+        const { anemometer, averageMs, gustMs } = this.config;
+        const seconds = (now - this.lastSampleAt) / 1000;
+        const speed = anemometer && seconds > 0 ? (this.windPulses / seconds) * anemometer.kmhPerHz : 0;
+        this.windPulses = 0;
+        this.lastSampleAt = now;
+
+        let direction: number | null = null;
+        if (this.vane) {
+            try {
+                direction = await this.vane.read();
+            } catch (error) {
+                console.error(`Wind vane read failed on device ${this.deviceId}:`, error);
+            }
+        }
+
+        this.samples.push({ timestamp: now, speed, direction });
+        const keepMs = Math.max(averageMs, gustMs);
+        while (this.samples.length > 0 && this.samples[0].timestamp < now - keepMs) {
+            this.samples.shift();
+        }
+
+        this.rollOverRainfall();
+    }
+
+    private report(): void {
+        const reading = this.getReading();
+        this.history.push(reading);
+        const cutoff = Date.now() - HISTORY_MS;
+        while (this.history.length > 0 && new Date(this.history[0].timestamp).getTime() < cutoff) {
+            this.history.shift();
+        }
+
+        this.emit('reading', reading);
+        this.monitoringService.processStation(reading)
+            .catch(error => console.error('Weather station report error:', error));
+    }
+
+    // Daily rainfall restarts at device-local midnight
+    private rollOverRainfall(): void {
+        const now = this.rtc.getDateTime();
+        if (now.toDateString() !== this.rainfallSince.toDateString()) {
+            this.rainfall = 0;
+            this.rainfallSince = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        }
+    }
+
+    // Vector mean, weighted by speed when there was wind, so 350° and 10° average to 0°
+    private meanDirection(samples: WindSample[]): number | null {
+        const weighted = samples.some(sample => sample.direction !== null && sample.speed > 0);
+        let x = 0;
+        let y = 0;
+        samples.forEach(sample => {
+            if (sample.direction === null) return;
+            const weight = weighted ? sample.speed : 1;
+            const radians = (sample.direction * Math.PI) / 180;
+            x += weight * Math.sin(radians);
+            y += weight * Math.cos(radians);
+        });
+
+        if (x === 0 && y === 0) return null;
+        return Math.round(((Math.atan2(x, y) * 180) / Math.PI + 360) % 360);
+    }
+
+    private checkPins(config: StationConfig): string | null {
+        const pulsePins = this.gpioService.getConfig().pins
+            .filter(pin => pin.role === 'pulse')
+            .map(pin => pin.pin);
+        const { anemometer, rainGauge } = config;
+
+        if (anemometer && !pulsePins.includes(anemometer.pin)) {
+            return `Anemometer pin ${anemometer.pin} is not a GPIO pulse counter`;
+        }
+        if (rainGauge && !pulsePins.includes(rainGauge.pin)) {
+            return `Rain gauge pin ${rainGauge.pin} is not a GPIO pulse counter`;
+        }
+        if (anemometer && rainGauge && anemometer.pin === rainGauge.pin) {
+            return 'The anemometer and rain gauge need separate pins';
+        }
+        return null;
+    }
+
+    private round(value: number, digits: number): number {
+        const factor = 10 ** digits;
+        return Math.round(value * factor) / factor;
+    }
+}
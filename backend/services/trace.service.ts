@@ -0,0 +1,355 @@
+import fs from 'fs';
+import path from 'path';
+import { KitronikService } from './kitronik.service';
+import { MonitoringService } from './monitoring.service';
+import { GPIOService } from './gpio.service';
+import { KitronikError } from '../utils/errorHandling';
+import { SensorReading, WeatherAlert } from '../types/sensor';
+import {
+    TRACE_FORMAT_VERSION,
+    Trace,
+    TraceEvent,
+    TraceHeader,
+    TraceSummary,
+    TraceStatus,
+    ReplayOptions,
+    ReplayResult
+} from '../types/trace';
+import { MEASUREMENT_INFO } from '../types/driver';
+import { serverConfig } from '../config/server.config';
+
+const TRACE_NAME = /^[\w-]{1,64}$/;
+
+// Replayed events go straight into monitoring and the GPIO service, so each one is checked first
+function isTraceEvent(record: unknown): record is TraceEvent {
+    if (typeof record !== 'object' || record === null) return false;
+    const event = record as Record<string, unknown>;
+    if (typeof event.offset !== 'number' || !Number.isFinite(event.offset) || event.offset < 0) return false;
+
+    if (event.type === 'reading') {
+        const data = event.data;
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) return false;
+        const values = data as Record<string, unknown>;
+        return typeof values.timestamp === 'string' &&
+            Object.entries(values).every(([field, value]) =>
+                !(field in MEASUREMENT_INFO) || (typeof value === 'number' && Number.isFinite(value)));
+    }
+    if (event.type === 'gpio') {
+        return Number.isInteger(event.pin) && typeof event.value === 'boolean';
+    }
+    return false;
+}
+
+interface ActiveRecording {
+    name: string;
+    stream: fs.WriteStream;
+    startedAt: number;
+    readings: number;
+    gpioEvents: number;
+    onReading: (data: SensorReading, meta?: { replayed?: boolean }) => void;
+    onLevel: (change: { pin: number; value: boolean; replayed: boolean }) => void;
+}
+
+interface ActiveReplay {
+    name: string;
+    cancelled: boolean;
+    timer: NodeJS.Timeout | null;
+    wake: (() => void) | null;
+}
+
+/**
+ * Records a device's live readings and GPIO input levels to JSON Lines files and
+ * replays them through MonitoringService, so field incidents and dashboard
+ * demos can be reproduced without the hardware attached.
+ */
+export class TraceService {
+    private recording: ActiveRecording | null = null;
+    private replay: ActiveReplay | null = null;
+    private directory: string;
+
+    constructor(
+        private deviceId: string,
+        private kitronikService: KitronikService,
+        private monitoringService: MonitoringService,
+        private gpioService: GPIOService,
+        baseDirectory: string = serverConfig.traces.directory
+    ) {
+        this.directory = path.join(baseDirectory, deviceId);
+    }
+
+    async startRecording(name?: string): Promise<string> {
+        if (this.recording) {
+            throw new KitronikError(`Already recording trace ${this.recording.name}`, 'VALIDATION_ERROR');
+        }
+
+        const traceName = name ?? `trace-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+        const file = this.traceFile(traceName);
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const stream = fs.createWriteStream(file, { flags: 'wx' });
+        await new Promise<void>((resolve, reject) => {
+            stream.once('open', () => resolve());
+            stream.once('error', error => reject(
+                new KitronikError(`Cannot create trace ${traceName}`, 'VALIDATION_ERROR', error)
+            ));
+        });
+
+        const startedAt = Date.now();
+        const header: TraceHeader = {
+            type: 'header',
+            version: TRACE_FORMAT_VERSION,
+            deviceId: this.deviceId,
+            sensorModel: this.kitronikService.getCapabilities().sensorModel,
+            startedAt: new Date(startedAt).toISOString()
+        };
+        stream.write(JSON.stringify(header) + '\n');
+
+        const recording: ActiveRecording = {
+            name: traceName,
+            stream,
+            startedAt,
+            readings: 0,
+            gpioEvents: 0,
+            onReading: (data, meta) => {
+                // Replayed readings are copies of an existing trace
+                if (meta?.replayed) return;
+                recording.readings++;
+                this.writeEvent({ type: 'reading', offset: Date.now() - startedAt, data });
+            },
+            onLevel: ({ pin, value, replayed }) => {
+                if (replayed) return;
+                recording.gpioEvents++;
+                this.writeEvent({ type: 'gpio', offset: Date.now() - startedAt, pin, value });
+            }
+        };
+        this.recording = recording;
+
+        // Initial pin levels so replays start from the same input state
+        Object.entries(this.gpioService.getLevels()).forEach(([pin, value]) => {
+            recording.gpioEvents++;
+            this.writeEvent({ type: 'gpio', offset: 0, pin: Number(pin), value });
+        });
+
+        this.monitoringService.on('reading', recording.onReading);
+        this.gpioService.on('level', recording.onLevel);
+        return traceName;
+    }
+
+    async stopRecording(): Promise<TraceSummary> {
+        const recording = this.recording;
+        if (!recording) {
+            throw new KitronikError('No trace is being recorded', 'VALIDATION_ERROR');
+        }
+
+        this.recording = null;
+        this.monitoringService.off('reading', recording.onReading);
+        this.gpioService.off('level', recording.onLevel);
+        await new Promise<void>(resolve => recording.stream.end(() => resolve()));
+
+        return {
+            name: recording.name,
+            deviceId: this.deviceId,
+            startedAt: new Date(recording.startedAt).toISOString(),
+            readings: recording.readings,
+            gpioEvents: recording.gpioEvents,
+            durationMs: Date.now() - recording.startedAt
+        };
+    }
+
+    async listTraces(): Promise<TraceSummary[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const names = files
+            .filter(file => file.endsWith('.jsonl'))
+            .map(file => file.slice(0, -'.jsonl'.length))
+            .filter(name => name !== this.recording?.name);
+
+        // One unreadable trace shouldn't hide the others
+        const traces = await Promise.all(names.map(name => this.loadTrace(name).catch(error => {
+            console.warn(`Skipping trace ${name}:`, error instanceof Error ? error.message : error);
+            return null;
+        })));
+        return traces
+            .filter((trace): trace is Trace => trace !== null)
+            .map(trace => this.summarize(trace));
+    }
+
+    async loadTrace(name: string): Promise<Trace> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.traceFile(name), 'utf8');
+        } catch (error) {
+            throw new KitronikError(`Trace ${name} not found`, 'VALIDATION_ERROR', error);
+        }
+
+        // Errors reach API clients, so they name the trace rather than its path on the server
+        const lines = content.split('\n');
+        const records: { record: unknown; line: number }[] = [];
+        for (const [index, line] of lines.entries()) {
+            if (line.trim().length === 0) continue;
+            try {
+                records.push({ record: JSON.parse(line), line: index + 1 });
+            } catch (error) {
+                // A recording cut short leaves a partial last line; the rest of the trace still replays
+                if (index === lines.length - 1) break;
+                throw new KitronikError(`Trace ${name} has a malformed line ${index + 1}`, 'VALIDATION_ERROR', error);
+            }
+        }
+
+        const [first, ...rest] = records;
+        const header = first?.record as TraceHeader | undefined;
+        if (header?.type !== 'header' || header.version !== TRACE_FORMAT_VERSION) {
+            throw new KitronikError(`Trace ${name} has an unsupported format`, 'VALIDATION_ERROR');
+        }
+
+        const events = rest.map(({ record, line }) => {
+            if (!isTraceEvent(record)) {
+                throw new KitronikError(`Trace ${name} has an invalid event on line ${line}`, 'VALIDATION_ERROR');
+            }
+            return record;
+        });
+
+        return { name, header, events };
+    }
+
+    async deleteTrace(name: string): Promise<void> {
+        if (name === this.recording?.name) {
+            throw new KitronikError('Stop recording before deleting the trace', 'VALIDATION_ERROR');
+        }
+        await fs.promises.unlink(this.traceFile(name));
+    }
+
+    /**
+     * Feeds the trace back through MonitoringService. Resolves once every
+     * event has been replayed or stopReplay() is called.
+     */
+    async replayTrace(name: string, options: ReplayOptions = {}): Promise<ReplayResult> {
+        const { done } = await this.startReplay(name, options);
+        return done;
+    }
+
+    // Validates and loads the trace, then replays it in the background
+    async startReplay(name: string, options: ReplayOptions = {}): Promise<{ done: Promise<ReplayResult> }> {
+        if (this.replay) {
+            throw new KitronikError(`Already replaying trace ${this.replay.name}`, 'VALIDATION_ERROR');
+        }
+        const speed = options.speed ?? 1;
+        if (!(speed >= 0)) {
+            throw new KitronikError('Replay speed must be zero or positive', 'VALIDATION_ERROR');
+        }
+
+        const replay: ActiveReplay = { name, cancelled: false, timer: null, wake: null };
+        this.replay = replay;
+
+        let trace: Trace;
+        try {
+            trace = await this.loadTrace(name);
+            this.monitoringService.setReplaying(true);
+        } catch (error) {
+            this.replay = null;
+            throw error;
+        }
+
+        return { done: this.runReplay(trace, replay, speed) };
+    }
+
+    stopReplay(): void {
+        if (!this.replay) {
+            throw new KitronikError('No trace is replaying', 'VALIDATION_ERROR');
+        }
+
+        this.replay.cancelled = true;
+        if (this.replay.timer) {
+            clearTimeout(this.replay.timer);
+        }
+        this.replay.wake?.();
+    }
+
+    getStatus(): TraceStatus {
+        return {
+            recording: this.recording?.name ?? null,
+            replaying: this.replay?.name ?? null
+        };
+    }
+
+    async dispose(): Promise<void> {
+        if (this.replay) {
+            this.stopReplay();
+        }
+        if (this.recording) {
+            await this.stopRecording();
+        }
+    }
+
+    private async runReplay(trace: Trace, replay: ActiveReplay, speed: number): Promise<ReplayResult> {
+        const alerts: WeatherAlert[][] = [];
+        let readings = 0;
+        let gpioEvents = 0;
+        let previousOffset = 0;
+
+        try {
+            for (const event of trace.events) {
+                if (speed > 0) {
+                    await this.wait(replay, (event.offset - previousOffset) / speed);
+                }
+                if (replay.cancelled) break;
+                previousOffset = event.offset;
+
+                if (event.type === 'reading') {
+                    alerts.push(await this.monitoringService.processReading(event.data, true));
+                    readings++;
+                } else {
+                    // Drives the simulated board's pin too; on real hardware the event is only reported
+                    await this.gpioService.inject(event.pin, event.value);
+                    gpioEvents++;
+                }
+            }
+        } finally {
+            this.replay = null;
+            this.monitoringService.setReplaying(false);
+        }
+
+        return { name: trace.name, readings, gpioEvents, alerts, completed: !replay.cancelled };
+    }
+
+    private writeEvent(event: TraceEvent): void {
+        this.recording?.stream.write(JSON.stringify(event) + '\n');
+    }
+
+    private wait(replay: ActiveReplay, ms: number): Promise<void> {
+        if (ms <= 0) return Promise.resolve();
+        return new Promise(resolve => {
+            replay.wake = resolve;
+            replay.timer = setTimeout(() => {
+                replay.timer = null;
+                replay.wake = null;
+                resolve();
+            }, ms);
+        });
+    }
+
+    private summarize(trace: Trace): TraceSummary {
+        const last = trace.events[trace.events.length - 1];
+        return {
+            name: trace.name,
+            deviceId: trace.header.deviceId,
+            startedAt: trace.header.startedAt,
+            readings: trace.events.filter(event => event.type === 'reading').length,
+            gpioEvents: trace.events.filter(event => event.type === 'gpio').length,
+            durationMs: last?.offset ?? 0
+        };
+    }
+
+    private traceFile(name: string): string {
+        if (!TRACE_NAME.test(name)) {
+            throw new KitronikError('Trace names may only contain letters, digits, - and _', 'VALIDATION_ERROR');
+        }
+        return path.join(this.directory, `${name}.jsonl`);
+    }
+}
@@ -1,5 +1,42 @@
 import { KitronikError } from '../utils/errorHandling';
 import { SensorData, MonitoringThresholds, OutputStatus } from '../types/sensor';
+import { SENSOR_MODELS, MEASUREMENT_INFO, Measurement, MeasurementValues, SensorCapabilities } from '../types/driver';
+import { INTERRUPT_PRIORITY } from '../types/display';
+import { SOUND_LEVELS } from '../types/sound';
+import { PIN_ROLES } from '../types/gpio';
+import {
+  HEATER_MIN_TEMP,
+  HEATER_MAX_TEMP,
+  HEATER_MAX_DURATION_MS,
+  HEATER_MAX_STEPS
+} from '../types/heater';
+import { OLED_TEXT_LINES, ZIP_LED_COUNT } from '../types/hardware';
+import { CORRECTION_KINDS } from '../types/correction';
+import { HEMISPHERES } from '../types/forecast';
+import { CHANNEL_TYPES, NOTIFIED_ACTIONS } from '../types/notification';
+import { validateRule } from '../../shared/alert-rules';
+import { ALERT_LEVELS } from '../../shared/thresholds';
+import { checkPublicUrl } from '../utils/network';
+
+const ANIMATION_TYPES = ['solid', 'blink', 'pulse', 'chase', 'gradient', 'sequence', 'group'];
+const WIDGET_TYPES = ['text', 'value', 'bigNumber', 'sparkline', 'trend', 'alertBanner', 'clock'];
+const MEASURED_WIDGETS = ['bigNumber', 'sparkline', 'trend'];
+const PIN_ACTIONS = ['ventilate', 'calibrate'];
+// Pin 1 drives the status LED, so only these can be inputs
+const INPUT_PINS = [0, 2, 3];
+// Every rule runs on every reading
+const MAX_ALERT_RULES = 32;
+const MAX_CHANNELS = 20;
+// Plausible values for what the sensor drivers measure; anything outside means a faulty reading
+const MEASUREMENT_RANGES: Partial<Record<Measurement, [number, number]>> = {
+  temperature: [-50, 100],
+  humidity: [0, 100],
+  pressure: [800, 1200],
+  gasResistance: [0, Infinity],
+  airQualityIndex: [0, 100],
+  co2Equivalent: [0, Infinity],
+  co2: [0, 40000]
+};
 
 export class ValidationService {
   static validateSensorData(data: Partial<SensorData>): void {
@@ -32,6 +69,32 @@ export class ValidationService {
     }
   }
 
+  // Checks a driver reading against what the loaded sensor measures, so each model is held
+  // to its own measurements rather than the BME688's
+  static validateMeasurements(values: MeasurementValues, capabilities: SensorCapabilities): void {
+    const measured = capabilities.measurements.map(measurement => measurement.name);
+    for (const { name, estimated } of capabilities.measurements) {
+      const value = values[name];
+      // Estimates such as the BME688's IAQ can be missing while the sensor settles
+      if (value === undefined && estimated) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new KitronikError(`${capabilities.sensorModel} reading is missing ${name}`, 'SENSOR_ERROR');
+      }
+      const range = MEASUREMENT_RANGES[name];
+      if (range && (value < range[0] || value > range[1])) {
+        throw new KitronikError(`Invalid ${name} value from ${capabilities.sensorModel}: ${value}`, 'SENSOR_ERROR');
+      }
+    }
+
+    const unexpected = Object.keys(values).filter(name => !measured.includes(name as Measurement));
+    if (unexpected.length > 0) {
+      throw new KitronikError(
+        `${capabilities.sensorModel} does not measure ${unexpected.join(', ')}`,
+        'SENSOR_ERROR'
+      );
+    }
+  }
+
   static validateThresholds(thresholds: MonitoringThresholds): void {
     // Temperature thresholds
     if (!thresholds.temperature ||
@@ -62,6 +125,66 @@ export class ValidationService {
         thresholds.airQuality.poor > 100) {
       throw new KitronikError('Invalid air quality thresholds', 'VALIDATION_ERROR');
     }
+
+    // Pressure thresholds are optional, in hPa
+    if (thresholds.pressure !== undefined &&
+        (typeof thresholds.pressure.min !== 'number' ||
+         typeof thresholds.pressure.max !== 'number' ||
+         thresholds.pressure.min >= thresholds.pressure.max ||
+         thresholds.pressure.min < 800 ||
+         thresholds.pressure.max > 1200)) {
+      throw new KitronikError('Invalid pressure thresholds', 'VALIDATION_ERROR');
+    }
+
+    // Wind and rain thresholds are optional, for devices with a weather station
+    if (thresholds.wind !== undefined &&
+        (typeof thresholds.wind.warning !== 'number' ||
+         typeof thresholds.wind.danger !== 'number' ||
+         thresholds.wind.warning <= 0 ||
+         thresholds.wind.warning >= thresholds.wind.danger)) {
+      throw new KitronikError('Invalid wind thresholds', 'VALIDATION_ERROR');
+    }
+
+    if (thresholds.rain !== undefined &&
+        (typeof thresholds.rain.heavy !== 'number' || thresholds.rain.heavy <= 0)) {
+      throw new KitronikError('Invalid rain thresholds', 'VALIDATION_ERROR');
+    }
+
+    // Heat index and dew point thresholds are optional, in °C
+    if (thresholds.heatIndex !== undefined &&
+        (typeof thresholds.heatIndex.warning !== 'number' ||
+         typeof thresholds.heatIndex.danger !== 'number' ||
+         thresholds.heatIndex.warning >= thresholds.heatIndex.danger ||
+         thresholds.heatIndex.danger > 80)) {
+      throw new KitronikError('Invalid heat index thresholds', 'VALIDATION_ERROR');
+    }
+
+    if (thresholds.dewPoint !== undefined &&
+        (typeof thresholds.dewPoint.max !== 'number' ||
+         thresholds.dewPoint.max < -50 ||
+         thresholds.dewPoint.max > 40)) {
+      throw new KitronikError('Invalid dew point thresholds', 'VALIDATION_ERROR');
+    }
+
+    // Rate of change thresholds; windows from ten minutes to a day
+    const isWindow = (value: any) => typeof value === 'number' && value >= 10 * 60 * 1000 && value <= 24 * 60 * 60 * 1000;
+    if (thresholds.storm !== undefined &&
+        (typeof thresholds.storm.fall !== 'number' ||
+         typeof thresholds.storm.severeFall !== 'number' ||
+         thresholds.storm.fall <= 0 ||
+         thresholds.storm.fall >= thresholds.storm.severeFall ||
+         !isWindow(thresholds.storm.windowMs))) {
+      throw new KitronikError('Invalid storm thresholds', 'VALIDATION_ERROR');
+    }
+
+    if (thresholds.frost !== undefined &&
+        (typeof thresholds.frost.fall !== 'number' ||
+         typeof thresholds.frost.below !== 'number' ||
+         thresholds.frost.fall <= 0 ||
+         thresholds.frost.below > 15 ||
+         !isWindow(thresholds.frost.windowMs))) {
+      throw new KitronikError('Invalid frost thresholds', 'VALIDATION_ERROR');
+    }
   }
 
   static validateOutputStatus(status: Partial<OutputStatus>): void {
@@ -108,6 +231,640 @@ export class ValidationService {
     if (!['active', 'inactive', 'disabled'].includes(config.status)) {
       throw new KitronikError('Invalid device status', 'VALIDATION_ERROR');
     }
+
+    if (config.sensorModel !== undefined && !SENSOR_MODELS.includes(config.sensorModel)) {
+      throw new KitronikError('Invalid sensor model', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateInterlockConfig(config: any): void {
+    const isDuration = (value: any) => value === undefined || (typeof value === 'number' && value >= 0);
+
+    Object.entries(config.power ?? {}).forEach(([index, limits]: [string, any]) => {
+      if (!/^[0-3]$/.test(index)) {
+        throw new KitronikError(`Invalid high power output index: ${index}`, 'VALIDATION_ERROR');
+      }
+      if (!isDuration(limits.maxOnMs) || !isDuration(limits.minOffMs) || !isDuration(limits.dutyWindowMs)) {
+        throw new KitronikError(`Invalid interlock timing for output ${index}`, 'VALIDATION_ERROR');
+      }
+      if (limits.maxDutyCycle !== undefined) {
+        if (typeof limits.maxDutyCycle !== 'number' || limits.maxDutyCycle <= 0 || limits.maxDutyCycle > 1) {
+          throw new KitronikError(`Duty cycle for output ${index} must be between 0 and 1`, 'VALIDATION_ERROR');
+        }
+        if (!limits.dutyWindowMs) {
+          throw new KitronikError(`Duty cycle for output ${index} needs a dutyWindowMs`, 'VALIDATION_ERROR');
+        }
+      }
+    });
+
+    Object.entries(config.servos ?? {}).forEach(([index, limits]: [string, any]) => {
+      if (!/^[01]$/.test(index)) {
+        throw new KitronikError(`Invalid servo index: ${index}`, 'VALIDATION_ERROR');
+      }
+      if (limits.maxSlewDegPerSec !== undefined &&
+          (typeof limits.maxSlewDegPerSec !== 'number' || limits.maxSlewDegPerSec <= 0)) {
+        throw new KitronikError(`Invalid slew limit for servo ${index}`, 'VALIDATION_ERROR');
+      }
+      if (limits.safeAngle !== undefined &&
+          (typeof limits.safeAngle !== 'number' || limits.safeAngle < 0 || limits.safeAngle > 180)) {
+        throw new KitronikError(`Invalid safe angle for servo ${index}`, 'VALIDATION_ERROR');
+      }
+    });
+
+    (config.exclusivePairs ?? []).forEach((pair: any) => {
+      if (!Array.isArray(pair) || pair.length !== 2 || pair[0] === pair[1] ||
+          !pair.every((index: any) => Number.isInteger(index) && index >= 0 && index < 4)) {
+        throw new KitronikError('Exclusive pairs must name two different high power outputs', 'VALIDATION_ERROR');
+      }
+    });
+
+    if (!isDuration(config.sensorTimeoutMs)) {
+      throw new KitronikError('Invalid sensor timeout', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateDisplayConfig(config: any): void {
+    const isPositive = (value: any) => value === undefined || (typeof value === 'number' && value > 0);
+
+    if (config.pages !== undefined) {
+      if (!Array.isArray(config.pages) || config.pages.length === 0) {
+        throw new KitronikError('Display needs at least one page', 'VALIDATION_ERROR');
+      }
+
+      const names = new Set<string>();
+      config.pages.forEach((page: any) => {
+        if (!page.name || typeof page.name !== 'string' || names.has(page.name)) {
+          throw new KitronikError('Display pages need unique names', 'VALIDATION_ERROR');
+        }
+        names.add(page.name);
+
+        if (!isPositive(page.durationMs)) {
+          throw new KitronikError(`Invalid duration for page ${page.name}`, 'VALIDATION_ERROR');
+        }
+        if (!Array.isArray(page.widgets)) {
+          throw new KitronikError(`Page ${page.name} has no widget list`, 'VALIDATION_ERROR');
+        }
+        page.widgets.forEach((widget: any) => this.validateWidget(page.name, widget));
+      });
+    }
+
+    if (config.rotate !== undefined && typeof config.rotate !== 'boolean') {
+      throw new KitronikError('rotate must be a boolean', 'VALIDATION_ERROR');
+    }
+
+    if (!isPositive(config.rotationMs) || !isPositive(config.alertDurationMs) || !isPositive(config.trendWindowMs)) {
+      throw new KitronikError('Invalid display timing', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateDisplayInterrupt(interrupt: any): void {
+    if (!Object.keys(INTERRUPT_PRIORITY).includes(interrupt.level)) {
+      throw new KitronikError('Invalid interrupt level', 'VALIDATION_ERROR');
+    }
+
+    if (!interrupt.message || typeof interrupt.message !== 'string') {
+      throw new KitronikError('Invalid interrupt message', 'VALIDATION_ERROR');
+    }
+
+    if (interrupt.title !== undefined && typeof interrupt.title !== 'string') {
+      throw new KitronikError('Invalid interrupt title', 'VALIDATION_ERROR');
+    }
+
+    if (interrupt.durationMs !== undefined &&
+        (typeof interrupt.durationMs !== 'number' || interrupt.durationMs < 0)) {
+      throw new KitronikError('Invalid interrupt duration', 'VALIDATION_ERROR');
+    }
+  }
+
+  private static validateWidget(page: string, widget: any): void {
+    if (!WIDGET_TYPES.includes(widget.type)) {
+      throw new KitronikError(`Invalid widget type on page ${page}: ${widget.type}`, 'VALIDATION_ERROR');
+    }
+
+    const lines = widget.lines ?? 1;
+    if (!Number.isInteger(widget.line) || !Number.isInteger(lines) ||
+        widget.line < 0 || lines < 1 || widget.line + lines > OLED_TEXT_LINES) {
+      throw new KitronikError(`Widget on page ${page} does not fit the display`, 'VALIDATION_ERROR');
+    }
+
+    if (widget.measurement !== undefined && !(widget.measurement in MEASUREMENT_INFO)) {
+      throw new KitronikError(`Unknown measurement on page ${page}: ${widget.measurement}`, 'VALIDATION_ERROR');
+    }
+
+    if (MEASURED_WIDGETS.includes(widget.type) && !widget.measurement) {
+      throw new KitronikError(`${widget.type} widget on page ${page} needs a measurement`, 'VALIDATION_ERROR');
+    }
+
+    if (widget.threshold !== undefined && (typeof widget.threshold !== 'number' || widget.threshold <= 0)) {
+      throw new KitronikError(`Invalid trend threshold on page ${page}`, 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateLEDAnimation(animation: any): void {
+    if (!animation || !ANIMATION_TYPES.includes(animation.type)) {
+      throw new KitronikError(`Invalid LED animation type: ${animation?.type}`, 'VALIDATION_ERROR');
+    }
+
+    if (animation.pixels !== undefined &&
+        (!Array.isArray(animation.pixels) ||
+         !animation.pixels.every((pixel: any) => Number.isInteger(pixel) && pixel >= 0 && pixel < ZIP_LED_COUNT))) {
+      throw new KitronikError('Invalid LED pixel list', 'VALIDATION_ERROR');
+    }
+
+    if (animation.durationMs !== undefined && (typeof animation.durationMs !== 'number' || animation.durationMs <= 0)) {
+      throw new KitronikError('Invalid animation duration', 'VALIDATION_ERROR');
+    }
+
+    const isPeriod = (value: any) => typeof value === 'number' && value > 0;
+
+    switch (animation.type) {
+      case 'solid':
+        this.validateLEDColor(animation.color);
+        break;
+      case 'blink':
+      case 'pulse':
+        this.validateLEDColor(animation.color);
+        if (animation.offColor !== undefined) this.validateLEDColor(animation.offColor);
+        if (!isPeriod(animation.periodMs)) {
+          throw new KitronikError(`${animation.type} needs a periodMs`, 'VALIDATION_ERROR');
+        }
+        break;
+      case 'chase':
+        this.validateLEDColor(animation.color);
+        if (animation.background !== undefined) this.validateLEDColor(animation.background);
+        if (!isPeriod(animation.stepMs)) {
+          throw new KitronikError('chase needs a stepMs', 'VALIDATION_ERROR');
+        }
+        if (animation.length !== undefined && (!Number.isInteger(animation.length) || animation.length < 1)) {
+          throw new KitronikError('Invalid chase length', 'VALIDATION_ERROR');
+        }
+        break;
+      case 'gradient':
+        if (!Array.isArray(animation.stops) || animation.stops.length === 0) {
+          throw new KitronikError('gradient needs at least one colour stop', 'VALIDATION_ERROR');
+        }
+        animation.stops.forEach((stop: any) => this.validateLEDColor(stop));
+        if (typeof animation.min !== 'number' || typeof animation.max !== 'number' || animation.min >= animation.max) {
+          throw new KitronikError('gradient needs a min below its max', 'VALIDATION_ERROR');
+        }
+        if (animation.value === undefined && !(animation.measurement in MEASUREMENT_INFO)) {
+          throw new KitronikError('gradient needs a value or a measurement', 'VALIDATION_ERROR');
+        }
+        if (animation.mode !== undefined && !['fill', 'bar'].includes(animation.mode)) {
+          throw new KitronikError('Invalid gradient mode', 'VALIDATION_ERROR');
+        }
+        break;
+      case 'sequence':
+        if (!Array.isArray(animation.steps) || animation.steps.length === 0) {
+          throw new KitronikError('sequence needs at least one step', 'VALIDATION_ERROR');
+        }
+        animation.steps.forEach((step: any) => {
+          this.validateLEDAnimation(step);
+          if (!step.durationMs) {
+            throw new KitronikError('Every sequence step needs a durationMs', 'VALIDATION_ERROR');
+          }
+        });
+        break;
+      case 'group':
+        if (!Array.isArray(animation.layers) || animation.layers.length === 0) {
+          throw new KitronikError('group needs at least one layer', 'VALIDATION_ERROR');
+        }
+        animation.layers.forEach((layer: any) => this.validateLEDAnimation(layer));
+        break;
+    }
+  }
+
+  private static validateLEDColor(color: any): void {
+    if (!color || ![color.r, color.g, color.b].every(
+      (value: any) => Number.isInteger(value) && value >= 0 && value <= 255
+    )) {
+      throw new KitronikError(`Invalid LED colour: ${JSON.stringify(color)}`, 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateSoundConfig(config: any): void {
+    Object.entries(config.profiles ?? {}).forEach(([level, profile]) => {
+      this.validateSoundLevel(level);
+      this.validateSoundProfile(profile);
+    });
+
+    if (config.quietHours !== undefined) {
+      const { enabled, start, end, allowLevels } = config.quietHours;
+      const isTime = (value: any) => value === undefined ||
+        (typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value));
+
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        throw new KitronikError('quietHours.enabled must be a boolean', 'VALIDATION_ERROR');
+      }
+      if (!isTime(start) || !isTime(end)) {
+        throw new KitronikError('Quiet hours must be given as HH:MM', 'VALIDATION_ERROR');
+      }
+      if (allowLevels !== undefined) {
+        if (!Array.isArray(allowLevels)) {
+          throw new KitronikError('quietHours.allowLevels must be a list', 'VALIDATION_ERROR');
+        }
+        allowLevels.forEach((level: any) => this.validateSoundLevel(level));
+      }
+    }
+
+    if (config.muted !== undefined && typeof config.muted !== 'boolean') {
+      throw new KitronikError('muted must be a boolean', 'VALIDATION_ERROR');
+    }
+
+    if (config.mutedUntil !== undefined && config.mutedUntil !== null &&
+        (typeof config.mutedUntil !== 'string' || isNaN(Date.parse(config.mutedUntil)))) {
+      throw new KitronikError('mutedUntil must be an ISO date', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateSoundLevel(level: any): void {
+    if (!SOUND_LEVELS.includes(level)) {
+      throw new KitronikError(`Invalid sound level: ${level}`, 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateSoundProfile(profile: any): void {
+    if (!profile || !Array.isArray(profile.notes)) {
+      throw new KitronikError('Sound profile needs a list of notes', 'VALIDATION_ERROR');
+    }
+
+    profile.notes.forEach((note: any) => {
+      if (typeof note.frequency !== 'number' || note.frequency < 0 || note.frequency > 20000) {
+        throw new KitronikError(`Invalid note frequency: ${note.frequency}`, 'VALIDATION_ERROR');
+      }
+      if (typeof note.durationMs !== 'number' || note.durationMs <= 0 || note.durationMs > 10000) {
+        throw new KitronikError(`Invalid note duration: ${note.durationMs}`, 'VALIDATION_ERROR');
+      }
+    });
+
+    if (!Number.isInteger(profile.repeat) || profile.repeat < 1 || profile.repeat > 20) {
+      throw new KitronikError('Sound repeat must be between 1 and 20', 'VALIDATION_ERROR');
+    }
+
+    if (typeof profile.gapMs !== 'number' || profile.gapMs < 0) {
+      throw new KitronikError('Invalid gap between repeats', 'VALIDATION_ERROR');
+    }
+
+    if (profile.escalation !== undefined) {
+      const { afterMs, maxTimes, level } = profile.escalation;
+      if (typeof afterMs !== 'number' || afterMs < 1000) {
+        throw new KitronikError('Escalation needs an afterMs of at least a second', 'VALIDATION_ERROR');
+      }
+      if (!Number.isInteger(maxTimes) || maxTimes < 1) {
+        throw new KitronikError('Escalation needs a positive maxTimes', 'VALIDATION_ERROR');
+      }
+      if (level !== undefined) {
+        this.validateSoundLevel(level);
+      }
+    }
+  }
+
+  static validateGPIOConfig(config: any): void {
+    if (config.pins !== undefined) {
+      if (!Array.isArray(config.pins)) {
+        throw new KitronikError('pins must be a list', 'VALIDATION_ERROR');
+      }
+
+      const seen = new Set<number>();
+      config.pins.forEach((pin: any) => {
+        if (!INPUT_PINS.includes(pin.pin)) {
+          throw new KitronikError(`Pin ${pin.pin} cannot be used as an input`, 'VALIDATION_ERROR');
+        }
+        if (seen.has(pin.pin)) {
+          throw new KitronikError(`Pin ${pin.pin} is configured twice`, 'VALIDATION_ERROR');
+        }
+        seen.add(pin.pin);
+
+        if (!PIN_ROLES.includes(pin.role)) {
+          throw new KitronikError(`Invalid pin role: ${pin.role}`, 'VALIDATION_ERROR');
+        }
+        if (!pin.name || typeof pin.name !== 'string') {
+          throw new KitronikError('Each pin needs a name', 'VALIDATION_ERROR');
+        }
+        if (pin.activeLow !== undefined && typeof pin.activeLow !== 'boolean') {
+          throw new KitronikError('activeLow must be a boolean', 'VALIDATION_ERROR');
+        }
+        if (pin.debounceMs !== undefined &&
+            (typeof pin.debounceMs !== 'number' || pin.debounceMs < 0 || pin.debounceMs > 5000)) {
+          throw new KitronikError('debounceMs must be between 0 and 5000', 'VALIDATION_ERROR');
+        }
+        if (pin.action !== undefined && !PIN_ACTIONS.includes(pin.action)) {
+          throw new KitronikError(`Invalid pin action: ${pin.action}`, 'VALIDATION_ERROR');
+        }
+        if (pin.reportMs !== undefined && (typeof pin.reportMs !== 'number' || pin.reportMs < 1000)) {
+          throw new KitronikError('reportMs must be at least a second', 'VALIDATION_ERROR');
+        }
+      });
+    }
+
+    if (config.pollMs !== undefined &&
+        (typeof config.pollMs !== 'number' || config.pollMs < 1 || config.pollMs > 1000)) {
+      throw new KitronikError('pollMs must be between 1 and 1000', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateStationConfig(config: any): void {
+    const isPositive = (value: any) => typeof value === 'number' && value > 0;
+
+    if (config.anemometer !== undefined && config.anemometer !== null) {
+      if (!INPUT_PINS.includes(config.anemometer.pin) || !isPositive(config.anemometer.kmhPerHz)) {
+        throw new KitronikError('Anemometer needs an input pin and a positive kmhPerHz', 'VALIDATION_ERROR');
+      }
+    }
+
+    if (config.rainGauge !== undefined && config.rainGauge !== null) {
+      if (!INPUT_PINS.includes(config.rainGauge.pin) || !isPositive(config.rainGauge.mmPerTip)) {
+        throw new KitronikError('Rain gauge needs an input pin and a positive mmPerTip', 'VALIDATION_ERROR');
+      }
+    }
+
+    if (config.windVane !== undefined && config.windVane !== null) {
+      const { address, channel, supplyVolts, pullupOhms } = config.windVane;
+      if (!Number.isInteger(address) || address < 0x48 || address > 0x4b) {
+        throw new KitronikError('Wind vane ADC address must be 0x48-0x4B', 'VALIDATION_ERROR');
+      }
+      if (!Number.isInteger(channel) || channel < 0 || channel > 3) {
+        throw new KitronikError('Wind vane channel must be 0-3', 'VALIDATION_ERROR');
+      }
+      if (!isPositive(supplyVolts) || supplyVolts > 4.096 || !isPositive(pullupOhms)) {
+        throw new KitronikError('Wind vane needs supplyVolts up to 4.096 and a positive pullupOhms', 'VALIDATION_ERROR');
+      }
+    }
+
+    if (config.elevation !== undefined &&
+        (typeof config.elevation !== 'number' || config.elevation < -500 || config.elevation > 9000)) {
+      throw new KitronikError('Elevation must be between -500 and 9000 metres', 'VALIDATION_ERROR');
+    }
+
+    ['sampleMs', 'averageMs', 'gustMs', 'rainRateMs', 'reportMs'].forEach(field => {
+      if (config[field] !== undefined && (typeof config[field] !== 'number' || config[field] < 1000)) {
+        throw new KitronikError(`${field} must be at least a second`, 'VALIDATION_ERROR');
+      }
+    });
+  }
+
+  static validateHeaterConfig(config: any): void {
+    if (config.reading !== undefined) {
+      this.validateHeaterStep(config.reading);
+    }
+
+    if (config.profiles !== undefined) {
+      if (typeof config.profiles !== 'object' || config.profiles === null) {
+        throw new KitronikError('profiles must map names to heater profiles', 'VALIDATION_ERROR');
+      }
+      Object.entries(config.profiles).forEach(([name, profile]: [string, any]) => {
+        if (!profile || !Array.isArray(profile.steps) ||
+            profile.steps.length < 1 || profile.steps.length > HEATER_MAX_STEPS) {
+          throw new KitronikError(
+            `Heater profile ${name} needs 1 to ${HEATER_MAX_STEPS} steps`,
+            'VALIDATION_ERROR'
+          );
+        }
+        profile.steps.forEach((step: any) => this.validateHeaterStep(step));
+      });
+    }
+
+    if (config.active !== undefined && config.active !== null && typeof config.active !== 'string') {
+      throw new KitronikError('active must be a profile name or null', 'VALIDATION_ERROR');
+    }
+
+    if (config.scanIntervalMs !== undefined &&
+        (typeof config.scanIntervalMs !== 'number' || config.scanIntervalMs < 10000)) {
+      throw new KitronikError('scanIntervalMs must be at least 10 seconds', 'VALIDATION_ERROR');
+    }
+  }
+
+  static validateHeaterStep(step: any): void {
+    if (typeof step?.temperature !== 'number' ||
+        step.temperature < HEATER_MIN_TEMP ||
+        step.temperature > HEATER_MAX_TEMP) {
+      throw new KitronikError(
+        `Heater temperature must be between ${HEATER_MIN_TEMP} and ${HEATER_MAX_TEMP}°C`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    if (!Number.isInteger(step.durationMs) || step.durationMs < 1 || step.durationMs > HEATER_MAX_DURATION_MS) {
+      throw new KitronikError(
+        `Heater duration must be between 1 and ${HEATER_MAX_DURATION_MS} ms`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  static validateCalibrationOptions(options: any): void {
+    const counts: Array<[string, number]> = [['samples', 2], ['warmUpSamples', 0], ['window', 2]];
+    counts.forEach(([field, min]) => {
+      const value = options[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < min || value > 1000)) {
+        throw new KitronikError(`${field} must be a whole number from ${min} to 1000`, 'VALIDATION_ERROR');
+      }
+    });
+
+    if (options.intervalMs !== undefined &&
+        (typeof options.intervalMs !== 'number' || options.intervalMs < 100 || options.intervalMs > 60000)) {
+      throw new KitronikError('intervalMs must be between 100 and 60000', 'VALIDATION_ERROR');
+    }
+
+    if (options.maxVariation !== undefined &&
+        (typeof options.maxVariation !== 'number' || options.maxVariation <= 0 || options.maxVariation > 1)) {
+      throw new KitronikError('maxVariation must be above 0 and at most 1', 'VALIDATION_ERROR');
+    }
+
+    ['abortOnUnstable', 'displayProgress'].forEach(field => {
+      if (options[field] !== undefined && typeof options[field] !== 'boolean') {
+        throw new KitronikError(`${field} must be a boolean`, 'VALIDATION_ERROR');
+      }
+    });
+  }
+
+  static validateAutoCalibrationConfig(config: any): void {
+    if (config.enabled !== undefined && typeof config.enabled !== 'boolean') {
+      throw new KitronikError('enabled must be a boolean', 'VALIDATION_ERROR');
+    }
+
+    if (config.maxDrift !== undefined &&
+        (typeof config.maxDrift !== 'number' || config.maxDrift <= 0 || config.maxDrift > 1)) {
+      throw new KitronikError('maxDrift must be above 0 and at most 1', 'VALIDATION_ERROR');
+    }
+
+    const isTime = (value: any) => value === undefined ||
+      (typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value));
+    if (!isTime(config.quietStart) || !isTime(config.quietEnd)) {
+      throw new KitronikError('Quiet times must be given as HH:MM', 'VALIDATION_ERROR');
+    }
+
+    const minimums: Array<[string, number]> = [
+      ['maxAgeMs', 60 * 60 * 1000],
+      ['vacantMs', 0],
+      ['driftWindowMs', 60 * 1000],
+      ['minIntervalMs', 60 * 60 * 1000],
+      ['checkIntervalMs', 60 * 1000]
+    ];
+    minimums.forEach(([field, min]) => {
+      if (config[field] !== undefined && (typeof config[field] !== 'number' || config[field] < min)) {
+        throw new KitronikError(`${field} must be a number of at least ${min}`, 'VALIDATION_ERROR');
+      }
+    });
+
+    if (config.calibration !== undefined) {
+      if (typeof config.calibration !== 'object' || config.calibration === null) {
+        throw new KitronikError('calibration must be an object of calibration options', 'VALIDATION_ERROR');
+      }
+      this.validateCalibrationOptions(config.calibration);
+    }
+  }
+
+  static validateCorrections(corrections: any): void {
+    if (typeof corrections !== 'object' || corrections === null || Array.isArray(corrections)) {
+      throw new KitronikError('corrections must be an object keyed by measurement', 'VALIDATION_ERROR');
+    }
+
+    Object.entries(corrections).forEach(([measurement, correction]: [string, any]) => {
+      if (!(measurement in MEASUREMENT_INFO)) {
+        throw new KitronikError(`Unknown measurement: ${measurement}`, 'VALIDATION_ERROR');
+      }
+      if (typeof correction !== 'object' || correction === null) {
+        throw new KitronikError(`Correction for ${measurement} must be an object`, 'VALIDATION_ERROR');
+      }
+      if (!CORRECTION_KINDS.includes(correction.kind)) {
+        throw new KitronikError(`Correction kind must be one of: ${CORRECTION_KINDS.join(', ')}`, 'VALIDATION_ERROR');
+      }
+      if (typeof correction.offset !== 'number' || !Number.isFinite(correction.offset)) {
+        throw new KitronikError(`Correction offset for ${measurement} must be a number`, 'VALIDATION_ERROR');
+      }
+      if (correction.kind !== 'offset' &&
+          (typeof correction.gain !== 'number' || !Number.isFinite(correction.gain) || correction.gain <= 0)) {
+        throw new KitronikError(`Correction gain for ${measurement} must be a positive number`, 'VALIDATION_ERROR');
+      }
+    });
+  }
+
+  static validateForecastConfig(config: any): void {
+    if (config.hemisphere !== undefined && !HEMISPHERES.includes(config.hemisphere)) {
+      throw new KitronikError(`hemisphere must be one of: ${HEMISPHERES.join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    if (config.showOnDisplay !== undefined && typeof config.showOnDisplay !== 'boolean') {
+      throw new KitronikError('showOnDisplay must be a boolean', 'VALIDATION_ERROR');
+    }
+
+    const minimums: Array<[string, number]> = [
+      ['windowMs', 60 * 60 * 1000],
+      ['refreshMs', 60 * 1000],
+      ['displayDurationMs', 1000]
+    ];
+    minimums.forEach(([field, min]) => {
+      if (config[field] !== undefined && (typeof config[field] !== 'number' || config[field] < min)) {
+        throw new KitronikError(`${field} must be a number of at least ${min}`, 'VALIDATION_ERROR');
+      }
+    });
+  }
+
+  static validateAlertRules(rules: any): void {
+    if (!Array.isArray(rules)) {
+      throw new KitronikError('rules must be an array', 'VALIDATION_ERROR');
+    }
+    if (rules.length > MAX_ALERT_RULES) {
+      throw new KitronikError(`A device can have at most ${MAX_ALERT_RULES} rules`, 'VALIDATION_ERROR');
+    }
+
+    const ids = new Set<string>();
+    rules.forEach((rule: any, index: number) => {
+      const problems = validateRule(rule);
+      if (problems.length > 0) {
+        throw new KitronikError(`Rule ${index}: ${problems.join('; ')}`, 'VALIDATION_ERROR');
+      }
+      if (ids.has(rule.id)) {
+        throw new KitronikError(`Duplicate rule id: ${rule.id}`, 'VALIDATION_ERROR');
+      }
+      ids.add(rule.id);
+    });
+  }
+
+  static validateAlertLifecycle(config: any): void {
+    const minimums: Array<[string, number]> = [
+      ['dedupeWindowMs', 0],
+      ['autoResolveMs', 0],
+      ['maxSnoozeMs', 60 * 1000]
+    ];
+    minimums.forEach(([field, min]) => {
+      if (config[field] !== undefined && (typeof config[field] !== 'number' || config[field] < min)) {
+        throw new KitronikError(`${field} must be a number of at least ${min}`, 'VALIDATION_ERROR');
+      }
+    });
+  }
+
+  static validateNotificationPreferences(preferences: any): void {
+    if (!Array.isArray(preferences.channels) || !Array.isArray(preferences.routes)) {
+      throw new KitronikError('channels and routes must be arrays', 'VALIDATION_ERROR');
+    }
+    if (preferences.channels.length > MAX_CHANNELS) {
+      throw new KitronikError(`At most ${MAX_CHANNELS} channels are allowed`, 'VALIDATION_ERROR');
+    }
+
+    const ids = new Set<string>();
+    preferences.channels.forEach((channel: any) => {
+      if (typeof channel.id !== 'string' || !/^[\w-]{1,64}$/.test(channel.id) || ids.has(channel.id)) {
+        throw new KitronikError('Each channel needs a unique id of letters, digits, - or _', 'VALIDATION_ERROR');
+      }
+      ids.add(channel.id);
+      if (typeof channel.name !== 'string' || channel.name.trim().length === 0) {
+        throw new KitronikError(`Channel ${channel.id} needs a name`, 'VALIDATION_ERROR');
+      }
+      if (typeof channel.enabled !== 'boolean') {
+        throw new KitronikError(`Channel ${channel.id} enabled must be a boolean`, 'VALIDATION_ERROR');
+      }
+
+      switch (channel.type) {
+        case 'webhook':
+          if (typeof channel.url !== 'string') {
+            throw new KitronikError(`Channel ${channel.id} url must be http or https`, 'VALIDATION_ERROR');
+          }
+          // The backend makes the request, so it must not reach the host or the docker network
+          checkPublicUrl(channel.url);
+          if (typeof channel.secret !== 'string' || channel.secret.length < 16) {
+            throw new KitronikError(`Channel ${channel.id} secret must be at least 16 characters`, 'VALIDATION_ERROR');
+          }
+          break;
+        case 'email':
+          if (!Array.isArray(channel.to) || channel.to.length === 0 ||
+              !channel.to.every((address: any) => typeof address === 'string' && /^[^\s@]+@[^\s@]+$/.test(address))) {
+            throw new KitronikError(`Channel ${channel.id} needs one or more email addresses`, 'VALIDATION_ERROR');
+          }
+          break;
+        case 'mqtt':
+          // Wildcards can't be published to
+          if (typeof channel.topic !== 'string' || channel.topic.length === 0 || /[+#]/.test(channel.topic)) {
+            throw new KitronikError(`Channel ${channel.id} topic must be a topic without wildcards`, 'VALIDATION_ERROR');
+          }
+          break;
+        case 'webpush':
+          if (typeof channel.subscription?.endpoint !== 'string' || !channel.subscription.endpoint.startsWith('https://') ||
+              typeof channel.subscription.keys?.p256dh !== 'string' || typeof channel.subscription.keys?.auth !== 'string') {
+            throw new KitronikError(`Channel ${channel.id} needs a push subscription`, 'VALIDATION_ERROR');
+          }
+          break;
+        default:
+          throw new KitronikError(`Channel type must be one of: ${CHANNEL_TYPES.join(', ')}`, 'VALIDATION_ERROR');
+      }
+    });
+
+    preferences.routes.forEach((route: any) => {
+      if (!ids.has(route.channelId)) {
+        throw new KitronikError(`Route for unknown channel: ${route.channelId}`, 'VALIDATION_ERROR');
+      }
+      if (!ALERT_LEVELS.includes(route.minLevel)) {
+        throw new KitronikError(`minLevel must be one of: ${ALERT_LEVELS.join(', ')}`, 'VALIDATION_ERROR');
+      }
+      if (!Array.isArray(route.deviceIds) || !route.deviceIds.every((id: any) => typeof id === 'string')) {
+        throw new KitronikError('deviceIds must be an array of device ids', 'VALIDATION_ERROR');
+      }
+      if (route.actions !== undefined &&
+          (!Array.isArray(route.actions) || !route.actions.every((action: any) => NOTIFIED_ACTIONS.includes(action)))) {
+        throw new KitronikError(`actions must be some of: ${NOTIFIED_ACTIONS.join(', ')}`, 'VALIDATION_ERROR');
+      }
+    });
   }
 
   static validateAlertConfiguration(alert: any): void {
@@ -0,0 +1,51 @@
+import { AlertDocument } from '../../shared/thresholds';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export type AlertAction = 'opened' | 'reopened' | 'escalated' | 'acknowledged' | 'snoozed' | 'woke' | 'resolved';
+
+export const ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged', 'snoozed', 'resolved'];
+
+export interface AlertHistoryEntry {
+    action: AlertAction;
+    // User id, or 'system' for changes monitoring made itself
+    by: string;
+    at: string;
+    note?: string;
+}
+
+// Stored under devices/{deviceId}/alerts as the alert it tracks, with its timestamp set to the
+// latest firing, so alerts raised elsewhere (the Cloud Functions, interlock trips) share the collection
+export interface AlertRecord extends Omit<AlertDocument, 'timestamp'> {
+    id: string;
+    // Alerts with the same key update one record instead of opening new ones
+    key: string;
+    status: AlertStatus;
+    // Whether the latest reading still raises the alert
+    active: boolean;
+    // Times the condition started again while the record was unresolved, including the first
+    occurrences: number;
+    firstSeen: string;
+    lastSeen: string;
+    clearedAt: string | null;
+    acknowledgedBy: string | null;
+    acknowledgedAt: string | null;
+    snoozedUntil: string | null;
+    resolvedBy: string | null;
+    resolvedAt: string | null;
+    history: AlertHistoryEntry[];
+}
+
+export interface AlertLifecycleConfig {
+    // An alert that fires again this soon after resolving reopens its old record
+    dedupeWindowMs: number;
+    // Resolve alerts once their condition has been clear this long; 0 leaves them for a user
+    autoResolveMs: number;
+    maxSnoozeMs: number;
+}
+
+export const DEFAULT_ALERT_LIFECYCLE: AlertLifecycleConfig = {
+    dedupeWindowMs: 30 * 60 * 1000,
+    autoResolveMs: 10 * 60 * 1000,
+    maxSnoozeMs: 24 * 60 * 60 * 1000
+};
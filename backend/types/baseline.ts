@@ -0,0 +1,52 @@
+import { CalibrationReport } from './calibration';
+
+export interface BaselineValues {
+    temperature: number;
+    humidity: number;
+    pressure: number;
+    resistance: number;
+}
+
+// The baseline a device uses; a copy of one of its versions
+export interface BaselineData extends BaselineValues {
+    timestamp: number;
+    version?: number;
+    latestVersion?: number;
+    // Report of the calibration job that measured this baseline
+    calibration?: CalibrationReport;
+    // Set when an older version was restored
+    rolledBackBy?: string;
+    rolledBackAt?: number;
+}
+
+export type BaselineSource = 'calibration' | 'manual';
+
+// Versions are never changed once written, so readings can always be traced back to their baseline
+export interface BaselineVersion extends BaselineValues {
+    version: number;
+    source: BaselineSource;
+    // User id, or 'auto-calibration' / 'system' for runs nobody requested
+    createdBy: string;
+    createdAt: number;
+    calibration?: CalibrationReport;
+}
+
+export interface BaselineChange {
+    from: number;
+    to: number;
+    delta: number;
+    // delta as a fraction of the older value
+    change: number;
+}
+
+export interface BaselineComparison {
+    from: BaselineVersion;
+    to: BaselineVersion;
+    changes: Record<keyof BaselineValues, BaselineChange>;
+}
+
+export interface BaselineRollback {
+    baseline: BaselineData;
+    // Newer versions whose readings may need reprocessing against the restored baseline
+    superseded: number[];
+}
@@ -0,0 +1,78 @@
+export type CalibrationStatus = 'running' | 'completed' | 'cancelled' | 'aborted' | 'failed';
+
+export interface CalibrationOptions {
+    samples: number;
+    intervalMs: number;
+    // Early samples are read but left out of the statistics while the heater settles
+    warmUpSamples: number;
+    // Trailing samples the stability metrics are taken over
+    window: number;
+    // Largest coefficient of variation of the gas resistance that still counts as stable
+    maxVariation: number;
+    // Stop as soon as a full window is unstable instead of finishing with a failed report
+    abortOnUnstable: boolean;
+    displayProgress: boolean;
+}
+
+export interface CalibrationStability {
+    samples: number;
+    gasMean: number;
+    gasStdDev: number;
+    // Standard deviation over mean; 0.02 means the resistance wanders by about 2%
+    gasVariation: number;
+    // Change across the window, as a fraction of its first sample
+    gasDrift: number;
+    temperatureRange: number;
+    humidityRange: number;
+    stable: boolean;
+}
+
+export interface CalibrationBaseline {
+    temperature: number;
+    humidity: number;
+    pressure: number;
+    gasResistance: number;
+}
+
+export interface CalibrationReport {
+    jobId: string;
+    deviceId: string;
+    // User id, or 'auto-calibration' / 'system' for runs nobody requested
+    requestedBy: string;
+    status: CalibrationStatus;
+    options: CalibrationOptions;
+    samples: number;
+    stability: CalibrationStability | null;
+    // Mean of the final window, null unless the run completed
+    baseline: CalibrationBaseline | null;
+    // Baseline version the completed run was stored as
+    baselineVersion?: number;
+    reason?: string;
+    startedAt: string;
+    finishedAt: string;
+}
+
+export interface CalibrationJob {
+    id: string;
+    deviceId: string;
+    requestedBy: string;
+    status: CalibrationStatus;
+    options: CalibrationOptions;
+    // 0-100
+    progress: number;
+    samples: number;
+    stability: CalibrationStability | null;
+    startedAt: string;
+    finishedAt: string | null;
+    report: CalibrationReport | null;
+}
+
+export const DEFAULT_CALIBRATION: CalibrationOptions = {
+    samples: 60,
+    intervalMs: 2000,
+    warmUpSamples: 10,
+    window: 20,
+    maxVariation: 0.05,
+    abortOnUnstable: false,
+    displayProgress: true
+};
@@ -0,0 +1,52 @@
+import { Measurement, MeasurementValues } from './driver';
+
+export type CorrectionKind = 'offset' | 'linear' | 'reference';
+
+export const CORRECTION_KINDS: CorrectionKind[] = ['offset', 'linear', 'reference'];
+
+// How closely a reference fit tracked the reference instrument
+export interface ReferenceFit {
+    samples: number;
+    r2: number;
+    // Error left after correcting, in the measurement's unit
+    rmse: number;
+    from: string;
+    to: string;
+}
+
+export interface Correction {
+    kind: CorrectionKind;
+    // corrected = gain × raw + offset; fixed offsets keep a gain of 1
+    gain: number;
+    offset: number;
+    fit?: ReferenceFit;
+}
+
+export interface CorrectionConfig {
+    // Bumped on every change and stored with each corrected reading
+    version: number;
+    corrections: Partial<Record<Measurement, Correction>>;
+    updatedAt: string | null;
+    updatedBy: string | null;
+}
+
+// Added to readings that had a correction applied
+export interface CorrectionStamp {
+    // Uncorrected values of the corrected measurements
+    raw?: MeasurementValues;
+    correctionVersion?: number;
+}
+
+export interface ReferenceFitResult {
+    measurement: Measurement;
+    correction: Correction;
+    // Raw readings that had a reference row within the matching window
+    matched: number;
+}
+
+export const DEFAULT_CORRECTIONS: CorrectionConfig = {
+    version: 0,
+    corrections: {},
+    updatedAt: null,
+    updatedBy: null
+};
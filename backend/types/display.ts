@@ -0,0 +1,109 @@
+import { Measurement } from './driver';
+import { DisplayPattern } from './sensor';
+
+export type WidgetType = 'text' | 'value' | 'bigNumber' | 'sparkline' | 'trend' | 'alertBanner' | 'clock';
+
+export interface Widget {
+    type: WidgetType;
+    // First OLED text line the widget occupies (0-5) and how many lines it spans
+    line: number;
+    lines?: number;
+    measurement?: Measurement;
+    // Static text for 'text' widgets, or a label override for the others
+    text?: string;
+    // Change over the trend window that counts as rising or falling
+    threshold?: number;
+}
+
+export interface DisplayPage {
+    name: string;
+    widgets: Widget[];
+    // How long the page stays up before rotating; falls back to rotationMs
+    durationMs?: number;
+}
+
+export interface DisplayConfig {
+    pages: DisplayPage[];
+    rotate: boolean;
+    rotationMs: number;
+    // How long an alert interrupt stays on screen
+    alertDurationMs: number;
+    // Window the trend arrows compare against
+    trendWindowMs: number;
+}
+
+// Higher numbers pre-empt lower ones
+export const INTERRUPT_PRIORITY = {
+    info: 0,
+    warning: 1,
+    manual: 2,
+    danger: 3
+} as const;
+
+export type InterruptLevel = keyof typeof INTERRUPT_PRIORITY;
+
+export interface DisplayInterrupt {
+    id: string;
+    level: InterruptLevel;
+    title: string;
+    lines: string[];
+    // Raw patterns from the outputs API are drawn as-is instead of as a banner
+    patterns?: DisplayPattern[];
+    createdAt: number;
+    // null keeps the interrupt up until it is cleared
+    expiresAt: number | null;
+}
+
+export interface InterruptRequest {
+    // Reusing an id replaces that interrupt instead of queueing another
+    id?: string;
+    level: InterruptLevel;
+    title?: string;
+    message?: string;
+    lines?: string[];
+    patterns?: DisplayPattern[];
+    // 0 keeps it up until cleared; defaults to alertDurationMs
+    durationMs?: number;
+}
+
+export interface DisplayState {
+    page: string | null;
+    interrupt: DisplayInterrupt | null;
+    queued: number;
+    rotate: boolean;
+}
+
+export const DEFAULT_DISPLAY: DisplayConfig = {
+    pages: [
+        {
+            name: 'overview',
+            widgets: [
+                { type: 'clock', line: 0 },
+                { type: 'value', line: 1, measurement: 'temperature' },
+                { type: 'value', line: 2, measurement: 'humidity' },
+                { type: 'value', line: 3, measurement: 'airQualityIndex' },
+                { type: 'trend', line: 4, measurement: 'pressure' },
+                { type: 'alertBanner', line: 5 }
+            ]
+        },
+        {
+            name: 'temperature',
+            widgets: [
+                { type: 'bigNumber', line: 0, lines: 3, measurement: 'temperature' },
+                { type: 'trend', line: 3, measurement: 'temperature' },
+                { type: 'sparkline', line: 4, lines: 2, measurement: 'temperature' }
+            ]
+        },
+        {
+            name: 'pressure',
+            widgets: [
+                { type: 'trend', line: 0, measurement: 'pressure' },
+                { type: 'sparkline', line: 1, lines: 5, measurement: 'pressure' }
+            ]
+        }
+    ],
+    rotate: true,
+    rotationMs: 10000,
+    alertDurationMs: 15000,
+    trendWindowMs: 15 * 60 * 1000
+};
@@ -0,0 +1,55 @@
+import { CalibrationBaseline, CalibrationOptions } from './calibration';
+
+export interface AutoCalibrationConfig {
+    enabled: boolean;
+    // Live gas resistance may wander this far from the baseline, as a fraction, before recalibrating
+    maxDrift: number;
+    // Baselines older than this are stale however little they drifted
+    maxAgeMs: number;
+    // Device-local 'HH:MM' window automatic runs may start in; a start after the end spans midnight
+    quietStart: string;
+    quietEnd: string;
+    // PIR inputs must have been clear this long; ignored when no PIR is configured
+    vacantMs: number;
+    // Drift is the mean over this window, so one cooking session doesn't trigger a run
+    driftWindowMs: number;
+    // Least time between automatic runs, failed ones included
+    minIntervalMs: number;
+    checkIntervalMs: number;
+    calibration: Partial<CalibrationOptions>;
+}
+
+export type RecalibrationHold = 'disabled' | 'quiet hours' | 'occupied' | 'interval' | 'calibrating';
+
+export interface DriftPoint {
+    timestamp: string;
+    drift: number;
+}
+
+export interface BaselineDrift {
+    baseline: CalibrationBaseline | null;
+    baselineAt: string | null;
+    ageMs: number | null;
+    // Signed mean change of the humidity compensated gas resistance from the baseline; null without readings
+    drift: number | null;
+    samples: number;
+    // 0 for a fresh baseline; 1 or more once drift or age reaches the policy limit
+    staleness: number;
+    due: boolean;
+    // Why a due recalibration hasn't started
+    heldBy: RecalibrationHold | null;
+    lastAutoCalibration: string | null;
+}
+
+export const DEFAULT_AUTO_CALIBRATION: AutoCalibrationConfig = {
+    enabled: false,
+    maxDrift: 0.2,
+    maxAgeMs: 14 * 24 * 60 * 60 * 1000,
+    quietStart: '02:00',
+    quietEnd: '05:00',
+    vacantMs: 30 * 60 * 1000,
+    driftWindowMs: 60 * 60 * 1000,
+    minIntervalMs: 24 * 60 * 60 * 1000,
+    checkIntervalMs: 10 * 60 * 1000,
+    calibration: {}
+};
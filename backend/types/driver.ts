@@ -0,0 +1,73 @@
+import { CorrectionStamp } from './correction';
+import { DerivedValues } from './meteorology';
+
+export type SensorModel = 'bme688' | 'bme280' | 'sht31' | 'scd40';
+
+export type Measurement =
+    | 'temperature'
+    | 'humidity'
+    | 'pressure'
+    | 'gasResistance'
+    | 'airQualityIndex'
+    | 'co2Equivalent'
+    | 'co2'
+    | 'windSpeed'
+    | 'windGust'
+    | 'windDirection'
+    | 'rainRate'
+    | 'rainfall';
+
+export interface MeasurementInfo {
+    label: string;
+    unit: string;
+    // true when the value is derived from other readings rather than measured
+    estimated: boolean;
+}
+
+export const MEASUREMENT_INFO: Record<Measurement, MeasurementInfo> = {
+    temperature: { label: 'Temperature', unit: '°C', estimated: false },
+    humidity: { label: 'Humidity', unit: '%', estimated: false },
+    pressure: { label: 'Pressure', unit: 'hPa', estimated: false },
+    gasResistance: { label: 'Gas Resistance', unit: 'Ω', estimated: false },
+    airQualityIndex: { label: 'Air Quality', unit: '%', estimated: true },
+    co2Equivalent: { label: 'eCO2', unit: 'ppm', estimated: true },
+    co2: { label: 'CO2', unit: 'ppm', estimated: false },
+    windSpeed: { label: 'Wind Speed', unit: 'km/h', estimated: false },
+    windGust: { label: 'Wind Gust', unit: 'km/h', estimated: false },
+    windDirection: { label: 'Wind Direction', unit: '°', estimated: false },
+    rainRate: { label: 'Rain Rate', unit: 'mm/h', estimated: false },
+    rainfall: { label: 'Rainfall', unit: 'mm', estimated: false }
+};
+
+export const SENSOR_MODELS: SensorModel[] = ['bme688', 'bme280', 'sht31', 'scd40'];
+
+export type MeasurementValues = Partial<Record<Measurement, number>>;
+
+export interface MeasurementReading extends CorrectionStamp {
+    sensorModel: SensorModel;
+    timestamp: string;
+    values: MeasurementValues;
+    // Dew point, heat index etc. computed from the corrected values
+    derived?: DerivedValues;
+    baselineVersion?: number;
+}
+
+export interface SensorCapabilities {
+    sensorModel: SensorModel;
+    measurements: Array<{ name: Measurement } & MeasurementInfo>;
+}
+
+export interface I2CDevice {
+    readonly address: number;
+    writeBytes(bytes: number[]): Promise<void>;
+    readBytes(length: number): Promise<number[]>;
+}
+
+export interface SensorDriver {
+    readonly model: SensorModel;
+    readonly capabilities: Measurement[];
+    initialize(): Promise<{ success: boolean }>;
+    read(): Promise<MeasurementValues>;
+    validateConnection(): Promise<boolean>;
+    dispose(): Promise<void>;
+}
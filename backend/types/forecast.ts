@@ -0,0 +1,52 @@
+export type PressureTendency = 'rising' | 'steady' | 'falling';
+
+export type Hemisphere = 'north' | 'south';
+
+export type ForecastConfidence = 'low' | 'medium' | 'high';
+
+export const HEMISPHERES: Hemisphere[] = ['north', 'south'];
+
+export interface PressurePoint {
+    timestamp: number;
+    pressure: number;
+    seaLevelPressure?: number;
+}
+
+export interface Forecast {
+    // Zambretti letter, A (settled fine) to Z (stormy, much rain)
+    letter: string;
+    summary: string;
+    tendency: PressureTendency;
+    // Met Office wording for the rate, e.g. 'falling quickly'
+    tendencyText: string;
+    // hPa over the last three hours, from a line fitted to the history
+    pressureChange: number;
+    seaLevelPressure: number;
+    windDirection: number | null;
+    season: 'summer' | 'winter';
+    // 0-1, from how much history there was and how well it followed a trend
+    confidence: number;
+    confidenceLevel: ForecastConfidence;
+    samples: number;
+    issuedAt: string;
+    // Zambretti forecasts look about this far ahead
+    validUntil: string;
+}
+
+export interface ForecastConfig {
+    hemisphere: Hemisphere;
+    // History the pressure tendency is fitted over
+    windowMs: number;
+    refreshMs: number;
+    // Show each new forecast on the OLED as an info interrupt
+    showOnDisplay: boolean;
+    displayDurationMs: number;
+}
+
+export const DEFAULT_FORECAST: ForecastConfig = {
+    hemisphere: 'north',
+    windowMs: 3 * 60 * 60 * 1000,
+    refreshMs: 15 * 60 * 1000,
+    showOnDisplay: false,
+    displayDurationMs: 20 * 1000
+};
@@ -0,0 +1,72 @@
+export type PinRole = 'door' | 'button' | 'pir' | 'pulse';
+
+export const PIN_ROLES: PinRole[] = ['door', 'button', 'pir', 'pulse'];
+
+// What the device does by itself on an input, besides publishing the event
+export type PinAction = 'ventilate' | 'calibrate';
+
+export interface PinConfig {
+    pin: number;
+    role: PinRole;
+    name: string;
+    // Inputs that pull the pin low when active, e.g. a button to ground
+    activeLow?: boolean;
+    // A level change only counts once the pin has held it this long
+    debounceMs?: number;
+    action?: PinAction;
+    // Pulse counters publish their count this often instead of every pulse
+    reportMs?: number;
+}
+
+export interface GPIOConfig {
+    pins: PinConfig[];
+    pollMs: number;
+}
+
+export type GPIOEventType =
+    | 'opened'
+    | 'closed'
+    | 'pressed'
+    | 'released'
+    | 'motion'
+    | 'clear'
+    | 'pulses';
+
+export interface GPIOEvent {
+    pin: number;
+    role: PinRole;
+    name: string;
+    type: GPIOEventType;
+    // Whether the input is active (open, pressed, motion) after the event
+    active: boolean;
+    timestamp: string;
+    // Pulse counters: pulses since the last report and since the last reset
+    count?: number;
+    total?: number;
+    replayed?: boolean;
+}
+
+// Emitted locally for every counted edge, e.g. for wind and rain sensors
+export interface GPIOPulse {
+    pin: number;
+    name: string;
+    total: number;
+    timestamp: number;
+}
+
+export const ROLE_EVENTS: Record<Exclude<PinRole, 'pulse'>, [GPIOEventType, GPIOEventType]> = {
+    door: ['opened', 'closed'],
+    button: ['pressed', 'released'],
+    pir: ['motion', 'clear']
+};
+
+export const DEFAULT_DEBOUNCE_MS = 20;
+export const DEFAULT_PULSE_REPORT_MS = 60 * 1000;
+
+export const DEFAULT_GPIO: GPIOConfig = {
+    pins: [
+        { pin: 0, role: 'button', name: 'external-trigger', action: 'calibrate' },
+        { pin: 2, role: 'door', name: 'door', action: 'ventilate' }
+    ],
+    pollMs: 10
+};
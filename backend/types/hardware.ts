@@ -0,0 +1,142 @@
+import { I2CDevice, MeasurementValues } from './driver';
+
+export type HardwareMode = 'kitronik' | 'simulated';
+
+export interface GasHeaterSettings {
+    targetTemp: number;
+    heatDuration: number;
+    ambientTemp: number;
+}
+
+export interface SensorMeasurement {
+    temperature: number;
+    humidity: number;
+    pressure: number;
+    gasResistance: number;
+    airQuality: number;
+}
+
+// A raw BME688 reading as the Kitronik library reports it
+export interface DataReading extends SensorMeasurement {
+    airQualityIndex: number;
+    timestamp: string;
+}
+
+export interface ProgressDisplay {
+    clear(): void;
+    print(text: string): void;
+}
+
+// Front end of the BME688 as exposed by SensorInitialization
+export interface BME688FrontEnd {
+    initialize(options: { gasSettings: GasHeaterSettings }): Promise<{ success: boolean }>;
+    measureData(): Promise<SensorMeasurement>;
+    getCalibrationData(): Record<string, number>;
+    getAirQualityScore(): number;
+    readeCO2(): number;
+    readTemperature(): number;
+    readHumidity(): number;
+    readPressure(): number;
+    readGasRes(): number;
+    calcBaselines(display: ProgressDisplay, forcedRun: boolean): Promise<void>;
+    setupGasSensor(targetTemp: number, duration: number): void;
+}
+
+export interface BME688Device {
+    readSensorData(): Promise<DataReading>;
+    validateConnection(): Promise<void>;
+}
+
+export interface StoredBaseline extends MeasurementValues {
+    timestamp: string;
+}
+
+// Gas baseline calibration and storage, the Kitronik library's BaselineCalculation and BaselineStorage
+export interface SensorBaselines {
+    calibrate(sensor: BME688Device, forcedRun: boolean, displayProgress: boolean): Promise<void>;
+    loadBaseline(): Promise<StoredBaseline | null>;
+    saveBaseline(baseline: StoredBaseline): Promise<void>;
+    // How far a reading has moved from the baseline, against getToleranceThreshold()
+    compareBaselines(reading: MeasurementValues, baseline: StoredBaseline): number;
+    getToleranceThreshold(): number;
+}
+
+// SSD1306 panel on the Kitronik board: six text lines of 21 characters
+export const OLED_WIDTH = 128;
+export const OLED_HEIGHT = 64;
+export const OLED_TEXT_LINES = 6;
+export const OLED_LINE_CHARS = 21;
+
+export interface OLEDDisplay {
+    initialize(): Promise<void>;
+    clear(): Promise<void>;
+    writeTextToLine(text: string, line: number): void;
+    drawRect(x: number, y: number, width: number, height: number): void;
+    drawLine(x1: number, y1: number, x2: number, y2: number): void;
+    show(): Promise<void>;
+}
+
+// Number of ZIP LEDs fitted to the board
+export const ZIP_LED_COUNT = 8;
+
+export interface ZIPLEDStrip {
+    setColor(index: number, color: string): Promise<void>;
+    setPixel(index: number, r: number, g: number, b: number): Promise<void>;
+    clear(): Promise<void>;
+    show(): Promise<void>;
+}
+
+export interface ServoMotor {
+    setAngle(angle: number): Promise<void>;
+}
+
+export interface Buzzer {
+    tone(frequency: number): void;
+    noTone(): void;
+}
+
+export interface RealTimeClock {
+    getDateTime(): Date;
+}
+
+export interface GPIOPins {
+    setupPin(pin: number, mode: 'input' | 'output'): Promise<void>;
+    readPin(pin: number): Promise<boolean>;
+    writePin(pin: number, value: boolean): Promise<void>;
+}
+
+export interface HighPowerOutputs {
+    setupOutput(index: number): Promise<void>;
+    setOutput(index: number, state: boolean): Promise<void>;
+    setAllOutputs(state: boolean): Promise<void>;
+    turnOn(index: number): Promise<void>;
+    turnOff(index?: number): Promise<void>;
+}
+
+export interface KitronikBoard {
+    readonly mode: HardwareMode;
+    readonly sensorInit: BME688FrontEnd;
+    readonly sensor: BME688Device;
+    readonly oled: OLEDDisplay;
+    readonly zipLeds: ZIPLEDStrip;
+    readonly servos: ServoMotor[];
+    readonly buzzer: Buzzer;
+    readonly rtc: RealTimeClock;
+    readonly gpio: GPIOPins;
+    readonly powerOut: HighPowerOutputs;
+    readonly baselines: SensorBaselines;
+    // Raw bus access for additional sensors on the breakout header
+    openI2C(address: number): I2CDevice;
+    // Whether an error is the board's own sensor fault rather than a bug
+    isSensorError(error: unknown): boolean;
+    dispose(): Promise<void>;
+}
+
+export interface SimulationOptions {
+    seed?: number;
+    // Multiplier applied to simulated time, e.g. 60 makes one real second a simulated minute
+    timeScale?: number;
+    baseTemperature?: number;
+    baseHumidity?: number;
+    basePressure?: number;
+}
@@ -0,0 +1,63 @@
+export interface HeaterStep {
+    // Hot plate target in °C
+    temperature: number;
+    durationMs: number;
+}
+
+// Limits of the BME688 heater and its ten set-points
+export const HEATER_MIN_TEMP = 200;
+export const HEATER_MAX_TEMP = 400;
+export const HEATER_MAX_DURATION_MS = 4032;
+export const HEATER_MAX_STEPS = 10;
+
+export interface HeaterProfile {
+    steps: HeaterStep[];
+}
+
+export interface HeaterConfig {
+    // Step the heater holds for ordinary readings between scans
+    reading: HeaterStep;
+    profiles: Record<string, HeaterProfile>;
+    // Profile scanned on a timer; null runs scans only on request
+    active: string | null;
+    scanIntervalMs: number;
+}
+
+export interface GasScanStep extends HeaterStep {
+    gasResistance: number;
+}
+
+// One pass through a profile: the resistance at each step is the gas fingerprint
+export interface GasScan {
+    profile: string;
+    steps: GasScanStep[];
+    temperature: number;
+    humidity: number;
+    timestamp: string;
+}
+
+export const DEFAULT_HEATER: HeaterConfig = {
+    reading: { temperature: 350, durationMs: 150 },
+    profiles: {
+        standard: {
+            steps: [{ temperature: 320, durationMs: 150 }]
+        },
+        // Ten steps after Bosch's HP-354 reference profile
+        'hp-354': {
+            steps: [
+                { temperature: 320, durationMs: 700 },
+                { temperature: 200, durationMs: 280 },
+                { temperature: 200, durationMs: 1400 },
+                { temperature: 200, durationMs: 4032 },
+                { temperature: 250, durationMs: 700 },
+                { temperature: 250, durationMs: 700 },
+                { temperature: 250, durationMs: 700 },
+                { temperature: 320, durationMs: 700 },
+                { temperature: 320, durationMs: 700 },
+                { temperature: 320, durationMs: 700 }
+            ]
+        }
+    },
+    active: null,
+    scanIntervalMs: 5 * 60 * 1000
+};
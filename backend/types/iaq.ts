@@ -0,0 +1,23 @@
+export type IAQMode = 'static' | 'dynamic';
+
+export const IAQ_MODES: IAQMode[] = ['static', 'dynamic'];
+
+// 0 stabilising, 1 uncertain, 2 calibrating, 3 calibrated
+export type IAQAccuracy = 0 | 1 | 2 | 3;
+
+export interface IAQResult {
+    // Index selected by the device's IAQ mode; 0-500, lower is cleaner
+    iaq: number;
+    // Against the long-term clean air baseline, for devices that stay put
+    staticIaq: number;
+    // Against a baseline that adapts within a day, for devices that move between rooms
+    dynamicIaq: number;
+    accuracy: IAQAccuracy;
+    // ppm
+    co2Equivalent: number;
+    breathVocEquivalent: number;
+    // Humidity compensated gas resistance and the dynamic baseline it is compared to, in Ω
+    compensatedGas: number;
+    gasBaseline: number | null;
+    timestamp: string;
+}
@@ -0,0 +1,48 @@
+import { OutputKind } from './output';
+
+export interface PowerInterlock {
+    // Longest the output may stay on before it is forced off
+    maxOnMs?: number;
+    // Once off, the output stays off at least this long
+    minOffMs?: number;
+    // Largest fraction of dutyWindowMs the output may spend on, 0-1
+    maxDutyCycle?: number;
+    dutyWindowMs?: number;
+}
+
+export interface ServoInterlock {
+    maxSlewDegPerSec?: number;
+    // Angle the servo is parked at when the sensor goes silent
+    safeAngle?: number;
+}
+
+export interface InterlockConfig {
+    power: Record<number, PowerInterlock>;
+    servos: Record<number, ServoInterlock>;
+    // High-power output pairs that must never be on together, e.g. heater and cooler
+    exclusivePairs: Array<[number, number]>;
+    // Outputs drop to their safe state when monitoring gets no reading for this long; 0 disables
+    sensorTimeoutMs: number;
+}
+
+export type InterlockTripType =
+    | 'max-on-time'
+    | 'min-off-time'
+    | 'duty-cycle'
+    | 'exclusive'
+    | 'sensor-silent';
+
+export interface InterlockTrip {
+    type: InterlockTripType;
+    kind: OutputKind;
+    index: number;
+    message: string;
+    timestamp: number;
+}
+
+export const DEFAULT_INTERLOCKS: InterlockConfig = {
+    power: {},
+    servos: {},
+    exclusivePairs: [],
+    sensorTimeoutMs: 5 * 60 * 1000
+};
@@ -0,0 +1,94 @@
+import { Measurement } from './driver';
+
+export interface LEDColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+interface AnimationBase {
+    // ZIP LED indices the animation draws on; all of them when omitted
+    pixels?: number[];
+    // Runs until cancelled when omitted
+    durationMs?: number;
+}
+
+export interface SolidAnimation extends AnimationBase {
+    type: 'solid';
+    color: LEDColor;
+}
+
+export interface BlinkAnimation extends AnimationBase {
+    type: 'blink';
+    color: LEDColor;
+    periodMs: number;
+    // Colour for the off half of the period, black by default
+    offColor?: LEDColor;
+}
+
+export interface PulseAnimation extends AnimationBase {
+    type: 'pulse';
+    color: LEDColor;
+    periodMs: number;
+}
+
+export interface ChaseAnimation extends AnimationBase {
+    type: 'chase';
+    color: LEDColor;
+    stepMs: number;
+    // How many pixels are lit at once
+    length?: number;
+    background?: LEDColor;
+}
+
+export interface GradientAnimation extends AnimationBase {
+    type: 'gradient';
+    // Colours spread evenly from min to max, e.g. red, orange, green for air quality
+    stops: LEDColor[];
+    min: number;
+    max: number;
+    // A fixed value, or the latest monitoring reading of a measurement
+    value?: number;
+    measurement?: Measurement;
+    // 'bar' lights a share of the pixels proportional to the value instead of colouring them all
+    mode?: 'fill' | 'bar';
+}
+
+export interface SequenceAnimation extends AnimationBase {
+    type: 'sequence';
+    // Played one after another; every step needs a durationMs
+    steps: LEDAnimation[];
+    repeat?: boolean;
+}
+
+export interface GroupAnimation extends AnimationBase {
+    type: 'group';
+    // Played together; later layers draw over earlier ones
+    layers: LEDAnimation[];
+}
+
+export type LEDAnimation =
+    | SolidAnimation
+    | BlinkAnimation
+    | PulseAnimation
+    | ChaseAnimation
+    | GradientAnimation
+    | SequenceAnimation
+    | GroupAnimation;
+
+export type AnimationType = LEDAnimation['type'];
+
+export interface PlayOptions {
+    // Reusing an id replaces that animation
+    id?: string;
+    // Higher layers draw over lower ones where their pixels overlap
+    layer?: number;
+}
+
+export interface AnimationInfo {
+    id: string;
+    layer: number;
+    animation: LEDAnimation;
+    startedAt: string;
+    expiresAt: string | null;
+}
@@ -0,0 +1,26 @@
+export type DerivedQuantity =
+    | 'dewPoint'
+    | 'heatIndex'
+    | 'humidex'
+    | 'absoluteHumidity'
+    | 'vapourPressureDeficit'
+    | 'seaLevelPressure';
+
+// Computed from temperature, humidity and pressure; absent when the sensor doesn't measure what they need
+export type DerivedValues = Partial<Record<DerivedQuantity, number>>;
+
+export interface DerivedInfo {
+    label: string;
+    unit: string;
+}
+
+export const DERIVED_INFO: Record<DerivedQuantity, DerivedInfo> = {
+    dewPoint: { label: 'Dew Point', unit: '°C' },
+    heatIndex: { label: 'Heat Index', unit: '°C' },
+    humidex: { label: 'Humidex', unit: '°C' },
+    absoluteHumidity: { label: 'Absolute Humidity', unit: 'g/m³' },
+    vapourPressureDeficit: { label: 'Vapour Pressure Deficit', unit: 'kPa' },
+    seaLevelPressure: { label: 'Sea Level Pressure', unit: 'hPa' }
+};
+
+export const DERIVED_QUANTITIES = Object.keys(DERIVED_INFO) as DerivedQuantity[];
@@ -0,0 +1,99 @@
+import { AlertAction } from './alert';
+import { WeatherAlert } from './sensor';
+
+export type ChannelType = 'webhook' | 'email' | 'mqtt' | 'webpush';
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export const CHANNEL_TYPES: ChannelType[] = ['webhook', 'email', 'mqtt', 'webpush'];
+
+// Alert changes that can be sent; acknowledgements and snoozes stay in the alert centre
+export const NOTIFIED_ACTIONS: AlertAction[] = ['opened', 'reopened', 'escalated', 'resolved'];
+
+interface ChannelBase {
+    id: string;
+    name: string;
+    enabled: boolean;
+}
+
+export interface WebhookChannel extends ChannelBase {
+    type: 'webhook';
+    url: string;
+    // Signs each body with HMAC-SHA256 in the X-Gusty-Signature header
+    secret: string;
+}
+
+export interface EmailChannel extends ChannelBase {
+    type: 'email';
+    to: string[];
+}
+
+export interface MqttChannel extends ChannelBase {
+    type: 'mqtt';
+    // {deviceId} and {level} are filled in per notification
+    topic: string;
+}
+
+export interface WebPushChannel extends ChannelBase {
+    type: 'webpush';
+    // PushSubscription.toJSON() from the browser that registered public/sw.js
+    subscription: {
+        endpoint: string;
+        keys: { p256dh: string; auth: string };
+    };
+}
+
+export type NotificationChannel = WebhookChannel | EmailChannel | MqttChannel | WebPushChannel;
+
+export interface NotificationRoute {
+    channelId: string;
+    // Least severe alert level sent to the channel
+    minLevel: WeatherAlert['level'];
+    // Only these devices; empty for all of the user's devices
+    deviceIds: string[];
+    // Alert changes to send; defaults to all of NOTIFIED_ACTIONS
+    actions?: AlertAction[];
+}
+
+export interface NotificationPreferences {
+    channels: NotificationChannel[];
+    routes: NotificationRoute[];
+}
+
+export interface Notification {
+    id: string;
+    userId: string;
+    deviceId: string;
+    deviceName: string;
+    alertId: string;
+    action: AlertAction;
+    type: WeatherAlert['type'];
+    level: WeatherAlert['level'];
+    title: string;
+    message: string;
+    timestamp: string;
+}
+
+export interface DeliveryRecord {
+    id: string;
+    notificationId: string;
+    channelId: string;
+    channelType: ChannelType;
+    deviceId: string;
+    alertId: string;
+    level: WeatherAlert['level'];
+    title: string;
+    status: DeliveryStatus;
+    attempts: number;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+    deliveredAt: string | null;
+    // When the next attempt is due while retrying
+    nextAttemptAt: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    channels: [],
+    routes: []
+};
@@ -0,0 +1,31 @@
+export type OutputKind = 'power' | 'servo';
+
+// Highest first; a claim only takes effect while nothing above it is held
+export type OutputPriority = 'safety' | 'manual' | 'automation' | 'default';
+
+export const OUTPUT_PRIORITIES: OutputPriority[] = ['safety', 'manual', 'automation', 'default'];
+
+export type OutputValue = boolean | number;
+
+export interface OutputRequest {
+    priority: Exclude<OutputPriority, 'default'>;
+    // Who is asking, e.g. 'monitoring', 'door-sensor' or 'user:<uid>'
+    owner: string;
+    reason?: string;
+    // Claims with a duration expire on their own; manual overrides normally set one
+    durationMs?: number;
+}
+
+export interface OutputOwner {
+    priority: OutputPriority;
+    owner: string;
+    reason?: string;
+    value: OutputValue;
+    since: string;
+    expiresAt: string | null;
+}
+
+export interface OutputOwnership {
+    highPower: OutputOwner[];
+    servos: OutputOwner[];
+}
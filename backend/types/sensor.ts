@@ -1,12 +1,29 @@
-import { SensorCalibrationData } from '../../Kitronik5038Port/lib/data/SensorData';
-import { DataValidation } from '../../Kitronik5038Port/lib/validation/DataValidation';
-
-export interface SensorData {
-  temperature: number;
-  humidity: number;
-  pressure: number;
-  airQuality: number;
-  timestamp: number;
+import { HardwareMode, SimulationOptions } from './hardware';
+import { MeasurementValues, SensorModel } from './driver';
+import { OutputOwnership } from './output';
+import { IAQAccuracy, IAQMode } from './iaq';
+import { CorrectionConfig, CorrectionStamp } from './correction';
+import { DerivedValues } from './meteorology';
+import { AlertDocument, ThresholdAlert, ThresholdConfig } from '../../shared/thresholds';
+
+// Wind and rain from the GPIO weather station; absent when no station is fitted
+export interface StationValues {
+  windSpeed?: number;
+  windGust?: number;
+  windDirection?: number;
+  rainRate?: number;
+  rainfall?: number;
+}
+
+// Measurements the device's sensor driver doesn't provide are left out
+export interface SensorData extends MeasurementValues, CorrectionStamp, DerivedValues {
+  sensorModel?: SensorModel;
+  // Kitronik air quality score under its older name; only gas sensors have one
+  airQuality?: number;
+  // ISO 8601, as the API has always returned it
+  timestamp: string;
+  // Stored baseline in use when the reading was taken, so it can be reprocessed after a rollback
+  baselineVersion?: number;
 }
 
 export interface SensorReadingResponse {
@@ -20,12 +37,15 @@ export interface SensorReadingResponse {
     eCO2Value: number;
 }
 
+// The IAQ fields are present once a gas sensor has fed the IAQ engine
 export interface EnvironmentalData extends SensorData {
-    airQualityIndex: number;
-    airQualityAccuracy: number;
-    co2Equivalent: number;
-    vocEquivalent: number;
-    ambientTemperature: number;
+    airQualityAccuracy?: IAQAccuracy;
+    // IAQ engine indices, 0-500 with lower cleaner; iaq follows the device's IAQ mode
+    iaq?: number;
+    staticIaq?: number;
+    dynamicIaq?: number;
+    // Breath VOC equivalent in ppm
+    vocEquivalent?: number;
 }
 
 export interface CalibrationResult {
@@ -37,13 +57,17 @@ export interface CalibrationResult {
 }
 
 export interface KitronikConfig {
-    iaqMode: 'static' | 'dynamic';
+    iaqMode: IAQMode;
     samplingInterval?: number;
     gasSettings?: {
         targetTemp: number;
         heatDuration: number;
         ambientTemp: number;
     };
+    hardware?: HardwareMode;
+    simulation?: SimulationOptions;
+    sensorModel?: SensorModel;
+    corrections?: CorrectionConfig;
 }
 
 export interface KitronikStatus {
@@ -51,37 +75,26 @@ export interface KitronikStatus {
     lastReadingTime: string;
     sensorMode: string;
     calibrationStatus: boolean;
+    // Why the sensor driver failed to start, if it did
+    error?: string;
 }
 
-export interface SensorReading {
-    temperature: number;
-    humidity: number;
-    pressure: number;
-    gas: number;
-    airQualityIndex: number;
+// What monitoring processes: the driver's measurements, with the ones it doesn't provide left out
+export interface SensorReading extends MeasurementValues, CorrectionStamp, DerivedValues {
+    sensorModel?: SensorModel;
+    // Gas resistance as older readings and traces named it
+    gas?: number;
     timestamp: string;
+    baselineVersion?: number;
 }
 
-export interface WeatherAlert {
-    type: 'temperature' | 'humidity' | 'pressure' | 'airQuality';
-    level: 'info' | 'warning' | 'danger';
-    message: string;
+export interface WeatherAlert extends ThresholdAlert {
+    // The device alert rule behind a 'rule' alert
+    ruleId?: string;
 }
 
-export interface MonitoringThresholds {
-  temperature: {
-    min: number;
-    max: number;
-  };
-  humidity: {
-    min: number;
-    max: number;
-  };
-  airQuality: {
-    poor: number;
-    hazardous: number;
-  };
-}
+// Thresholds and alerts follow the schema in shared/thresholds.ts, which the Cloud Functions use too
+export type { MonitoringThresholds } from '../../shared/thresholds';
 
 export interface OutputStatus {
   displayActive: boolean;
@@ -89,6 +102,8 @@ export interface OutputStatus {
   highPowerState: boolean[];
   servoPositions: number[];
   lastUpdate: string;
+  // Who currently drives each output, see OutputArbiter
+  owners?: OutputOwnership;
 }
 
 export interface DisplayPattern {
@@ -112,17 +127,11 @@ export interface DeviceConfiguration {
   status: 'active' | 'inactive' | 'disabled';
   created: number;
   lastActive: number;
-  thresholds?: MonitoringThresholds;
+  sensorModel?: SensorModel;
+  thresholds?: ThresholdConfig;
 }
 
-export interface Alert {
-  type: 'temperature' | 'humidity' | 'pressure' | 'airQuality' | 'device';
-  level: 'info' | 'warning' | 'danger';
-  message: string;
-  timestamp: number;
-  value?: number;
-  deviceId: string;
-}
+export type Alert = AlertDocument;
 
 export interface DiagnosticResult {
   passed: boolean;
@@ -145,18 +154,6 @@ export interface HealthStatus {
   alerts: string[];
 }
 
-export class SensorValidator {
-    static validateReading(reading: SensorReading): boolean {
-        return DataValidation.validateSensorReading({
-            temperature: reading.temperature,
-            pressure: reading.pressure,
-            humidity: reading.humidity,
-            gasResistance: reading.gas,
-            airQualityIndex: reading.airQualityIndex
-        });
-    }
-}
-
 export interface SensorStatus {
   connected: boolean;
   sensors: {
@@ -0,0 +1,88 @@
+export type SoundLevel = 'info' | 'warning' | 'danger';
+
+export const SOUND_LEVELS: SoundLevel[] = ['info', 'warning', 'danger'];
+
+export interface Note {
+    // 0 is a rest
+    frequency: number;
+    durationMs: number;
+}
+
+export interface SoundEscalation {
+    // Replay when the alert is still unacknowledged after this long, repeating each time
+    afterMs: number;
+    maxTimes: number;
+    // Profile to escalate to, e.g. a warning that becomes the danger sound; defaults to the same one
+    level?: SoundLevel;
+}
+
+export interface SoundProfile {
+    // An empty melody keeps the level silent
+    notes: Note[];
+    repeat: number;
+    // Pause between repeats
+    gapMs: number;
+    escalation?: SoundEscalation;
+}
+
+export interface QuietHours {
+    enabled: boolean;
+    // Device-local 'HH:MM'; a start after the end spans midnight
+    start: string;
+    end: string;
+    // Levels that still sound during quiet hours
+    allowLevels: SoundLevel[];
+}
+
+export interface SoundConfig {
+    profiles: Record<SoundLevel, SoundProfile>;
+    quietHours: QuietHours;
+    muted: boolean;
+    // ISO time a temporary mute ends; null for none
+    mutedUntil: string | null;
+}
+
+export interface SoundState {
+    playing: SoundLevel | null;
+    // Alert awaiting acknowledgement, if its profile escalates
+    pending: { level: SoundLevel; since: string; escalations: number } | null;
+    quiet: boolean;
+    muted: boolean;
+}
+
+export const DEFAULT_SOUND: SoundConfig = {
+    profiles: {
+        info: {
+            notes: [{ frequency: 880, durationMs: 100 }],
+            repeat: 1,
+            gapMs: 0
+        },
+        warning: {
+            notes: [
+                { frequency: 880, durationMs: 150 },
+                { frequency: 0, durationMs: 100 },
+                { frequency: 880, durationMs: 150 }
+            ],
+            repeat: 1,
+            gapMs: 0
+        },
+        danger: {
+            notes: [
+                { frequency: 1760, durationMs: 200 },
+                { frequency: 0, durationMs: 100 },
+                { frequency: 1320, durationMs: 200 }
+            ],
+            repeat: 3,
+            gapMs: 300,
+            escalation: { afterMs: 60 * 1000, maxTimes: 5 }
+        }
+    },
+    quietHours: {
+        enabled: false,
+        start: '22:00',
+        end: '07:00',
+        allowLevels: ['danger']
+    },
+    muted: false,
+    mutedUntil: null
+};
@@ -0,0 +1,62 @@
+import { StationValues } from './sensor';
+
+export interface AnemometerConfig {
+    // GPIO pin configured as a pulse counter
+    pin: number;
+    // Wind speed for one pulse per second; 2.4 for the common cup anemometer
+    kmhPerHz: number;
+}
+
+export interface RainGaugeConfig {
+    // GPIO pin configured as a pulse counter
+    pin: number;
+    // Rain collected per bucket tip
+    mmPerTip: number;
+}
+
+export interface WindVaneConfig {
+    // ADS1115 on the I2C breakout header and the input the vane divider feeds
+    address: number;
+    channel: number;
+    supplyVolts: number;
+    // Fixed resistor between the supply and the vane
+    pullupOhms: number;
+}
+
+export interface StationConfig {
+    // Each sensor is optional; null when it isn't fitted
+    anemometer: AnemometerConfig | null;
+    rainGauge: RainGaugeConfig | null;
+    windVane: WindVaneConfig | null;
+    // Wind is sampled this often; gusts are the fastest sample
+    sampleMs: number;
+    // Window for the mean wind speed and direction
+    averageMs: number;
+    // Window the gust is the maximum over
+    gustMs: number;
+    // Window the rain rate is measured over
+    rainRateMs: number;
+    // How often readings go to monitoring and the time series
+    reportMs: number;
+    // Metres above sea level, for reducing the pressure to sea level
+    elevation: number;
+}
+
+export interface StationReading {
+    values: StationValues;
+    // Rainfall accumulates from device-local midnight or the last reset
+    rainfallSince: string;
+    timestamp: string;
+}
+
+export const DEFAULT_STATION: StationConfig = {
+    anemometer: null,
+    rainGauge: null,
+    windVane: null,
+    sampleMs: 3000,
+    averageMs: 2 * 60 * 1000,
+    gustMs: 10 * 60 * 1000,
+    rainRateMs: 60 * 60 * 1000,
+    reportMs: 60 * 1000,
+    elevation: 0
+};
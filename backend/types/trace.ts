@@ -0,0 +1,63 @@
+import { SensorReading, WeatherAlert } from './sensor';
+import { SensorModel } from './driver';
+
+export const TRACE_FORMAT_VERSION = 1;
+
+// Traces are JSON Lines: one header followed by events in recording order
+export interface TraceHeader {
+    type: 'header';
+    version: number;
+    deviceId: string;
+    sensorModel: SensorModel;
+    startedAt: string;
+}
+
+export interface TraceReadingEvent {
+    type: 'reading';
+    // Milliseconds since the start of the recording
+    offset: number;
+    data: SensorReading;
+}
+
+export interface TraceGPIOEvent {
+    type: 'gpio';
+    offset: number;
+    pin: number;
+    value: boolean;
+}
+
+export type TraceEvent = TraceReadingEvent | TraceGPIOEvent;
+
+export interface Trace {
+    name: string;
+    header: TraceHeader;
+    events: TraceEvent[];
+}
+
+export interface TraceSummary {
+    name: string;
+    deviceId: string;
+    startedAt: string;
+    readings: number;
+    gpioEvents: number;
+    durationMs: number;
+}
+
+export interface ReplayOptions {
+    // 1 replays in real time, 60 one recorded minute per second, 0 as fast as possible
+    speed?: number;
+}
+
+export interface ReplayResult {
+    name: string;
+    readings: number;
+    gpioEvents: number;
+    // Alerts raised by each replayed reading, in order
+    alerts: WeatherAlert[][];
+    completed: boolean;
+}
+
+export interface TraceStatus {
+    recording: string | null;
+    replaying: string | null;
+}
@@ -0,0 +1,51 @@
+jest.mock('../firebase', () => ({ __esModule: true, default: {} }));
+
+import dns from 'dns';
+import { assertPublicUrl, checkPublicUrl, isPublicAddress } from '../network';
+import { KitronikError } from '../errorHandling';
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.18.0.5', '192.168.1.10', '169.254.169.254', '100.64.0.1',
+    '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1'
+  ])('refuses %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe('checkPublicUrl', () => {
+  it.each([
+    'http://169.254.169.254/latest/meta-data',
+    'http://influxdb:8086/api/v2/write',
+    'http://localhost:3001/api',
+    'http://localhost./',
+    'http://[::1]:8080/',
+    'http://printer.local/',
+    'http://host.docker.internal/',
+    'ftp://example.com/'
+  ])('refuses %s', url => {
+    expect(() => checkPublicUrl(url)).toThrow(KitronikError);
+  });
+
+  it('allows public hosts', () => {
+    expect(checkPublicUrl('https://hooks.example.com/gusty').hostname).toBe('hooks.example.com');
+  });
+});
+
+describe('assertPublicUrl', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses names that resolve to private addresses', async () => {
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+    await expect(assertPublicUrl('https://hooks.example.com/')).rejects.toThrow(/private address/);
+  });
+
+  it('allows names that resolve to public addresses', async () => {
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    await expect(assertPublicUrl('https://hooks.example.com/')).resolves.toBeUndefined();
+  });
+});
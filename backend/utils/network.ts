@@ -0,0 +1,98 @@
+import dns from 'dns';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+import { KitronikError, CommunicationError } from './errorHandling';
+
+// Loopback, private (RFC1918), link-local, CGNAT, multicast and reserved ranges, which
+// cover the host, the docker network and cloud metadata endpoints such as 169.254.169.254
+const blocked = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => blocked.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blocked.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// Names that only resolve inside the host or the docker network
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  if (family === 6) {
+    // IPv4-mapped addresses reach the IPv4 host
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) return isPublicAddress(mapped[1]);
+    return !blocked.check(address, 'ipv6');
+  }
+  return !blocked.check(address, 'ipv4');
+}
+
+// Checks what can be told from the URL alone; single-label names such as docker services are refused
+export function checkPublicUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new KitronikError(`Invalid URL: ${url}`, 'VALIDATION_ERROR');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new KitronikError('URL must be http or https', 'VALIDATION_ERROR');
+  }
+
+  // A trailing dot makes a name fully qualified without changing where it points
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (net.isIP(host)) {
+    if (!isPublicAddress(host)) {
+      throw new KitronikError(`URL must not point at a private address: ${host}`, 'VALIDATION_ERROR');
+    }
+  } else if (!host.includes('.') || host === 'localhost' || INTERNAL_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    throw new KitronikError(`URL must use a public host name: ${host}`, 'VALIDATION_ERROR');
+  }
+  return parsed;
+}
+
+// Also resolves the host, so names pointing at private addresses are refused when the URL is saved
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { hostname } = checkPublicUrl(url);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return;
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch (error) {
+    // Worth retrying, unlike a private address
+    throw new CommunicationError(`Could not resolve ${host}`, error);
+  }
+  const internal = addresses.find(({ address }) => !isPublicAddress(address));
+  if (internal) {
+    throw new KitronikError(`${host} resolves to a private address: ${internal.address}`, 'VALIDATION_ERROR');
+  }
+}
+
+// Resolves like dns.lookup but fails for private addresses, so the check holds at connect time
+// even if the name has been re-pointed since it was saved
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const internal = addresses.find(({ address }) => !isPublicAddress(address));
+    if (internal || addresses.length === 0) {
+      const refused = new KitronikError(
+        `${hostname} resolves to a private address${internal ? `: ${internal.address}` : ''}`,
+        'VALIDATION_ERROR'
+      );
+      return callback(refused as NodeJS.ErrnoException, '', 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Agents for requests to user-supplied URLs
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
@@ -0,0 +1,41 @@
+// Writes the alert schema from shared/thresholds.ts into firestore.rules, which can't import it.
+// Run it with `npm run rules`, which builds lib first; `--check` only reports whether it is stale.
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { ALERT_TYPES, ALERT_LEVELS, MAX_ALERT_MESSAGE_LENGTH } from '../lib/shared/thresholds.js';
+
+const RULES_FILE = fileURLToPath(new URL('../../firestore.rules', import.meta.url));
+const SCHEMA_BLOCK = /( *\/\/ BEGIN alert schema[^\n]*\n)[\s\S]*?( *\/\/ END alert schema)/;
+
+const list = (values) => `[${values.map((value) => `'${value}'`).join(', ')}]`;
+
+const schema = [
+  '    function alertTypes() {',
+  `      return ${list(ALERT_TYPES)};`,
+  '    }',
+  '',
+  '    function alertLevels() {',
+  `      return ${list(ALERT_LEVELS)};`,
+  '    }',
+  '',
+  '    function maxAlertMessageLength() {',
+  `      return ${MAX_ALERT_MESSAGE_LENGTH};`,
+  '    }',
+  ''
+].join('\n');
+
+const rules = fs.readFileSync(RULES_FILE, 'utf8');
+if (!SCHEMA_BLOCK.test(rules)) {
+  throw new Error(`No alert schema block in ${RULES_FILE}`);
+}
+
+const generated = rules.replace(SCHEMA_BLOCK, (_, begin, end) => begin + schema + end);
+if (process.argv.includes('--check')) {
+  if (generated !== rules) {
+    console.error('firestore.rules is out of date with shared/thresholds.ts; run `npm --prefix functions run rules`');
+    process.exit(1);
+  }
+} else if (generated !== rules) {
+  fs.writeFileSync(RULES_FILE, generated);
+  console.log('Updated the alert schema in firestore.rules');
+}
@@ -11,6 +11,16 @@ import {onRequest} from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { AlertRule, evaluateRules } from '../../shared/alert-rules';
+import {
+  AlertDocument,
+  RateSample,
+  evaluateRates,
+  evaluateThresholds,
+  rateWindowMs,
+  ThresholdConfig,
+  withDefaults
+} from '../../shared/thresholds';
 
 admin.initializeApp();
 
@@ -150,38 +160,84 @@ export const processEnvironmentalReadings = functions.firestore
       const deviceData = deviceDoc.data();
       if (!deviceData) return null;
 
-      const userDoc = await admin.firestore()
-        .collection('users')
-        .doc(deviceData.userId)
-        .get();
-
-      if (!userDoc.exists) return null;
-
-      const userData = userDoc.data();
-      if (!userData) return null;
+      // Check the device's thresholds with the same checks as the backend's MonitoringService
+      const thresholds: ThresholdConfig | undefined = deviceData.thresholds;
+      const monitoringThresholds = withDefaults(thresholds?.thresholds);
+      const thresholdVersion = thresholds?.version ?? 0;
+      const timestamp = admin.firestore.Timestamp.now();
+      const raised = evaluateThresholds(monitoringThresholds, reading);
+
+      // Storm and frost need a run of readings, so the device's recent ones are checked too
+      const windowMs = rateWindowMs(monitoringThresholds);
+      if (windowMs > 0) {
+        const now = readingTime(snapshot);
+        const recent = await snapshot.ref.parent
+          .where('timestamp', '>=', admin.firestore.Timestamp.fromMillis(now - windowMs))
+          .orderBy('timestamp')
+          .get();
+
+        // The new reading comes last, even if it was stored without a timestamp
+        const samples: RateSample[] = recent.docs
+          .filter(doc => doc.id !== snapshot.id && readingTime(doc) <= now)
+          .concat(snapshot)
+          .map(doc => ({ time: readingTime(doc), pressure: doc.get('pressure'), temperature: doc.get('temperature') }));
+        raised.push(...evaluateRates(monitoringThresholds, samples));
+      }
 
-      // Check thresholds and create alerts
-      const thresholds = userData.thresholds || {};
-      const alerts = [];
+      // Like the backend's AlertService, an alert is only stored when it is first raised,
+      // not again on every reading while it stays active
+      const warningsRef = admin.firestore()
+        .collection('devices')
+        .doc(deviceId)
+        .collection('state')
+        .doc('warnings');
+
+      const fresh = await admin.firestore().runTransaction(async (transaction) => {
+        const stateDoc = await transaction.get(warningsRef);
+        const previous: string[] = stateDoc.data()?.active || [];
+        const active = raised.map(alert => alert.type);
+        transaction.set(warningsRef, { active });
+        return raised.filter(alert => !previous.includes(alert.type));
+      });
 
-      if (reading.temperature < thresholds.temperature?.min ||
-          reading.temperature > thresholds.temperature?.max) {
-        alerts.push({
-          type: 'temperature',
-          level: 'warning',
-          value: reading.temperature,
-          message: `Temperature outside range: ${reading.temperature}°C`,
-          timestamp: admin.firestore.FieldValue.serverTimestamp()
+      const alerts: AlertDocument[] = fresh.map(alert => ({
+        ...alert,
+        deviceId,
+        thresholdVersion,
+        timestamp
+      }));
+
+      // The device's own rules run on the same engine as the backend's MonitoringService;
+      // their timers live in Firestore between readings
+      const rules: AlertRule[] = deviceData.alertRules || [];
+      if (rules.length > 0) {
+        const stateRef = admin.firestore()
+          .collection('devices')
+          .doc(deviceId)
+          .collection('state')
+          .doc('alertRules');
+
+        const events = await admin.firestore().runTransaction(async (transaction) => {
+          const stateDoc = await transaction.get(stateRef);
+          const evaluation = evaluateRules(
+            rules,
+            reading,
+            stateDoc.data()?.states || {},
+            snapshot.createTime.toMillis()
+          );
+          transaction.set(stateRef, { states: evaluation.states });
+          return evaluation.events;
         });
-      }
 
-      if (reading.airQuality < thresholds.airQuality?.hazardous) {
-        alerts.push({
-          type: 'air_quality',
-          level: 'danger',
-          value: reading.airQuality,
-          message: `Hazardous air quality level: ${reading.airQuality}`,
-          timestamp: admin.firestore.FieldValue.serverTimestamp()
+        events.filter(event => event.type === 'fired').forEach(event => {
+          alerts.push({
+            type: 'rule',
+            level: event.severity,
+            ruleId: event.ruleId,
+            message: event.message,
+            deviceId,
+            timestamp
+          });
         });
       }
 
@@ -208,3 +264,57 @@ export const processEnvironmentalReadings = functions.firestore
       return null;
     }
 });
+
+// Readings carry the time they were taken; older ones may only have when they were stored
+function readingTime(doc: admin.firestore.DocumentSnapshot): number {
+  const timestamp = doc.get('timestamp');
+  if (timestamp instanceof admin.firestore.Timestamp) return timestamp.toMillis();
+  return doc.createTime ? doc.createTime.toMillis() : Date.now();
+}
+
+// Pass storm and frost warnings on to the device owner
+export const notifyWeatherWarnings = functions.firestore
+  .document('devices/{deviceId}/alerts/{alertId}')
+  .onCreate(async (snapshot, context) => {
+    const alert = snapshot.data();
+    const { deviceId } = context.params;
+
+    if (alert.type !== 'storm' && alert.type !== 'frost') return null;
+
+    try {
+      const deviceDoc = await admin.firestore()
+        .collection('devices')
+        .doc(deviceId)
+        .get();
+
+      const deviceData = deviceDoc.data();
+      if (!deviceData) return null;
+
+      const userRef = admin.firestore()
+        .collection('users')
+        .doc(deviceData.userId);
+
+      await admin.firestore().runTransaction(async (transaction) => {
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) return;
+
+        const notifications = userDoc.data()?.notifications || [];
+        notifications.push({
+          type: `${alert.type}_warning`,
+          level: alert.level,
+          message: alert.message,
+          deviceId,
+          deviceName: deviceData.name,
+          // Server timestamps can't go inside arrays
+          timestamp: admin.firestore.Timestamp.now()
+        });
+
+        transaction.update(userRef, { notifications });
+      });
+
+      return null;
+    } catch (error) {
+      console.error('Error sending weather warning:', error);
+      return null;
+    }
+});
@@ -0,0 +1,9 @@
+import nextJest from 'next/jest.js';
+
+const createJestConfig = nextJest({ dir: './' });
+
+// Backend and shared tests run under Node with Next's SWC transform
+export default createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/{backend,shared}/**/__tests__/**/*.test.ts']
+});
@@ -0,0 +1,39 @@
+// Service worker for Web Push alert notifications; the backend sends
+// { title, body, tag, level, url } payloads signed with its VAPID key.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Gusty Weather', {
+      body: data.body,
+      // One notification per alert; later changes replace it
+      tag: data.tag,
+      renotify: data.level === 'danger',
+      requireInteraction: data.level === 'danger',
+      icon: '/favicon.ico',
+      data: { url: data.url || '/alerts' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data.url;
+
+  // Focus an open tab on the alert centre, or open one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,155 @@
+import { AlertRule, RuleStates, evaluateRules, parseExpression, renderMessage, validateRule } from '../alert-rules';
+import { MAX_ALERT_MESSAGE_LENGTH } from '../thresholds';
+
+const MINUTE_MS = 60 * 1000;
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+    id: 'damp',
+    name: 'Damp',
+    enabled: true,
+    when: { field: 'humidity', operator: '>', value: 70 },
+    forMs: 0,
+    severity: 'warning',
+    message: 'Humidity at {{humidity}}%',
+    ...overrides
+});
+
+describe('parseExpression', () => {
+    it('parses a single comparison', () => {
+        expect(parseExpression('humidity > 70%')).toEqual({ field: 'humidity', operator: '>', value: 70 });
+    });
+
+    it('binds AND tighter than OR and expands the aliases', () => {
+        expect(parseExpression('aqi < 30 OR eco2 > 1500 and humidity >= 60')).toEqual({
+            any: [
+                { field: 'airQualityIndex', operator: '<', value: 30 },
+                {
+                    all: [
+                        { field: 'co2Equivalent', operator: '>', value: 1500 },
+                        { field: 'humidity', operator: '>=', value: 60 }
+                    ]
+                }
+            ]
+        });
+    });
+
+    it('groups with parentheses', () => {
+        expect(parseExpression('(temperature < -2.5 OR wind > 10) AND rainRate > 0')).toEqual({
+            all: [
+                {
+                    any: [
+                        { field: 'temperature', operator: '<', value: -2.5 },
+                        { field: 'windSpeed', operator: '>', value: 10 }
+                    ]
+                },
+                { field: 'rainRate', operator: '>', value: 0 }
+            ]
+        });
+    });
+
+    it.each([
+        ['humidity >', 'ends early'],
+        ['humidity => 70', 'Unrecognised'],
+        ['(humidity > 70', 'ends early'],
+        ['humidity > 70)', 'Unexpected ")"'],
+        ['humidity 70 >', 'Expected a comparison']
+    ])('rejects %p', (text, error) => {
+        expect(() => parseExpression(text)).toThrow(error);
+    });
+});
+
+describe('validateRule', () => {
+    it('accepts a valid rule', () => {
+        expect(validateRule(rule({ clear: parseExpression('humidity < 65'), clearForMs: MINUTE_MS }))).toEqual([]);
+    });
+
+    it.each<[string, unknown, string]>([
+        ['a non-object', 'damp', 'Rule must be an object'],
+        ['a bad id', rule({ id: 'no spaces' }), 'Rule id must be'],
+        ['a missing name', rule({ name: ' ' }), 'Rule name is required'],
+        ['an unknown severity', { ...rule(), severity: 'fatal' }, 'severity must be one of'],
+        ['a negative forMs', rule({ forMs: -1 }), 'forMs must be'],
+        ['a negative clearForMs', rule({ clearForMs: -1 }), 'clearForMs must be'],
+        ['an unknown field', rule({ when: { field: 'mood', operator: '>', value: 1 } }), 'when tests an unknown field: mood'],
+        ['a bad operator', { ...rule(), when: { field: 'humidity', operator: '=>', value: 70 } }, 'when operator must be'],
+        ['a non-numeric value', { ...rule(), when: { field: 'humidity', operator: '>', value: '70' } }, 'when value must be a number'],
+        ['an empty group', rule({ clear: { any: [] } }), 'clear groups need at least one condition'],
+        ['a bad nested condition', rule({ when: { all: [rule().when, { field: 'mood', operator: '>', value: 1 }] } }),
+            'when[1] tests an unknown field'],
+        ['a message over the alert limit', rule({ message: 'x'.repeat(MAX_ALERT_MESSAGE_LENGTH + 1) }),
+            `at most ${MAX_ALERT_MESSAGE_LENGTH} characters`]
+    ])('reports %s', (_, candidate, problem) => {
+        expect(validateRule(candidate)).toEqual([expect.stringContaining(problem)]);
+    });
+
+    it('keeps rendered messages within the alert limit', () => {
+        const long = rule({ name: 'n'.repeat(MAX_ALERT_MESSAGE_LENGTH), message: '{{name}}: {{humidity}}' });
+        expect(renderMessage(long, { humidity: 80 })).toHaveLength(MAX_ALERT_MESSAGE_LENGTH);
+    });
+});
+
+describe('evaluateRules', () => {
+    const run = (rules: AlertRule[], readings: [number, Record<string, unknown>][]) => {
+        let states: RuleStates = {};
+        return readings.map(([time, reading]) => {
+            const result = evaluateRules(rules, reading, states, time * MINUTE_MS);
+            states = result.states;
+            return result;
+        });
+    };
+
+    it('fires once the condition has held for forMs', () => {
+        const results = run([rule({ forMs: 5 * MINUTE_MS })], [
+            [0, { humidity: 75 }], [4, { humidity: 80 }], [5, { humidity: 80 }], [6, { humidity: 80 }]
+        ]);
+        expect(results.map(({ events }) => events.map(event => event.type))).toEqual([[], [], ['fired'], []]);
+        expect(results[2].events[0].message).toBe('Humidity at 80%');
+        expect(results[3].active).toEqual([expect.objectContaining({ ruleId: 'damp', type: 'fired' })]);
+    });
+
+    it('restarts the forMs timer when the condition lapses', () => {
+        const results = run([rule({ forMs: 5 * MINUTE_MS })], [
+            [0, { humidity: 75 }], [3, { humidity: 60 }], [4, { humidity: 75 }], [8, { humidity: 75 }], [9, { humidity: 75 }]
+        ]);
+        expect(results.map(({ events }) => events.length)).toEqual([0, 0, 0, 0, 1]);
+    });
+
+    it('leaves the timers alone for readings without the field', () => {
+        const results = run([rule({ forMs: 5 * MINUTE_MS })], [
+            [0, { humidity: 75 }], [3, { temperature: 20 }], [5, { humidity: 75 }]
+        ]);
+        expect(results[2].events).toEqual([expect.objectContaining({ type: 'fired' })]);
+    });
+
+    it('clears only once the clear condition has held for clearForMs', () => {
+        const hysteresis = rule({
+            clear: { field: 'humidity', operator: '<', value: 65 },
+            clearForMs: 2 * MINUTE_MS
+        });
+        const results = run([hysteresis], [
+            [0, { humidity: 75 }],
+            // Below `when` but not below `clear`, so still active
+            [1, { humidity: 68 }],
+            [2, { humidity: 60 }],
+            // Back above the clear level restarts the clearing timer
+            [3, { humidity: 66 }],
+            [4, { humidity: 60 }],
+            [5, { humidity: 60 }],
+            [6, { humidity: 60 }]
+        ]);
+        expect(results.map(({ events }) => events.map(event => event.type)))
+            .toEqual([['fired'], [], [], [], [], [], ['cleared']]);
+        expect(results[6].active).toEqual([]);
+        expect(results[6].states.damp).toEqual({ pendingSince: null, active: false, activeSince: null, clearingSince: null });
+    });
+
+    it('clears when `when` stops holding if there is no clear condition', () => {
+        const results = run([rule()], [[0, { humidity: 75 }], [1, { humidity: 70 }]]);
+        expect(results[1].events).toEqual([expect.objectContaining({ type: 'cleared' })]);
+    });
+
+    it('skips disabled rules', () => {
+        const [result] = run([rule({ enabled: false })], [[0, { humidity: 90 }]]);
+        expect(result).toEqual({ states: {}, events: [], active: [] });
+    });
+});
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import {
+    ALERT_LEVELS,
+    ALERT_TYPES,
+    DEFAULT_THRESHOLDS,
+    MAX_ALERT_MESSAGE_LENGTH,
+    RateSample,
+    evaluateRates,
+    rateWindowMs
+} from '../thresholds';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const samples = (values: Partial<RateSample>[], stepMs = 30 * MINUTE_MS): RateSample[] =>
+    values.map((value, index) => ({ time: index * stepMs, ...value }));
+
+describe('evaluateRates', () => {
+    it('warns of a storm when pressure falls within the window', () => {
+        const alerts = evaluateRates(DEFAULT_THRESHOLDS, samples([
+            { pressure: 1012 }, { pressure: 1011 }, { pressure: 1010 }, { pressure: 1008.5 }
+        ]));
+        expect(alerts).toEqual([expect.objectContaining({ type: 'storm', level: 'warning', value: 3.5 })]);
+        expect(alerts[0].message).toBe('Pressure down 3.5 hPa in 3 h, storm possible');
+    });
+
+    it('raises a severe fall to danger', () => {
+        const alerts = evaluateRates(DEFAULT_THRESHOLDS, samples([{ pressure: 1012 }, { pressure: 1005 }]));
+        expect(alerts[0]).toMatchObject({ type: 'storm', level: 'danger' });
+    });
+
+    it('ignores falls older than the window', () => {
+        const alerts = evaluateRates(DEFAULT_THRESHOLDS, samples([
+            { pressure: 1020 }, { pressure: 1010 }, { pressure: 1010 }
+        ], 2 * HOUR_MS));
+        expect(alerts).toEqual([]);
+    });
+
+    it('warns of frost once a falling temperature is low enough', () => {
+        expect(evaluateRates(DEFAULT_THRESHOLDS, samples([{ temperature: 8 }, { temperature: 4 }]))).toEqual([]);
+
+        const alerts = evaluateRates(DEFAULT_THRESHOLDS, samples([{ temperature: 4 }, { temperature: -0.5 }]));
+        expect(alerts).toEqual([expect.objectContaining({ type: 'frost', level: 'danger', value: -0.5 })]);
+    });
+
+    it('needs more than one reading', () => {
+        expect(evaluateRates(DEFAULT_THRESHOLDS, samples([{ pressure: 990, temperature: -5 }]))).toEqual([]);
+        expect(evaluateRates(DEFAULT_THRESHOLDS, [])).toEqual([]);
+    });
+
+    it('looks back as far as the longest window', () => {
+        expect(rateWindowMs(DEFAULT_THRESHOLDS)).toBe(3 * HOUR_MS);
+        expect(rateWindowMs({ ...DEFAULT_THRESHOLDS, storm: undefined, frost: undefined })).toBe(0);
+    });
+});
+
+describe('firestore.rules', () => {
+    const rules = fs.readFileSync(path.join(__dirname, '..', '..', 'firestore.rules'), 'utf8');
+    const returned = (name: string): string => {
+        const match = new RegExp(`function ${name}\\(\\) \\{\\s*return ([^;]+);`).exec(rules);
+        if (!match) throw new Error(`firestore.rules has no ${name}()`);
+        return match[1];
+    };
+    const list = (name: string): string[] => returned(name).match(/'[^']*'/g)?.map(value => value.slice(1, -1)) ?? [];
+
+    // Regenerate with `npm --prefix functions run rules` when this fails
+    it('checks alerts against the shared schema', () => {
+        expect(list('alertTypes')).toEqual(ALERT_TYPES);
+        expect(list('alertLevels')).toEqual(ALERT_LEVELS);
+        expect(Number(returned('maxAlertMessageLength'))).toBe(MAX_ALERT_MESSAGE_LENGTH);
+    });
+
+    it('validates alerts where the backend and Cloud Functions store them', () => {
+        expect(rules).toMatch(
+            /match \/devices\/\{deviceId\} \{\s*match \/alerts\/\{alertId\} \{[^}]*isValidAlert\(request\.resource\.data\)/
+        );
+    });
+});
@@ -0,0 +1,311 @@
+// Alert rules shared by the backend's MonitoringService and the Cloud Functions, so a
+// device's rules fire the same way wherever its readings are evaluated. Import only from
+// shared/: the functions codebase can't reach the backend's modules.
+
+import { MAX_ALERT_MESSAGE_LENGTH } from './thresholds';
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export type RuleSeverity = 'info' | 'warning' | 'danger';
+
+export const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<=', '==', '!='];
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['info', 'warning', 'danger'];
+
+// Reading fields rules can test, including the derived values and the station's wind and rain
+export const RULE_FIELDS = [
+    'temperature', 'humidity', 'pressure', 'gasResistance', 'airQuality', 'airQualityIndex',
+    'iaq', 'staticIaq', 'dynamicIaq', 'co2Equivalent', 'co2', 'vocEquivalent',
+    'windSpeed', 'windGust', 'windDirection', 'rainRate', 'rainfall',
+    'dewPoint', 'heatIndex', 'humidex', 'absoluteHumidity', 'vapourPressureDeficit', 'seaLevelPressure'
+];
+
+// Shorter names accepted in rule text
+export const RULE_FIELD_ALIASES: Record<string, string> = {
+    aqi: 'airQualityIndex',
+    eco2: 'co2Equivalent',
+    voc: 'vocEquivalent',
+    gust: 'windGust',
+    wind: 'windSpeed'
+};
+
+export interface RuleCondition {
+    field: string;
+    operator: RuleOperator;
+    value: number;
+}
+
+export type RuleExpression = RuleCondition | { all: RuleExpression[] } | { any: RuleExpression[] };
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    when: RuleExpression;
+    // How long `when` must hold before the rule fires
+    forMs: number;
+    // Hysteresis: an active rule only clears once this holds, or `when` stops holding if unset
+    clear?: RuleExpression;
+    clearForMs?: number;
+    severity: RuleSeverity;
+    // {{field}} is replaced with the reading's value, plus {{name}}, {{severity}} and {{duration}};
+    // at most MAX_ALERT_MESSAGE_LENGTH characters, before and after substitution
+    message: string;
+}
+
+export interface RuleState {
+    // When `when` started holding while the rule was inactive
+    pendingSince: number | null;
+    active: boolean;
+    activeSince: number | null;
+    // When the clear condition started holding while the rule was active
+    clearingSince: number | null;
+}
+
+export type RuleStates = Record<string, RuleState>;
+
+export interface RuleEvent {
+    ruleId: string;
+    name: string;
+    type: 'fired' | 'cleared';
+    severity: RuleSeverity;
+    message: string;
+    timestamp: number;
+}
+
+export interface RuleEvaluation {
+    states: RuleStates;
+    // Rules that fired or cleared on this reading
+    events: RuleEvent[];
+    // Every rule active after this reading, with its message
+    active: RuleEvent[];
+}
+
+const EMPTY_STATE: RuleState = { pendingSince: null, active: false, activeSince: null, clearingSince: null };
+
+// Evaluates every enabled rule against a reading; states from the previous call carry the timers
+export function evaluateRules(
+    rules: AlertRule[],
+    reading: Record<string, unknown>,
+    states: RuleStates,
+    now: number
+): RuleEvaluation {
+    const next: RuleStates = {};
+    const events: RuleEvent[] = [];
+    const active: RuleEvent[] = [];
+
+    rules.filter(rule => rule.enabled).forEach(rule => {
+        const state = { ...EMPTY_STATE, ...states[rule.id] };
+        const event = (type: RuleEvent['type']): RuleEvent => ({
+            ruleId: rule.id,
+            name: rule.name,
+            type,
+            severity: rule.severity,
+            message: renderMessage(rule, reading),
+            timestamp: now
+        });
+
+        if (!state.active) {
+            const holds = evaluateExpression(rule.when, reading);
+            // A reading without the fields leaves the timers as they were
+            if (holds === true) {
+                state.pendingSince = state.pendingSince ?? now;
+                if (now - state.pendingSince >= rule.forMs) {
+                    state.active = true;
+                    state.activeSince = now;
+                    state.clearingSince = null;
+                    events.push(event('fired'));
+                }
+            } else if (holds === false) {
+                state.pendingSince = null;
+            }
+        } else {
+            const clears = rule.clear
+                ? evaluateExpression(rule.clear, reading)
+                : negate(evaluateExpression(rule.when, reading));
+            if (clears === true) {
+                state.clearingSince = state.clearingSince ?? now;
+                if (now - state.clearingSince >= (rule.clearForMs ?? 0)) {
+                    Object.assign(state, EMPTY_STATE);
+                    events.push(event('cleared'));
+                }
+            } else if (clears === false) {
+                state.clearingSince = null;
+            }
+        }
+
+        if (state.active) {
+            active.push(event('fired'));
+        }
+        next[rule.id] = state;
+    });
+
+    return { states: next, events, active };
+}
+
+// true or false, or null when the reading lacks a field the expression needs
+export function evaluateExpression(expression: RuleExpression, reading: Record<string, unknown>): boolean | null {
+    if ('all' in expression) {
+        const results = expression.all.map(part => evaluateExpression(part, reading));
+        if (results.includes(false)) return false;
+        return results.includes(null) ? null : true;
+    }
+    if ('any' in expression) {
+        const results = expression.any.map(part => evaluateExpression(part, reading));
+        if (results.includes(true)) return true;
+        return results.includes(null) ? null : false;
+    }
+
+    const value = reading[expression.field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+    switch (expression.operator) {
+        case '>': return value > expression.value;
+        case '>=': return value >= expression.value;
+        case '<': return value < expression.value;
+        case '<=': return value <= expression.value;
+        case '==': return value === expression.value;
+        case '!=': return value !== expression.value;
+    }
+}
+
+// Cut to the alert schema's limit, as a long rule name can stretch the message past it
+export function renderMessage(rule: AlertRule, reading: Record<string, unknown>): string {
+    return rule.message.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+        if (key === 'name') return rule.name;
+        if (key === 'severity') return rule.severity;
+        if (key === 'duration') return formatDuration(rule.forMs);
+        const value = reading[RULE_FIELD_ALIASES[key] ?? key];
+        return typeof value === 'number' ? String(Math.round(value * 10) / 10) : match;
+    }).slice(0, MAX_ALERT_MESSAGE_LENGTH);
+}
+
+// Parses rule text such as "humidity > 70" or "aqi < 30 OR eco2 > 1500"; AND binds tighter than OR
+export function parseExpression(text: string): RuleExpression {
+    const tokens = text.match(/\(|\)|>=|<=|==|!=|>|<|[A-Za-z_]\w*|-?\d+(?:\.\d+)?%?/g) ?? [];
+    if (tokens.join('').replace(/%/g, '') !== text.replace(/[\s%]/g, '')) {
+        throw new Error(`Unrecognised rule text: ${text}`);
+    }
+    let position = 0;
+
+    const peek = () => tokens[position]?.toUpperCase();
+    const take = () => {
+        const token = tokens[position++];
+        if (token === undefined) throw new Error(`Rule text ends early: ${text}`);
+        return token;
+    };
+
+    const parseOr = (): RuleExpression => {
+        const parts = [parseAnd()];
+        while (peek() === 'OR') {
+            position++;
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : { any: parts };
+    };
+
+    const parseAnd = (): RuleExpression => {
+        const parts = [parseTerm()];
+        while (peek() === 'AND') {
+            position++;
+            parts.push(parseTerm());
+        }
+        return parts.length === 1 ? parts[0] : { all: parts };
+    };
+
+    const parseTerm = (): RuleExpression => {
+        if (peek() === '(') {
+            position++;
+            const inner = parseOr();
+            if (take() !== ')') throw new Error(`Missing ) in rule: ${text}`);
+            return inner;
+        }
+
+        const name = take();
+        const field = RULE_FIELD_ALIASES[name.toLowerCase()] ?? name;
+        const operator = take() as RuleOperator;
+        const value = Number(take().replace('%', ''));
+        if (!RULE_OPERATORS.includes(operator) || !Number.isFinite(value)) {
+            throw new Error(`Expected a comparison like "humidity > 70" in rule: ${text}`);
+        }
+        return { field, operator, value };
+    };
+
+    const expression = parseOr();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position]}" in rule: ${text}`);
+    }
+    return expression;
+}
+
+// Problems with a rule, empty when it is valid
+export function validateRule(candidate: unknown): string[] {
+    const problems: string[] = [];
+    if (typeof candidate !== 'object' || candidate === null) return ['Rule must be an object'];
+    const rule = candidate as Record<string, unknown>;
+
+    if (typeof rule.id !== 'string' || !/^[\w-]{1,64}$/.test(rule.id)) {
+        problems.push('Rule id must be 1-64 letters, digits, - or _');
+    }
+    if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+        problems.push('Rule name is required');
+    }
+    if (typeof rule.enabled !== 'boolean') {
+        problems.push('enabled must be a boolean');
+    }
+    if (!RULE_SEVERITIES.includes(rule.severity as RuleSeverity)) {
+        problems.push(`severity must be one of: ${RULE_SEVERITIES.join(', ')}`);
+    }
+    if (typeof rule.message !== 'string' || rule.message.trim().length === 0) {
+        problems.push('Rule message is required');
+    } else if (rule.message.length > MAX_ALERT_MESSAGE_LENGTH) {
+        problems.push(`Rule message must be at most ${MAX_ALERT_MESSAGE_LENGTH} characters`);
+    }
+    if (typeof rule.forMs !== 'number' || rule.forMs < 0) {
+        problems.push('forMs must be a number of at least 0');
+    }
+    if (rule.clearForMs !== undefined && (typeof rule.clearForMs !== 'number' || rule.clearForMs < 0)) {
+        problems.push('clearForMs must be a number of at least 0');
+    }
+
+    problems.push(...validateExpression(rule.when, 'when'));
+    if (rule.clear !== undefined) {
+        problems.push(...validateExpression(rule.clear, 'clear'));
+    }
+    return problems;
+}
+
+function validateExpression(candidate: unknown, path: string, depth = 0): string[] {
+    if (depth > 8) return [`${path} is nested too deeply`];
+    if (typeof candidate !== 'object' || candidate === null) return [`${path} must be a condition or group`];
+    const expression = candidate as Record<string, unknown>;
+
+    const group = expression.all ?? expression.any;
+    if (group !== undefined) {
+        if (!Array.isArray(group) || group.length === 0) return [`${path} groups need at least one condition`];
+        // No flatMap: the functions compile for ES2017
+        return group.reduce((problems: string[], part: unknown, index: number) =>
+            problems.concat(validateExpression(part, `${path}[${index}]`, depth + 1)), []);
+    }
+
+    const problems: string[] = [];
+    if (typeof expression.field !== 'string' || !RULE_FIELDS.includes(expression.field)) {
+        problems.push(`${path} tests an unknown field: ${expression.field}`);
+    }
+    if (!RULE_OPERATORS.includes(expression.operator as RuleOperator)) {
+        problems.push(`${path} operator must be one of: ${RULE_OPERATORS.join(' ')}`);
+    }
+    if (typeof expression.value !== 'number' || !Number.isFinite(expression.value)) {
+        problems.push(`${path} value must be a number`);
+    }
+    return problems;
+}
+
+function negate(result: boolean | null): boolean | null {
+    return result === null ? null : !result;
+}
+
+function formatDuration(ms: number): string {
+    if (ms >= 60 * 60 * 1000) return `${Math.round(ms / (60 * 60 * 1000) * 10) / 10} h`;
+    if (ms >= 60 * 1000) return `${Math.round(ms / (60 * 1000))} min`;
+    return `${Math.round(ms / 1000)} s`;
+}
@@ -0,0 +1,345 @@
+// Threshold checks and the alert schema shared by the backend's MonitoringService and the
+// Cloud Functions, so a reading raises the same alerts wherever it is evaluated. Keep this
+// file free of imports, as the functions can't reach the backend's modules. firestore.rules
+// can't import it, so the alert schema block there is generated from ALERT_TYPES,
+// ALERT_LEVELS and the message limit by `npm --prefix functions run rules`.
+
+export type AlertType =
+    'temperature' | 'humidity' | 'pressure' | 'airQuality' | 'wind' | 'rain' | 'heatIndex' | 'dewPoint' |
+    'storm' | 'frost' | 'rule' | 'device' | 'interlock';
+
+export type AlertLevel = 'info' | 'warning' | 'danger';
+
+export const ALERT_TYPES: AlertType[] = [
+    'temperature', 'humidity', 'pressure', 'airQuality', 'wind', 'rain', 'heatIndex', 'dewPoint',
+    'storm', 'frost', 'rule', 'device', 'interlock'
+];
+
+export const ALERT_LEVELS: AlertLevel[] = ['info', 'warning', 'danger'];
+
+export const MAX_ALERT_MESSAGE_LENGTH = 200;
+
+// Warnings worked out from a run of readings rather than the latest one
+export const RATE_ALERT_TYPES: AlertType[] = ['storm', 'frost'];
+
+// A Firestore Timestamp, which firestore.rules requires; the admin and web SDKs' classes both match
+export interface FirestoreTimestamp {
+    seconds: number;
+    nanoseconds: number;
+    toMillis(): number;
+}
+
+// An alert stored under devices/{deviceId}/alerts
+export interface AlertDocument {
+    type: AlertType;
+    level: AlertLevel;
+    message: string;
+    timestamp: FirestoreTimestamp;
+    value?: number;
+    deviceId: string;
+    // The device alert rule behind a 'rule' alert
+    ruleId?: string;
+    // The threshold version that raised a threshold alert
+    thresholdVersion?: number;
+}
+
+// An alert raised by a threshold, before it is stamped and stored
+export interface ThresholdAlert {
+    type: AlertType;
+    level: AlertLevel;
+    message: string;
+    // The reading behind the alert; the fall behind a storm warning
+    value?: number;
+}
+
+export interface MonitoringThresholds {
+    temperature: {
+        min: number;
+        max: number;
+    };
+    humidity: {
+        min: number;
+        max: number;
+    };
+    airQuality: {
+        poor: number;
+        hazardous: number;
+    };
+    // In hPa, as the sensor measures it
+    pressure?: {
+        min: number;
+        max: number;
+    };
+    // Gust speeds in km/h
+    wind?: {
+        warning: number;
+        danger: number;
+    };
+    // Rain rate in mm/h
+    rain?: {
+        heavy: number;
+    };
+    // Derived from temperature and humidity, in °C
+    heatIndex?: {
+        warning: number;
+        danger: number;
+    };
+    dewPoint?: {
+        max: number;
+    };
+    // Pressure falls in hPa within windowMs that warn of an approaching front
+    storm?: {
+        fall: number;
+        severeFall: number;
+        windowMs: number;
+    };
+    // Temperature falls in °C within windowMs that warn of frost, once it is below `below`
+    frost?: {
+        fall: number;
+        below: number;
+        windowMs: number;
+    };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_THRESHOLDS: MonitoringThresholds = {
+    temperature: { min: 15, max: 30 },
+    humidity: { min: 30, max: 70 },
+    airQuality: {
+        poor: 60,
+        hazardous: 30
+    },
+    pressure: { min: 980, max: 1020 },
+    wind: { warning: 50, danger: 75 },
+    rain: { heavy: 7.6 },
+    heatIndex: { warning: 32, danger: 41 },
+    dewPoint: { max: 21 },
+    storm: { fall: 3, severeFall: 6, windowMs: 3 * HOUR_MS },
+    frost: { fall: 3, below: 3, windowMs: 3 * HOUR_MS }
+};
+
+// A device's thresholds as stored on devices/{deviceId}, with every version kept under
+// devices/{deviceId}/thresholds
+export interface ThresholdConfig {
+    // Bumped on every change and stored with the alerts the thresholds raise
+    version: number;
+    thresholds: MonitoringThresholds;
+    updatedAt: string | null;
+    updatedBy: string | null;
+}
+
+export const DEFAULT_THRESHOLD_CONFIG: ThresholdConfig = {
+    version: 0,
+    thresholds: DEFAULT_THRESHOLDS,
+    updatedAt: null,
+    updatedBy: null
+};
+
+// Stored thresholds fill in any sections added since they were saved
+export function withDefaults(thresholds?: Partial<MonitoringThresholds>): MonitoringThresholds {
+    return { ...DEFAULT_THRESHOLDS, ...thresholds };
+}
+
+// Checks one reading against the thresholds. Storm and frost need a run of readings, so
+// they are checked by evaluateRates; missing fields, such as wind without a station, are skipped.
+export function evaluateThresholds(
+    thresholds: MonitoringThresholds,
+    reading: Record<string, unknown>
+): ThresholdAlert[] {
+    const alerts: ThresholdAlert[] = [];
+
+    const temperature = numberField(reading, 'temperature');
+    if (temperature !== undefined) {
+        if (temperature < thresholds.temperature.min) {
+            alerts.push({
+                type: 'temperature',
+                level: 'warning',
+                message: `Low temperature: ${temperature.toFixed(1)}°C`,
+                value: temperature
+            });
+        } else if (temperature > thresholds.temperature.max) {
+            alerts.push({
+                type: 'temperature',
+                level: 'danger',
+                message: `High temperature: ${temperature.toFixed(1)}°C`,
+                value: temperature
+            });
+        }
+    }
+
+    const humidity = numberField(reading, 'humidity');
+    if (humidity !== undefined &&
+        (humidity < thresholds.humidity.min || humidity > thresholds.humidity.max)) {
+        alerts.push({
+            type: 'humidity',
+            level: 'warning',
+            message: `Humidity outside range: ${humidity.toFixed(1)}%`,
+            value: humidity
+        });
+    }
+
+    const pressure = numberField(reading, 'pressure');
+    if (thresholds.pressure && pressure !== undefined) {
+        if (pressure < thresholds.pressure.min) {
+            alerts.push({
+                type: 'pressure',
+                level: 'info',
+                message: `Low pressure: ${pressure.toFixed(1)} hPa`,
+                value: pressure
+            });
+        } else if (pressure > thresholds.pressure.max) {
+            alerts.push({
+                type: 'pressure',
+                level: 'info',
+                message: `High pressure: ${pressure.toFixed(1)} hPa`,
+                value: pressure
+            });
+        }
+    }
+
+    // The backend names the Kitronik score airQualityIndex; stored readings name it airQuality
+    const airQuality = numberField(reading, 'airQualityIndex') ?? numberField(reading, 'airQuality');
+    if (airQuality !== undefined) {
+        if (airQuality < thresholds.airQuality.hazardous) {
+            alerts.push({
+                type: 'airQuality',
+                level: 'danger',
+                message: `Hazardous air quality: ${airQuality}`,
+                value: airQuality
+            });
+        } else if (airQuality < thresholds.airQuality.poor) {
+            alerts.push({
+                type: 'airQuality',
+                level: 'warning',
+                message: `Poor air quality: ${airQuality}`,
+                value: airQuality
+            });
+        }
+    }
+
+    const windGust = numberField(reading, 'windGust');
+    if (thresholds.wind && windGust !== undefined) {
+        if (windGust >= thresholds.wind.danger) {
+            alerts.push({
+                type: 'wind',
+                level: 'danger',
+                message: `Dangerous gusts: ${windGust.toFixed(0)} km/h`,
+                value: windGust
+            });
+        } else if (windGust >= thresholds.wind.warning) {
+            alerts.push({
+                type: 'wind',
+                level: 'warning',
+                message: `Strong gusts: ${windGust.toFixed(0)} km/h`,
+                value: windGust
+            });
+        }
+    }
+
+    const rainRate = numberField(reading, 'rainRate');
+    if (thresholds.rain && rainRate !== undefined && rainRate >= thresholds.rain.heavy) {
+        alerts.push({
+            type: 'rain',
+            level: 'warning',
+            message: `Heavy rain: ${rainRate.toFixed(1)} mm/h`,
+            value: rainRate
+        });
+    }
+
+    const heatIndex = numberField(reading, 'heatIndex');
+    if (thresholds.heatIndex && heatIndex !== undefined) {
+        if (heatIndex >= thresholds.heatIndex.danger) {
+            alerts.push({
+                type: 'heatIndex',
+                level: 'danger',
+                message: `Dangerous heat index: ${heatIndex.toFixed(1)}°C`,
+                value: heatIndex
+            });
+        } else if (heatIndex >= thresholds.heatIndex.warning) {
+            alerts.push({
+                type: 'heatIndex',
+                level: 'warning',
+                message: `High heat index: ${heatIndex.toFixed(1)}°C`,
+                value: heatIndex
+            });
+        }
+    }
+
+    const dewPoint = numberField(reading, 'dewPoint');
+    if (thresholds.dewPoint && dewPoint !== undefined && dewPoint > thresholds.dewPoint.max) {
+        alerts.push({
+            type: 'dewPoint',
+            level: 'warning',
+            message: `Muggy air, dew point ${dewPoint.toFixed(1)}°C`,
+            value: dewPoint
+        });
+    }
+
+    return alerts;
+}
+
+// Pressure and temperature at one time, for the storm and frost checks
+export interface RateSample {
+    time: number;
+    pressure?: number;
+    temperature?: number;
+}
+
+// How far back evaluateRates looks, so callers know which readings to keep or fetch
+export function rateWindowMs(thresholds: MonitoringThresholds): number {
+    return Math.max(thresholds.storm?.windowMs ?? 0, thresholds.frost?.windowMs ?? 0);
+}
+
+// Checks how fast pressure and temperature are falling, for approaching fronts and frost.
+// Samples run oldest first and end with the latest reading.
+export function evaluateRates(thresholds: MonitoringThresholds, samples: RateSample[]): ThresholdAlert[] {
+    const alerts: ThresholdAlert[] = [];
+    const latest = samples[samples.length - 1];
+    if (!latest) return alerts;
+    const { storm, frost } = thresholds;
+
+    const stormFall = storm ? fallWithin(samples, 'pressure', storm.windowMs, latest.time) : 0;
+    if (storm && stormFall >= storm.fall) {
+        alerts.push({
+            type: 'storm',
+            level: stormFall >= storm.severeFall ? 'danger' : 'warning',
+            message: `Pressure down ${stormFall.toFixed(1)} hPa in ${formatWindow(storm.windowMs)}, storm possible`,
+            value: stormFall
+        });
+    }
+
+    const temperature = latest.temperature;
+    const frostFall = frost ? fallWithin(samples, 'temperature', frost.windowMs, latest.time) : 0;
+    if (frost && temperature !== undefined && temperature <= frost.below && frostFall >= frost.fall) {
+        alerts.push({
+            type: 'frost',
+            level: temperature <= 0 ? 'danger' : 'warning',
+            message: `Temperature down ${frostFall.toFixed(1)}°C in ${formatWindow(frost.windowMs)}, frost likely`,
+            value: temperature
+        });
+    }
+
+    return alerts;
+}
+
+// How far a value has fallen from its highest point in the window
+function fallWithin(samples: RateSample[], field: 'pressure' | 'temperature', windowMs: number, now: number): number {
+    const values = samples
+        .filter(sample => sample.time >= now - windowMs)
+        .map(sample => sample[field])
+        .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+    if (values.length < 2) return 0;
+    return Math.max(...values) - values[values.length - 1];
+}
+
+function formatWindow(windowMs: number): string {
+    return windowMs >= HOUR_MS
+        ? `${Math.round(windowMs / HOUR_MS * 10) / 10} h`
+        : `${Math.round(windowMs / 60000)} min`;
+}
+
+function numberField(reading: Record<string, unknown>, field: string): number | undefined {
+    const value = reading[field];
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
@@ -27,6 +27,8 @@ import {
   ChartOptions
 } from 'chart.js';
 import { useTheme } from '@mui/material/styles';
+import { Measurement } from '../../backend/types/driver';
+import { DerivedValues } from '../../backend/types/meteorology';
 
 // Register ChartJS components
 ChartJS.register(
@@ -39,26 +41,34 @@ ChartJS.register(
   Legend
 );
 
-interface DataPoint {
-  temperature: number;
-  humidity: number;
-  pressure: number;
-  airQualityIndex: number;
+interface DataPoint extends DerivedValues {
+  temperature?: number;
+  humidity?: number;
+  pressure?: number;
+  airQualityIndex?: number;
+  windSpeed?: number;
+  windGust?: number;
+  rainRate?: number;
   timestamp: string;
 }
 
 interface DataVisualizationProps {
   data: DataPoint[];
+  // Measurements the device's sensor provides; all series are shown when omitted
+  measurements?: Measurement[];
   loading?: boolean;
   onRefresh?: () => void;
   timeRange?: '1h' | '24h' | '7d';
+  title?: string;
 }
 
 export const DataVisualization: React.FC<DataVisualizationProps> = ({
   data,
+  measurements,
   loading = false,
   onRefresh,
-  timeRange = '1h'
+  timeRange = '1h',
+  title = 'Environmental Trends'
 }) => {
   const theme = useTheme();
   const [viewMode, setViewMode] = React.useState<'chart' | 'table'>('chart');
@@ -108,14 +118,26 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({
         grid: {
           color: theme.palette.divider
         }
+      },
+      // Pressure is in hundreds of hPa, so it and sea level pressure get their own axis
+      y1: {
+        display: 'auto',
+        position: 'right',
+        beginAtZero: false,
+        grid: {
+          display: false
+        }
       }
     }
   };
 
+  const shows = (measurement: Measurement) => !measurements || measurements.includes(measurement);
+
   const chartData = {
     labels: data.map(d => new Date(d.timestamp).toLocaleTimeString()),
     datasets: [
       {
+        measurement: 'temperature' as Measurement,
         label: 'Temperature (°C)',
         data: data.map(d => d.temperature),
         borderColor: theme.palette.error.main,
@@ -124,6 +146,7 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({
         tension: 0.4
       },
       {
+        measurement: 'humidity' as Measurement,
         label: 'Humidity (%)',
         data: data.map(d => d.humidity),
         borderColor: theme.palette.info.main,
@@ -132,14 +155,117 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({
         tension: 0.4
       },
       {
+        measurement: 'pressure' as Measurement,
+        label: 'Pressure (hPa)',
+        data: data.map(d => d.pressure),
+        borderColor: theme.palette.grey[800],
+        backgroundColor: theme.palette.grey[800] + '20',
+        yAxisID: 'y1',
+        fill: false,
+        tension: 0.4
+      },
+      {
+        measurement: 'airQualityIndex' as Measurement,
         label: 'Air Quality',
         data: data.map(d => d.airQualityIndex),
         borderColor: theme.palette.success.main,
         backgroundColor: theme.palette.success.main + '20',
         fill: true,
         tension: 0.4
+      },
+      {
+        measurement: 'windSpeed' as Measurement,
+        label: 'Wind Speed (km/h)',
+        data: data.map(d => d.windSpeed),
+        borderColor: theme.palette.primary.main,
+        backgroundColor: theme.palette.primary.main + '20',
+        fill: true,
+        tension: 0.4
+      },
+      {
+        measurement: 'windGust' as Measurement,
+        label: 'Wind Gust (km/h)',
+        data: data.map(d => d.windGust),
+        borderColor: theme.palette.warning.main,
+        backgroundColor: theme.palette.warning.main + '20',
+        fill: false,
+        tension: 0.4
+      },
+      {
+        measurement: 'rainRate' as Measurement,
+        label: 'Rain Rate (mm/h)',
+        data: data.map(d => d.rainRate),
+        borderColor: theme.palette.secondary.main,
+        backgroundColor: theme.palette.secondary.main + '20',
+        fill: true,
+        tension: 0.4
+      },
+      // Derived values follow the measurement they need; the less common ones start hidden in the legend
+      {
+        measurement: 'humidity' as Measurement,
+        label: 'Dew Point (°C)',
+        data: data.map(d => d.dewPoint),
+        borderColor: theme.palette.info.dark,
+        backgroundColor: theme.palette.info.dark + '20',
+        borderDash: [6, 4],
+        fill: false,
+        tension: 0.4
+      },
+      {
+        measurement: 'humidity' as Measurement,
+        label: 'Heat Index (°C)',
+        data: data.map(d => d.heatIndex),
+        borderColor: theme.palette.error.dark,
+        backgroundColor: theme.palette.error.dark + '20',
+        borderDash: [6, 4],
+        fill: false,
+        tension: 0.4
+      },
+      {
+        measurement: 'humidity' as Measurement,
+        label: 'Humidex (°C)',
+        data: data.map(d => d.humidex),
+        borderColor: theme.palette.warning.dark,
+        backgroundColor: theme.palette.warning.dark + '20',
+        borderDash: [6, 4],
+        fill: false,
+        hidden: true,
+        tension: 0.4
+      },
+      {
+        measurement: 'humidity' as Measurement,
+        label: 'Absolute Humidity (g/m³)',
+        data: data.map(d => d.absoluteHumidity),
+        borderColor: theme.palette.info.light,
+        backgroundColor: theme.palette.info.light + '20',
+        borderDash: [2, 2],
+        fill: false,
+        hidden: true,
+        tension: 0.4
+      },
+      {
+        measurement: 'humidity' as Measurement,
+        label: 'Vapour Pressure Deficit (kPa)',
+        data: data.map(d => d.vapourPressureDeficit),
+        borderColor: theme.palette.success.dark,
+        backgroundColor: theme.palette.success.dark + '20',
+        borderDash: [2, 2],
+        fill: false,
+        hidden: true,
+        tension: 0.4
+      },
+      {
+        measurement: 'pressure' as Measurement,
+        label: 'Sea Level Pressure (hPa)',
+        data: data.map(d => d.seaLevelPressure),
+        borderColor: theme.palette.grey[600],
+        backgroundColor: theme.palette.grey[600] + '20',
+        yAxisID: 'y1',
+        fill: false,
+        hidden: true,
+        tension: 0.4
       }
-    ]
+    ].filter(({ measurement }) => shows(measurement))
   };
 
   return (
@@ -152,7 +278,7 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({
           mb: 3
         }}>
           <Typography variant="h6">
-            Environmental Trends
+            {title}
           </Typography>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
             <ToggleButtonGroup
@@ -218,18 +344,32 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({
                 <thead>
                   <tr>
                     <th>Time</th>
-                    <th>Temperature</th>
-                    <th>Humidity</th>
-                    <th>Air Quality</th>
+                    {shows('temperature') && <th>Temperature</th>}
+                    {shows('humidity') && <th>Humidity</th>}
+                    {shows('pressure') && <th>Pressure</th>}
+                    {shows('airQualityIndex') && <th>Air Quality</th>}
+                    {shows('windSpeed') && <th>Wind</th>}
+                    {shows('windGust') && <th>Gust</th>}
+                    {shows('rainRate') && <th>Rain</th>}
+                    {shows('humidity') && <th>Dew Point</th>}
+                    {shows('humidity') && <th>Heat Index</th>}
+                    {shows('pressure') && <th>Sea Level</th>}
                   </tr>
                 </thead>
                 <tbody>
                   {data.map((point, index) => (
                     <tr key={index}>
                       <td>{new Date(point.timestamp).toLocaleTimeString()}</td>
-                      <td>{point.temperature.toFixed(1)}°C</td>
-                      <td>{point.humidity.toFixed(1)}%</td>
-                      <td>{point.airQualityIndex}</td>
+                      {shows('temperature') && <td>{point.temperature?.toFixed(1)}°C</td>}
+                      {shows('humidity') && <td>{point.humidity?.toFixed(1)}%</td>}
+                      {shows('pressure') && <td>{point.pressure?.toFixed(1)} hPa</td>}
+                      {shows('airQualityIndex') && <td>{point.airQualityIndex}</td>}
+                      {shows('windSpeed') && <td>{point.windSpeed?.toFixed(1)} km/h</td>}
+                      {shows('windGust') && <td>{point.windGust?.toFixed(1)} km/h</td>}
+                      {shows('rainRate') && <td>{point.rainRate?.toFixed(1)} mm/h</td>}
+                      {shows('humidity') && <td>{point.dewPoint?.toFixed(1)}°C</td>}
+                      {shows('humidity') && <td>{point.heatIndex?.toFixed(1)}°C</td>}
+                      {shows('pressure') && <td>{point.seaLevelPressure?.toFixed(1)} hPa</td>}
                     </tr>
                   ))}
                 </tbody>
@@ -8,7 +8,8 @@ import {
   Slider,
   CircularProgress,
   Tooltip,
-  Fade
+  Fade,
+  Button
 } from '@mui/material';
 import { LoadingButton } from '@mui/lab';
 import {
@@ -21,6 +22,7 @@ import {
 } from '@mui/icons-material';
 import { KitronikOutputs } from '../services/kitronik.service';
 import { OutputStatus } from '../../backend/types/sensor';
+import { OutputOwner } from '../../backend/types/output';
 
 interface EnvironmentalControlsProps {
   temperature: number;
@@ -36,8 +38,21 @@ interface OutputControl {
   status: boolean;
   onToggle: () => Promise<void>;
   description: string;
+  owner?: OutputOwner;
+  onRelease?: () => Promise<void>;
 }
 
+const CONDITIONS_ANIMATION = 'dashboard-conditions';
+const RED = { r: 255, g: 0, b: 0 };
+const GREEN = { r: 0, g: 255, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+
+const describeOwner = (owner?: OutputOwner) => {
+  if (!owner || owner.priority === 'default') return null;
+  const until = owner.expiresAt ? ` until ${new Date(owner.expiresAt).toLocaleTimeString()}` : '';
+  return `${owner.priority}: ${owner.reason ?? owner.owner}${until}`;
+};
+
 export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
   temperature,
   humidity,
@@ -80,29 +95,17 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
 
   const handleLEDToggle = async () => {
     if (!outputStatus.ledsActive) {
-      const pattern = [
-        {
-          index: 0,
-          r: temperature > 25 ? 255 : 0,
-          g: temperature < 15 ? 255 : 0,
-          b: 0
-        },
-        {
-          index: 1,
-          r: humidity > 70 ? 255 : 0,
-          g: humidity < 30 ? 255 : 0,
-          b: 0
-        },
-        {
-          index: 2,
-          r: airQuality < 60 ? 255 : 0,
-          g: airQuality > 80 ? 255 : 0,
-          b: 0
-        }
-      ];
-      await KitronikOutputs.setLEDPattern(pattern);
+      // Each pixel follows its reading on the device instead of the value at the time of the click
+      await KitronikOutputs.playLEDAnimation({
+        type: 'group',
+        layers: [
+          { type: 'gradient', pixels: [0], measurement: 'temperature', min: 15, max: 25, stops: [BLUE, GREEN, RED] },
+          { type: 'gradient', pixels: [1], measurement: 'humidity', min: 30, max: 70, stops: [GREEN, RED] },
+          { type: 'gradient', pixels: [2], measurement: 'airQualityIndex', min: 60, max: 80, stops: [RED, GREEN] }
+        ]
+      }, { id: CONDITIONS_ANIMATION });
     } else {
-      await KitronikOutputs.setLEDPattern([]);
+      await KitronikOutputs.cancelLEDAnimation(CONDITIONS_ANIMATION);
     }
   };
 
@@ -117,12 +120,19 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
     await KitronikOutputs.setServoPosition(index, angle);
   };
 
+  const handleReleaseOverride = async (kind: 'power' | 'servo', index: number) => {
+    await withLoadingState(`${kind}-${index}-override`, async () => {
+      await KitronikOutputs.releaseOverride(kind, index);
+    });
+  };
+
   const handleAutoMode = async () => {
-    // Enable automatic control based on environmental conditions
+    // Enable automatic control based on environmental conditions.
+    // Auto mode writes at automation priority so it never overrides a manual setting.
     await withLoadingState('auto', async () => {
       // Set ventilation based on air quality
       if (airQuality < 60) {
-        await KitronikOutputs.setHighPowerOutput(0, true);
+        await KitronikOutputs.setHighPowerOutput(0, true, { mode: 'automation' });
       }
 
       // Set display to show current conditions
@@ -133,7 +143,7 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
 
       // Set servo positions based on conditions
       const humidityAngle = Math.round((humidity / 100) * 180);
-      await handleServoChange(0, humidityAngle);
+      await KitronikOutputs.setServoPosition(0, humidityAngle, { mode: 'automation' });
     });
   };
 
@@ -157,7 +167,9 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
       icon: <Fan />,
       status: outputStatus.highPowerState[0],
       onToggle: () => withLoadingState('ventilation', () => handleVentilationToggle(0)),
-      description: 'Control air circulation fan'
+      description: 'Control air circulation fan',
+      owner: outputStatus.owners?.highPower[0],
+      onRelease: () => handleReleaseOverride('power', 0)
     },
     {
       label: 'Auto Mode',
@@ -194,7 +206,23 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
                   {control.icon}
                 </IconButton>
               </Tooltip>
-              <Typography sx={{ ml: 1, flex: 1 }}>{control.label}</Typography>
+              <Box sx={{ ml: 1, flex: 1 }}>
+                <Typography>{control.label}</Typography>
+                {describeOwner(control.owner) && (
+                  <Typography variant="caption" color="text.secondary">
+                    {describeOwner(control.owner)}
+                  </Typography>
+                )}
+              </Box>
+              {control.onRelease && control.owner?.priority === 'manual' && (
+                <Button
+                  size="small"
+                  onClick={control.onRelease}
+                  sx={{ mr: 1 }}
+                >
+                  Resume auto
+                </Button>
+              )}
               <LoadingButton
                 loading={loading[control.label.toLowerCase()]}
                 onClick={control.onToggle}
@@ -225,6 +253,7 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
               <Box sx={{ ml: 1, flex: 1 }}>
                 <Typography variant="body2" color="text.secondary">
                   Servo {index + 1}
+                  {describeOwner(outputStatus.owners?.servos[index]) && ` (${describeOwner(outputStatus.owners?.servos[index])})`}
                 </Typography>
                 <Slider
                   value={position}
@@ -249,6 +278,11 @@ export const EnvironmentalControls: React.FC<EnvironmentalControlsProps> = ({
               <Typography sx={{ ml: 2, minWidth: 40 }}>
                 {position}°
               </Typography>
+              {outputStatus.owners?.servos[index]?.priority === 'manual' && (
+                <Button size="small" onClick={() => handleReleaseOverride('servo', index)}>
+                  Resume auto
+                </Button>
+              )}
               {loading[`servo-${index}`] && (
                 <CircularProgress size={16} sx={{ ml: 1 }} />
               )}
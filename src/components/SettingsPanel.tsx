@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -12,7 +12,8 @@ import {
   Slider,
   Alert,
   Collapse,
-  IconButton
+  IconButton,
+  LinearProgress
 } from '@mui/material';
 import { LoadingButton } from '@mui/lab';
 import {
@@ -22,11 +23,23 @@ import {
   ExpandLess as ExpandLessIcon
 } from '@mui/icons-material';
 import { MonitoringThresholds } from '../../backend/types/sensor';
+import { CalibrationJob } from '../../backend/types/calibration';
+import { BaselineDrift } from '../../backend/types/drift';
+import { ThresholdConfig } from '../../shared/thresholds';
 
 interface SettingsPanelProps {
   thresholds: MonitoringThresholds;
   onThresholdsChange: (thresholds: MonitoringThresholds) => Promise<void>;
+  // Version of the device's saved thresholds, shown with the sliders
+  thresholdConfig?: ThresholdConfig | null;
   onCalibrate: () => Promise<void>;
+  // Latest state of the running or last calibration, streamed by the page
+  calibration?: CalibrationJob | null;
+  onCancelCalibration?: () => Promise<void>;
+  // Auto-calibration policy state; the toggle saves through onAutoCalibrationChange
+  autoCalibration?: boolean;
+  onAutoCalibrationChange?: (enabled: boolean) => Promise<void>;
+  baselineDrift?: BaselineDrift | null;
 }
 
 interface ExpandableSection {
@@ -37,14 +50,28 @@ interface ExpandableSection {
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   thresholds,
   onThresholdsChange,
-  onCalibrate
+  thresholdConfig = null,
+  onCalibrate,
+  calibration = null,
+  onCancelCalibration,
+  autoCalibration: autoCalibrationEnabled = false,
+  onAutoCalibrationChange,
+  baselineDrift = null
 }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [expanded, setExpanded] = useState<Set<string>>(new Set(['thresholds']));
   const [localThresholds, setLocalThresholds] = useState(thresholds);
-  const [autoCalibration, setAutoCalibration] = useState(false);
+  const [autoCalibration, setAutoCalibration] = useState(autoCalibrationEnabled);
+
+  useEffect(() => {
+    setAutoCalibration(autoCalibrationEnabled);
+  }, [autoCalibrationEnabled]);
+
+  useEffect(() => {
+    setLocalThresholds(thresholds);
+  }, [thresholds]);
 
   const sections: ExpandableSection[] = [
     { title: 'Environmental Thresholds', key: 'thresholds' },
@@ -77,6 +104,24 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     }
   };
 
+  const handleAutoCalibrationChange = async (enabled: boolean) => {
+    setAutoCalibration(enabled);
+    try {
+      await onAutoCalibrationChange?.(enabled);
+    } catch (error) {
+      setAutoCalibration(!enabled);
+      setError(error instanceof Error ? error.message : 'Failed to update auto-calibration');
+    }
+  };
+
+  const handleCancelCalibration = async () => {
+    try {
+      await onCancelCalibration?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to cancel calibration');
+    }
+  };
+
   const handleCalibrate = async () => {
     setLoading(true);
     try {
@@ -120,6 +165,11 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <Box sx={{ py: 2 }}>
                 {key === 'thresholds' && (
                   <>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                      {thresholdConfig && thresholdConfig.version > 0
+                        ? `Version ${thresholdConfig.version}, saved ${new Date(thresholdConfig.updatedAt!).toLocaleString()}`
+                        : 'Default thresholds'}
+                    </Typography>
                     <Box sx={{ mb: 3 }}>
                       <Typography gutterBottom>Temperature Range (°C)</Typography>
                       <Box sx={{ px: 2 }}>
@@ -208,12 +258,32 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       control={
                         <Switch
                           checked={autoCalibration}
-                          onChange={(e) => setAutoCalibration(e.target.checked)}
+                          onChange={(e) => handleAutoCalibrationChange(e.target.checked)}
                         />
                       }
                       label="Enable Auto-Calibration"
                     />
-                    <Box sx={{ mt: 2 }}>
+                    {baselineDrift && (
+                      <Typography variant="body2" color="text.secondary">
+                        {baselineDrift.drift !== null
+                          ? `Baseline drift ${(baselineDrift.drift * 100).toFixed(1)}%`
+                          : 'No drift readings yet'}
+                        {` · staleness ${Math.round(baselineDrift.staleness * 100)}%`}
+                        {baselineDrift.due && baselineDrift.heldBy && ` · recalibration waiting (${baselineDrift.heldBy})`}
+                      </Typography>
+                    )}
+                    {calibration && (
+                      <Box sx={{ mt: 2 }}>
+                        <LinearProgress variant="determinate" value={calibration.progress} />
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                          {calibration.status === 'running' ? `${calibration.progress}%` : calibration.status}
+                          {calibration.stability &&
+                            ` · gas variation ${(calibration.stability.gasVariation * 100).toFixed(1)}%` +
+                            ` · drift ${(calibration.stability.gasDrift * 100).toFixed(1)}%`}
+                        </Typography>
+                      </Box>
+                    )}
+                    <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
                       <LoadingButton
                         loading={loading}
                         onClick={handleCalibrate}
@@ -222,6 +292,11 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       >
                         Calibrate Now
                       </LoadingButton>
+                      {calibration?.status === 'running' && onCancelCalibration && (
+                        <Button onClick={handleCancelCalibration} variant="outlined">
+                          Cancel
+                        </Button>
+                      )}
                     </Box>
                   </>
                 )}
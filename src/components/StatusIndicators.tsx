@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Skeleton,
+  Tooltip
+} from '@mui/material';
+import {
+  Measurement,
+  MeasurementValues,
+  MEASUREMENT_INFO
+} from '../../backend/types/driver';
+
+interface StatusIndicatorsProps {
+  values: MeasurementValues;
+  // Measurements reported by the device's sensor driver
+  measurements: Measurement[];
+  loading?: boolean;
+}
+
+const ROUNDED: Measurement[] = ['gasResistance', 'co2', 'co2Equivalent', 'windDirection'];
+
+const formatValue = (measurement: Measurement, value: number) =>
+  ROUNDED.includes(measurement)
+    ? Math.round(value).toString()
+    : value.toFixed(1);
+
+export const StatusIndicators: React.FC<StatusIndicatorsProps> = ({
+  values,
+  measurements,
+  loading = false
+}) => {
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+      {measurements.map(measurement => {
+        const info = MEASUREMENT_INFO[measurement];
+        const value = values[measurement];
+
+        return (
+          <Card key={measurement} sx={{ flex: '1 1 160px' }}>
+            <CardContent>
+              <Tooltip title={info.estimated ? 'Estimated from other readings' : ''}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  {info.label}{info.estimated ? ' *' : ''}
+                </Typography>
+              </Tooltip>
+              {loading ? (
+                <Skeleton width={80} height={40} />
+              ) : (
+                <Typography variant="h5">
+                  {value !== undefined ? `${formatValue(measurement, value)} ${info.unit}` : '—'}
+                </Typography>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </Box>
+  );
+};
@@ -5,17 +5,19 @@ import { StatusIndicators } from './StatusIndicators';
 import { EnvironmentalControls } from './EnvironmentalControls';
 import { DataVisualization } from './DataVisualization';
 import { KitronikOutputs } from '../services/kitronik.service';
-import { OutputStatus } from '../../backend/types/sensor';
+import { OutputStatus, StationValues } from '../../backend/types/sensor';
+import { Measurement, MeasurementValues } from '../../backend/types/driver';
+import { StationReading } from '../../backend/types/station';
 import { useAuthContext } from '../context/AuthContext';
 
-interface SensorData {
-  temperature: number;
-  humidity: number;
-  pressure: number;
-  airQualityIndex: number;
+interface SensorData extends MeasurementValues {
   timestamp: string;
 }
 
+// Shown until the device reports what its sensor can measure
+const DEFAULT_MEASUREMENTS: Measurement[] = ['temperature', 'humidity', 'pressure', 'airQualityIndex'];
+const STATION_MEASUREMENTS: Array<keyof StationValues> = ['windSpeed', 'windGust', 'windDirection', 'rainRate', 'rainfall'];
+
 const WeatherDashboard: React.FC = () => {
   const { user } = useAuthContext();
   const [currentData, setCurrentData] = useState<SensorData | null>(null);
@@ -23,6 +25,9 @@ const WeatherDashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [measurements, setMeasurements] = useState<Measurement[]>(DEFAULT_MEASUREMENTS);
+  const [station, setStation] = useState<StationReading | null>(null);
+  const [stationHistory, setStationHistory] = useState<StationReading[]>([]);
   const [outputStatus, setOutputStatus] = useState<OutputStatus>({
     displayActive: false,
     ledsActive: false,
@@ -35,7 +40,8 @@ const WeatherDashboard: React.FC = () => {
     try {
       const response = await fetch('/api/sensors/readings/current', {
         headers: {
-          Authorization: `Bearer ${await user?.getIdToken()}`
+          Authorization: `Bearer ${await user?.getIdToken()}`,
+          'x-device-token': localStorage.getItem('deviceToken') ?? ''
         }
       });
       
@@ -56,7 +62,8 @@ const WeatherDashboard: React.FC = () => {
     try {
       const response = await fetch('/api/sensors/readings/history', {
         headers: {
-          Authorization: `Bearer ${await user?.getIdToken()}`
+          Authorization: `Bearer ${await user?.getIdToken()}`,
+          'x-device-token': localStorage.getItem('deviceToken') ?? ''
         }
       });
       
@@ -73,11 +80,30 @@ const WeatherDashboard: React.FC = () => {
     }
   };
 
+  const fetchStationData = async () => {
+    try {
+      const [{ reading }, history] = await Promise.all([
+        KitronikOutputs.getStation(),
+        KitronikOutputs.getStationHistory()
+      ]);
+      setStation(reading);
+      setStationHistory(history);
+    } catch (err) {
+      // Most devices have no weather station, so this isn't worth a snackbar
+      console.error('Failed to fetch weather station data:', err);
+    }
+  };
+
+  // Only the wind and rain sensors that are fitted report values
+  const stationMeasurements = STATION_MEASUREMENTS.filter(
+    measurement => station?.values[measurement] !== undefined
+  );
+
   useEffect(() => {
     if (user) {
       const fetchData = async () => {
         setLoading(true);
-        await Promise.all([fetchCurrentData(), fetchHistoricalData()]);
+        await Promise.all([fetchCurrentData(), fetchHistoricalData(), fetchStationData()]);
         setLoading(false);
       };
 
@@ -90,6 +116,21 @@ const WeatherDashboard: React.FC = () => {
     }
   }, [autoRefresh, user]);
 
+  useEffect(() => {
+    const fetchCapabilities = async () => {
+      try {
+        const capabilities = await KitronikOutputs.getSensorCapabilities();
+        setMeasurements(capabilities.measurements.map(m => m.name));
+      } catch (error) {
+        console.error('Failed to fetch sensor capabilities:', error);
+      }
+    };
+
+    if (user) {
+      fetchCapabilities();
+    }
+  }, [user]);
+
   useEffect(() => {
     const fetchOutputStatus = async () => {
       try {
@@ -108,6 +149,7 @@ const WeatherDashboard: React.FC = () => {
   const handleManualRefresh = () => {
     fetchCurrentData();
     fetchHistoricalData();
+    fetchStationData();
   };
 
   const handleOutputStatusChange = (newStatus: OutputStatus) => {
@@ -120,7 +162,7 @@ const WeatherDashboard: React.FC = () => {
         <Typography variant="h4" component="h1">
           Weather Station Dashboard
         </Typography>
-        <Box></Box>
+        <Box>
           <Tooltip title="Toggle auto-refresh">
             <Button
               variant={autoRefresh ? 'contained' : 'outlined'}
@@ -146,10 +188,8 @@ const WeatherDashboard: React.FC = () => {
       {/* Environmental Status Indicators */}
       <Box sx={{ mb: 3 }}>
         <StatusIndicators
-          temperature={currentData?.temperature ?? 0}
-          humidity={currentData?.humidity ?? 0}
-          pressure={currentData?.pressure ?? 0}
-          airQuality={currentData?.airQualityIndex ?? 0}
+          values={{ ...currentData, ...station?.values }}
+          measurements={[...measurements, ...stationMeasurements]}
           loading={loading}
         />
       </Box>
@@ -159,9 +199,21 @@ const WeatherDashboard: React.FC = () => {
         <Grid2 item xs={12} md={8}>
           <DataVisualization
             data={historicalData}
+            measurements={measurements}
             loading={loading}
             onRefresh={handleManualRefresh}
           />
+          {stationMeasurements.length > 0 && (
+            <Box sx={{ mt: 3 }}>
+              <DataVisualization
+                title="Wind and Rain"
+                data={stationHistory.map(reading => ({ ...reading.values, timestamp: reading.timestamp }))}
+                measurements={stationMeasurements}
+                loading={loading}
+                onRefresh={handleManualRefresh}
+              />
+            </Box>
+          )}
         </Grid2>
 
         {/* Environmental Controls */}
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { MainLayout } from '../layouts/MainLayout';
+import { ProtectedRoute } from '../components/ProtectedRoute';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  CardActions,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  Menu,
+  MenuItem,
+  Tabs,
+  Tab
+} from '@mui/material';
+import { LoadingButton } from '@mui/lab';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { KitronikOutputs } from '../services/kitronik.service';
+import { useAuthContext } from '../context/AuthContext';
+import { AlertRecord, AlertStatus } from '../../backend/types/alert';
+
+const REFRESH_MS = 30 * 1000;
+
+const FILTERS: Array<{ label: string; statuses?: AlertStatus[] }> = [
+  { label: 'Needs attention', statuses: ['open'] },
+  { label: 'Acknowledged', statuses: ['acknowledged', 'snoozed'] },
+  { label: 'Resolved', statuses: ['resolved'] },
+  { label: 'All' }
+];
+
+const SNOOZE_OPTIONS = [
+  { label: '15 minutes', durationMs: 15 * 60 * 1000 },
+  { label: '1 hour', durationMs: 60 * 60 * 1000 },
+  { label: '8 hours', durationMs: 8 * 60 * 60 * 1000 }
+];
+
+const LEVEL_COLORS = {
+  info: 'info',
+  warning: 'warning',
+  danger: 'error'
+} as const;
+
+const STATUS_COLORS = {
+  open: 'error',
+  acknowledged: 'primary',
+  snoozed: 'default',
+  resolved: 'success'
+} as const;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const AlertsPage = () => {
+  const { user } = useAuthContext();
+  const [filter, setFilter] = useState(0);
+  const [alerts, setAlerts] = useState<AlertRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [snoozeMenu, setSnoozeMenu] = useState<{ anchor: HTMLElement; id: string } | null>(null);
+
+  const fetchAlerts = async () => {
+    setLoading(true);
+    try {
+      setAlerts(await KitronikOutputs.getAlerts(FILTERS[filter].statuses));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch alerts:', error);
+      setError('Failed to load alerts. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [user, filter]);
+
+  const act = async (action: () => Promise<AlertRecord>) => {
+    try {
+      await action();
+      await fetchAlerts();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update the alert');
+    }
+  };
+
+  const handleSnooze = (durationMs: number) => {
+    if (snoozeMenu) {
+      act(() => KitronikOutputs.snoozeAlert(snoozeMenu.id, durationMs));
+    }
+    setSnoozeMenu(null);
+  };
+
+  return (
+    <MainLayout>
+      <ProtectedRoute>
+        <Box sx={{ p: 3 }}>
+          <Box sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 3,
+            flexWrap: 'wrap',
+            gap: 2
+          }}>
+            <Typography variant="h4" component="h1">
+              Alerts
+            </Typography>
+
+            <LoadingButton
+              loading={loading}
+              onClick={fetchAlerts}
+              startIcon={<RefreshIcon />}
+              variant="outlined"
+              size="small"
+            >
+              Refresh
+            </LoadingButton>
+          </Box>
+
+          <Tabs value={filter} onChange={(_, value) => setFilter(value)} sx={{ mb: 3 }}>
+            {FILTERS.map(({ label }) => <Tab key={label} label={label} />)}
+          </Tabs>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading && alerts.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : alerts.length === 0 ? (
+            <Alert severity="success">No alerts here.</Alert>
+          ) : (
+            alerts.map(alert => (
+              <Card key={alert.id} sx={{ mb: 2 }}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+                    <Chip label={alert.level} color={LEVEL_COLORS[alert.level]} size="small" />
+                    <Chip label={alert.status} color={STATUS_COLORS[alert.status]} size="small" variant="outlined" />
+                    {alert.active && <Chip label="still active" size="small" variant="outlined" />}
+                    {alert.occurrences > 1 && <Chip label={`fired ${alert.occurrences} times`} size="small" />}
+                  </Box>
+
+                  <Typography variant="h6">{alert.message}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    First seen {formatTime(alert.firstSeen)}, last seen {formatTime(alert.lastSeen)}
+                  </Typography>
+                  {alert.acknowledgedAt && (
+                    <Typography variant="body2" color="text.secondary">
+                      Acknowledged by {alert.acknowledgedBy === user?.uid ? 'you' : alert.acknowledgedBy} at {formatTime(alert.acknowledgedAt)}
+                    </Typography>
+                  )}
+                  {alert.snoozedUntil && (
+                    <Typography variant="body2" color="text.secondary">
+                      Snoozed until {formatTime(alert.snoozedUntil)}
+                    </Typography>
+                  )}
+                  {alert.resolvedAt && (
+                    <Typography variant="body2" color="text.secondary">
+                      Resolved {alert.resolvedBy === 'system' ? 'automatically' : `by ${alert.resolvedBy === user?.uid ? 'you' : alert.resolvedBy}`} at {formatTime(alert.resolvedAt)}
+                    </Typography>
+                  )}
+                </CardContent>
+
+                {alert.status !== 'resolved' && (
+                  <CardActions>
+                    {alert.status !== 'acknowledged' && (
+                      <Button size="small" onClick={() => act(() => KitronikOutputs.acknowledgeAlert(alert.id))}>
+                        Acknowledge
+                      </Button>
+                    )}
+                    <Button size="small" onClick={(event) => setSnoozeMenu({ anchor: event.currentTarget, id: alert.id })}>
+                      Snooze
+                    </Button>
+                    <Button size="small" onClick={() => act(() => KitronikOutputs.resolveAlert(alert.id))}>
+                      Resolve
+                    </Button>
+                  </CardActions>
+                )}
+              </Card>
+            ))
+          )}
+
+          <Menu
+            anchorEl={snoozeMenu?.anchor}
+            open={snoozeMenu !== null}
+            onClose={() => setSnoozeMenu(null)}
+          >
+            {SNOOZE_OPTIONS.map(option => (
+              <MenuItem key={option.label} onClick={() => handleSnooze(option.durationMs)}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Menu>
+        </Box>
+      </ProtectedRoute>
+    </MainLayout>
+  );
+};
+
+export default AlertsPage;
@@ -33,7 +33,8 @@ const AnalyticsPage = () => {
 
       const response = await fetch(`/api/sensors/readings/history?${params}`, {
         headers: {
-          Authorization: `Bearer ${await user?.getIdToken()}`
+          Authorization: `Bearer ${await user?.getIdToken()}`,
+          'x-device-token': localStorage.getItem('deviceToken') ?? ''
         }
       });
       
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { MainLayout } from '../layouts/MainLayout';
+import { ProtectedRoute } from '../components/ProtectedRoute';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  LinearProgress
+} from '@mui/material';
+import { LoadingButton } from '@mui/lab';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { KitronikOutputs } from '../services/kitronik.service';
+import { useAuthContext } from '../context/AuthContext';
+import { Forecast, ForecastConfig } from '../../backend/types/forecast';
+
+const CONFIDENCE_COLORS = {
+  low: 'default',
+  medium: 'warning',
+  high: 'success'
+} as const;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const ForecastPage = () => {
+  const { user } = useAuthContext();
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [config, setConfig] = useState<ForecastConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchForecast = async (refresh = false) => {
+    setLoading(true);
+    try {
+      const result = await KitronikOutputs.getForecast(refresh);
+      setForecast(result.forecast);
+      setConfig(result.config);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch forecast:', error);
+      setError('Failed to load the forecast. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchForecast();
+    }
+  }, [user]);
+
+  const handleShowOnDisplay = async (showOnDisplay: boolean) => {
+    try {
+      setConfig(await KitronikOutputs.setForecastConfig({ showOnDisplay }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update forecast settings');
+    }
+  };
+
+  return (
+    <MainLayout>
+      <ProtectedRoute>
+        <Box sx={{ p: 3 }}>
+          <Box sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 3,
+            flexWrap: 'wrap',
+            gap: 2
+          }}>
+            <Typography variant="h4" component="h1">
+              Local Forecast
+            </Typography>
+
+            <LoadingButton
+              loading={loading}
+              onClick={() => fetchForecast(true)}
+              startIcon={<RefreshIcon />}
+              variant="outlined"
+              size="small"
+            >
+              Refresh
+            </LoadingButton>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Card>
+            <CardContent>
+              {loading && !forecast ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                  <CircularProgress />
+                </Box>
+              ) : !forecast ? (
+                <Alert severity="info">
+                  Not enough pressure history yet. The forecast needs at least an hour of readings.
+                </Alert>
+              ) : (
+                <>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <Typography variant="h5">{forecast.summary}</Typography>
+                    <Chip
+                      label={`${forecast.confidenceLevel} confidence`}
+                      color={CONFIDENCE_COLORS[forecast.confidenceLevel]}
+                      size="small"
+                    />
+                  </Box>
+
+                  <Typography color="text.secondary" gutterBottom>
+                    Pressure {forecast.seaLevelPressure.toFixed(1)} hPa, {forecast.tendencyText}
+                    {' '}({forecast.pressureChange > 0 ? '+' : ''}{forecast.pressureChange.toFixed(1)} hPa in 3 hours)
+                  </Typography>
+                  {forecast.windDirection !== null && (
+                    <Typography color="text.secondary" gutterBottom>
+                      Wind from {COMPASS_POINTS[Math.round(forecast.windDirection / 45) % 8]}
+                    </Typography>
+                  )}
+                  <Typography color="text.secondary" gutterBottom>
+                    Until {new Date(forecast.validUntil).toLocaleTimeString()}, issued {new Date(forecast.issuedAt).toLocaleTimeString()}
+                  </Typography>
+
+                  <Box sx={{ mt: 2 }}>
+                    <Typography variant="body2" gutterBottom>
+                      Confidence {Math.round(forecast.confidence * 100)}%
+                    </Typography>
+                    <LinearProgress variant="determinate" value={forecast.confidence * 100} />
+                  </Box>
+                </>
+              )}
+
+              {config && (
+                <FormControlLabel
+                  sx={{ mt: 2 }}
+                  control={
+                    <Switch
+                      checked={config.showOnDisplay}
+                      onChange={(_, checked) => handleShowOnDisplay(checked)}
+                    />
+                  }
+                  label="Show new forecasts on the device display"
+                />
+              )}
+            </CardContent>
+          </Card>
+        </Box>
+      </ProtectedRoute>
+    </MainLayout>
+  );
+};
+
+export default ForecastPage;
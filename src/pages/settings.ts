@@ -1,20 +1,62 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { MainLayout } from '../layouts/MainLayout';
 import { ProtectedRoute } from '../components/ProtectedRoute';
 import { SessionManager } from '../components/SessionManager';
 import { SettingsPanel } from '../components/SettingsPanel';
 import { Box, Grid2, Typography, Divider } from '@mui/material';
 import { useAuthContext } from '../context/AuthContext';
+import { KitronikOutputs } from '../services/kitronik.service';
+import { CalibrationJob } from '../../backend/types/calibration';
+import { BaselineDrift } from '../../backend/types/drift';
+import { MonitoringThresholds } from '../../backend/types/sensor';
+import { DEFAULT_THRESHOLDS, ThresholdConfig } from '../../shared/thresholds';
 
 const SettingsPage = () => {
   const { user } = useAuthContext();
 
-  const handleThresholdsChange = async (thresholds: any) => {
-    // Implementation will be added in the next iteration
+  const [calibration, setCalibration] = useState<CalibrationJob | null>(null);
+  const [autoCalibration, setAutoCalibration] = useState(false);
+  const [baselineDrift, setBaselineDrift] = useState<BaselineDrift | null>(null);
+  const [thresholds, setThresholds] = useState<ThresholdConfig | null>(null);
+
+  // Thresholds belong to the device selected by the stored device token
+  useEffect(() => {
+    KitronikOutputs.getThresholds()
+      .then(setThresholds)
+      .catch(error => console.error('Failed to load thresholds:', error));
+  }, []);
+
+  const handleThresholdsChange = async (changed: MonitoringThresholds) => {
+    setThresholds(await KitronikOutputs.setThresholds(changed));
+  };
+
+  useEffect(() => {
+    KitronikOutputs.getBaselineDrift()
+      .then(({ config, drift }) => {
+        setAutoCalibration(config.enabled);
+        setBaselineDrift(drift);
+      })
+      .catch(error => console.error('Failed to load baseline drift:', error));
+  }, [calibration?.finishedAt]);
+
+  const handleAutoCalibrationChange = async (enabled: boolean) => {
+    const config = await KitronikOutputs.setAutoCalibration({ enabled });
+    setAutoCalibration(config.enabled);
   };
 
   const handleCalibrate = async () => {
-    // Implementation will be added in the next iteration
+    const job = await KitronikOutputs.startCalibration();
+    setCalibration(job);
+    const finished = await KitronikOutputs.watchCalibration(job.id, setCalibration);
+    if (finished.status !== 'completed') {
+      throw new Error(finished.report?.reason ?? `Calibration ${finished.status}`);
+    }
+  };
+
+  const handleCancelCalibration = async () => {
+    if (calibration) {
+      await KitronikOutputs.cancelCalibration(calibration.id);
+    }
   };
 
   return (
@@ -28,13 +70,15 @@ const SettingsPage = () => {
           <Grid2 container spacing={3}>
             <Grid2 item xs={12} md={8}>
               <SettingsPanel
-                thresholds={{
-                  temperature: { min: 15, max: 30 },
-                  humidity: { min: 30, max: 70 },
-                  airQuality: { poor: 60, hazardous: 30 }
-                }}
+                thresholds={thresholds?.thresholds ?? DEFAULT_THRESHOLDS}
+                thresholdConfig={thresholds}
                 onThresholdsChange={handleThresholdsChange}
                 onCalibrate={handleCalibrate}
+                calibration={calibration}
+                onCancelCalibration={handleCancelCalibration}
+                autoCalibration={autoCalibration}
+                onAutoCalibrationChange={handleAutoCalibrationChange}
+                baselineDrift={baselineDrift}
               />
             </Grid2>
 
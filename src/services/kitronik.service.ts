@@ -1,6 +1,26 @@
 import axios from 'axios';
 import { getAuth } from 'firebase/auth';
-import { SensorStatus, OutputStatus, DisplayPattern, LEDPattern } from '../../backend/types/sensor';
+import { SensorStatus, OutputStatus, DisplayPattern, LEDPattern, MonitoringThresholds } from '../../backend/types/sensor';
+import { Measurement, SensorCapabilities } from '../../backend/types/driver';
+import { OutputKind, OutputOwner } from '../../backend/types/output';
+import { AnimationInfo, LEDAnimation, PlayOptions } from '../../backend/types/led';
+import { StationConfig, StationReading } from '../../backend/types/station';
+import { CalibrationJob, CalibrationOptions } from '../../backend/types/calibration';
+import { AutoCalibrationConfig, BaselineDrift, DriftPoint } from '../../backend/types/drift';
+import { BaselineComparison, BaselineRollback, BaselineVersion } from '../../backend/types/baseline';
+import { Correction, CorrectionConfig, ReferenceFitResult } from '../../backend/types/correction';
+import { Forecast, ForecastConfig } from '../../backend/types/forecast';
+import { ThresholdConfig } from '../../shared/thresholds';
+import { AlertRecord, AlertStatus } from '../../backend/types/alert';
+import { DeliveryRecord, NotificationPreferences, WebPushChannel } from '../../backend/types/notification';
+import { AlertRule, RuleStates } from '../../shared/alert-rules';
+
+export interface OutputCommandOptions {
+    // 'automation' yields to manual overrides instead of overriding them
+    mode?: 'manual' | 'automation';
+    // Manual override length; 0 holds it until released
+    durationMs?: number;
+}
 
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -118,20 +138,53 @@ export class KitronikOutputs {
         );
     }
 
-    static async setHighPowerOutput(index: number, state: boolean): Promise<void> {
+    static async playLEDAnimation(animation: LEDAnimation, options: PlayOptions = {}): Promise<AnimationInfo> {
         const config = await getAuthHeaders();
-        await withErrorHandling(() => 
-            axios.post(`${BASE_URL}/sensors/outputs/power/${index}`, { state }, config)
-        );
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/outputs/leds`, { animation, ...options }, config);
+            return response.data.animation;
+        });
     }
 
-    static async setServoPosition(index: number, angle: number): Promise<void> {
+    static async cancelLEDAnimation(id: string): Promise<void> {
         const config = await getAuthHeaders();
         await withErrorHandling(() => 
-            axios.post(`${BASE_URL}/sensors/outputs/servo/${index}`, { angle }, config)
+            axios.delete(`${BASE_URL}/sensors/outputs/leds/${id}`, config)
         );
     }
 
+    static async setHighPowerOutput(
+        index: number,
+        state: boolean,
+        options: OutputCommandOptions = {}
+    ): Promise<OutputOwner> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/outputs/power/${index}`, { state, ...options }, config);
+            return response.data.owner;
+        });
+    }
+
+    static async setServoPosition(
+        index: number,
+        angle: number,
+        options: OutputCommandOptions = {}
+    ): Promise<OutputOwner> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/outputs/servo/${index}`, { angle, ...options }, config);
+            return response.data.owner;
+        });
+    }
+
+    static async releaseOverride(kind: OutputKind, index: number): Promise<OutputOwner> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.delete(`${BASE_URL}/sensors/outputs/${kind}/${index}/override`, config);
+            return response.data.owner;
+        });
+    }
+
     static async getOutputStatus(): Promise<OutputStatus> {
         const config = await getAuthHeaders();
         return await withErrorHandling(async () => {
@@ -148,6 +201,14 @@ export class KitronikOutputs {
         });
     }
 
+    static async getSensorCapabilities(): Promise<SensorCapabilities> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/capabilities`, config);
+            return response.data;
+        });
+    }
+
     static async getEnvironmentalData(): Promise<any> {
         const config = await getAuthHeaders();
         return await withErrorHandling(async () => {
@@ -156,6 +217,323 @@ export class KitronikOutputs {
         });
     }
 
+    static async getStation(): Promise<{ config: StationConfig; reading: StationReading }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/station`, config);
+            return response.data;
+        });
+    }
+
+    static async getStationHistory(hours = 24): Promise<StationReading[]> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/station/history`, { ...config, params: { hours } });
+            return response.data.readings;
+        });
+    }
+
+    static async startCalibration(options: Partial<CalibrationOptions> = {}): Promise<CalibrationJob> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/calibrate`, options, config);
+            return response.data.job;
+        });
+    }
+
+    static async getCalibration(id: string): Promise<CalibrationJob> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/calibration/${id}`, config);
+            return response.data.job;
+        });
+    }
+
+    static async cancelCalibration(id: string): Promise<CalibrationJob> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.delete(`${BASE_URL}/sensors/calibration/${id}`, config);
+            return response.data.job;
+        });
+    }
+
+    // Follows the job's event stream, calling onUpdate for every event; resolves with the finished job
+    static async watchCalibration(
+        id: string,
+        onUpdate: (job: CalibrationJob) => void,
+        signal?: AbortSignal
+    ): Promise<CalibrationJob> {
+        const { headers } = await getAuthHeaders();
+        // EventSource can't send the auth headers, so read the stream by hand
+        const response = await fetch(`${BASE_URL}/sensors/calibration/${id}/events`, { headers, signal });
+        if (!response.ok || !response.body) {
+            throw new KitronikError(`Calibration stream failed (${response.status})`, 'CLIENT_ERROR');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const events = buffer.split('\n\n');
+            buffer = events.pop() ?? '';
+            for (const event of events) {
+                const name = /^event: (.*)$/m.exec(event)?.[1];
+                const data = /^data: (.*)$/m.exec(event)?.[1];
+                if (!data) continue;
+
+                const job: CalibrationJob = JSON.parse(data);
+                onUpdate(job);
+                if (name === 'finished') {
+                    await reader.cancel();
+                    return job;
+                }
+            }
+        }
+        throw new KitronikError('Calibration stream ended before the job finished', 'OPERATION_FAILED');
+    }
+
+    static async getBaselineDrift(): Promise<{ config: AutoCalibrationConfig; drift: BaselineDrift; history: DriftPoint[] }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/baseline/drift`, config);
+            return response.data;
+        });
+    }
+
+    static async setAutoCalibration(settings: Partial<AutoCalibrationConfig>): Promise<AutoCalibrationConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/sensors/baseline/auto-calibration`, settings, config);
+            return response.data.config;
+        });
+    }
+
+    static async getBaselineVersions(): Promise<{ versions: BaselineVersion[]; current: number | null }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/baseline/versions`, config);
+            return response.data;
+        });
+    }
+
+    static async compareBaselineVersions(from: number, to: number): Promise<BaselineComparison> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/baseline/versions/compare`, { ...config, params: { from, to } });
+            return response.data;
+        });
+    }
+
+    static async rollbackBaseline(version: number): Promise<BaselineRollback> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/baseline/rollback`, { version }, config);
+            return { baseline: response.data.baseline, superseded: response.data.superseded };
+        });
+    }
+
+    static async getThresholds(): Promise<ThresholdConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/monitoring/thresholds`, config);
+            return response.data;
+        });
+    }
+
+    static async setThresholds(thresholds: Partial<MonitoringThresholds>): Promise<ThresholdConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/sensors/monitoring/thresholds`, { thresholds }, config);
+            return response.data.config;
+        });
+    }
+
+    // Newest first, so changes to a device's thresholds can be traced
+    static async getThresholdVersions(limit = 20): Promise<ThresholdConfig[]> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/monitoring/thresholds/versions`, { ...config, params: { limit } });
+            return response.data.versions;
+        });
+    }
+
+    static async getCorrections(): Promise<CorrectionConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/corrections`, config);
+            return response.data;
+        });
+    }
+
+    static async setCorrections(corrections: Partial<Record<Measurement, Correction>>): Promise<CorrectionConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/sensors/corrections`, { corrections }, config);
+            return response.data.config;
+        });
+    }
+
+    // Fits corrections from a reference instrument's CSV; apply stores them as a new version
+    static async uploadReferenceCsv(
+        csv: string,
+        options: { maxGapMs?: number; apply?: boolean } = {}
+    ): Promise<{ fits: ReferenceFitResult[]; config?: CorrectionConfig }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/sensors/corrections/reference`, csv, {
+                ...config,
+                headers: { ...config.headers, 'Content-Type': 'text/csv' },
+                params: options
+            });
+            return { fits: response.data.fits, config: response.data.config };
+        });
+    }
+
+    static async getForecast(refresh = false): Promise<{ forecast: Forecast | null; config: ForecastConfig }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/weather/forecast`, {
+                ...config,
+                params: refresh ? { refresh: true } : undefined
+            });
+            return response.data;
+        });
+    }
+
+    static async setForecastConfig(forecast: Partial<ForecastConfig>): Promise<ForecastConfig> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/weather/forecast`, forecast, config);
+            return response.data.config;
+        });
+    }
+
+    static async getAlertRules(): Promise<{ rules: AlertRule[]; states: RuleStates }> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/sensors/rules`, config);
+            return response.data;
+        });
+    }
+
+    // Conditions may be given as text, e.g. when: 'aqi < 30 OR eco2 > 1500'
+    static async setAlertRules(rules: Array<Omit<AlertRule, 'when' | 'clear'> & {
+        when: AlertRule['when'] | string;
+        clear?: AlertRule['when'] | string;
+    }>): Promise<AlertRule[]> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/sensors/rules`, { rules }, config);
+            return response.data.rules;
+        });
+    }
+
+    static async getAlerts(statuses?: AlertStatus[]): Promise<AlertRecord[]> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/alerts`, {
+                ...config,
+                params: statuses ? { status: statuses.join(',') } : undefined
+            });
+            return response.data.alerts;
+        });
+    }
+
+    static async acknowledgeAlert(id: string, note?: string): Promise<AlertRecord> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/alerts/${id}/acknowledge`, { note }, config);
+            return response.data.alert;
+        });
+    }
+
+    static async snoozeAlert(id: string, durationMs: number, note?: string): Promise<AlertRecord> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/alerts/${id}/snooze`, { durationMs, note }, config);
+            return response.data.alert;
+        });
+    }
+
+    static async resolveAlert(id: string, note?: string): Promise<AlertRecord> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/alerts/${id}/resolve`, { note }, config);
+            return response.data.alert;
+        });
+    }
+
+    static async getNotificationPreferences(): Promise<NotificationPreferences> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/notifications/preferences`, config);
+            return response.data;
+        });
+    }
+
+    static async setNotificationPreferences(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.put(`${BASE_URL}/notifications/preferences`, preferences, config);
+            return response.data.preferences;
+        });
+    }
+
+    static async getNotificationDeliveries(limit = 50): Promise<DeliveryRecord[]> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/notifications/deliveries`, { ...config, params: { limit } });
+            return response.data.deliveries;
+        });
+    }
+
+    static async testNotificationChannel(channelId: string): Promise<DeliveryRecord> {
+        const config = await getAuthHeaders();
+        return await withErrorHandling(async () => {
+            const response = await axios.post(`${BASE_URL}/notifications/channels/${channelId}/test`, {}, config);
+            return response.data.delivery;
+        });
+    }
+
+    // Registers public/sw.js, subscribes this browser and routes warnings and worse to it
+    static async enablePushNotifications(name = 'This browser'): Promise<NotificationPreferences> {
+        if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+            throw new KitronikError('This browser does not support push notifications');
+        }
+        if (await Notification.requestPermission() !== 'granted') {
+            throw new KitronikError('Notifications are blocked for this site');
+        }
+
+        const config = await getAuthHeaders();
+        const { publicKey } = await withErrorHandling(async () => {
+            const response = await axios.get(`${BASE_URL}/notifications/push-key`, config);
+            return response.data;
+        });
+
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        const subscription = await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: publicKey
+        });
+
+        const channel: WebPushChannel = {
+            id: `push-${Date.now()}`,
+            name,
+            enabled: true,
+            type: 'webpush',
+            subscription: subscription.toJSON() as WebPushChannel['subscription']
+        };
+        const preferences = await this.getNotificationPreferences();
+        return this.setNotificationPreferences({
+            channels: [...preferences.channels, channel],
+            routes: [...preferences.routes, { channelId: channel.id, minLevel: 'warning', deviceIds: [] }]
+        });
+    }
+
     static clearTokens(): void {
         localStorage.removeItem('deviceToken');
         localStorage.removeItem('sessionToken');